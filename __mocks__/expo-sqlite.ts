@@ -44,12 +44,20 @@ class MockSQLiteDatabase {
     stmt.run(...(params as unknown[]));
   }
 
-  async runAsync(source: string, params?: unknown[]): Promise<void> {
+  async runAsync(source: string, params?: unknown[]): Promise<{ lastInsertRowId: number; changes: number }> {
     const stmt = this._db.prepare(source);
-    if (params && params.length > 0) {
-      stmt.run(...(params as unknown[]));
-    } else {
-      stmt.run();
+    const info = params && params.length > 0 ? stmt.run(...(params as unknown[])) : stmt.run();
+    return { lastInsertRowId: Number(info.lastInsertRowid), changes: info.changes };
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this._db.exec('BEGIN');
+    try {
+      await task();
+      this._db.exec('COMMIT');
+    } catch (error) {
+      this._db.exec('ROLLBACK');
+      throw error;
     }
   }
 
@@ -9,10 +9,18 @@ import { MapControls } from '@/components/maps/MapControls';
 import { MapLayer } from '@/components/maps/MapLayerSelector';
 import { MapView } from '@/components/maps/MapView';
 import { ReportIssueModal } from '@/components/maps/ReportIssueModal';
+import { FeedbackDrawingLayer } from '@/components/maps/FeedbackDrawingLayer';
+import { FeedbackDrawingToolbar } from '@/components/maps/FeedbackDrawingToolbar';
 import { FeedbackMarkers } from '@/components/maps/FeedbackMarkers';
 import { FeedbackDetailsModal } from '@/components/modals/FeedbackDetailsModal';
 import { RoadSectionsLayer } from '@/components/maps/RoadSectionsLayer';
 import { RoadSectionDetailSheet } from '@/components/maps/RoadSectionDetailSheet';
+import { TripHeatmapLayer } from '@/components/maps/TripHeatmapLayer';
+import { GlobalHeatmapLegend, PersonalHeatmapLegend, type HeatmapPeriod } from '@/components/maps/HeatmapLegend';
+import { PlannedRouteLayer } from '@/components/maps/PlannedRouteLayer';
+import { RoutePlannerPanel } from '@/components/maps/RoutePlannerPanel';
+import { MyRoutesLayer } from '@/components/maps/MyRoutesLayer';
+import { MY_ROUTES_TRIP_TYPES, MyRoutesPanel, type MyRoutesDateRange } from '@/components/maps/MyRoutesPanel';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLocation } from '@/lib/hooks/useLocation';
 import { useMapMode } from '@/lib/hooks/useMapMode';
@@ -20,51 +28,37 @@ import { useMapLayer } from '@/lib/hooks/useMapLayer';
 import { useMapFeedback } from '@/lib/hooks/useMapFeedback';
 import { useGlobalFeedback } from '@/lib/hooks/useGlobalFeedback';
 import { usePersonalRoadSections, useCommunityRoadSections } from '@/lib/hooks/useRoadSections';
+import { useGlobalHeatmap, usePersonalHeatmap } from '@/lib/hooks/useHeatmap';
+import { useRoutePlanner } from '@/lib/hooks/useRoutePlanner';
+import { useMyRoutes } from '@/lib/hooks/useMyRoutes';
 import { mockUserLocation } from '@/lib/utils/mockMapData';
 import { LineLayer, ShapeSource } from '@rnmapbox/maps';
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
-import { StyleSheet, Alert } from 'react-native';
+import { StyleSheet } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { parseRouteData } from '@/lib/utils/geoCalculations';
-import { getTripTypeColor } from '@/types/trip';
+import { encodeGuideRoute } from '@/lib/utils/routeFollower';
+import { filterMyRoutes, type RouteColorBy } from '@/lib/utils/routeHistory';
+import type { Junction } from '@/lib/utils/placeRatings';
+import {
+  buildFeedbackGeometry,
+  feedbackTypeOf,
+  geometryCenter,
+  geometryPoints,
+  MAX_DRAWING_POINTS,
+} from '@/lib/utils/feedbackGeometry';
+import { getTripTypeColor, type TripType } from '@/types/trip';
 import { isVisibleTripType } from '@/lib/utils/tripTypeUi';
 import type { Trip as DBTrip } from '@/lib/database/db';
-import { useTrips } from '@/lib/hooks/useTrips';
-import type { ApiTrip } from '@/lib/api/trips';
-import { useFocusEffect } from 'expo-router';
+import { useLocalTrips } from '@/lib/hooks/useTrips';
+import { router, useFocusEffect } from 'expo-router';
 import type { MapViewMode } from '@/types/mapMode';
-import type { MapFeedback } from '@/lib/api/mapFeedback';
+import type { GeoJSONGeometry, MapFeedback, MapFeedbackType } from '@/lib/api/mapFeedback';
 import type { GlobalFeedback } from '@/lib/api/globalFeedback';
 import type { RoadSectionPersonal, RoadSectionCommunity } from '@/lib/api/roadSections';
-
-// Transform backend ApiTrip to local Trip format
-function transformApiTripToLocal(apiTrip: ApiTrip): DBTrip {
-  return {
-    id: apiTrip.client_id,
-    user_id: apiTrip.user.toString(),
-    type: apiTrip.type,
-    status: apiTrip.status,
-    is_manual: apiTrip.is_manual ? 1 : 0,
-    start_time: new Date(apiTrip.start_timestamp).getTime(),
-    end_time: new Date(apiTrip.end_timestamp).getTime(),
-    distance: apiTrip.distance * 1000, // Convert km to meters
-    duration: apiTrip.duration,
-    avg_speed: apiTrip.average_speed,
-    max_speed: 0,
-    elevation_gain: apiTrip.elevation_gain || 0,
-    calories: 0,
-    co2_saved: apiTrip.co2_saved,
-    notes: apiTrip.notes || null,
-    route_data: apiTrip.route ? JSON.stringify(apiTrip.route) : null,
-    created_at: new Date(apiTrip.created_at).getTime(),
-    updated_at: new Date(apiTrip.updated_at).getTime(),
-    synced: 1,
-    backend_id: apiTrip.id,
-    ml_activity_type: null,
-    ml_confidence: null,
-    classification_method: 'speed',
-  };
-}
+import type { MapViewport } from '@/lib/utils/mapTiles';
+import type { GlobalHeatmapTripType, HeatmapTimeOfDay } from '@/lib/api/globalHeatmap';
+import type { Coordinate } from '@/types/location';
 
 export default function MapsScreen() {
   const { isDark } = useTheme();
@@ -93,25 +87,67 @@ export default function MapsScreen() {
   const [, setIsBottomSheetExpanded] = useState(false);
   const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
   const [isReportModalVisible, setIsReportModalVisible] = useState(false);
-  const [reportCoordinates, setReportCoordinates] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [reportGeometry, setReportGeometry] = useState<GeoJSONGeometry | null>(null);
+  const [editingFeedback, setEditingFeedback] = useState<MapFeedback | null>(null);
+  // Path or area being traced for a report; the report modal is hidden meanwhile
+  const [drawing, setDrawing] = useState<{ type: MapFeedbackType; points: Coordinate[] } | null>(null);
   const [selectedFeedback, setSelectedFeedback] = useState<MapFeedback | GlobalFeedback | null>(null);
   const [selectedRoadSection, setSelectedRoadSection] = useState<RoadSectionPersonal | RoadSectionCommunity | null>(null);
+  const [selectedJunction, setSelectedJunction] = useState<Junction | null>(null);
   const mapViewRef = useRef<any>(null);
-
-  // Fetch trips from backend (including active trips that weren't properly stopped)
-  const { data: backendTrips, refetch } = useTrips();
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [heatmapPeriod, setHeatmapPeriod] = useState<HeatmapPeriod>(undefined);
+  const [globalTripType, setGlobalTripType] = useState<GlobalHeatmapTripType | undefined>(undefined);
+  const [globalTimeOfDay, setGlobalTimeOfDay] = useState<HeatmapTimeOfDay | undefined>(undefined);
+  const [isPlanningRoute, setIsPlanningRoute] = useState(false);
+  const [plannerFrom, setPlannerFrom] = useState<Coordinate | null>(null);
+  const [plannerTo, setPlannerTo] = useState<Coordinate | null>(null);
+  const [quietness, setQuietness] = useState(0.5);
+  const [routeTypes, setRouteTypes] = useState<readonly TripType[]>(MY_ROUTES_TRIP_TYPES);
+  const [routeColorBy, setRouteColorBy] = useState<RouteColorBy>('speed');
+  const [routeRange, setRouteRange] = useState<MyRoutesDateRange | undefined>(undefined);
+
+  // Trips from the local database, including those pulled from the backend
+  const { data: localTrips, refetch } = useLocalTrips();
 
   // Determine which feedback mode is active
   const isPersonalFeedbackMode = viewMode === 'feedback' && feedbackMode === 'personal';
   const isCommunityFeedbackMode = viewMode === 'feedback' && feedbackMode === 'community';
+  const isPersonalHeatmapMode = viewMode === 'heatmap' && heatmapMode === 'personal';
+  const isGlobalHeatmapMode = viewMode === 'heatmap' && heatmapMode === 'global';
+  const isMyRoutesMode = viewMode === 'routes';
 
-  // Fetch ALL feedback data - no bbox filtering, loads everything immediately
+  // The user's own reports are few enough to load at once
   const { data: personalFeedback } = useMapFeedback();
-  const { data: globalFeedback } = useGlobalFeedback(isCommunityFeedbackMode);
-  
-  // Fetch ALL road sections data for feedback mode (shows ratings alongside reports)
-  const { data: personalRoadSections } = usePersonalRoadSections(isPersonalFeedbackMode);
-  const { data: communityRoadSections } = useCommunityRoadSections(isCommunityFeedbackMode);
+  // Community feedback and road section ratings load tile by tile for the visible area
+  const { data: globalFeedback } = useGlobalFeedback(viewport, isCommunityFeedbackMode);
+  const { data: personalRoadSections } = usePersonalRoadSections(viewport, isPersonalFeedbackMode);
+  const { data: communityRoadSections } = useCommunityRoadSections(viewport, isCommunityFeedbackMode);
+  // Personal heatmap is aggregated on device from recorded trip locations
+  const { data: personalHeatmap } = usePersonalHeatmap(viewport, isPersonalHeatmapMode, { days: heatmapPeriod });
+  // Community heatmap is aggregated by the backend and loaded tile by tile
+  const { data: globalHeatmap } = useGlobalHeatmap(viewport, isGlobalHeatmapMode, {
+    trip_type: globalTripType,
+    time_of_day: globalTimeOfDay,
+  });
+  // Every past trip, simplified on device; filtered in memory so the scrubber stays smooth
+  const { data: myRoutes } = useMyRoutes(isMyRoutesMode);
+  const routesOfType = useMemo(() => filterMyRoutes(myRoutes ?? [], { types: routeTypes }), [myRoutes, routeTypes]);
+  const shownRoutes = useMemo(
+    () =>
+      filterMyRoutes(routesOfType, {
+        types: routeTypes,
+        startTime: routeRange?.startTime,
+        endTime: routeRange?.endTime,
+      }),
+    [routesOfType, routeTypes, routeRange]
+  );
+  // A→B planner over community road scores and hazards in the viewport
+  const { route: plannedRoute, sections: plannerSections, isLoading: isPlannerLoading } = useRoutePlanner(
+    viewport,
+    isPlanningRoute,
+    { from: plannerFrom, to: plannerTo, quietness }
+  );
 
   // Refetch trips when screen comes into focus
   useFocusEffect(
@@ -171,48 +207,112 @@ export default function MapsScreen() {
     initializeUserLocation();
   }, [location, permissionStatus, getCurrentLocation, hasInitializedLocation]);
 
-  // Transform and get all trips with routes for heatmap (walk/cycle only)
+  // Transform and get all trips with routes for the bottom sheet list (walk/cycle only)
   const recentTrips = useMemo(() => {
-    if (!backendTrips) return [];
+    if (!localTrips) return [];
 
-    return backendTrips
+    return localTrips
       .filter((trip) =>
-        trip.is_valid !== false &&
-        trip.route &&
-        trip.route.length > 0 &&
+        trip.is_valid !== 0 &&
+        !!trip.route_data &&
         isVisibleTripType(trip.type) // v1: only walk + cycle
       )
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .map(transformApiTripToLocal);
-  }, [backendTrips]);
+      .sort((a, b) => b.created_at - a.created_at);
+  }, [localTrips]);
 
   // All useCallback and useMemo hooks must be before any early returns
   const handleMapLongPress = useCallback((event: any) => {
     const { geometry } = event;
+    if (drawing) return;
     if (geometry && geometry.coordinates) {
       const [longitude, latitude] = geometry.coordinates;
-      setReportCoordinates({ latitude, longitude });
+      // While planning, long-presses pick the start, then the destination, then start over
+      if (isPlanningRoute) {
+        if (!plannerFrom || plannerTo) {
+          setPlannerFrom({ latitude, longitude });
+          setPlannerTo(null);
+        } else {
+          setPlannerTo({ latitude, longitude });
+        }
+        return;
+      }
+      setReportGeometry({ type: 'Point', coordinates: [longitude, latitude] });
+      setEditingFeedback(null);
       setIsReportModalVisible(true);
     }
+  }, [drawing, isPlanningRoute, plannerFrom, plannerTo]);
+
+  // While drawing, each tap adds a vertex
+  const handleMapPress = useCallback((event: any) => {
+    const { geometry } = event;
+    if (!drawing || !geometry?.coordinates) return;
+    const [longitude, latitude] = geometry.coordinates;
+    setDrawing((current) =>
+      current && current.points.length < MAX_DRAWING_POINTS
+        ? { ...current, points: [...current.points, { latitude, longitude }] }
+        : current
+    );
+  }, [drawing]);
+
+  const handleReportShapeChange = useCallback((type: MapFeedbackType) => {
+    if (type === 'point') {
+      const center = reportGeometry ? geometryCenter(reportGeometry) : null;
+      if (center) setReportGeometry({ type: 'Point', coordinates: [center.longitude, center.latitude] });
+      return;
+    }
+    // Switching shape starts from the current vertices; picking the same shape redraws it
+    const seed = reportGeometry && feedbackTypeOf(reportGeometry) !== type ? geometryPoints(reportGeometry) : [];
+    setDrawing({ type, points: seed });
+    setIsReportModalVisible(false);
+  }, [reportGeometry]);
+
+  const finishDrawing = useCallback((done: boolean) => {
+    if (done && drawing) {
+      const geometry = buildFeedbackGeometry(drawing.type, drawing.points);
+      if (geometry) setReportGeometry(geometry);
+    }
+    setDrawing(null);
+    setIsReportModalVisible(true);
+  }, [drawing]);
+
+  const handleEditFeedback = useCallback((feedback: MapFeedback) => {
+    setSelectedFeedback(null);
+    setEditingFeedback(feedback);
+    setReportGeometry(feedback.coordinates);
+    setIsReportModalVisible(true);
+  }, []);
+
+  const handleReportClose = useCallback(() => {
+    setIsReportModalVisible(false);
+    setEditingFeedback(null);
+  }, []);
+
+  const clearPlannedRoute = useCallback(() => {
+    setPlannerFrom(null);
+    setPlannerTo(null);
+  }, []);
+
+  const handleRoutePlannerToggle = useCallback(() => {
+    setIsPlanningRoute((planning) => !planning);
+    clearPlannedRoute();
+  }, [clearPlannedRoute]);
+
+  const handleFollowPlannedRoute = useCallback(() => {
+    if (!plannedRoute) return;
+    router.push({
+      pathname: '/home/follow-route',
+      params: { route: encodeGuideRoute(plannedRoute.coordinates) },
+    });
+  }, [plannedRoute]);
+
+  const handleMyRoutePress = useCallback(({ tripId, backendId }: { tripId: string; backendId: number | null }) => {
+    router.push(backendId ? `/home/trip-detail?id=${backendId}` : `/home/trip-detail?id=${tripId}&local=true`);
   }, []);
 
   const handleViewModeChange = useCallback((mode: MapViewMode) => {
     setViewMode(mode);
   }, [setViewMode]);
 
-  // Handle heatmap mode change - global heatmap is coming soon
-  const handleHeatmapModeChange = useCallback((mode: 'personal' | 'global') => {
-    if (mode === 'global') {
-      Alert.alert(
-        'Coming Soon',
-        'Global heatmap showing popular cycling and walking routes will be available soon!',
-        [{ text: 'OK' }]
-      );
-      return; // Don't change mode
-    }
-    setHeatmapMode(mode);
-  }, [setHeatmapMode]);
-
   // Handle layer change from user interaction
   const handleLayerChange = useCallback((layer: MapLayer) => {
     setSelectedLayer(layer);
@@ -291,29 +391,59 @@ export default function MapsScreen() {
           showUserLocation
           followUserLocation={false}
           selectedLayer={selectedLayer}
+          onPress={handleMapPress}
           onLongPress={handleMapLongPress}
+          onViewportChange={setViewport}
         >
-          {/* Render recent trips (journeys) in heatmap mode */}
-          {viewMode === 'heatmap' && recentTrips.map((trip) => (
-            <DBTripRoute key={trip.id} trip={trip} isSelected={selectedTripId === trip.id} />
-          ))}
+          {drawing && <FeedbackDrawingLayer type={drawing.type} points={drawing.points} />}
+
+          {/* Route planner: the rated road network it searches, and the planned route on top */}
+          {isPlanningRoute && (
+            <>
+              <RoadSectionsLayer key="road-sections-planner" sections={plannerSections} type="global" />
+              <PlannedRouteLayer from={plannerFrom} to={plannerTo} route={plannedRoute} />
+            </>
+          )}
+
+          {/* Heatmap mode: where the user (or the community) travels most, plus the trip picked in the bottom sheet */}
+          {!isPlanningRoute && isPersonalHeatmapMode && (
+            <TripHeatmapLayer type="personal" points={personalHeatmap?.points} />
+          )}
+          {!isPlanningRoute && isGlobalHeatmapMode && (
+            <TripHeatmapLayer type="global" points={globalHeatmap?.points} />
+          )}
+          {!isPlanningRoute && viewMode === 'heatmap' && recentTrips
+            .filter((trip) => trip.id === selectedTripId)
+            .map((trip) => (
+              <DBTripRoute key={trip.id} trip={trip} isSelected />
+            ))}
+
+          {/* My routes mode: every past trip matching the filters */}
+          {!isPlanningRoute && isMyRoutesMode && (
+            <MyRoutesLayer
+              routes={shownRoutes}
+              colorBy={routeColorBy}
+              onRoutePress={drawing ? undefined : handleMyRoutePress}
+            />
+          )}
 
           {/* Render feedback mode: both reports and road section ratings */}
-          {viewMode === 'feedback' && (
+          {!isPlanningRoute && viewMode === 'feedback' && (
             <>
               {/* Road section ratings as colored lines */}
               <RoadSectionsLayer
                 key={`road-sections-${feedbackMode}`}
                 sections={feedbackMode === 'personal' ? personalRoadSections : communityRoadSections}
                 type={feedbackMode === 'personal' ? 'personal' : 'global'}
-                onSectionPress={setSelectedRoadSection}
+                onSectionPress={drawing ? undefined : setSelectedRoadSection}
+                onJunctionPress={drawing ? undefined : setSelectedJunction}
               />
               {/* Feedback markers (reported issues) */}
               <FeedbackMarkers
                 key={`feedback-markers-${feedbackMode}`}
                 feedbacks={feedbackMode === 'personal' ? personalFeedback : globalFeedback}
                 type={feedbackMode}
-                onMarkerPress={setSelectedFeedback}
+                onMarkerPress={drawing ? undefined : setSelectedFeedback}
               />
             </>
           )}
@@ -326,27 +456,84 @@ export default function MapsScreen() {
           feedbackMode={feedbackMode}
           selectedLayer={selectedLayer}
           onViewModeChange={handleViewModeChange}
-          onHeatmapModeChange={handleHeatmapModeChange}
+          onHeatmapModeChange={setHeatmapMode}
           onFeedbackModeChange={setFeedbackMode}
           onLayerChange={handleLayerChange}
           onFindLocation={handleFindLocation}
           on3DToggle={() => {}}
           is3DEnabled={false}
+          onRoutePlannerToggle={handleRoutePlannerToggle}
+          isRoutePlanning={isPlanningRoute}
         />
 
-        {/* Bottom sheet for additional options */}
-        <MapBottomSheet
-          onTripPress={handleTripPress}
-          onExpandChange={setIsBottomSheetExpanded}
-          selectedTripId={selectedTripId}
-          trips={recentTrips}
-        />
+        {!isPlanningRoute && isPersonalHeatmapMode && (
+          <PersonalHeatmapLegend
+            legend={personalHeatmap?.legend}
+            totalTrips={personalHeatmap?.totalTrips}
+            period={heatmapPeriod}
+            onPeriodChange={setHeatmapPeriod}
+          />
+        )}
+        {!isPlanningRoute && isGlobalHeatmapMode && (
+          <GlobalHeatmapLegend
+            legend={globalHeatmap?.legend}
+            tripType={globalTripType}
+            timeOfDay={globalTimeOfDay}
+            onTripTypeChange={setGlobalTripType}
+            onTimeOfDayChange={setGlobalTimeOfDay}
+          />
+        )}
+
+        {!isPlanningRoute && isMyRoutesMode && (
+          <MyRoutesPanel
+            routes={routesOfType}
+            shownCount={shownRoutes.length}
+            types={routeTypes}
+            colorBy={routeColorBy}
+            range={routeRange}
+            onTypesChange={setRouteTypes}
+            onColorByChange={setRouteColorBy}
+            onRangeChange={setRouteRange}
+          />
+        )}
+
+        {/* Bottom sheet for additional options; the drawing toolbar or route planner panel takes its place */}
+        {drawing ? (
+          <FeedbackDrawingToolbar
+            type={drawing.type}
+            pointCount={drawing.points.length}
+            onUndo={() => setDrawing((current) => current && { ...current, points: current.points.slice(0, -1) })}
+            onCancel={() => finishDrawing(false)}
+            onDone={() => finishDrawing(true)}
+          />
+        ) : isPlanningRoute ? (
+          <RoutePlannerPanel
+            from={plannerFrom}
+            to={plannerTo}
+            route={plannedRoute}
+            isLoading={isPlannerLoading}
+            quietness={quietness}
+            onQuietnessChange={setQuietness}
+            onClear={clearPlannedRoute}
+            onClose={handleRoutePlannerToggle}
+            onFollow={handleFollowPlannedRoute}
+          />
+        ) : (
+          <MapBottomSheet
+            onTripPress={handleTripPress}
+            onExpandChange={setIsBottomSheetExpanded}
+            selectedTripId={selectedTripId}
+            trips={recentTrips}
+          />
+        )}
 
         {/* Report Issue Modal */}
         <ReportIssueModal
           visible={isReportModalVisible}
-          coordinates={reportCoordinates}
-          onClose={() => setIsReportModalVisible(false)}
+          geometry={reportGeometry}
+          feedback={editingFeedback}
+          onShapeChange={handleReportShapeChange}
+          onClose={handleReportClose}
         />
 
         {/* Feedback Details Modal */}
@@ -354,13 +541,18 @@ export default function MapsScreen() {
           feedback={selectedFeedback}
           visible={!!selectedFeedback}
           onClose={() => setSelectedFeedback(null)}
+          onEdit={handleEditFeedback}
         />
 
         {/* Road Section Detail Sheet */}
         <RoadSectionDetailSheet
           section={selectedRoadSection}
-          visible={!!selectedRoadSection}
-          onClose={() => setSelectedRoadSection(null)}
+          junction={selectedJunction}
+          visible={!!selectedRoadSection || !!selectedJunction}
+          onClose={() => {
+            setSelectedRoadSection(null);
+            setSelectedJunction(null);
+          }}
         />
       </MapContainer>
     </GestureHandlerRootView>
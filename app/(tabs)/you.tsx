@@ -19,6 +19,10 @@ import {
   TrashIcon,
   LockClosedIcon,
   HeartIcon,
+  CircleStackIcon,
+  CloudArrowUpIcon,
+  MapPinIcon,
+  MapIcon,
 } from 'react-native-heroicons/outline';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
@@ -33,6 +37,7 @@ import { EditProfileModal } from '@/components/profile/EditProfileModal';
 import { ChangePasswordModal } from '@/components/profile/ChangePasswordModal';
 import { LanguagePicker } from '@/components/ui/LanguagePicker';
 import { useLanguage } from '@/lib/hooks/useLanguage';
+import { usePendingOperations } from '@/lib/hooks/useOutbox';
 import { showAlert, showConfirmAlert, showInfoAlert, showComingSoonAlert, showErrorAlert } from '@/lib/utils/alert';
 import i18n from '@/lib/i18n';
 import { SUPPORTED_LANGUAGES } from '@/lib/i18n/types';
@@ -73,6 +78,7 @@ export default function YouScreen() {
   const isDebugBuild = isDebugEnabled(contextUser?.email);
   const { colors, isDark, toggleTheme } = useTheme();
   const { currentLanguage } = useLanguage();
+  const { operations: pendingOperations } = usePendingOperations();
   const { unitSystem, setUnitSystem } = useUnits();
   const { isTracking, toggleTracking } = useTracking();
   const [loading, setLoading] = useState(false);
@@ -407,6 +413,12 @@ export default function YouScreen() {
                   }}
                   showChevron={false}
                 />
+                <SettingsItem
+                  icon={<MapIcon size={22} color={colors.text} />}
+                  title={t('profile:offlineMaps.title')}
+                  subtitle={t('profile:offlineMaps.subtitle')}
+                  onPress={() => router.push('/settings/offline-maps')}
+                />
                 <SettingsItem
                   icon={<GlobeAltIcon size={22} color={colors.text} />}
                   title={t('profile:preferences.systemLanguage')}
@@ -446,6 +458,28 @@ export default function YouScreen() {
                   title={t('profile:privacy.notificationSettings')}
                   subtitle={t('profile:privacy.notificationSettingsSubtitle')}
                   onPress={() => router.push('/settings/notifications')}
+                />
+                <SettingsItem
+                  icon={<MapPinIcon size={22} color={colors.text} />}
+                  title={t('profile:privacyZones.title')}
+                  subtitle={t('profile:privacyZones.subtitle')}
+                  onPress={() => router.push('/settings/privacy-zones')}
+                />
+                <SettingsItem
+                  icon={<CloudArrowUpIcon size={22} color={colors.text} />}
+                  title={t('profile:outbox.title')}
+                  subtitle={
+                    pendingOperations.length > 0
+                      ? t('profile:outbox.subtitleCount', { count: pendingOperations.length })
+                      : t('profile:outbox.subtitle')
+                  }
+                  onPress={() => router.push('/settings/pending-uploads')}
+                />
+                <SettingsItem
+                  icon={<CircleStackIcon size={22} color={colors.text} />}
+                  title={t('profile:backup.title')}
+                  subtitle={t('profile:backup.subtitle')}
+                  onPress={() => router.push('/settings/backup')}
                   isLast
                 />
               </View>
@@ -3,11 +3,13 @@
 import '@/lib/services/LocationTrackingService';
 import { TrackingCoordinator } from '@/lib/services/TrackingCoordinator';
 import { initTrackingConfig } from '@/lib/services/TrackingConfig';
+import { hazardAlertService } from '@/lib/services/HazardAlertService';
+import { hazardConfirmationService } from '@/lib/services/HazardConfirmationService';
 
 import * as Notifications from 'expo-notifications';
 import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
 import { Stack, router, useSegments } from 'expo-router';
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
@@ -17,7 +19,11 @@ import { UnitsProvider } from '@/contexts/UnitsContext';
 import { TrackingProvider } from '@/contexts/TrackingContext';
 import { QueryProvider } from '@/providers/QueryProvider';
 import { useProtectedRoute } from '@/contexts/useProtectedRoute';
+import { useOutboxFlush } from '@/lib/hooks/useOutbox';
+import { useTripPull } from '@/lib/hooks/useTrips';
 import { initializeMapbox } from '@/config/mapbox';
+import { database, DatabaseTooNewError } from '@/lib/database';
+import { UpdateRequiredScreen } from '@/components/layout';
 
 // Initialize i18n
 import '@/lib/i18n';
@@ -35,7 +41,7 @@ Notifications.setNotificationHandler({
       (notification.request.trigger as { type?: string }).type === 'push';
     const data = notification.request.content.data as any;
     const isTripCompletion =
-      data?.type === 'trip_completed' || data?.type === 'rate_trip';
+      data?.type === 'trip_completed' || data?.type === 'rate_trip' || data?.type === 'confirm_hazards';
     const shouldShow = isTripRecording || isRemotePush || isTripCompletion;
     return {
       shouldShowAlert: shouldShow,
@@ -62,6 +68,8 @@ function notificationDataToPath(data: Record<string, unknown> | null | undefined
     return `/home/trip-detail?id=${data.tripId}`;
   if (data.type === 'rate_trip' && data.tripId)
     return `/home/rate-route?id=${data.tripId}`;
+  if (data.type === 'confirm_hazards' && data.tripId)
+    return `/home/confirm-hazards?tripId=${data.tripId}`;
   if (
     (data.type === 'post_liked' || data.type === 'post_commented' || data.type === 'club_post') &&
     data.post_id
@@ -74,9 +82,27 @@ function notificationDataToPath(data: Record<string, unknown> | null | undefined
   return null;
 }
 
+/** True once the local database turns out to be from a newer app build (a downgrade). */
+function useDatabaseTooNew(): boolean {
+  const [tooNew, setTooNew] = useState(false);
+
+  useEffect(() => {
+    database.init().catch((error) => {
+      if (error instanceof DatabaseTooNewError) setTooNew(true);
+      else console.error('[App] Database init failed:', error);
+    });
+  }, []);
+
+  return tooNew;
+}
+
 function RootLayoutNav() {
   const { colorScheme } = useTheme();
   useProtectedRoute();
+  // Send queued ratings, reports, likes, etc. whenever we can
+  useOutboxFlush();
+  // Keep the local trip history in step with the backend
+  useTripPull();
 
   // Pending destination from a notification tap. Set by either the cold-start check or
   // the live listener; drained once the user is confirmed on the main tabs.
@@ -89,6 +115,12 @@ function RootLayoutNav() {
     initTrackingConfig().catch(err => console.warn('[App] TrackingConfig init failed:', err));
   }, []);
 
+  // Warn about community hazards ahead while a trip is recording (opt-in)
+  useEffect(() => hazardAlertService.start(), []);
+
+  // After a trip, ask about hazards the rider passed so stale ones age out
+  useEffect(() => hazardConfirmationService.start(), []);
+
   // Cold-start: the app was launched by tapping a notification while killed.
   // addNotificationResponseReceivedListener does NOT fire in this case — we must
   // call getLastNotificationResponseAsync() to retrieve the tap.
@@ -154,6 +186,16 @@ function RootLayoutNav() {
 }
 
 export default function RootLayout() {
+  const databaseTooNew = useDatabaseTooNew();
+
+  if (databaseTooNew) {
+    return (
+      <ThemeProvider>
+        <UpdateRequiredScreen />
+      </ThemeProvider>
+    );
+  }
+
   return (
     <ThemeProvider>
       <AuthProvider>
@@ -134,7 +134,9 @@ export default function ClubDetailScreen() {
         await requestJoinMutation.mutateAsync(club.id);
         setJoinRequestPending(true);
       } else {
-        await joinClubMutation.mutateAsync(club.id);
+        const outcome = await joinClubMutation.mutateAsync(club.id);
+        // Offline: show the join as pending until the outbox sends it
+        if (outcome === 'queued') setJoinRequestPending(true);
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : '';
@@ -5,6 +5,8 @@
  * Tab 3 History:  recent motion segments (last 30)
  * Tab 4 Disagree: ClassifierDisagreement rows (last 30)
  * Tab 5 Logs:     live console log viewer
+ * Tab 6 Config:   remote + native tracker config
+ * Tab 7 Replay:   (dev only) drive the coordinator from a recorded session
  */
 
 import {
@@ -17,7 +19,9 @@ import type { ClassifierDisagreement, MotionSegment } from '@/lib/database';
 import { calculateDistance, type Coordinate } from '@/lib/utils/geoCalculations';
 import { TrackingCoordinator } from '@/lib/services/TrackingCoordinator';
 import type { TrackingStatus, ActivityChangedEvent, StateChangedEvent, NativeLogEntry } from '@/lib/native/RadziTracker';
-import { RadziTrackerNative } from '@/lib/native/RadziTracker';
+import { RadziTrackerNative, getSimulatedTracker, setSimulatedTracker } from '@/lib/native/RadziTracker';
+import { TrackingSimulator, type RecordedSession } from '@/lib/native/TrackingSimulator';
+import { SIMULATOR_SESSIONS } from '@/lib/native/simulatorSessions';
 import { useTheme } from '@/contexts/ThemeContext';
 import { onTrackingLog, getTrackingLogBuffer, clearTrackingLogBuffer, type LogEntry } from '@/lib/services/TrackingLogger';
 import type { ActivityClass } from '@/lib/activity/classifier';
@@ -25,7 +29,7 @@ import { useTrackingConfig } from '@/lib/services/TrackingConfig';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-type Tab = 'live' | 'trip' | 'history' | 'disagree' | 'logs' | 'config';
+type Tab = 'live' | 'trip' | 'history' | 'disagree' | 'logs' | 'config' | 'replay';
 
 interface TripTabData {
   stateLabel: string;
@@ -113,7 +117,12 @@ function LiveTab({ status, lastActivity, stateHistory, colors }: {
         </View>
         {status && (
           <>
-            <Row label="Engine" value="native" valueColor="#3B82F6" colors={colors} />
+            <Row
+              label="Engine"
+              value={getSimulatedTracker() ? 'simulator' : 'native'}
+              valueColor={getSimulatedTracker() ? '#F59E0B' : '#3B82F6'}
+              colors={colors}
+            />
             <Row label="Activity" value={status.activity} valueColor={LABEL_COLORS[status.activity]} colors={colors} />
             {status.tripId ? (
               <Row label="Trip ID" value={status.tripId.slice(0, 22) + '…'} colors={colors} />
@@ -500,6 +509,125 @@ function ConfigTab({ colors }: { colors: ReturnType<typeof useTheme>['colors'] }
   );
 }
 
+// ─── Tab 7: Replay (dev only) ────────────────────────────────────────────────
+
+const REPLAY_SPEEDS = [1, 10, 60];
+// Past TrackingSimulator's stale threshold, so an orphaned trip is recovered
+const STALE_JUMP_MS = 15 * 60 * 1000;
+
+function ReplayTab({ colors }: { colors: ReturnType<typeof useTheme>['colors'] }) {
+  const [simulated, setSimulated] = useState(() => getSimulatedTracker() !== null);
+  const [speed, setSpeed] = useState(10);
+  const [running, setRunning] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ index: number; total: number } | null>(null);
+
+  const simulator = (): TrackingSimulator => {
+    const current = getSimulatedTracker();
+    if (current instanceof TrackingSimulator) return current;
+    const sim = new TrackingSimulator();
+    setSimulatedTracker(sim);
+    setSimulated(true);
+    return sim;
+  };
+
+  const replay = async (session: RecordedSession) => {
+    setRunning(session.name);
+    setProgress(null);
+    try {
+      await simulator().replay(session, {
+        speed,
+        onProgress: (index, total) => setProgress({ index, total }),
+      });
+    } catch (err) {
+      Alert.alert('Replay failed', err instanceof Error ? err.message : 'Unknown');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const recoverStale = async () => {
+    const sim = simulator();
+    sim.advanceClock(STALE_JUMP_MS);
+    const { recovered } = await sim.recoverStaleTrip();
+    Alert.alert('Stale trip recovery', recovered ? `Recovered ${recovered.slice(0, 25)}…` : 'Nothing to recover');
+  };
+
+  const switchToNative = () => {
+    (getSimulatedTracker() as TrackingSimulator | null)?.cancelReplay();
+    setSimulatedTracker(null);
+    setSimulated(false);
+    setRunning(null);
+  };
+
+  return (
+    <ScrollView style={s.tabScroll} contentContainerStyle={s.tabContent}>
+      <Card title="TRACKER BACKEND" colors={colors}>
+        <Row
+          label="Engine"
+          value={simulated ? 'simulator' : 'native'}
+          valueColor={simulated ? '#F59E0B' : '#3B82F6'}
+          colors={colors}
+        />
+        <Text style={[s.empty, { color: colors.textSecondary }]}>
+          Replayed trips are written to the local database and finalized and synced like real ones.
+        </Text>
+        <View style={s.logToolbar}>
+          {REPLAY_SPEEDS.map(x => (
+            <Pressable
+              key={x}
+              onPress={() => setSpeed(x)}
+              style={[s.filterBtn, speed === x && { backgroundColor: colors.primary }]}
+            >
+              <Text style={[s.filterText, { color: speed === x ? '#fff' : colors.textSecondary }]}>{x}x</Text>
+            </Pressable>
+          ))}
+        </View>
+        {running && (
+          <Row
+            label="Replaying"
+            value={progress ? `${running} · ${progress.index}/${progress.total}` : running}
+            colors={colors}
+          />
+        )}
+      </Card>
+
+      <Card title="RECORDED SESSIONS" colors={colors}>
+        {SIMULATOR_SESSIONS.map(session => (
+          <View key={session.name} style={[s.disagRow, { borderBottomColor: colors.border }]}>
+            <View style={s.disagLabels}>
+              <Text style={[s.disagXgb, { color: colors.text }]}>{session.name}</Text>
+              <Pressable
+                disabled={running !== null}
+                onPress={() => replay(session)}
+                style={[s.filterBtn, { backgroundColor: running !== null ? '#6B7280' : colors.primary }]}
+              >
+                <Text style={[s.filterText, { color: '#fff' }]}>replay</Text>
+              </Pressable>
+            </View>
+            <Text style={[s.disagTime, { color: colors.textSecondary }]}>{session.description}</Text>
+          </View>
+        ))}
+      </Card>
+
+      <View style={s.actions}>
+        <Pressable
+          style={[s.btn, { backgroundColor: '#EF4444' }]}
+          onPress={() => (getSimulatedTracker() as TrackingSimulator | null)?.kill()}
+          disabled={!simulated}
+        >
+          <Text style={s.btnText}>Kill app (leave trip orphaned)</Text>
+        </Pressable>
+        <Pressable style={[s.btn, { backgroundColor: '#F59E0B' }]} onPress={recoverStale} disabled={!simulated}>
+          <Text style={s.btnText}>Jump 15 min + recover stale trips</Text>
+        </Pressable>
+        <Pressable style={[s.btn, { backgroundColor: '#6B7280' }]} onPress={switchToNative} disabled={!simulated}>
+          <Text style={s.btnText}>Back to native tracker</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
 // ─── Main Screen ─────────────────────────────────────────────────────────────
 
 export default function DebugTrackingScreen() {
@@ -684,6 +812,7 @@ export default function DebugTrackingScreen() {
     { key: 'disagree', label: 'Disagree' },
     { key: 'logs', label: 'Logs' },
     { key: 'config', label: 'Config' },
+    ...(__DEV__ ? [{ key: 'replay' as const, label: 'Replay' }] : []),
   ];
 
   return (
@@ -745,6 +874,7 @@ export default function DebugTrackingScreen() {
         />
       )}
       {tab === 'config' && <ConfigTab colors={colors} />}
+      {__DEV__ && tab === 'replay' && <ReplayTab colors={colors} />}
     </View>
   );
 }
@@ -61,18 +61,21 @@ export default function PostDetailScreen() {
     if (!commentText.trim() || !post) return;
 
     try {
-      await addCommentMutation.mutateAsync({
+      const outcome = await addCommentMutation.mutateAsync({
         clubId: post.club_id,
         postId: post.id,
         text: commentText.trim(),
       });
 
       setCommentText('');
+      if (outcome === 'queued') {
+        alert(t('feed.commentQueued', 'Your comment will be posted when you are back online.'));
+      }
     } catch (error) {
       console.error('Failed to post comment:', error);
       alert(error instanceof Error ? error.message : 'Failed to post comment');
     }
-  }, [commentText, post, addCommentMutation]);
+  }, [commentText, post, addCommentMutation, t]);
 
   const formatTimeAgo = (timestamp: string): string => {
     const now = new Date();
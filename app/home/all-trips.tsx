@@ -4,7 +4,8 @@
  * Shows completed trips with options to confirm or flag them.
  * All trips (including backend-flagged ones) are shown by default so recorded
  * trips are never silently hidden from the user. A toggle filters them out.
- * Multi-select mode enables bulk Delete and "Not my trip".
+ * Multi-select mode enables bulk Delete and "Not my trip", and merging two
+ * adjacent trips that are stored on this device.
  */
 
 import { ThemedText } from '@/components/themed-text';
@@ -31,8 +32,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { ChevronLeftIcon, FunnelIcon } from 'react-native-heroicons/outline';
-import { useTrips } from '@/lib/hooks/useTrips';
+import { useMergeTrips, useTrips } from '@/lib/hooks/useTrips';
 import { tripAPI, type ApiTrip } from '@/lib/api/trips';
+import { outboxService } from '@/lib/services/OutboxService';
 
 interface DisplayTrip {
   id: string;
@@ -52,6 +54,7 @@ export default function AllTripsScreen() {
   const { unitSystem } = useUnits();
 
   const { data: backendTrips, isLoading, refetch, isRefetching } = useTrips({ status: 'completed' });
+  const mergeTrips = useMergeTrips();
 
   const [localTrips, setLocalTrips] = useState<DBTrip[]>([]);
   const [localLoading, setLocalLoading] = useState(true);
@@ -219,14 +222,11 @@ export default function AllTripsScreen() {
               exitSelectionMode();
 
               if (backendIds.length > 0) {
-                const results = await Promise.allSettled(
-                  backendIds.map(id => tripAPI.deleteTrip(id))
-                );
-                const failedCount = results.filter(r => r.status === 'rejected').length;
-                if (failedCount > 0) {
+                const outcome = await outboxService.submit('trip_batch_delete', { tripIds: backendIds });
+                if (outcome === 'queued') {
                   Alert.alert(
-                    'Partial failure',
-                    `Deleted ${backendIds.length - failedCount} of ${backendIds.length} trips. ${failedCount} failed.`,
+                    'Deleted offline',
+                    'These trips will be removed from the server when you are back online. Any the server refuses will be listed in Pending uploads.',
                   );
                 }
               }
@@ -282,6 +282,40 @@ export default function AllTripsScreen() {
     );
   }
 
+  // Merging needs both tracks, so only trips stored on this device qualify
+  const canMerge = selectedIds.size === 2 && [...selectedIds].every(id => localTrips.some(t => t.id === id));
+
+  function handleMerge() {
+    const [idA, idB] = [...selectedIds];
+
+    Alert.alert(
+      'Merge trips?',
+      'The two trips will be combined into one trip and their route ratings reset. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            setIsBatching(true);
+            try {
+              exitSelectionMode();
+              await mergeTrips.mutateAsync({ tripIdA: idA, tripIdB: idB });
+              await loadLocalData();
+            } catch (error) {
+              Alert.alert(
+                'Could not merge trips',
+                error instanceof Error ? error.message : 'Please try again.',
+              );
+              await loadLocalData();
+            } finally {
+              setIsBatching(false);
+            }
+          },
+        },
+      ],
+    );
+  }
+
   function renderTrip({ item }: { item: DisplayTrip }) {
     const tripColor = getTripTypeColor(item.type);
     const tripIcon = getTripTypeIcon(item.type);
@@ -520,6 +554,19 @@ export default function AllTripsScreen() {
                 Not my trip ({selectedIds.size})
               </ThemedText>
             </TouchableOpacity>
+            {canMerge && (
+              <TouchableOpacity
+                style={[styles.actionBarButton, { backgroundColor: colors.primary + '20' }]}
+                onPress={handleMerge}
+                disabled={isBatching}
+                activeOpacity={0.8}
+              >
+                <MaterialCommunityIcons name="call-merge" size={20} color={colors.primary} />
+                <ThemedText style={[styles.actionBarButtonText, { color: colors.primary }]}>
+                  Merge
+                </ThemedText>
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </ThemedView>
@@ -0,0 +1,99 @@
+/**
+ * Confirm Hazards Screen
+ *
+ * Opened from the post-trip prompt. Lists the community hazards the trip
+ * passed so the rider can say whether each is still there or fixed.
+ */
+
+import React from 'react';
+import { ActivityIndicator, FlatList, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import Header from '@/components/layout/Header';
+import { FeedbackVoteActions } from '@/components/maps/FeedbackVoteActions';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Spacing } from '@/constants/theme';
+import { hazardConfirmationService } from '@/lib/services/HazardConfirmationService';
+import { getCategoryColor, getCategoryIcon } from '@/lib/utils/feedbackHelpers';
+import type { GlobalFeedback } from '@/lib/api/globalFeedback';
+
+export default function ConfirmHazardsScreen() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { tripId } = useLocalSearchParams<{ tripId: string }>();
+
+  const { data: hazards = [], isLoading } = useQuery({
+    queryKey: ['hazardConfirmations', tripId],
+    queryFn: () => hazardConfirmationService.getPassedHazards(tripId!),
+    enabled: !!tripId,
+  });
+
+  const renderHazard = ({ item }: { item: GlobalFeedback }) => (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.cardHeader}>
+        <MaterialCommunityIcons
+          name={getCategoryIcon(item.category) as any}
+          size={24}
+          color={getCategoryColor(item.category)}
+        />
+        <ThemedText style={styles.category}>
+          {t(`maps:feedback.categories.${item.category}`, item.category)}
+        </ThemedText>
+      </View>
+      <FeedbackVoteActions feedbackId={item.id} />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      <Header title={t('maps:votes.screen.title')} showBack />
+      <ThemedView style={styles.container}>
+        {isLoading ? (
+          <View style={styles.center}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={hazards}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={renderHazard}
+            contentContainerStyle={styles.content}
+            ListHeaderComponent={
+              hazards.length > 0 ? (
+                <ThemedText style={[styles.intro, { color: colors.textSecondary }]}>
+                  {t('maps:votes.screen.intro')}
+                </ThemedText>
+              ) : null
+            }
+            ListEmptyComponent={
+              <ThemedText style={[styles.intro, { color: colors.textSecondary }]}>
+                {t('maps:votes.screen.empty')}
+              </ThemedText>
+            }
+          />
+        )}
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { flex: 1 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  content: { padding: Spacing.lg, gap: Spacing.md },
+  intro: { fontSize: 14, lineHeight: 20 },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  category: { fontSize: 16, fontWeight: '600' },
+});
@@ -0,0 +1,245 @@
+/**
+ * Follow Route Screen - full-screen, heading-up guidance along a past trip or planned route
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { CircleLayer, LineLayer, ShapeSource } from '@rnmapbox/maps';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/themed-text';
+import { MapCompass } from '@/components/maps/MapCompass';
+import { MapView, type MapViewRef } from '@/components/maps/MapView';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useFollowRoute } from '@/lib/hooks/useFollowRoute';
+import { useMapLayer } from '@/lib/hooks/useMapLayer';
+import { formatDistance } from '@/lib/utils/geoCalculations';
+import { decodeGuideRoute } from '@/lib/utils/routeFollower';
+
+export default function FollowRouteScreen() {
+  const { route: encodedRoute, title } = useLocalSearchParams<{ route: string; title?: string }>();
+  const { t } = useTranslation('maps');
+  const { colors, isDark } = useTheme();
+  const { unitSystem } = useUnits();
+  const { selectedLayer } = useMapLayer(isDark);
+  const mapRef = useRef<MapViewRef>(null);
+  const [headingUp, setHeadingUp] = useState(true);
+  const [mapHeading, setMapHeading] = useState(0);
+
+  const route = useMemo(() => decodeGuideRoute(encodedRoute), [encodedRoute]);
+  const { track, state, position, heading } = useFollowRoute(route);
+  const { snap, isOffRoute, arrived, nextTurn, distanceToNextTurn } = state;
+
+  // Keep the rider centred; on the track the camera sits on the snapped point so it doesn't jitter
+  const cameraTarget = snap && !isOffRoute ? snap.snapped : position;
+  useEffect(() => {
+    if (!cameraTarget) return;
+    mapRef.current?.followHeading(
+      [cameraTarget.longitude, cameraTarget.latitude],
+      headingUp ? heading ?? 0 : 0
+    );
+  }, [cameraTarget, heading, headingUp]);
+
+  const trackGeoJSON = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'LineString',
+            coordinates: track.coordinates.map((c) => [c.longitude, c.latitude]),
+          },
+        },
+      ],
+    }),
+    [track]
+  );
+
+  const snappedGeoJSON = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: snap
+        ? [
+            {
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'Point', coordinates: [snap.snapped.longitude, snap.snapped.latitude] },
+            },
+          ]
+        : [],
+    }),
+    [snap]
+  );
+
+  let instruction: string;
+  let instructionIcon: string;
+  let instructionColor = colors.primary;
+  if (track.coordinates.length < 2) {
+    instruction = t('follow.noRoute', 'This route has no track to follow.');
+    instructionIcon = 'map-marker-off';
+    instructionColor = colors.textSecondary;
+  } else if (arrived) {
+    instruction = t('follow.arrived', 'You have arrived');
+    instructionIcon = 'flag-checkered';
+  } else if (isOffRoute) {
+    instruction = t('follow.offRoute', 'Off route — head back to the line');
+    instructionIcon = 'alert';
+    instructionColor = colors.error;
+  } else if (!snap) {
+    instruction = t('follow.locating', 'Finding your position…');
+    instructionIcon = 'crosshairs-gps';
+    instructionColor = colors.textSecondary;
+  } else if (nextTurn && distanceToNextTurn !== null) {
+    const distance = formatDistance(distanceToNextTurn, unitSystem);
+    instruction =
+      nextTurn.direction === 'left'
+        ? t('follow.turnLeft', 'Turn left in {{distance}}', { distance })
+        : t('follow.turnRight', 'Turn right in {{distance}}', { distance });
+    instructionIcon = nextTurn.direction === 'left' ? 'arrow-left-top' : 'arrow-right-top';
+  } else {
+    instruction = t('follow.straight', 'Continue to the finish');
+    instructionIcon = 'arrow-up';
+  }
+
+  const initialPoint = track.coordinates[0];
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        region={initialPoint ? {
+          latitude: initialPoint.latitude,
+          longitude: initialPoint.longitude,
+          latitudeDelta: 0.01,
+          longitudeDelta: 0.01,
+        } : undefined}
+        showUserLocation
+        selectedLayer={selectedLayer}
+        onHeadingChange={setMapHeading}
+      >
+        <ShapeSource id="follow-track-source" shape={trackGeoJSON}>
+          <LineLayer
+            id="follow-track-line"
+            style={{ lineColor: colors.primary, lineWidth: 7, lineOpacity: 0.75, lineCap: 'round', lineJoin: 'round' }}
+          />
+        </ShapeSource>
+        <ShapeSource id="follow-snapped-source" shape={snappedGeoJSON}>
+          <CircleLayer
+            id="follow-snapped-point"
+            style={{
+              circleRadius: 6,
+              circleColor: '#FFFFFF',
+              circleStrokeColor: colors.primary,
+              circleStrokeWidth: 3,
+            }}
+          />
+        </ShapeSource>
+      </MapView>
+
+      <SafeAreaView style={styles.overlay} edges={['top', 'bottom']} pointerEvents="box-none">
+        <View style={[styles.instruction, { backgroundColor: colors.card, borderColor: instructionColor }]}>
+          <MaterialCommunityIcons name={instructionIcon as any} size={30} color={instructionColor} />
+          <View style={styles.instructionText}>
+            <ThemedText style={[styles.instructionTitle, { color: colors.text }]}>{instruction}</ThemedText>
+            {title ? (
+              <ThemedText style={[styles.instructionSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                {title}
+              </ThemedText>
+            ) : null}
+          </View>
+        </View>
+
+        <View style={styles.compass}>
+          <MapCompass heading={mapHeading} onPress={() => setHeadingUp((up) => !up)} fadeWhenNorth={false} />
+          <ThemedText style={[styles.compassLabel, { color: colors.text, backgroundColor: colors.card }]}>
+            {headingUp ? t('follow.headingUp', 'Heading up') : t('follow.northUp', 'North up')}
+          </ThemedText>
+        </View>
+
+        <View style={[styles.footer, { backgroundColor: colors.card }]}>
+          <View>
+            <ThemedText style={[styles.footerLabel, { color: colors.textSecondary }]}>
+              {t('follow.remaining', 'Remaining')}
+            </ThemedText>
+            <ThemedText style={styles.footerValue}>
+              {formatDistance(snap ? snap.distanceRemaining : track.length, unitSystem)}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            style={[styles.stopButton, { backgroundColor: colors.error }]}
+            onPress={() => router.back()}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={styles.stopText}>{t('follow.stop', 'End')}</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'space-between',
+    padding: Spacing.md,
+  },
+  instruction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  instructionText: { flex: 1 },
+  instructionTitle: { fontSize: FontSizes.lg, fontWeight: FontWeights.bold },
+  instructionSubtitle: { fontSize: FontSizes.xs, marginTop: 2 },
+  compass: {
+    position: 'absolute',
+    right: Spacing.md,
+    top: '40%',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  compassLabel: {
+    fontSize: 10,
+    fontWeight: FontWeights.semibold,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  footerLabel: { fontSize: FontSizes.xs },
+  footerValue: { fontSize: FontSizes.xl, fontWeight: FontWeights.bold },
+  stopButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  stopText: { color: '#FFFFFF', fontWeight: FontWeights.semibold },
+});
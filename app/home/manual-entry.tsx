@@ -11,9 +11,12 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useUnits } from '@/contexts/UnitsContext';
 import { TripManager } from '@/lib/services';
 import { calculateRouteDistance } from '@/lib/utils/geoCalculations';
+import { detectTrackFormat, parseFit, parseGpx, type ImportedTrack } from '@/lib/utils/trackImport';
 import type { TripType } from '@/types/trip';
 import type { Coordinate } from '@/types/location';
 import Mapbox, { Camera, LineLayer, ShapeSource, CircleLayer } from '@rnmapbox/maps';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
 import { router } from 'expo-router';
 import { useState, useEffect } from 'react';
 import {
@@ -50,6 +53,7 @@ export default function ManualEntryScreen() {
   const [loading, setLoading] = useState(false);
   const [showMap, setShowMap] = useState(false);
   const [routePoints, setRoutePoints] = useState<Coordinate[]>([]);
+  const [importedTrack, setImportedTrack] = useState<ImportedTrack | null>(null);
 
   // Get user location when map is shown
   useEffect(() => {
@@ -78,6 +82,11 @@ export default function ManualEntryScreen() {
 
   async function handleSubmit() {
     // Validation
+    if (importedTrack) {
+      await submitImportedTrack(importedTrack);
+      return;
+    }
+
     const distanceParsed = parseFloat(distance);
     const distanceNum = Number.isFinite(distanceParsed) ? distanceParsed : NaN;
     const hoursNum = parseInt(hours) || 0;
@@ -133,8 +142,80 @@ export default function ManualEntryScreen() {
     }
   }
 
+  async function submitImportedTrack(track: ImportedTrack) {
+    setLoading(true);
+
+    try {
+      await TripManager.createImportedTrip({
+        userId: 'current_user',
+        type: selectedType,
+        points: track.points,
+        source: track.format,
+        notes: notes.trim() || undefined,
+      });
+
+      Alert.alert(t('manualEntry.success'), t('manualEntry.successMessage'), [
+        {
+          text: t('manualEntry.ok'),
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error('[ManualEntry] Error saving imported trip:', error);
+      Alert.alert(t('manualEntry.error'), t('manualEntry.errorMessage'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*', // .gpx/.fit have no reliable MIME type on Android
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      const format = detectTrackFormat(asset.name);
+      if (!format) {
+        Alert.alert(t('manualEntry.importError'), t('manualEntry.importUnsupported'));
+        return;
+      }
+
+      const file = new File(asset.uri);
+      const track = format === 'gpx' ? parseGpx(await file.text()) : parseFit(await file.bytes());
+
+      if (track.points.length < 2) {
+        Alert.alert(t('manualEntry.importError'), t('manualEntry.importNoPoints'));
+        return;
+      }
+
+      const coords = track.points.map((p) => ({ latitude: p.latitude, longitude: p.longitude }));
+      const durationSeconds = Math.round(
+        (track.points[track.points.length - 1].timestamp - track.points[0].timestamp) / 1000
+      );
+
+      setImportedTrack(track);
+      setRoutePoints(coords);
+      setDistance(metersToDisplayDistance(calculateRouteDistance(coords)).toFixed(2));
+      setHours(String(Math.floor(durationSeconds / 3600)));
+      setMinutes(String(Math.floor((durationSeconds % 3600) / 60)));
+      if (track.type === 'walk' || track.type === 'cycle') {
+        setSelectedType(track.type);
+      }
+      if (track.name && !notes) {
+        setNotes(track.name);
+      }
+      setShowMap(true);
+    } catch (error) {
+      console.error('[ManualEntry] Error importing track:', error);
+      Alert.alert(t('manualEntry.importError'), t('manualEntry.importErrorMessage'));
+    }
+  }
+
   function handleMapPress(event: any) {
-    if (!showMap) return;
+    if (!showMap || importedTrack) return;
 
     const { geometry } = event;
     const newPoint: Coordinate = {
@@ -153,6 +234,11 @@ export default function ManualEntryScreen() {
   }
 
   function clearRoute() {
+    if (importedTrack) {
+      setImportedTrack(null);
+      setHours('0');
+      setMinutes('0');
+    }
     setRoutePoints([]);
     setDistance('');
   }
@@ -181,7 +267,8 @@ export default function ManualEntryScreen() {
     },
   } : null;
 
-  const pointsGeoJSON = routePoints.length > 0 ? {
+  // Imported tracks have thousands of points — draw only the line
+  const pointsGeoJSON = routePoints.length > 0 && !importedTrack ? {
     type: 'FeatureCollection',
     features: routePoints.map((p, i) => ({
       type: 'Feature',
@@ -255,19 +342,34 @@ export default function ManualEntryScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText style={styles.sectionTitle}>{t('manualEntry.route')}</ThemedText>
-            <TouchableOpacity
-              style={[styles.toggleButton, { backgroundColor: showMap ? colors.primary : colors.card }]}
-              onPress={() => setShowMap(!showMap)}
-            >
-              <MaterialCommunityIcons
-                name={showMap ? 'map-check' : 'map-outline'}
-                size={20}
-                color={showMap ? '#FFFFFF' : colors.icon}
-              />
-              <ThemedText style={[styles.toggleText, { color: showMap ? '#FFFFFF' : colors.text }]}>
-                {showMap ? t('manualEntry.hideMap') : t('manualEntry.drawRoute')}
-              </ThemedText>
-            </TouchableOpacity>
+            <View style={styles.sectionActions}>
+              <TouchableOpacity
+                style={[styles.toggleButton, { backgroundColor: importedTrack ? colors.primary : colors.card }]}
+                onPress={handleImport}
+              >
+                <MaterialCommunityIcons
+                  name="file-import-outline"
+                  size={20}
+                  color={importedTrack ? '#FFFFFF' : colors.icon}
+                />
+                <ThemedText style={[styles.toggleText, { color: importedTrack ? '#FFFFFF' : colors.text }]}>
+                  {t('manualEntry.importTrack')}
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.toggleButton, { backgroundColor: showMap ? colors.primary : colors.card }]}
+                onPress={() => setShowMap(!showMap)}
+              >
+                <MaterialCommunityIcons
+                  name={showMap ? 'map-check' : 'map-outline'}
+                  size={20}
+                  color={showMap ? '#FFFFFF' : colors.icon}
+                />
+                <ThemedText style={[styles.toggleText, { color: showMap ? '#FFFFFF' : colors.text }]}>
+                  {showMap ? t('manualEntry.hideMap') : t('manualEntry.drawRoute')}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
           </View>
 
           {showMap && (
@@ -281,7 +383,9 @@ export default function ManualEntryScreen() {
                   <Camera
                     zoomLevel={13}
                     centerCoordinate={
-                      location 
+                      importedTrack
+                        ? [routePoints[0].longitude, routePoints[0].latitude]
+                        : location
                         ? [location.longitude, location.latitude]
                         : [-0.1276, 51.5074] // Default to London
                     }
@@ -319,12 +423,14 @@ export default function ManualEntryScreen() {
 
                 {routePoints.length > 0 && (
                   <View style={styles.mapControls}>
-                    <TouchableOpacity
-                      style={[styles.mapButton, { backgroundColor: colors.card }]}
-                      onPress={undoLastPoint}
-                    >
-                      <MaterialCommunityIcons name="undo" size={20} color={colors.icon} />
-                    </TouchableOpacity>
+                    {!importedTrack && (
+                      <TouchableOpacity
+                        style={[styles.mapButton, { backgroundColor: colors.card }]}
+                        onPress={undoLastPoint}
+                      >
+                        <MaterialCommunityIcons name="undo" size={20} color={colors.icon} />
+                      </TouchableOpacity>
+                    )}
                     <TouchableOpacity
                       style={[styles.mapButton, { backgroundColor: colors.card }]}
                       onPress={clearRoute}
@@ -336,7 +442,12 @@ export default function ManualEntryScreen() {
               </View>
 
               <ThemedText style={[styles.mapHint, { color: colors.textSecondary }]}>
-                {t('manualEntry.mapHint')}
+                {importedTrack
+                  ? t('manualEntry.importHint', {
+                      format: importedTrack.format.toUpperCase(),
+                      count: importedTrack.points.length,
+                    })
+                  : t('manualEntry.mapHint')}
               </ThemedText>
             </>
           )}
@@ -367,6 +478,7 @@ export default function ManualEntryScreen() {
               <TextInput
                 value={hours}
                 onChangeText={setHours}
+                editable={!importedTrack}
                 placeholder="0"
                 keyboardType="number-pad"
                 containerStyle={styles.durationInputContainer}
@@ -378,6 +490,7 @@ export default function ManualEntryScreen() {
               <TextInput
                 value={minutes}
                 onChangeText={setMinutes}
+                editable={!importedTrack}
                 placeholder="0"
                 keyboardType="number-pad"
                 containerStyle={styles.durationInputContainer}
@@ -472,6 +585,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   toggleButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -11,6 +11,7 @@ import {
   StyleSheet,
   Alert,
   TouchableOpacity,
+  Pressable,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -24,6 +25,7 @@ import {
   FeelingSelector,
   RatingMap,
   SegmentPainter,
+  SegmentTagSheet,
   type RatingMapRef,
 } from '@/components/rating';
 import { Button } from '@/components/ui';
@@ -34,10 +36,17 @@ import type { Coordinate } from '@/types/location';
 import {
   FeelingType,
   RouteSegment,
+  SegmentTag,
+  TAGGABLE_FEELINGS,
   mergeSegments,
-  toSubmitRatingsRequest,
 } from '@/types/rating';
-import { ratingsAPI } from '@/lib/api/ratings';
+import { outboxService } from '@/lib/services/OutboxService';
+import { roadSectionsApi } from '@/lib/api/roadSections';
+import { calculateBoundingBox, parseRouteData, stringifyRouteData } from '@/lib/utils/geoCalculations';
+import { withSegmentDetails } from '@/lib/utils/segmentTags';
+import { toSubmitRatingsRequest } from '@/lib/utils/roadMatching';
+import { diffRatings } from '@/lib/utils/ratingDiff';
+import { clearSuggestedRange, suggestSegments, type PastRouteRating } from '@/lib/utils/ratingSuggestions';
 import { useTrip } from '@/lib/hooks/useTrips';
 import { ReportIssueModal } from '@/components/maps/ReportIssueModal';
 
@@ -70,6 +79,25 @@ function densifyRoute(route: Coordinate[], targetPointsPerSegment: number = 5):
   return densified;
 }
 
+// Most recent trip ratings to draw suggestions from
+const PAST_RATINGS_LIMIT = 30;
+
+/**
+ * The rider's recent trip ratings with the routes they were painted on.
+ * Ratings saved without their route are skipped.
+ */
+async function loadPastRatings(excludeTripId: string): Promise<PastRouteRating[]> {
+  return (await database.getAllRatings())
+    .filter((rating) => rating.trip_id !== excludeTripId && rating.route_data)
+    .slice(0, PAST_RATINGS_LIMIT)
+    .map((rating) => ({
+      route: parseRouteData(rating.route_data ?? null),
+      segments: JSON.parse(rating.segments) as RouteSegment[],
+      ratedAt: rating.rated_at,
+    }))
+    .filter((rating) => rating.route.length >= 2);
+}
+
 export default function RateRouteScreen() {
   const { colors } = useTheme();
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -90,6 +118,15 @@ export default function RateRouteScreen() {
   const [selectedFeeling, setSelectedFeeling] = useState<FeelingType | null>(null);
   const [segments, setSegments] = useState<RouteSegment[]>([]); // Segments reference originalRoute indices
   const [previewSegment, setPreviewSegment] = useState<RouteSegment | null>(null);
+  // Stressed/uncomfortable segment waiting for its tags before it is merged in
+  const [taggingSegment, setTaggingSegment] = useState<RouteSegment | null>(null);
+  // Last saved painting when re-rating, to compare the edit against
+  const [savedRating, setSavedRating] = useState<{ segments: RouteSegment[]; ratedAt: number; version: number } | null>(
+    null
+  );
+  const [showingSaved, setShowingSaved] = useState(false);
+  // Feelings suggested from past ratings of the same streets, ghosted until accepted
+  const [suggestions, setSuggestions] = useState<RouteSegment[]>([]);
   const [routeScreenPoints, setRouteScreenPoints] = useState<
     { x: number; y: number }[]
   >([]);
@@ -182,15 +219,43 @@ export default function RateRouteScreen() {
           // Each original index maps to densified via: index * (pointsPerSegment + 1)
           const pointsPerSegment = 10;
           const mappedSegments = existingSegments.map(seg => ({
+            ...seg,
             startIndex: seg.startIndex * (pointsPerSegment + 1),
             endIndex: Math.min(
               seg.endIndex * (pointsPerSegment + 1),
               densifiedRoute.length - 1
             ),
-            feeling: seg.feeling,
           }));
 
           setSegments(mappedSegments);
+          setSavedRating({
+            segments: mappedSegments,
+            ratedAt: existingRating.rated_at,
+            version: existingRating.version,
+          });
+        } else {
+          // Suggest feelings from past ratings; rating works the same without them
+          try {
+            const box = calculateBoundingBox(routeData);
+            const [pastRatings, roadSections] = await Promise.all([
+              loadPastRatings(backendTrip.client_id),
+              box
+                ? roadSectionsApi
+                    .getPersonalRoadSections(`${box.minLng},${box.minLat},${box.maxLng},${box.maxLat}`)
+                    .catch(() => [])
+                : [],
+            ]);
+            const pointsPerSegment = 10;
+            setSuggestions(
+              suggestSegments(routeData, pastRatings, roadSections).map(seg => ({
+                ...seg,
+                startIndex: seg.startIndex * (pointsPerSegment + 1),
+                endIndex: Math.min(seg.endIndex * (pointsPerSegment + 1), densifiedRoute.length - 1),
+              }))
+            );
+          } catch (error) {
+            console.warn('[RateRoute] Could not suggest ratings:', error);
+          }
         }
       } catch (error) {
         console.error('[RateRoute] Error loading trip:', error);
@@ -223,6 +288,14 @@ export default function RateRouteScreen() {
   // Handle segment painted
   const handleSegmentPainted = useCallback(
     (segment: RouteSegment) => {
+      // Painting over a suggestion replaces it
+      setSuggestions((prev) => clearSuggestedRange(prev, segment));
+      // Ask what made it stressful first; the segment shows as a preview meanwhile
+      if (TAGGABLE_FEELINGS.includes(segment.feeling)) {
+        setTaggingSegment(segment);
+        setPreviewSegment(segment);
+        return;
+      }
       setSegments((prev) => {
         const merged = mergeSegments(prev, segment);
         return merged;
@@ -232,6 +305,24 @@ export default function RateRouteScreen() {
     [route.length]
   );
 
+  // Handle tag sheet closed - merge the painted segment with or without its tags
+  const handleTagsDone = useCallback(
+    (details?: { tags: SegmentTag[]; note: string }) => {
+      if (!taggingSegment) return;
+      const segment = details ? withSegmentDetails(taggingSegment, details) : taggingSegment;
+      setSegments((prev) => mergeSegments(prev, segment));
+      setTaggingSegment(null);
+      setPreviewSegment(null);
+    },
+    [taggingSegment]
+  );
+
+  // Handle accept suggestions - paint them in under what the rider already painted
+  const handleAcceptSuggestions = useCallback(() => {
+    setSegments((prev) => suggestions.reduce((merged, suggestion) => mergeSegments(merged, suggestion), prev));
+    setSuggestions([]);
+  }, [suggestions]);
+
   // Handle feeling selection - refresh screen points when selecting a feeling
   // Tap same feeling to deselect it
   const handleFeelingSelect = useCallback(async (feeling: FeelingType) => {
@@ -290,6 +381,12 @@ export default function RateRouteScreen() {
     ]);
   }, []);
 
+  // Stretches painted differently from the saved rating, outlined on the map
+  const changes = useMemo(
+    () => (savedRating ? diffRatings(savedRating.segments, segments) : []),
+    [savedRating, segments]
+  );
+
   // Handle undo last
   const handleUndoLast = useCallback(() => {
     setSegments((prev) => {
@@ -320,44 +417,28 @@ export default function RateRouteScreen() {
       // Each original segment has 10 interpolated points, so densified index maps to original via floor(index / 11)
       const pointsPerSegment = 10;
       const originalSegments = segments.map(seg => ({
+        ...seg,
         startIndex: Math.floor(seg.startIndex / (pointsPerSegment + 1)),
         endIndex: Math.min(
           Math.floor(seg.endIndex / (pointsPerSegment + 1)),
           originalRoute.length - 1
         ),
-        feeling: seg.feeling,
       }));
 
-      // Check if rating already exists locally
-      const existingRating = await database.getRating(clientId);
-
-      // Save locally first (offline-first approach)
-      if (existingRating) {
-        await database.updateRating(clientId, {
-          segments: JSON.stringify(originalSegments),
-          synced: 0,
-        });
-      } else {
-        await database.createRating({
-          trip_id: clientId,
-          segments: JSON.stringify(originalSegments),
-          rated_at: now,
-          synced: 0,
-          backend_id: null,
-          created_at: now,
-          updated_at: now,
-        });
-      }
+      // Save locally first (offline-first approach); an edit becomes a new version
+      const version = await database.reviseRating(
+        clientId,
+        JSON.stringify(originalSegments),
+        now,
+        stringifyRouteData(originalRoute)
+      );
 
       // Submit to backend API
       try {
-        const apiRequest = toSubmitRatingsRequest(
-          clientId,
-          originalSegments,
-          originalRoute,
-          backendTrip.id,
-          now
-        );
+        const apiRequest = {
+          ...toSubmitRatingsRequest(clientId, originalSegments, originalRoute, backendTrip.id, now),
+          version,
+        };
 
         // Log full payload for debugging - easy to copy for backend engineer
         console.log('========================================');
@@ -366,10 +447,24 @@ export default function RateRouteScreen() {
         console.log(JSON.stringify(apiRequest, null, 2));
         console.log('========================================');
 
-        await ratingsAPI.submitRatings(apiRequest);
-
-        // Mark as synced on success
-        await database.updateRating(clientId, { synced: 1 });
+        // The outbox marks the local rating as synced once the backend accepts it
+        const outcome = await outboxService.submit('route_rating', {
+          tripId: clientId,
+          request: apiRequest,
+        });
+        if (outcome === 'queued') {
+          Alert.alert(
+            'Saved Locally',
+            'Your rating was saved and will be uploaded automatically when you have a connection.',
+            [
+              {
+                text: 'OK',
+                onPress: () => router.back(),
+              },
+            ]
+          );
+          return;
+        }
 
         Alert.alert('Success', 'Your route rating has been saved!', [
           {
@@ -379,10 +474,10 @@ export default function RateRouteScreen() {
         ]);
       } catch (apiError) {
         console.error('[RateRoute] API submission failed:', apiError);
-        // Rating is saved locally but not synced - will be retried later
+        // The backend rejected the rating; it is kept locally but not synced
         Alert.alert(
           'Saved Locally',
-          'Your rating was saved but could not be uploaded. It will sync automatically when you have a connection.',
+          'Your rating was saved on this device but could not be uploaded.',
           [
             {
               text: 'OK',
@@ -507,8 +602,10 @@ export default function RateRouteScreen() {
                 <RatingMap
                   ref={mapRef}
                   route={route}
-                  segments={segments}
-                  previewSegment={previewSegment}
+                  segments={showingSaved && savedRating ? savedRating.segments : segments}
+                  previewSegment={showingSaved ? null : previewSegment}
+                  highlightRanges={changes}
+                  suggestedSegments={showingSaved ? [] : suggestions}
                   pendingReportLocation={pendingReportCoordinate}
                   onMapReady={handleMapReady}
                   onCameraIdle={handleCameraIdle}
@@ -541,6 +638,57 @@ export default function RateRouteScreen() {
 
           {/* Bottom panel - compact */}
           <View style={[styles.bottomPanel, { backgroundColor: colors.card }]}>
+            {/* Re-rating: what changed since the saved version, and hold to see it */}
+            {savedRating && (
+              <View style={styles.editRow}>
+                <ThemedText style={[styles.editText, { color: colors.textSecondary }]}>
+                  {`Editing your rating from ${new Date(savedRating.ratedAt).toLocaleDateString()}`}
+                  {changes.length > 0 && ` · ${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`}
+                </ThemedText>
+                <Pressable
+                  onPressIn={() => setShowingSaved(true)}
+                  onPressOut={() => setShowingSaved(false)}
+                  style={[styles.pillButton, { borderColor: colors.border }]}
+                  accessibilityRole="button"
+                >
+                  <MaterialCommunityIcons name="history" size={14} color={colors.primary} />
+                  <ThemedText style={[styles.pillText, { color: colors.primary }]}>
+                    Hold to compare
+                  </ThemedText>
+                </Pressable>
+              </View>
+            )}
+
+            {/* Suggestions from past ratings: accept them all, paint over to change, or clear */}
+            {suggestions.length > 0 && (
+              <View style={styles.editRow}>
+                <ThemedText style={[styles.editText, { color: colors.textSecondary }]}>
+                  {`${suggestions.length} ${suggestions.length === 1 ? 'stretch' : 'stretches'} suggested from your past ratings`}
+                </ThemedText>
+                <View style={styles.suggestionActions}>
+                  <TouchableOpacity
+                    onPress={() => setSuggestions([])}
+                    style={[styles.pillButton, { borderColor: colors.border }]}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={[styles.pillText, { color: colors.textSecondary }]}>
+                      Clear
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={handleAcceptSuggestions}
+                    style={[styles.pillButton, { borderColor: colors.primary }]}
+                    activeOpacity={0.7}
+                  >
+                    <MaterialCommunityIcons name="check" size={14} color={colors.primary} />
+                    <ThemedText style={[styles.pillText, { color: colors.primary }]}>
+                      Accept
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
             {/* Instruction hint */}
             <ThemedText style={[styles.hintText, { color: colors.textSecondary }]}>
               {selectedFeeling ? 'Swipe on route to paint. Long press to report an issue.' : 'Select a feeling to start. Long press to report an issue.'}
@@ -557,7 +705,7 @@ export default function RateRouteScreen() {
             {/* Save button */}
             <View style={styles.footer}>
               <Button
-                title="Save Rating"
+                title={savedRating ? 'Save Changes' : 'Save Rating'}
                 onPress={handleSave}
                 variant="primary"
                 size="medium"
@@ -569,10 +717,18 @@ export default function RateRouteScreen() {
           </View>
         </ThemedView>
 
+        {/* Tags for a stressed/uncomfortable segment */}
+        <SegmentTagSheet
+          visible={!!taggingSegment}
+          feeling={taggingSegment?.feeling ?? null}
+          onDone={handleTagsDone}
+          onSkip={() => handleTagsDone()}
+        />
+
         {/* Report Issue Modal */}
         <ReportIssueModal
           visible={showIssueModal}
-          coordinates={issueCoordinate}
+          geometry={issueCoordinate && { type: 'Point', coordinates: [issueCoordinate.longitude, issueCoordinate.latitude] }}
           onClose={handleCloseIssueModal}
         />
       </SafeAreaView>
@@ -684,6 +840,34 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: Spacing.xs,
   },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  editText: {
+    flex: 1,
+    fontSize: 12,
+  },
+  suggestionActions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  pillButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   footer: {
     paddingHorizontal: Spacing.md,
     paddingTop: Spacing.sm,
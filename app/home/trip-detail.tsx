@@ -13,24 +13,31 @@ import { formatDistance, formatDuration, formatSpeed } from '@/lib/utils/geoCalc
 import { getTripTypeColor, getTripTypeIcon, getTripTypeName } from '@/types/trip';
 import { MapStyles } from '@/config/mapbox';
 import { useMapLayer } from '@/lib/hooks/useMapLayer';
-import Mapbox, { Camera, LineLayer, ShapeSource } from '@rnmapbox/maps';
+import Mapbox, { Camera, CircleLayer, LineLayer, ShapeSource } from '@rnmapbox/maps';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useMemo, useState, useEffect } from 'react';
 import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { ChevronLeftIcon, ChevronDownIcon, ChevronUpIcon } from 'react-native-heroicons/outline';
-import { useTrip, useDeleteTrip, useUpdateTrip } from '@/lib/hooks/useTrips';
+import { useTrip, useDeleteTrip, useUpdateTrip, useTripSegments } from '@/lib/hooks/useTrips';
 import { database } from '@/lib/database';
 import type { Trip } from '@/lib/database/db';
 import type { TripType } from '@/types/trip';
 import NetInfo from '@react-native-community/netinfo';
-import { syncService } from '@/lib/services/SyncService';
+import { outboxService } from '@/lib/services/OutboxService';
 import { useTranslation } from 'react-i18next';
 import { formatDate } from '@/lib/i18n/formatters';
 import { TripNoteEditor } from '@/components/tracking/TripNoteEditor';
+import { TripSplitEditor } from '@/components/tracking/TripSplitEditor';
+import { TripSegmentTimeline } from '@/components/tracking/TripSegmentTimeline';
 import { useAuth } from '@/contexts/AuthContext';
 import { isDebugEnabled } from '@/lib/utils/debugAccess';
+import { TripManager } from '@/lib/services/TripManager';
+import { buildTripExport, pointsFromRoute, type TripExportFormat } from '@/lib/utils/tripExport';
+import { shareTextFile } from '@/lib/utils/shareFile';
+import { routeBySegment } from '@/lib/utils/tripSegments';
+import { encodeGuideRoute } from '@/lib/utils/routeFollower';
 
 
 export default function TripDetailScreen() {
@@ -46,6 +53,8 @@ export default function TripDetailScreen() {
   const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [confirmTypeOverride, setConfirmTypeOverride] = useState<TripType | null>(null);
   const [confirmedLocally, setConfirmedLocally] = useState(false);
+  const [canSplit, setCanSplit] = useState(false);
+  const [splitIndex, setSplitIndex] = useState<number | null>(null);
 
   // Try to parse as number (backend trip ID) or use as string (local client_id)
   const tripId = useMemo(() => {
@@ -78,8 +87,10 @@ export default function TripDetailScreen() {
           }
           if (mounted && tripData) {
             setLocalTrip(tripData);
-            // Flush any pending dirty edits to backend (fire-and-forget; offline is fine)
-            void syncService.patchTripFields(tripData.id).catch(() => {/* offline, retry later */});
+            // Queue any pending dirty edits for the backend (fire-and-forget; offline is fine)
+            if (tripData.user_note_dirty || tripData.type_dirty) {
+              void outboxService.submit('trip_patch', { tripId: tripData.id }).catch(() => {/* rejected by the server */});
+            }
           }
         } catch (error) {
           console.error('[TripDetail] Error loading local trip:', error);
@@ -189,6 +200,27 @@ export default function TripDetailScreen() {
     return null;
   }, [backendTrip, localTrip, isLocalTrip]);
 
+  // Splitting rewrites the recorded track, so it needs the trip in the local database
+  const detailTripId = tripDetails?.trip.id;
+  useEffect(() => {
+    let mounted = true;
+    if (!detailTripId) return;
+
+    database.getTrip(detailTripId)
+      .then((stored) => {
+        if (mounted) setCanSplit(stored?.status === 'completed');
+      })
+      .catch(() => {});
+
+    return () => {
+      mounted = false;
+    };
+  }, [detailTripId]);
+
+  // Per-mode breakdown, only kept for trips recorded on this device
+  const { data: segments = [] } = useTripSegments(detailTripId);
+  const isMultiModal = segments.length > 1;
+
   function handleDelete() {
     Alert.alert(
       'Delete Trip',
@@ -218,6 +250,66 @@ export default function TripDetailScreen() {
     );
   }
 
+  function handleExport() {
+    Alert.alert(
+      t('trip_detail.export_title'),
+      t('trip_detail.export_message'),
+      [
+        { text: 'GPX', onPress: () => exportAs('gpx') },
+        { text: 'TCX', onPress: () => exportAs('tcx') },
+        { text: 'GeoJSON', onPress: () => exportAs('geojson') },
+        { text: t('trip_detail.notes_cancel'), style: 'cancel' },
+      ]
+    );
+  }
+
+  function handleFollow() {
+    if (!tripDetails || tripDetails.route.length < 2) return;
+    router.push({
+      pathname: '/home/follow-route',
+      params: {
+        route: encodeGuideRoute(tripDetails.route),
+        title: getTripTypeName(tripDetails.trip.type),
+      },
+    });
+  }
+
+  async function exportAs(format: TripExportFormat) {
+    if (!tripDetails) return;
+    const { trip, route } = tripDetails;
+    try {
+      // Prefer the full-resolution local recording (altitude, speed, motion segments)
+      let file = await TripManager.getTripExportFile(trip.id, format);
+
+      // Backend-only trip (e.g. recorded on another device): fall back to the API route
+      if (!file && route.length > 0) {
+        const meta = {
+          id: trip.id,
+          type: trip.type,
+          start_time: trip.start_time,
+          end_time: trip.end_time,
+          distance: trip.distance,
+          duration: trip.duration,
+          user_note: trip.user_note,
+        };
+        file = buildTripExport(format, meta, pointsFromRoute(route, meta));
+      }
+
+      if (!file) {
+        Alert.alert(t('trip_detail.export_title'), t('trip_detail.export_no_route'));
+        return;
+      }
+
+      const shared = await shareTextFile(file, t('trip_detail.export_title'));
+      if (!shared) {
+        Alert.alert(t('trip_detail.export_title'), t('trip_detail.export_unavailable'));
+      }
+    } catch (error) {
+      console.error('[TripDetail] Error exporting trip:', error);
+      Alert.alert('Error', t('trip_detail.export_failed'));
+    }
+  }
+
   async function handleConfirmTrip() {
     if (!backendTrip) return;
     const selectedType = confirmTypeOverride ?? backendTrip.type;
@@ -325,12 +417,41 @@ export default function TripDetailScreen() {
     },
   } : null;
 
+  // One line per segment, coloured by mode, drawn over the full route
+  const segmentRouteGeoJSON = isMultiModal ? {
+    type: 'FeatureCollection' as const,
+    features: routeBySegment(route, segments).map(({ type, points }) => ({
+      type: 'Feature' as const,
+      properties: { color: getTripTypeColor(type) },
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: points.map((coord) => [coord.longitude, coord.latitude]),
+      },
+    })),
+  } : null;
+
   // Calculate center and bounds
   const center = route.length > 0 ? [
     route[Math.floor(route.length / 2)].longitude,
     route[Math.floor(route.length / 2)].latitude,
   ] : [-122.4194, 37.7749];
 
+  // Marker for the point the trip will be split at
+  const splitPoint = splitIndex != null ? route[splitIndex] : null;
+  const splitPointGeoJSON = splitPoint ? {
+    type: 'Feature' as const,
+    properties: null,
+    geometry: {
+      type: 'Point' as const,
+      coordinates: [splitPoint.longitude, splitPoint.latitude],
+    },
+  } : null;
+
+  function handleSplitDone() {
+    Alert.alert(t('trip_detail.split_done'), t('trip_detail.split_done_message'));
+    router.back();
+  }
+
   // Helper to reload local trip after a note save
   async function reloadLocalTrip() {
     try {
@@ -363,9 +484,23 @@ export default function TripDetailScreen() {
             {tripName}
           </ThemedText>
 
-          <TouchableOpacity onPress={handleDelete} style={styles.deleteButton}>
-            <MaterialCommunityIcons name="delete" size={24} color="#EF4444" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {route.length > 1 && (
+              <TouchableOpacity
+                onPress={handleFollow}
+                style={styles.headerButton}
+                accessibilityLabel={t('follow.start')}
+              >
+                <MaterialCommunityIcons name="navigation-variant" size={24} color={colors.text} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleExport} style={styles.headerButton}>
+              <MaterialCommunityIcons name="export-variant" size={24} color={colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDelete} style={styles.deleteButton}>
+              <MaterialCommunityIcons name="delete" size={24} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -392,7 +527,7 @@ export default function TripDetailScreen() {
                       <LineLayer
                         id="routeLine"
                         style={{
-                          lineColor: tripColor,
+                          lineColor: isMultiModal ? colors.textSecondary : tripColor,
                           lineWidth: 6,
                           lineCap: 'round',
                           lineJoin: 'round',
@@ -401,6 +536,35 @@ export default function TripDetailScreen() {
                       />
                     </ShapeSource>
                   )}
+
+                  {segmentRouteGeoJSON && (
+                    <ShapeSource id="segmentRouteSource" shape={segmentRouteGeoJSON}>
+                      <LineLayer
+                        id="segmentRouteLine"
+                        aboveLayerID="routeLine"
+                        style={{
+                          lineColor: ['get', 'color'],
+                          lineWidth: 6,
+                          lineCap: 'round',
+                          lineJoin: 'round',
+                        }}
+                      />
+                    </ShapeSource>
+                  )}
+
+                  {splitPointGeoJSON && (
+                    <ShapeSource id="splitPointSource" shape={splitPointGeoJSON}>
+                      <CircleLayer
+                        id="splitPoint"
+                        style={{
+                          circleRadius: 8,
+                          circleColor: '#FFFFFF',
+                          circleStrokeColor: tripColor,
+                          circleStrokeWidth: 3,
+                        }}
+                      />
+                    </ShapeSource>
+                  )}
                 </Mapbox.MapView>
               </View>
             </View>
@@ -559,7 +723,22 @@ export default function TripDetailScreen() {
               </View>
             )}
 
-            {/* 7. Notes section */}
+            {/* 7. Segments */}
+            {isMultiModal && (
+              <View style={[styles.sectionCard, { backgroundColor: colors.backgroundSecondary }]}>
+                <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  {t('trip_detail.segments_title')}
+                </ThemedText>
+                <TripSegmentTimeline
+                  tripId={trip.id}
+                  segments={segments}
+                  co2Saved={trip.co2_saved ?? 0}
+                  onRelabel={reloadLocalTrip}
+                />
+              </View>
+            )}
+
+            {/* 8. Notes section */}
             <View style={[styles.sectionCard, { backgroundColor: colors.backgroundSecondary }]}>
               <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
                 {t('trip_detail.notes_title')}
@@ -571,7 +750,23 @@ export default function TripDetailScreen() {
               />
             </View>
 
-            {/* 8. Beta Diagnostics drawer */}
+            {/* 9. Split trip */}
+            {canSplit && (
+              <View style={[styles.sectionCard, { backgroundColor: colors.backgroundSecondary }]}>
+                <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  {t('trip_detail.split_title')}
+                </ThemedText>
+                <TripSplitEditor
+                  tripId={trip.id}
+                  route={route}
+                  splitIndex={splitIndex}
+                  onChangeSplitIndex={setSplitIndex}
+                  onSplit={handleSplitDone}
+                />
+              </View>
+            )}
+
+            {/* 10. Beta Diagnostics drawer */}
             {isDebugBuild && (
               <View style={[styles.infoCard, { backgroundColor: colors.backgroundSecondary, marginTop: Spacing.sm }]}>
                 <TouchableOpacity
@@ -705,6 +900,16 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   deleteButton: {
     width: 40,
     height: 40,
@@ -51,6 +51,7 @@ export default function TripHistoryScreen() {
   const [syncing, setSyncing] = useState(false);
   const [unsyncedCount, setUnsyncedCount] = useState(0);
   const [ratedTripIds, setRatedTripIds] = useState<Set<string>>(new Set());
+  const [editedTripIds, setEditedTripIds] = useState<Set<string>>(new Set());
   const [localTrips, setLocalTrips] = useState<DBTrip[]>([]);
   const [localLoading, setLocalLoading] = useState(true);
   const { isOnline } = useNetworkStatus();
@@ -70,6 +71,7 @@ export default function TripHistoryScreen() {
       const ratings = await database.getAllRatings();
       const ratedIds = new Set(ratings.map((r) => r.trip_id));
       setRatedTripIds(ratedIds);
+      setEditedTripIds(new Set(ratings.filter((r) => r.version > 1).map((r) => r.trip_id)));
 
       // Load local trips for offline display
       const trips = await database.getAllTrips({ status: 'completed' });
@@ -258,7 +260,12 @@ export default function TripHistoryScreen() {
             </View>
             {/* Rating Badge - only show for trips with route data */}
             {item.hasRoute && (
-              <RatedBadge isRated={isRated} size="small" style={styles.ratedBadge} />
+              <RatedBadge
+                isRated={isRated}
+                isEdited={editedTripIds.has(item.clientId)}
+                size="small"
+                style={styles.ratedBadge}
+              />
             )}
           </View>
 
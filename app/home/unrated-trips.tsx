@@ -25,46 +25,16 @@ import { UnratedTripCard } from '@/components/rating';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Spacing } from '@/constants/theme';
 import { database, type Trip } from '@/lib/database';
-import { useTrips } from '@/lib/hooks/useTrips';
-import type { ApiTrip } from '@/lib/api/trips';
+import { useLocalTrips } from '@/lib/hooks/useTrips';
 import { isVisibleTripType } from '@/lib/utils/tripTypeUi';
 
-// Transform backend ApiTrip to local Trip format for the card component
-function transformApiTripToLocal(apiTrip: ApiTrip): Trip {
-  return {
-    id: apiTrip.client_id,
-    user_id: apiTrip.user.toString(),
-    type: apiTrip.type,
-    status: apiTrip.status,
-    is_manual: apiTrip.is_manual ? 1 : 0,
-    start_time: new Date(apiTrip.start_timestamp).getTime(),
-    end_time: new Date(apiTrip.end_timestamp).getTime(),
-    distance: apiTrip.distance * 1000, // Convert km to meters
-    duration: apiTrip.duration,
-    avg_speed: apiTrip.average_speed,
-    max_speed: 0, // Not available from backend
-    elevation_gain: apiTrip.elevation_gain || 0,
-    calories: 0, // Not available from backend
-    co2_saved: apiTrip.co2_saved,
-    notes: apiTrip.notes || null,
-    route_data: apiTrip.route ? JSON.stringify(apiTrip.route) : null,
-    created_at: new Date(apiTrip.created_at).getTime(),
-    updated_at: new Date(apiTrip.updated_at).getTime(),
-    synced: 1,
-    backend_id: apiTrip.id,
-    ml_activity_type: null,
-    ml_confidence: null,
-    classification_method: 'speed',
-  };
-}
-
 export default function UnratedTripsScreen() {
   const { colors } = useTheme();
   const [ratedTripIds, setRatedTripIds] = useState<Set<string>>(new Set());
   const [showInfoModal, setShowInfoModal] = useState(false);
 
-  // Fetch completed trips from backend
-  const { data: backendTrips, isLoading, refetch, isRefetching } = useTrips({ status: 'completed' });
+  // Completed trips from the local database, including those pulled from the backend
+  const { data: localTrips, isLoading, refetch, isRefetching } = useLocalTrips({ status: 'completed' });
 
   // Load rated trip IDs from local database
   const loadRatedTrips = useCallback(async () => {
@@ -92,24 +62,15 @@ export default function UnratedTripsScreen() {
 
   // Filter for unrated trips with route data (walk/cycle only)
   const unratedTrips = useMemo(() => {
-    if (!backendTrips) return [];
+    if (!localTrips) return [];
 
-    return backendTrips
-      .filter((trip) => trip.is_valid !== false) // Exclude invalid/drift trips
-      .filter((trip) => trip.route && trip.route.length > 0) // Only trips with route data
+    return localTrips
+      .filter((trip) => trip.backend_id != null) // Rating opens the backend copy
+      .filter((trip) => trip.is_valid !== 0) // Exclude invalid/drift trips
+      .filter((trip) => !!trip.route_data) // Only trips with route data
       .filter((trip) => isVisibleTripType(trip.type)) // v1: only walk + cycle
-      .filter((trip) => !ratedTripIds.has(trip.client_id)) // Only unrated trips
-      .map(transformApiTripToLocal);
-  }, [backendTrips, ratedTripIds]);
-
-  // Keep a mapping of client_id to backend ID for navigation
-  const clientIdToBackendId = useMemo(() => {
-    if (!backendTrips) return new Map<string, number>();
-    
-    return new Map(
-      backendTrips.map(trip => [trip.client_id, trip.id])
-    );
-  }, [backendTrips]);
+      .filter((trip) => !ratedTripIds.has(trip.id)); // Only unrated trips
+  }, [localTrips, ratedTripIds]);
 
   const onRefresh = async () => {
     await Promise.all([refetch(), loadRatedTrips()]);
@@ -117,12 +78,7 @@ export default function UnratedTripsScreen() {
 
   const handleTripPress = (trip: Trip) => {
     // Use the backend ID for navigation
-    const backendId = clientIdToBackendId.get(trip.id);
-    if (backendId) {
-      router.push(`/home/rate-route?id=${backendId}`);
-    } else {
-      console.error('[UnratedTrips] Backend ID not found for client_id:', trip.id);
-    }
+    router.push(`/home/rate-route?id=${trip.backend_id}`);
   };
 
   const renderTrip = ({ item }: { item: Trip }) => (
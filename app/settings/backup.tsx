@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { useQueryClient } from '@tanstack/react-query';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import {
+  ArchiveBoxArrowDownIcon,
+  ArrowUpTrayIcon,
+  CircleStackIcon,
+} from 'react-native-heroicons/outline';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import Header from '@/components/layout/Header';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { BackupTooNewError, database, parseBackup } from '@/lib/database';
+import { tripKeys } from '@/lib/hooks/useTrips';
+import { shareTextFile } from '@/lib/utils/shareFile';
+
+interface LocalStats {
+  totalTrips: number;
+  unsyncedTrips: number;
+  totalLocations: number;
+}
+
+export default function BackupScreen() {
+  const { t } = useTranslation('profile');
+  const { colors } = useTheme();
+  const queryClient = useQueryClient();
+  const [stats, setStats] = useState<LocalStats | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setStats(await database.getStats());
+    } catch (error) {
+      console.error('[Backup] Failed to load database stats:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const backup = await database.createBackup();
+      const date = new Date(backup.createdAt).toISOString().slice(0, 10);
+      const shared = await shareTextFile(
+        {
+          filename: `radzi-backup-${date}.json`,
+          mimeType: 'application/json',
+          uti: 'public.json',
+          content: JSON.stringify(backup),
+        },
+        t('backup.exportDialogTitle')
+      );
+      if (!shared) {
+        Alert.alert(t('backup.errorTitle'), t('backup.shareUnavailable'));
+      }
+    } catch (error) {
+      console.error('[Backup] Export failed:', error);
+      Alert.alert(t('backup.errorTitle'), t('backup.exportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleRestore() {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets?.[0]) return;
+
+    setRestoring(true);
+    try {
+      const backup = parseBackup(await new File(picked.assets[0].uri).text());
+      const result = await database.restoreBackup(backup);
+
+      queryClient.invalidateQueries({ queryKey: tripKeys.all });
+      await refreshStats();
+
+      Alert.alert(
+        t('backup.restoreDoneTitle'),
+        t('backup.restoreDoneMessage', {
+          trips: result.trips,
+          skipped: result.skippedTrips,
+          ratings: result.routeRatings,
+        })
+      );
+    } catch (error) {
+      console.error('[Backup] Restore failed:', error);
+      Alert.alert(
+        t('backup.errorTitle'),
+        error instanceof BackupTooNewError
+          ? t('backup.restoreNewerVersion')
+          : t('backup.restoreFailed')
+      );
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      <Header title={t('backup.title')} showBack />
+      <ThemedView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+            {t('backup.description')}
+          </ThemedText>
+
+          {stats && (
+            <Card variant="outlined" style={styles.card}>
+              <View style={styles.row}>
+                <View style={[styles.iconBox, { backgroundColor: colors.primary + '1F' }]}>
+                  <CircleStackIcon size={18} color={colors.primary} />
+                </View>
+                <View style={styles.rowText}>
+                  <ThemedText style={styles.rowLabel}>{t('backup.localData')}</ThemedText>
+                  <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+                    {t('backup.localDataSummary', {
+                      trips: stats.totalTrips,
+                      unsynced: stats.unsyncedTrips,
+                      points: stats.totalLocations,
+                    })}
+                  </ThemedText>
+                </View>
+              </View>
+            </Card>
+          )}
+
+          <Button
+            title={t('backup.export')}
+            onPress={handleExport}
+            loading={exporting}
+            disabled={restoring}
+            fullWidth
+            icon={<ArrowUpTrayIcon size={16} color="#FFFFFF" />}
+          />
+          <Button
+            title={t('backup.restore')}
+            onPress={handleRestore}
+            variant="outline"
+            loading={restoring}
+            disabled={exporting}
+            fullWidth
+            icon={<ArchiveBoxArrowDownIcon size={16} color={colors.primary} />}
+          />
+
+          <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+            {t('backup.restoreHint')}
+          </ThemedText>
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { flex: 1 },
+  content: { padding: Spacing.lg, gap: Spacing.md },
+  description: { fontSize: FontSizes.sm, lineHeight: 20 },
+  card: { marginVertical: 0 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  iconBox: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowText: { flex: 1, gap: 3 },
+  rowLabel: { fontSize: FontSizes.md, fontWeight: FontWeights.semibold },
+  rowSubtitle: { fontSize: FontSizes.xs },
+  hint: { fontSize: FontSizes.xs, lineHeight: 17, textAlign: 'center' },
+});
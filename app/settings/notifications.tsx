@@ -9,6 +9,8 @@ import Header from '@/components/layout/Header';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Spacing } from '@/constants/theme';
 import { showErrorAlert } from '@/lib/utils/alert';
+import { useHazardAlertPreferences } from '@/lib/hooks/useHazardAlerts';
+import { HAZARD_ALERT_CATEGORIES } from '@/lib/utils/hazardAlerts';
 import {
   getNotificationPreferences,
   updateNotificationPreferences,
@@ -22,6 +24,8 @@ export default function NotificationPreferencesScreen() {
   const { colors } = useTheme();
   const queryClient = useQueryClient();
   const [optimisticOverrides, setOptimisticOverrides] = useState<Partial<NotificationPreferences>>({});
+  // Hazard alerts are raised on the device while recording, so they are stored locally
+  const { preferences: hazardPrefs, setEnabled: setHazardEnabled } = useHazardAlertPreferences();
 
   const prefRows = [
     {
@@ -117,6 +121,33 @@ export default function NotificationPreferencesScreen() {
                 </View>
               ))}
             </View>
+
+            <ThemedText style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+              {t('profile:notifications.hazards.subtitle')}
+            </ThemedText>
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              {HAZARD_ALERT_CATEGORIES.map((category, index) => (
+                <View key={category}>
+                  {index > 0 && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
+                  <View style={styles.row}>
+                    <View style={styles.rowText}>
+                      <ThemedText style={styles.rowLabel}>
+                        {t(`profile:notifications.hazards.${category}.label`)}
+                      </ThemedText>
+                      <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+                        {t(`profile:notifications.hazards.${category}.subtitle`)}
+                      </ThemedText>
+                    </View>
+                    <Switch
+                      value={hazardPrefs[category]}
+                      onValueChange={(val) => setHazardEnabled(category, val)}
+                      trackColor={{ false: colors.border, true: colors.primary + '80' }}
+                      thumbColor={hazardPrefs[category] ? colors.primary : colors.textMuted}
+                    />
+                  </View>
+                </View>
+              ))}
+            </View>
           </View>
         )}
       </ThemedView>
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { ArrowPathIcon, MapIcon } from 'react-native-heroicons/outline';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import Header from '@/components/layout/Header';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useMapLayer, type MapLayer } from '@/lib/hooks/useMapLayer';
+import { useOfflineMaps } from '@/lib/hooks/useOfflineMaps';
+import { offlineMapService, type OfflineRegion } from '@/lib/services/OfflineMapService';
+import {
+  estimatePackBytes,
+  formatBytes,
+  type OfflineRegionBounds,
+  type OfflineRegionSuggestion,
+} from '@/lib/utils/offlineRegions';
+
+const LAYERS: MapLayer[] = ['light', 'dark', 'streets', 'outdoors', 'satellite'];
+
+function regionCenter(bounds: OfflineRegionBounds): string {
+  const latitude = (bounds.minLat + bounds.maxLat) / 2;
+  const longitude = (bounds.minLng + bounds.maxLng) / 2;
+  return `${latitude.toFixed(3)}, ${longitude.toFixed(3)}`;
+}
+
+export default function OfflineMapsScreen() {
+  const { t } = useTranslation('profile');
+  const { colors, isDark } = useTheme();
+  const { selectedLayer } = useMapLayer(isDark);
+  const { regions, suggestions, totalBytes, isLoading, refresh } = useOfflineMaps();
+  // Follows the map's layer until the rider picks a different style here
+  const [chosenLayer, setChosenLayer] = useState<MapLayer | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const layer = chosenLayer ?? selectedLayer;
+
+  async function run(key: string, action: () => Promise<void>) {
+    setBusy(key);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      console.error('[OfflineMaps] Action failed:', error);
+      Alert.alert(t('offlineMaps.title'), t('offlineMaps.failed'));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handleDownload(suggestion: OfflineRegionSuggestion, index: number) {
+    run(`suggestion_${index}`, () => offlineMapService.downloadRegion(suggestion.bounds, layer));
+  }
+
+  function handleDelete(region: OfflineRegion) {
+    Alert.alert(t('offlineMaps.deleteTitle'), t('offlineMaps.deleteMessage'), [
+      { text: t('common:buttons.cancel', 'Cancel'), style: 'cancel' },
+      {
+        text: t('offlineMaps.delete'),
+        style: 'destructive',
+        onPress: () => run(region.name, () => offlineMapService.removeRegion(region.name)),
+      },
+    ]);
+  }
+
+  function renderRegionStatus(region: OfflineRegion) {
+    if (!region.isComplete) {
+      return t('offlineMaps.downloading', { percent: Math.round(region.percentage) });
+    }
+    const date = new Date(region.expiresAt).toLocaleDateString();
+    return region.isExpired
+      ? t('offlineMaps.expired', { size: formatBytes(region.sizeBytes), date })
+      : t('offlineMaps.expires', { size: formatBytes(region.sizeBytes), date });
+  }
+
+  function renderRegion(region: OfflineRegion) {
+    return (
+      <Card key={region.name} variant="outlined" style={styles.card}>
+        <View style={styles.row}>
+          <View style={[styles.iconBox, { backgroundColor: colors.primary + '1F' }]}>
+            <MapIcon size={18} color={colors.primary} />
+          </View>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowLabel}>
+              {t('offlineMaps.regionTitle', { layer: t(`offlineMaps.layers.${region.layer}`) })}
+            </ThemedText>
+            <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+              {regionCenter(region.bounds)}
+            </ThemedText>
+            <ThemedText
+              style={[styles.rowSubtitle, { color: region.isExpired ? colors.error : colors.textMuted }]}
+            >
+              {renderRegionStatus(region)}
+            </ThemedText>
+          </View>
+        </View>
+        <View style={styles.actions}>
+          {region.isComplete && (
+            <Button
+              title={t('offlineMaps.update')}
+              onPress={() => run(region.name, () => offlineMapService.updateRegion(region.name))}
+              variant={region.isExpired ? 'primary' : 'text'}
+              size="small"
+              loading={busy === region.name}
+              icon={region.isExpired ? undefined : <ArrowPathIcon size={14} color={colors.primary} />}
+            />
+          )}
+          <Button title={t('offlineMaps.delete')} onPress={() => handleDelete(region)} variant="text" size="small" />
+        </View>
+      </Card>
+    );
+  }
+
+  function renderSuggestion(suggestion: OfflineRegionSuggestion, index: number) {
+    return (
+      <Card key={regionCenter(suggestion.bounds)} variant="outlined" style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowLabel}>
+              {t('offlineMaps.suggestionTitle', { count: suggestion.tripCount })}
+            </ThemedText>
+            <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+              {regionCenter(suggestion.bounds)}
+            </ThemedText>
+            <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+              {t('offlineMaps.estimatedSize', { size: formatBytes(estimatePackBytes(suggestion.bounds, layer)) })}
+            </ThemedText>
+          </View>
+          <Button
+            title={t('offlineMaps.download')}
+            onPress={() => handleDownload(suggestion, index)}
+            size="small"
+            loading={busy === `suggestion_${index}`}
+          />
+        </View>
+      </Card>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      <Header title={t('offlineMaps.title')} showBack />
+      <ThemedView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+            {t('offlineMaps.description')}
+          </ThemedText>
+
+          <ThemedText style={styles.sectionTitle}>{t('offlineMaps.style')}</ThemedText>
+          <View style={styles.chipRow}>
+            {LAYERS.map((option) => {
+              const selected = option === layer;
+              return (
+                <Pressable
+                  key={option}
+                  onPress={() => setChosenLayer(option)}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.border },
+                    selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <ThemedText style={[styles.chipText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                    {t(`offlineMaps.layers.${option}`)}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <ThemedText style={styles.sectionTitle}>{t('offlineMaps.suggestions')}</ThemedText>
+          {!isLoading && suggestions.length === 0 ? (
+            <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+              {t('offlineMaps.noSuggestions')}
+            </ThemedText>
+          ) : (
+            suggestions.map(renderSuggestion)
+          )}
+
+          <ThemedText style={styles.sectionTitle}>{t('offlineMaps.downloaded')}</ThemedText>
+          <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+            {t('offlineMaps.storage', { size: formatBytes(totalBytes) })}
+          </ThemedText>
+          {!isLoading && regions.length === 0 ? (
+            <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+              {t('offlineMaps.empty')}
+            </ThemedText>
+          ) : (
+            regions.map(renderRegion)
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { flex: 1 },
+  content: { padding: Spacing.lg, gap: Spacing.md },
+  description: { fontSize: FontSizes.sm, lineHeight: 20 },
+  sectionTitle: { fontSize: FontSizes.md, fontWeight: FontWeights.semibold, marginTop: Spacing.sm },
+  empty: { fontSize: FontSizes.sm, textAlign: 'center' },
+  card: { marginVertical: 0 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  iconBox: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowText: { flex: 1, gap: 3 },
+  rowLabel: { fontSize: FontSizes.md, fontWeight: FontWeights.semibold },
+  rowSubtitle: { fontSize: FontSizes.xs },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.xs },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: { fontSize: FontSizes.sm, fontWeight: FontWeights.semibold },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+});
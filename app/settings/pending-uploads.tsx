@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { CloudArrowUpIcon, ExclamationTriangleIcon } from 'react-native-heroicons/outline';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import Header from '@/components/layout/Header';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { formatRelativeTime } from '@/lib/i18n/formatters';
+import { usePendingOperations } from '@/lib/hooks/useOutbox';
+import { outboxService, type PendingOperation } from '@/lib/services/OutboxService';
+
+export default function PendingUploadsScreen() {
+  const { t } = useTranslation('profile');
+  const { colors } = useTheme();
+  const { operations, isLoading } = usePendingOperations();
+  const [sending, setSending] = useState(false);
+
+  async function handleSendNow() {
+    setSending(true);
+    try {
+      const result = await outboxService.flush();
+      if (result.sent === 0 && result.retrying + result.dead > 0) {
+        Alert.alert(t('outbox.errorTitle'), t('outbox.sendFailed'));
+      }
+    } finally {
+      setSending(false);
+    }
+  }
+
+  function handleDiscard(operation: PendingOperation) {
+    Alert.alert(t('outbox.discardTitle'), t('outbox.discardMessage'), [
+      { text: t('common:buttons.cancel', 'Cancel'), style: 'cancel' },
+      {
+        text: t('outbox.discard'),
+        style: 'destructive',
+        onPress: () => {
+          outboxService.discard(operation.id).catch((error) => {
+            console.error('[PendingUploads] Discard failed:', error);
+          });
+        },
+      },
+    ]);
+  }
+
+  function renderOperation(operation: PendingOperation) {
+    const isDead = operation.status === 'dead';
+    const tint = isDead ? colors.error : colors.primary;
+
+    return (
+      <Card key={operation.id} variant="outlined" style={styles.card}>
+        <View style={styles.row}>
+          <View style={[styles.iconBox, { backgroundColor: tint + '1F' }]}>
+            {isDead ? (
+              <ExclamationTriangleIcon size={18} color={tint} />
+            ) : (
+              <CloudArrowUpIcon size={18} color={tint} />
+            )}
+          </View>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowLabel}>{t(`outbox.types.${operation.type}`)}</ThemedText>
+            <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+              {isDead
+                ? t('outbox.failed', { time: formatRelativeTime(new Date(operation.createdAt)) })
+                : t('outbox.waiting', {
+                    time: formatRelativeTime(new Date(operation.createdAt)),
+                    count: operation.attempts,
+                  })}
+            </ThemedText>
+            {operation.lastError && (
+              <ThemedText style={[styles.rowError, { color: tint }]} numberOfLines={2}>
+                {operation.lastError}
+              </ThemedText>
+            )}
+          </View>
+        </View>
+        <View style={styles.actions}>
+          {isDead && operation.type !== 'unknown' && (
+            <Button
+              title={t('outbox.retry')}
+              onPress={() => outboxService.retry(operation.id)}
+              variant="outline"
+              size="small"
+            />
+          )}
+          <Button
+            title={t('outbox.discard')}
+            onPress={() => handleDiscard(operation)}
+            variant="text"
+            size="small"
+          />
+        </View>
+      </Card>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      <Header title={t('outbox.title')} showBack />
+      <ThemedView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+            {t('outbox.description')}
+          </ThemedText>
+
+          {!isLoading && operations.length === 0 ? (
+            <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+              {t('outbox.empty')}
+            </ThemedText>
+          ) : (
+            <>
+              <Button
+                title={t('outbox.sendNow')}
+                onPress={handleSendNow}
+                loading={sending}
+                fullWidth
+                icon={<CloudArrowUpIcon size={16} color="#FFFFFF" />}
+              />
+              {operations.map(renderOperation)}
+            </>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { flex: 1 },
+  content: { padding: Spacing.lg, gap: Spacing.md },
+  description: { fontSize: FontSizes.sm, lineHeight: 20 },
+  empty: { fontSize: FontSizes.sm, textAlign: 'center', marginTop: Spacing.lg },
+  card: { marginVertical: 0 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  iconBox: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowText: { flex: 1, gap: 3 },
+  rowLabel: { fontSize: FontSizes.md, fontWeight: FontWeights.semibold },
+  rowSubtitle: { fontSize: FontSizes.xs },
+  rowError: { fontSize: FontSizes.xs },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+});
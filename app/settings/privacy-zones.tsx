@@ -0,0 +1,314 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { FillLayer, LineLayer, ShapeSource } from '@rnmapbox/maps';
+import { MapPinIcon, MinusIcon, PlusIcon, ShieldCheckIcon } from 'react-native-heroicons/outline';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import Header from '@/components/layout/Header';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import TextInput from '@/components/ui/TextInput';
+import { MapView, type MapViewRef } from '@/components/maps/MapView';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useLocation } from '@/lib/hooks/useLocation';
+import { usePrivacyZones } from '@/lib/hooks/usePrivacyZones';
+import { privacyZoneService } from '@/lib/services/PrivacyZoneService';
+import { formatDistance } from '@/lib/utils/geoCalculations';
+import {
+  DEFAULT_ZONE_RADIUS,
+  MAX_ZONE_RADIUS,
+  MIN_ZONE_RADIUS,
+  privacyZoneRing,
+  type PrivacyZone,
+} from '@/lib/utils/privacyZones';
+
+const RADIUS_STEP = 100; // meters
+
+// A zone being placed or edited; `id` is set when editing an existing zone
+interface DraftZone {
+  id?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+}
+
+function zonesToGeoJSON(zones: Omit<PrivacyZone, 'id'>[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: zones.map((zone) => ({
+      type: 'Feature' as const,
+      properties: {},
+      geometry: { type: 'Polygon' as const, coordinates: [privacyZoneRing({ ...zone, id: '' })] },
+    })),
+  };
+}
+
+export default function PrivacyZonesScreen() {
+  const { t } = useTranslation('profile');
+  const { colors } = useTheme();
+  const { unitSystem } = useUnits();
+  const { location, getCurrentLocation } = useLocation();
+  const { zones, isLoading } = usePrivacyZones();
+  const mapRef = useRef<MapViewRef>(null);
+  const [draft, setDraft] = useState<DraftZone | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // While editing, the zone is drawn from the draft instead of its saved shape
+  const savedZones = useMemo(
+    () => zonesToGeoJSON(zones.filter((zone) => zone.id !== draft?.id)),
+    [zones, draft?.id]
+  );
+  const draftZone = useMemo(() => (draft ? zonesToGeoJSON([draft]) : null), [draft]);
+
+  function focusOn(latitude: number, longitude: number) {
+    mapRef.current?.animateToRegion({ latitude, longitude, latitudeDelta: 0.02, longitudeDelta: 0.02 });
+  }
+
+  function placeDraft(latitude: number, longitude: number) {
+    setDraft((prev) => ({
+      id: prev?.id,
+      name: prev?.name ?? '',
+      radius: prev?.radius ?? DEFAULT_ZONE_RADIUS,
+      latitude,
+      longitude,
+    }));
+  }
+
+  function handleMapLongPress(event: any) {
+    const coordinates = event?.geometry?.coordinates;
+    if (!coordinates) return;
+    const [longitude, latitude] = coordinates;
+    placeDraft(latitude, longitude);
+  }
+
+  async function handleUseMyLocation() {
+    const current = location ?? (await getCurrentLocation());
+    if (!current) {
+      Alert.alert(t('privacyZones.title'), t('privacyZones.locationUnavailable'));
+      return;
+    }
+    placeDraft(current.latitude, current.longitude);
+    focusOn(current.latitude, current.longitude);
+  }
+
+  function handleEdit(zone: PrivacyZone) {
+    setDraft({ ...zone });
+    focusOn(zone.latitude, zone.longitude);
+  }
+
+  function changeRadius(delta: number) {
+    setDraft((prev) =>
+      prev ? { ...prev, radius: Math.min(MAX_ZONE_RADIUS, Math.max(MIN_ZONE_RADIUS, prev.radius + delta)) } : prev
+    );
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const { id, ...zone } = draft;
+      const named = { ...zone, name: zone.name.trim() || t('privacyZones.defaultName') };
+      if (id) {
+        await privacyZoneService.updateZone(id, named);
+      } else {
+        await privacyZoneService.addZone(named);
+      }
+      setDraft(null);
+    } catch (error) {
+      console.error('[PrivacyZones] Save failed:', error);
+      Alert.alert(t('privacyZones.title'), t('privacyZones.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDelete(zone: PrivacyZone) {
+    Alert.alert(t('privacyZones.deleteTitle'), t('privacyZones.deleteMessage', { name: zone.name }), [
+      { text: t('common:buttons.cancel', 'Cancel'), style: 'cancel' },
+      {
+        text: t('privacyZones.delete'),
+        style: 'destructive',
+        onPress: () => {
+          setDraft(null);
+          privacyZoneService.removeZone(zone.id).catch((error) => {
+            console.error('[PrivacyZones] Delete failed:', error);
+          });
+        },
+      },
+    ]);
+  }
+
+  function renderZone(zone: PrivacyZone) {
+    return (
+      <Card key={zone.id} variant="outlined" style={styles.card}>
+        <TouchableOpacity style={styles.row} onPress={() => handleEdit(zone)} activeOpacity={0.7}>
+          <View style={[styles.iconBox, { backgroundColor: colors.primary + '1F' }]}>
+            <ShieldCheckIcon size={18} color={colors.primary} />
+          </View>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowLabel}>{zone.name}</ThemedText>
+            <ThemedText style={[styles.rowSubtitle, { color: colors.textMuted }]}>
+              {t('privacyZones.radius', { distance: formatDistance(zone.radius, unitSystem) })}
+            </ThemedText>
+          </View>
+          <Button title={t('privacyZones.delete')} onPress={() => handleDelete(zone)} variant="text" size="small" />
+        </TouchableOpacity>
+      </Card>
+    );
+  }
+
+  const initial = zones[0] ?? location;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      <Header title={t('privacyZones.title')} showBack />
+      <ThemedView style={styles.container}>
+        <View style={styles.mapWrapper}>
+          {!isLoading && (
+            <MapView
+              ref={mapRef}
+              region={initial ? {
+                latitude: initial.latitude,
+                longitude: initial.longitude,
+                latitudeDelta: 0.02,
+                longitudeDelta: 0.02,
+              } : undefined}
+              showUserLocation
+              onLongPress={handleMapLongPress}
+            >
+              <ShapeSource id="privacyZonesSource" shape={savedZones}>
+                <FillLayer id="privacyZonesFill" style={{ fillColor: colors.primary, fillOpacity: 0.18 }} />
+                <LineLayer id="privacyZonesLine" style={{ lineColor: colors.primary, lineWidth: 2 }} />
+              </ShapeSource>
+              {draftZone && (
+                <ShapeSource id="privacyZoneDraftSource" shape={draftZone}>
+                  <FillLayer id="privacyZoneDraftFill" style={{ fillColor: colors.error, fillOpacity: 0.18 }} />
+                  <LineLayer
+                    id="privacyZoneDraftLine"
+                    style={{ lineColor: colors.error, lineWidth: 2, lineDasharray: [2, 2] }}
+                  />
+                </ShapeSource>
+              )}
+            </MapView>
+          )}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+            {t('privacyZones.description')}
+          </ThemedText>
+
+          {draft ? (
+            <Card variant="outlined" style={styles.card}>
+              <TextInput
+                label={t('privacyZones.name')}
+                value={draft.name}
+                onChangeText={(name) => setDraft({ ...draft, name })}
+                placeholder={t('privacyZones.namePlaceholder')}
+              />
+              <View style={styles.radiusRow}>
+                <ThemedText style={styles.rowLabel}>
+                  {t('privacyZones.radius', { distance: formatDistance(draft.radius, unitSystem) })}
+                </ThemedText>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    onPress={() => changeRadius(-RADIUS_STEP)}
+                    disabled={draft.radius <= MIN_ZONE_RADIUS}
+                    style={[styles.stepButton, { borderColor: colors.border }]}
+                  >
+                    <MinusIcon size={18} color={colors.text} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => changeRadius(RADIUS_STEP)}
+                    disabled={draft.radius >= MAX_ZONE_RADIUS}
+                    style={[styles.stepButton, { borderColor: colors.border }]}
+                  >
+                    <PlusIcon size={18} color={colors.text} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <View style={styles.actions}>
+                <Button
+                  title={t('common:buttons.cancel', 'Cancel')}
+                  onPress={() => setDraft(null)}
+                  variant="text"
+                  size="small"
+                />
+                <Button title={t('privacyZones.save')} onPress={handleSave} loading={saving} size="small" />
+              </View>
+            </Card>
+          ) : (
+            <>
+              <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+                {t('privacyZones.placeHint')}
+              </ThemedText>
+              <Button
+                title={t('privacyZones.useMyLocation')}
+                onPress={handleUseMyLocation}
+                variant="outline"
+                fullWidth
+                icon={<MapPinIcon size={16} color={colors.primary} />}
+              />
+            </>
+          )}
+
+          {!isLoading && zones.length === 0 && !draft ? (
+            <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+              {t('privacyZones.empty')}
+            </ThemedText>
+          ) : (
+            zones.map(renderZone)
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  container: { flex: 1 },
+  mapWrapper: { height: 280 },
+  content: { padding: Spacing.lg, gap: Spacing.md },
+  description: { fontSize: FontSizes.sm, lineHeight: 20 },
+  hint: { fontSize: FontSizes.xs, textAlign: 'center' },
+  empty: { fontSize: FontSizes.sm, textAlign: 'center', marginTop: Spacing.lg },
+  card: { marginVertical: 0 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  iconBox: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowText: { flex: 1, gap: 3 },
+  rowLabel: { fontSize: FontSizes.md, fontWeight: FontWeights.semibold },
+  rowSubtitle: { fontSize: FontSizes.xs },
+  radiusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+  },
+  stepper: { flexDirection: 'row', gap: Spacing.sm },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { ArrowUpCircleIcon } from 'react-native-heroicons/outline';
+import { useTheme } from '@/contexts/ThemeContext';
+import { BorderRadius, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+
+/**
+ * Shown instead of the app when the local database was written by a newer
+ * build (e.g. after a downgrade). The data is left untouched for that build.
+ */
+export default function UpdateRequiredScreen() {
+  const { colors } = useTheme();
+  const { t } = useTranslation('common');
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        <View style={[styles.iconBox, { backgroundColor: colors.primary + '1F' }]}>
+          <ArrowUpCircleIcon size={48} color={colors.primary} />
+        </View>
+
+        <Text style={[styles.title, { color: colors.text }]}>
+          {t('updateRequired.title')}
+        </Text>
+
+        <Text style={[styles.description, { color: colors.textSecondary }]}>
+          {t('updateRequired.description')}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 400,
+    alignItems: 'center',
+  },
+  iconBox: {
+    width: 96,
+    height: 96,
+    borderRadius: BorderRadius.xl,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    marginBottom: Spacing.sm,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: FontSizes.md,
+    lineHeight: 24,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.md,
+  },
+});
@@ -1,2 +1,3 @@
 export { default as Screen } from './Screen';
 export { default as Header } from './Header';
+export { default as UpdateRequiredScreen } from './UpdateRequiredScreen';
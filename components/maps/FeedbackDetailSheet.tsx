@@ -19,6 +19,7 @@ import type { MapFeedback } from '@/lib/api/mapFeedback';
 import type { GlobalFeedback } from '@/lib/api/globalFeedback';
 import { getCategoryIcon } from '@/lib/utils/feedbackHelpers';
 import { useTranslation } from 'react-i18next';
+import { FeedbackVoteActions } from './FeedbackVoteActions';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -133,6 +134,10 @@ export function FeedbackDetailSheet({ feedback, visible, onClose }: FeedbackDeta
                 <Text style={[styles.timestamp, { color: colors.textTertiary }]}>
                   {t('maps:feedback.last_updated', 'Last updated')}: {formatDate(feedback.last_processed_at)}
                 </Text>
+
+                <View style={styles.votes}>
+                  <FeedbackVoteActions feedbackId={feedback.id} />
+                </View>
               </>
             )}
           </ScrollView>
@@ -216,6 +221,9 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 8,
   },
+  votes: {
+    marginTop: 16,
+  },
   closeButton: {
     position: 'absolute',
     top: 16,
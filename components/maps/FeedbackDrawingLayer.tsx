@@ -0,0 +1,69 @@
+/**
+ * FeedbackDrawingLayer Component
+ * Draws the path or area being traced for a map report
+ */
+
+import React, { useMemo } from 'react';
+import { CircleLayer, FillLayer, LineLayer, ShapeSource } from '@rnmapbox/maps';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { MapFeedbackType } from '@/lib/api/mapFeedback';
+import type { Coordinate } from '@/types/location';
+
+interface FeedbackDrawingLayerProps {
+  type: MapFeedbackType;
+  points: Coordinate[];
+}
+
+export function FeedbackDrawingLayer({ type, points }: FeedbackDrawingLayerProps) {
+  const { colors } = useTheme();
+
+  const shape = useMemo<GeoJSON.FeatureCollection>(() => {
+    const positions = points.map((p) => [p.longitude, p.latitude]);
+    const features: GeoJSON.Feature[] = positions.map((coordinates, index) => ({
+      type: 'Feature',
+      properties: { role: 'vertex', first: index === 0 },
+      geometry: { type: 'Point', coordinates },
+    }));
+
+    if (type === 'area' && positions.length >= 3) {
+      features.unshift({
+        type: 'Feature',
+        properties: { role: 'area' },
+        geometry: { type: 'Polygon', coordinates: [[...positions, positions[0]]] },
+      });
+    } else if (type !== 'point' && positions.length >= 2) {
+      features.unshift({
+        type: 'Feature',
+        properties: { role: 'line' },
+        geometry: { type: 'LineString', coordinates: positions },
+      });
+    }
+
+    return { type: 'FeatureCollection', features };
+  }, [type, points]);
+
+  return (
+    <ShapeSource id="feedback-drawing-source" shape={shape}>
+      <FillLayer
+        id="feedback-drawing-fill"
+        filter={['==', ['get', 'role'], 'area']}
+        style={{ fillColor: colors.primary, fillOpacity: 0.2, fillOutlineColor: colors.primary }}
+      />
+      <LineLayer
+        id="feedback-drawing-line"
+        filter={['in', ['get', 'role'], ['literal', ['line', 'area']]]}
+        style={{ lineColor: colors.primary, lineWidth: 4, lineDasharray: [2, 1], lineCap: 'round', lineJoin: 'round' }}
+      />
+      <CircleLayer
+        id="feedback-drawing-vertices"
+        filter={['==', ['get', 'role'], 'vertex']}
+        style={{
+          circleRadius: ['case', ['get', 'first'], 7, 5],
+          circleColor: colors.primary,
+          circleStrokeWidth: 2,
+          circleStrokeColor: '#FFFFFF',
+        }}
+      />
+    </ShapeSource>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * FeedbackDrawingToolbar Component
+ * Instructions and undo / cancel / done actions while tracing a path or area
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BorderRadius, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { MapFeedbackType } from '@/lib/api/mapFeedback';
+import { MIN_DRAWING_POINTS } from '@/lib/utils/feedbackGeometry';
+
+interface FeedbackDrawingToolbarProps {
+  type: MapFeedbackType;
+  pointCount: number;
+  onUndo: () => void;
+  onCancel: () => void;
+  onDone: () => void;
+}
+
+export function FeedbackDrawingToolbar({ type, pointCount, onUndo, onCancel, onDone }: FeedbackDrawingToolbarProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const canFinish = pointCount >= MIN_DRAWING_POINTS[type];
+
+  const message =
+    type === 'area'
+      ? t('maps:report.drawArea', 'Tap the map around the area, at least 3 points')
+      : t('maps:report.drawPath', 'Tap the map along the path, at least 2 points');
+
+  return (
+    <View style={[styles.container, { bottom: insets.bottom + Spacing.md, backgroundColor: colors.card }]}>
+      <Text style={[styles.message, { color: colors.text }]}>{message}</Text>
+      <View style={styles.actions}>
+        <Pressable onPress={onCancel} accessibilityRole="button" hitSlop={8}>
+          <Text style={[styles.action, { color: colors.textSecondary }]}>{t('maps:report.cancel', 'Cancel')}</Text>
+        </Pressable>
+        <Pressable onPress={onUndo} disabled={pointCount === 0} accessibilityRole="button" hitSlop={8}>
+          <Text style={[styles.action, { color: pointCount === 0 ? colors.border : colors.primary }]}>
+            {t('maps:report.undo', 'Undo')}
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={onDone}
+          disabled={!canFinish}
+          style={[styles.doneButton, { backgroundColor: canFinish ? colors.primary : colors.border }]}
+          accessibilityRole="button"
+        >
+          <Text style={styles.doneText}>{t('maps:report.done', 'Done')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.md,
+    right: Spacing.md,
+    zIndex: 100,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  message: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.md,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  doneButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  doneText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -4,11 +4,21 @@
  */
 
 import React, { useMemo } from 'react';
-import { ShapeSource, CircleLayer } from '@rnmapbox/maps';
+import { ShapeSource, CircleLayer, FillLayer, LineLayer } from '@rnmapbox/maps';
 import type { MapFeedback } from '@/lib/api/mapFeedback';
 import type { GlobalFeedback } from '@/lib/api/globalFeedback';
 import { convertFeedbackToGeoJSON } from '@/lib/utils/feedbackHelpers';
 
+// Category-based colors
+const CATEGORY_COLOR = [
+  'match',
+  ['get', 'category'],
+  'road_damage', '#EF4444',
+  'traffic_light', '#F59E0B',
+  'safety_issue', '#F97316',
+  '#6B7280' // default (other)
+] as const;
+
 interface FeedbackMarkersProps {
   feedbacks?: (MapFeedback | GlobalFeedback)[];
   type: 'personal' | 'community';
@@ -53,18 +63,23 @@ export function FeedbackMarkers({ feedbacks, type, onMarkerPress }: FeedbackMark
       shape={geojson}
       onPress={handlePress}
     >
+      {/* Areas and paths are drawn as shapes, point reports as circles */}
+      <FillLayer
+        id={`feedback-areas-${type}`}
+        filter={['==', ['geometry-type'], 'Polygon']}
+        style={{ fillColor: CATEGORY_COLOR, fillOpacity: 0.2 }}
+      />
+      <LineLayer
+        id={`feedback-lines-${type}`}
+        filter={['!=', ['geometry-type'], 'Point']}
+        style={{ lineColor: CATEGORY_COLOR, lineWidth: 4, lineOpacity: 0.8, lineCap: 'round', lineJoin: 'round' }}
+      />
       <CircleLayer
         id={`feedback-circles-${type}`}
+        filter={['==', ['geometry-type'], 'Point']}
         style={{
           // Category-based colors
-          circleColor: [
-            'match',
-            ['get', 'category'],
-            'road_damage', '#EF4444',
-            'traffic_light', '#F59E0B',
-            'safety_issue', '#F97316',
-            '#6B7280' // default (other)
-          ],
+          circleColor: CATEGORY_COLOR,
           // Confidence-based radius (for community) or fixed (for personal)
           circleRadius: type === 'community'
             ? [
@@ -0,0 +1,110 @@
+/**
+ * FeedbackVoteActions Component
+ * "Still there" / "Fixed" buttons for a community feedback item, with the rider's last answer
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { BorderRadius, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { FeedbackVoteKind } from '@/lib/api/feedbackVotes';
+import { useFeedbackVotes, useVoteOnFeedback } from '@/lib/hooks/useFeedbackVotes';
+import { showErrorAlert } from '@/lib/utils/alert';
+
+interface FeedbackVoteActionsProps {
+  feedbackId: number;
+}
+
+const OPTIONS: { vote: FeedbackVoteKind; icon: string }[] = [
+  { vote: 'still_there', icon: 'alert-circle-check-outline' },
+  { vote: 'fixed', icon: 'check-circle-outline' },
+];
+
+export function FeedbackVoteActions({ feedbackId }: FeedbackVoteActionsProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { latest } = useFeedbackVotes();
+  const voteMutation = useVoteOnFeedback();
+  const myVote = latest.get(feedbackId);
+
+  const handleVote = async (vote: FeedbackVoteKind) => {
+    try {
+      await voteMutation.mutateAsync({ feedbackId, vote });
+    } catch (error) {
+      console.error('[FeedbackVoteActions] Failed to vote:', error);
+      showErrorAlert('generic');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.question, { color: colors.text }]}>
+        {t('maps:votes.question', 'Is this still there?')}
+      </Text>
+      <View style={styles.buttons}>
+        {OPTIONS.map(({ vote, icon }) => {
+          const selected = myVote?.vote === vote;
+          return (
+            <Pressable
+              key={vote}
+              onPress={() => handleVote(vote)}
+              disabled={voteMutation.isPending}
+              style={[
+                styles.button,
+                { borderColor: selected ? colors.primary : colors.border },
+                selected && { backgroundColor: colors.primary + '20' },
+              ]}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+            >
+              <MaterialCommunityIcons name={icon as any} size={18} color={selected ? colors.primary : colors.text} />
+              <Text style={[styles.buttonText, { color: selected ? colors.primary : colors.text }]}>
+                {t(`maps:votes.${vote}`)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      {myVote && (
+        <Text style={[styles.history, { color: colors.textSecondary }]}>
+          {t(`maps:votes.youSaid_${myVote.vote}`, {
+            date: new Date(myVote.created_at).toLocaleDateString(),
+          })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  history: {
+    fontSize: 12,
+  },
+});
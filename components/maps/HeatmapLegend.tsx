@@ -0,0 +1,210 @@
+/**
+ * HeatmapLegend Component
+ * Colour key and filter chips for the personal and global heatmaps
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BorderRadius, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { GlobalHeatmapTripType, HeatmapTimeOfDay } from '@/lib/api/globalHeatmap';
+import type { HeatmapLegendEntry } from '@/types/heatmap';
+
+// Date ranges offered for the personal heatmap, in days; undefined means every trip
+export const HEATMAP_PERIODS = [30, 90, 365, undefined] as const;
+export type HeatmapPeriod = (typeof HEATMAP_PERIODS)[number];
+
+interface HeatmapLegendProps {
+  title: string;
+  legend?: HeatmapLegendEntry[];
+  /** Filter rows shown under the colour key */
+  children?: React.ReactNode;
+}
+
+function HeatmapLegend({ title, legend, children }: HeatmapLegendProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View
+      style={[styles.container, { top: insets.top + Spacing.md, backgroundColor: colors.card }]}
+      pointerEvents="box-none"
+    >
+      <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+
+      {legend && legend.length > 0 ? (
+        <View style={styles.legendRow}>
+          {legend.map((entry) => (
+            <View key={entry.label} style={styles.legendItem}>
+              <View style={[styles.swatch, { backgroundColor: entry.color }]} />
+              <Text style={[styles.legendText, { color: colors.textSecondary }]}>{entry.label}</Text>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text style={[styles.legendText, { color: colors.textSecondary }]}>
+          {t('maps:heatmap.empty', 'No trips here yet')}
+        </Text>
+      )}
+
+      {children}
+    </View>
+  );
+}
+
+interface HeatmapChipRowProps<T> {
+  options: readonly { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+/**
+ * Single-choice row of filter chips
+ */
+function HeatmapChipRow<T>({ options, value, onChange }: HeatmapChipRowProps<T>) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.chipRow}>
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <Pressable
+            key={option.label}
+            onPress={() => onChange(option.value)}
+            style={[
+              styles.chip,
+              { borderColor: colors.border },
+              selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+            ]}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : colors.text }]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+interface PersonalHeatmapLegendProps {
+  legend?: HeatmapLegendEntry[];
+  totalTrips?: number;
+  period: HeatmapPeriod;
+  onPeriodChange: (period: HeatmapPeriod) => void;
+}
+
+export function PersonalHeatmapLegend({ legend, totalTrips, period, onPeriodChange }: PersonalHeatmapLegendProps) {
+  const { t } = useTranslation();
+  const options = HEATMAP_PERIODS.map((days) => ({
+    value: days,
+    label: days
+      ? t('maps:heatmap.period_days', '{{count}}d', { count: days })
+      : t('maps:heatmap.period_all', 'All'),
+  }));
+
+  return (
+    <HeatmapLegend
+      title={t('maps:heatmap.trips_in_view', '{{count}} trips in view', { count: totalTrips ?? 0 })}
+      legend={legend}
+    >
+      <HeatmapChipRow options={options} value={period} onChange={onPeriodChange} />
+    </HeatmapLegend>
+  );
+}
+
+interface GlobalHeatmapLegendProps {
+  legend?: HeatmapLegendEntry[];
+  tripType?: GlobalHeatmapTripType;
+  timeOfDay?: HeatmapTimeOfDay;
+  onTripTypeChange: (tripType: GlobalHeatmapTripType | undefined) => void;
+  onTimeOfDayChange: (timeOfDay: HeatmapTimeOfDay | undefined) => void;
+}
+
+export function GlobalHeatmapLegend({
+  legend,
+  tripType,
+  timeOfDay,
+  onTripTypeChange,
+  onTimeOfDayChange,
+}: GlobalHeatmapLegendProps) {
+  const { t } = useTranslation();
+  const tripTypeOptions = [
+    { value: undefined, label: t('maps:heatmap.type_all', 'All') },
+    { value: 'walk' as const, label: t('maps:heatmap.type_walk', 'Walk') },
+    { value: 'cycle' as const, label: t('maps:heatmap.type_cycle', 'Cycle') },
+  ];
+  const timeOptions = [
+    { value: undefined, label: t('maps:heatmap.time_any', 'Any time') },
+    { value: 'morning' as const, label: t('maps:heatmap.time_morning', 'Morning') },
+    { value: 'daytime' as const, label: t('maps:heatmap.time_daytime', 'Day') },
+    { value: 'evening' as const, label: t('maps:heatmap.time_evening', 'Evening') },
+    { value: 'night' as const, label: t('maps:heatmap.time_night', 'Night') },
+  ];
+
+  return (
+    <HeatmapLegend title={t('maps:heatmap.community_title', 'Community trips')} legend={legend}>
+      <HeatmapChipRow options={tripTypeOptions} value={tripType} onChange={onTripTypeChange} />
+      <HeatmapChipRow options={timeOptions} value={timeOfDay} onChange={onTimeOfDayChange} />
+    </HeatmapLegend>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.md,
+    zIndex: 100,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: Spacing.xs,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: Spacing.sm,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 3,
+  },
+  legendText: {
+    fontSize: 11,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginTop: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    marginRight: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -7,11 +7,15 @@ import { Pressable, StyleSheet, View } from 'react-native';
 interface MapActionButtonsProps {
   onLayersPress: () => void;
   onFindLocation: () => void;
+  onPlanRoutePress?: () => void;
+  isPlanningRoute?: boolean;
 }
 
 export function MapActionButtons({
   onLayersPress,
   onFindLocation,
+  onPlanRoutePress,
+  isPlanningRoute = false,
 }: MapActionButtonsProps) {
   const { colors } = useTheme();
 
@@ -31,6 +35,18 @@ export function MapActionButtons({
         <MaterialIcons name="layers" size={22} color={colors.text} />
       </Pressable>
 
+      {/* Route Planner Button */}
+      {onPlanRoutePress && (
+        <Pressable
+          style={[styles.button, buttonStyle, isPlanningRoute && { backgroundColor: colors.primary }]}
+          onPress={onPlanRoutePress}
+          android_ripple={{ color: colors.primary + '20' }}
+          accessibilityState={{ selected: isPlanningRoute }}
+        >
+          <MaterialIcons name="directions" size={22} color={isPlanningRoute ? '#FFFFFF' : colors.text} />
+        </Pressable>
+      )}
+
       {/* Find My Location Button */}
       <Pressable
         style={[styles.button, buttonStyle]}
@@ -20,6 +20,8 @@ interface MapControlsProps {
   onFindLocation: () => void;
   on3DToggle: () => void;
   is3DEnabled?: boolean;
+  onRoutePlannerToggle?: () => void;
+  isRoutePlanning?: boolean;
 }
 
 export function MapControls({
@@ -34,6 +36,8 @@ export function MapControls({
   onFindLocation,
   on3DToggle,
   is3DEnabled = false,
+  onRoutePlannerToggle,
+  isRoutePlanning = false,
 }: MapControlsProps) {
   const insets = useSafeAreaInsets();
 
@@ -49,26 +53,30 @@ export function MapControls({
         {/* Heatmap/Feedback Mode Toggle */}
         <MapModeToggle activeMode={viewMode} onModeChange={onViewModeChange} />
 
-        {/* Global/Personal Sub-mode Toggle */}
-        <View style={{ marginTop: buttonGap }}>
-          <MapSubModeToggle
-            mode={viewMode}
-            activeSubMode={viewMode === 'heatmap' ? heatmapMode : feedbackMode}
-            onSubModeChange={(subMode) => {
-              if (viewMode === 'heatmap') {
-                onHeatmapModeChange(subMode as import('@/types/mapMode').HeatmapMode);
-              } else {
-                onFeedbackModeChange(subMode as import('@/types/mapMode').FeedbackMode);
-              }
-            }}
-          />
-        </View>
+        {/* Global/Personal Sub-mode Toggle; my routes are personal only */}
+        {viewMode !== 'routes' && (
+          <View style={{ marginTop: buttonGap }}>
+            <MapSubModeToggle
+              mode={viewMode}
+              activeSubMode={viewMode === 'heatmap' ? heatmapMode : feedbackMode}
+              onSubModeChange={(subMode) => {
+                if (viewMode === 'heatmap') {
+                  onHeatmapModeChange(subMode as import('@/types/mapMode').HeatmapMode);
+                } else {
+                  onFeedbackModeChange(subMode as import('@/types/mapMode').FeedbackMode);
+                }
+              }}
+            />
+          </View>
+        )}
 
         {/* Layers and Location Buttons */}
         <View style={{ marginTop: buttonGap }}>
           <MapActionButtons
             onLayersPress={() => setShowLayerSelector(true)}
             onFindLocation={onFindLocation}
+            onPlanRoutePress={onRoutePlannerToggle}
+            isPlanningRoute={isRoutePlanning}
           />
         </View>
       </View>
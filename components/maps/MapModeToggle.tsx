@@ -19,6 +19,7 @@ export function MapModeToggle({ activeMode, onModeChange }: MapModeToggleProps)
   const modes: { key: MapViewMode; label: string }[] = [
     { key: 'heatmap', label: MAP_MODE_LABELS.viewMode.heatmap },
     { key: 'feedback', label: MAP_MODE_LABELS.viewMode.feedback },
+    { key: 'routes', label: MAP_MODE_LABELS.viewMode.routes },
   ];
 
   return (
@@ -2,9 +2,10 @@
  * MapView wrapper component for Mapbox GL
  */
 
-import { getMapStyle, MapStyles } from '@/config/mapbox';
+import { DefaultCamera, getMapStyle, MapLayerStyles } from '@/config/mapbox';
 import { useTheme } from '@/contexts/ThemeContext';
 import type { Region } from '@/types';
+import type { MapViewport } from '@/lib/utils/mapTiles';
 import { Camera, RasterDemSource, MapView as RNMapboxMapView, Terrain } from '@rnmapbox/maps';
 import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { StyleSheet } from 'react-native';
@@ -12,6 +13,9 @@ import { CustomUserLocation } from './CustomUserLocation';
 
 export type MapLayer = 'light' | 'dark' | 'outdoors' | 'satellite' | 'streets';
 
+// Wait for the camera to settle before reporting a new viewport
+const VIEWPORT_DEBOUNCE_MS = 400;
+
 export interface MapViewRef {
   centerOnUserLocation: () => void;
   toggle3D: () => void;
@@ -20,6 +24,8 @@ export interface MapViewRef {
   animateToRegion: (region: Region, duration?: number) => void;
   fitBounds: (bounds: { ne: [number, number]; sw: [number, number] }, padding?: number, duration?: number) => void;
   getVisibleBounds: () => Promise<[[number, number], [number, number]] | null>;
+  /** Center on a point with the map rotated so `heading` points up */
+  followHeading: (coordinate: [number, number], heading: number, zoomLevel?: number) => void;
 }
 
 interface MapViewProps {
@@ -31,7 +37,10 @@ interface MapViewProps {
   selectedLayer?: MapLayer;
   style?: any;
   onHeadingChange?: (heading: number) => void;
+  onPress?: (event: any) => void;
   onLongPress?: (event: any) => void;
+  /** Called with the visible bounds and zoom once the camera settles */
+  onViewportChange?: (viewport: MapViewport) => void;
 }
 
 export const MapView = forwardRef<MapViewRef, MapViewProps>(({
@@ -43,25 +52,31 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(({
   selectedLayer,
   style,
   onHeadingChange,
+  onPress,
   onLongPress,
+  onViewportChange,
 }, ref) => {
   const { isDark } = useTheme();
   const mapRef = useRef<RNMapboxMapView>(null);
   const cameraRef = useRef<Camera>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const viewportTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (viewportTimer.current) clearTimeout(viewportTimer.current);
+  }, []);
+
+  const reportViewport = (viewport: MapViewport) => {
+    if (!onViewportChange) return;
+    if (viewportTimer.current) clearTimeout(viewportTimer.current);
+    viewportTimer.current = setTimeout(() => onViewportChange(viewport), VIEWPORT_DEBOUNCE_MS);
+  };
 
   // Get map style based on user selection or theme
   const getStyleURL = () => {
     if (selectedLayer) {
-      const styleMap: Record<MapLayer, string> = {
-        light: MapStyles.LIGHT,
-        dark: MapStyles.DARK,
-        streets: MapStyles.STREETS,
-        outdoors: MapStyles.OUTDOORS,
-        satellite: MapStyles.SATELLITE_STREETS,
-      };
-      return styleMap[selectedLayer];
+      return MapLayerStyles[selectedLayer];
     }
     return getMapStyle(isDark);
   };
@@ -111,6 +126,16 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(({
         cameraRef.current.fitBounds(bounds.ne, bounds.sw, padding, duration);
       }
     },
+    followHeading: (coordinate: [number, number], heading: number, zoomLevel: number = DefaultCamera.followUserZoomLevel) => {
+      if (cameraRef.current) {
+        cameraRef.current.setCamera({
+          centerCoordinate: coordinate,
+          heading,
+          zoomLevel,
+          animationDuration: 500,
+        });
+      }
+    },
     getVisibleBounds: async () => {
       if (mapRef.current && isMapLoaded) {
         try {
@@ -149,6 +174,14 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(({
         if (onHeadingChange && state.properties.heading !== undefined) {
           onHeadingChange(state.properties.heading);
         }
+        const { bounds, zoom } = state.properties;
+        reportViewport({
+          bounds: {
+            ne: [bounds.ne[0], bounds.ne[1]],
+            sw: [bounds.sw[0], bounds.sw[1]],
+          },
+          zoom,
+        });
       }}
       onDidFinishLoadingMap={() => {
         setIsMapLoaded(true);
@@ -156,6 +189,7 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(({
       onMapLoadingError={() => {
         console.warn('[MapView] Failed to load map');
       }}
+      onPress={onPress}
       onLongPress={onLongPress}
     >
       <Camera
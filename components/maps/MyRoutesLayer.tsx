@@ -0,0 +1,39 @@
+/**
+ * MyRoutesLayer Component
+ * Draws the rider's past trips, coloured by speed or comfort; tapping a route opens the trip
+ */
+
+import React, { useMemo } from 'react';
+import { LineLayer, ShapeSource } from '@rnmapbox/maps';
+import { myRoutesGeoJSON, type MyRoute, type RouteColorBy } from '@/lib/utils/routeHistory';
+
+interface MyRoutesLayerProps {
+  routes: MyRoute[];
+  colorBy: RouteColorBy;
+  onRoutePress?: (trip: { tripId: string; backendId: number | null }) => void;
+}
+
+export function MyRoutesLayer({ routes, colorBy, onRoutePress }: MyRoutesLayerProps) {
+  const geojson = useMemo(() => myRoutesGeoJSON(routes, colorBy), [routes, colorBy]);
+
+  const handlePress = (event: any) => {
+    const properties = event.features?.[0]?.properties;
+    if (!onRoutePress || !properties?.tripId) return;
+    onRoutePress({ tripId: properties.tripId, backendId: properties.backendId ?? null });
+  };
+
+  return (
+    <ShapeSource id="my-routes-source" shape={geojson} onPress={handlePress} hitbox={{ width: 16, height: 16 }}>
+      <LineLayer
+        id="my-routes-line"
+        style={{
+          lineColor: ['get', 'color'],
+          lineWidth: ['interpolate', ['linear'], ['zoom'], 10, 1.5, 16, 4],
+          lineOpacity: 0.7,
+          lineCap: 'round',
+          lineJoin: 'round',
+        }}
+      />
+    </ShapeSource>
+  );
+}
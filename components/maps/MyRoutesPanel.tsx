@@ -0,0 +1,345 @@
+/**
+ * MyRoutesPanel Component
+ * Colour key, walk/cycle toggles and date scrubber for the my routes layer
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { LayoutChangeEvent, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { runOnJS } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BorderRadius, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  ROUTE_SPEED_BANDS,
+  ROUTE_SPEED_COLORS,
+  routeMonths,
+  type MyRoute,
+  type RouteColorBy,
+} from '@/lib/utils/routeHistory';
+import { FEELING_ORDER, FEELINGS, UNPAINTED_COLOR } from '@/types/rating';
+import type { TripType } from '@/types/trip';
+
+// Trip types the layer can show (v1: only walk + cycle)
+export const MY_ROUTES_TRIP_TYPES: readonly TripType[] = ['walk', 'cycle'];
+
+export interface MyRoutesDateRange {
+  startTime: number;
+  endTime: number;
+}
+
+interface MyRoutesPanelProps {
+  /** Routes of the selected types in any date range; drives the scrubber histogram */
+  routes: MyRoute[];
+  /** Routes left after filtering */
+  shownCount: number;
+  types: readonly TripType[];
+  colorBy: RouteColorBy;
+  range?: MyRoutesDateRange;
+  onTypesChange: (types: TripType[]) => void;
+  onColorByChange: (colorBy: RouteColorBy) => void;
+  onRangeChange: (range: MyRoutesDateRange | undefined) => void;
+}
+
+export function MyRoutesPanel({
+  routes,
+  shownCount,
+  types,
+  colorBy,
+  range,
+  onTypesChange,
+  onColorByChange,
+  onRangeChange,
+}: MyRoutesPanelProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const legend =
+    colorBy === 'speed'
+      ? ROUTE_SPEED_BANDS.map((band) => ({
+          key: band,
+          color: ROUTE_SPEED_COLORS[band],
+          label: t(`maps:myRoutes.speed.${band}`),
+        }))
+      : [
+          ...FEELING_ORDER.map((feeling) => ({
+            key: feeling,
+            color: FEELINGS[feeling].color,
+            label: t(`maps:road_sections.ratings.${feeling}`),
+          })),
+          { key: 'unrated', color: UNPAINTED_COLOR, label: t('maps:myRoutes.unrated') },
+        ];
+
+  const toggleType = (type: TripType) => {
+    const next = types.includes(type) ? types.filter((current) => current !== type) : [...types, type];
+    onTypesChange(next);
+  };
+
+  return (
+    <View
+      style={[styles.container, { top: insets.top + Spacing.md, backgroundColor: colors.card }]}
+      pointerEvents="box-none"
+    >
+      <Text style={[styles.title, { color: colors.text }]}>
+        {t('maps:myRoutes.count', { count: shownCount })}
+      </Text>
+
+      <View style={styles.legendRow}>
+        {legend.map((entry) => (
+          <View key={entry.key} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: entry.color }]} />
+            <Text style={[styles.legendText, { color: colors.textSecondary }]}>{entry.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        {MY_ROUTES_TRIP_TYPES.map((type) => (
+          <Chip
+            key={type}
+            label={t(`maps:rideTypes.${type}`)}
+            selected={types.includes(type)}
+            onPress={() => toggleType(type)}
+          />
+        ))}
+        <View style={styles.chipGap} />
+        {(['speed', 'comfort'] as const).map((option) => (
+          <Chip
+            key={option}
+            label={t(`maps:myRoutes.colorBy.${option}`)}
+            selected={colorBy === option}
+            onPress={() => onColorByChange(option)}
+          />
+        ))}
+      </View>
+
+      <RouteDateScrubber routes={routes} range={range} onRangeChange={onRangeChange} />
+    </View>
+  );
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  const { colors } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: colors.border },
+        selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : colors.text }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+interface RouteDateScrubberProps {
+  routes: MyRoute[];
+  range?: MyRoutesDateRange;
+  onRangeChange: (range: MyRoutesDateRange | undefined) => void;
+}
+
+/**
+ * Month histogram of trips; drag across it to pick the months to show
+ */
+function RouteDateScrubber({ routes, range, onRangeChange }: RouteDateScrubberProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+  // Months under the finger while dragging; committed when the drag ends
+  const [draft, setDraft] = useState<[number, number] | null>(null);
+  const draftRef = useRef<[number, number] | null>(null);
+
+  const months = useMemo(() => routeMonths(routes), [routes]);
+  const maxTrips = Math.max(1, ...months.map((month) => month.trips));
+
+  const monthAt = (x: number) =>
+    Math.min(months.length - 1, Math.max(0, Math.floor((x / Math.max(1, width)) * months.length)));
+
+  const [from, to] =
+    draft ??
+    (range
+      ? [
+          Math.max(0, months.findIndex((month) => month.end >= range.startTime)),
+          months.reduce((last, month, i) => (month.start <= range.endTime ? i : last), months.length - 1),
+        ]
+      : [0, months.length - 1]);
+
+  const updateDraft = (next: [number, number] | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const handleBegin = (x: number) => {
+    const index = monthAt(x);
+    updateDraft([index, index]);
+  };
+
+  const handleUpdate = (x: number) => {
+    if (draftRef.current) updateDraft([draftRef.current[0], monthAt(x)]);
+  };
+
+  const handleEnd = () => {
+    const current = draftRef.current;
+    updateDraft(null);
+    if (!current) return;
+    const [a, b] = current[0] <= current[1] ? current : [current[1], current[0]];
+    onRangeChange({ startTime: months[a].start, endTime: months[b].end });
+  };
+
+  const pan = Gesture.Pan()
+    .minDistance(0)
+    .onBegin((event) => {
+      'worklet';
+      runOnJS(handleBegin)(event.x);
+    })
+    .onUpdate((event) => {
+      'worklet';
+      runOnJS(handleUpdate)(event.x);
+    })
+    .onFinalize(() => {
+      'worklet';
+      runOnJS(handleEnd)();
+    });
+
+  const [low, high] = from <= to ? [from, to] : [to, from];
+  const formatMonth = (time: number) =>
+    new Date(time).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  const label =
+    !range && !draft
+      ? t('maps:myRoutes.allTime')
+      : low === high
+        ? formatMonth(months[low].start)
+        : `${formatMonth(months[low].start)} – ${formatMonth(months[high].start)}`;
+
+  return (
+    <View style={styles.scrubber}>
+      <GestureDetector gesture={pan}>
+        <View
+          style={styles.histogram}
+          onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+          accessibilityLabel={t('maps:myRoutes.scrubberLabel')}
+        >
+          {months.map((month, i) => (
+            <View key={month.start} style={styles.barSlot}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    height: `${Math.max(8, (month.trips / maxTrips) * 100)}%`,
+                    backgroundColor: i >= low && i <= high ? colors.primary : colors.border,
+                  },
+                ]}
+              />
+            </View>
+          ))}
+        </View>
+      </GestureDetector>
+      <View style={styles.scrubberFooter}>
+        <Text style={[styles.legendText, { color: colors.textSecondary }]}>{label}</Text>
+        {range && (
+          <Pressable onPress={() => onRangeChange(undefined)} accessibilityRole="button">
+            <Text style={[styles.resetText, { color: colors.primary }]}>{t('maps:heatmap.period_all')}</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.md,
+    zIndex: 100,
+    width: 220,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: Spacing.xs,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: Spacing.sm,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 3,
+  },
+  legendText: {
+    fontSize: 11,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginTop: Spacing.sm,
+  },
+  chipGap: {
+    width: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    marginRight: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  scrubber: {
+    marginTop: Spacing.sm,
+  },
+  histogram: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 32,
+  },
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    borderRadius: 1,
+  },
+  scrubberFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: Spacing.xs,
+  },
+  resetText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
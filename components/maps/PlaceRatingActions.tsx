@@ -0,0 +1,73 @@
+/**
+ * PlaceRatingActions Component
+ * Feeling buttons for rating a road section or junction from the map, with the rider's last rating
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import { FeelingSelector } from '@/components/rating';
+import { usePlaceRating, useRatePlace } from '@/lib/hooks/usePlaceRatings';
+import { showErrorAlert } from '@/lib/utils/alert';
+import type { FeelingType, RatedPlace } from '@/types/rating';
+
+interface PlaceRatingActionsProps {
+  place: RatedPlace;
+}
+
+export function PlaceRatingActions({ place }: PlaceRatingActionsProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { data: myRating } = usePlaceRating(place);
+  const rateMutation = useRatePlace();
+
+  const handleSelect = async (feeling: FeelingType) => {
+    try {
+      await rateMutation.mutateAsync({ place, feeling });
+    } catch (error) {
+      console.error('[PlaceRatingActions] Failed to rate:', error);
+      showErrorAlert('generic');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.question, { color: colors.text }]}>
+        {t(place.kind === 'section' ? 'maps:road_sections.rate.section' : 'maps:road_sections.rate.junction')}
+      </Text>
+      <FeelingSelector
+        compact
+        selectedFeeling={myRating?.feeling ?? null}
+        onSelect={handleSelect}
+        disabled={rateMutation.isPending}
+        style={styles.selector}
+      />
+      {myRating && (
+        <Text style={[styles.history, { color: colors.textSecondary }]}>
+          {t('maps:road_sections.rate.youRated', {
+            feeling: t(`maps:road_sections.ratings.${myRating.feeling}`),
+            date: new Date(myRating.ratedAt).toLocaleDateString(),
+          })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  selector: {
+    paddingHorizontal: 0,
+  },
+  history: {
+    fontSize: 12,
+  },
+});
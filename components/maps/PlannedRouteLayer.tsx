@@ -0,0 +1,82 @@
+/**
+ * PlannedRouteLayer Component
+ * Draws the route planner's start, destination and planned route
+ */
+
+import React, { useMemo } from 'react';
+import { CircleLayer, LineLayer, ShapeSource } from '@rnmapbox/maps';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { PlannedRoute } from '@/lib/utils/routePlanner';
+import type { Coordinate } from '@/types/location';
+
+interface PlannedRouteLayerProps {
+  from: Coordinate | null;
+  to: Coordinate | null;
+  route: PlannedRoute | null;
+}
+
+export function PlannedRouteLayer({ from, to, route }: PlannedRouteLayerProps) {
+  const { colors } = useTheme();
+
+  const line = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: route
+        ? [
+            {
+              type: 'Feature',
+              properties: {},
+              geometry: {
+                type: 'LineString',
+                coordinates: route.coordinates.map((c) => [c.longitude, c.latitude]),
+              },
+            },
+          ]
+        : [],
+    }),
+    [route]
+  );
+
+  const endpoints = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: [
+        { point: from, role: 'from' },
+        { point: to, role: 'to' },
+      ]
+        .filter((p): p is { point: Coordinate; role: string } => !!p.point)
+        .map(({ point, role }) => ({
+          type: 'Feature',
+          properties: { role },
+          geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+        })),
+    }),
+    [from, to]
+  );
+
+  return (
+    <>
+      <ShapeSource id="planned-route-source" shape={line}>
+        <LineLayer
+          id="planned-route-casing"
+          style={{ lineColor: '#FFFFFF', lineWidth: 9, lineCap: 'round', lineJoin: 'round' }}
+        />
+        <LineLayer
+          id="planned-route-line"
+          style={{ lineColor: colors.primary, lineWidth: 5, lineCap: 'round', lineJoin: 'round' }}
+        />
+      </ShapeSource>
+      <ShapeSource id="planned-route-endpoints" shape={endpoints}>
+        <CircleLayer
+          id="planned-route-endpoint-circles"
+          style={{
+            circleRadius: 8,
+            circleColor: ['match', ['get', 'role'], 'from', colors.primary, colors.error],
+            circleStrokeWidth: 3,
+            circleStrokeColor: '#FFFFFF',
+          }}
+        />
+      </ShapeSource>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,93 +7,141 @@ import {
   TouchableOpacity,
   ScrollView,
   Alert,
+  Image,
 } from 'react-native';
-import { XMarkIcon } from 'react-native-heroicons/outline';
+import { useTranslation } from 'react-i18next';
+import { XMarkIcon, PlusIcon } from 'react-native-heroicons/outline';
 import { useTheme } from '@/contexts/ThemeContext';
 import { TextInput, Button } from '@/components/ui';
-import { useCreateMapFeedback } from '@/lib/hooks/useMapFeedback';
-import type { MapFeedbackCategory, GeoJSONPoint } from '@/lib/api/mapFeedback';
+import { useCreateMapFeedback, useUpdateMapFeedback } from '@/lib/hooks/useMapFeedback';
+import { pickAndProcessMultipleImages } from '@/lib/utils/imageHelpers';
+import { feedbackTypeOf, geometryCenter, geometryPoints } from '@/lib/utils/feedbackGeometry';
+import type { GeoJSONGeometry, MapFeedback, MapFeedbackCategory, MapFeedbackType } from '@/lib/api/mapFeedback';
 
 interface CategoryOption {
   value: MapFeedbackCategory;
-  label: string;
-  description: string;
   icon: string;
 }
 
 const categories: CategoryOption[] = [
-  { value: 'road_damage', label: 'Road Damage', description: 'Potholes, cracks, debris', icon: '🕳️' },
-  { value: 'traffic_light', label: 'Traffic Light', description: 'Signal issues', icon: '🚦' },
-  { value: 'safety_issue', label: 'Safety Issue', description: 'Dangerous conditions', icon: '⚠️' },
-  { value: 'other', label: 'Other', description: 'Other issues', icon: '📍' },
+  { value: 'road_damage', icon: '🕳️' },
+  { value: 'traffic_light', icon: '🚦' },
+  { value: 'safety_issue', icon: '⚠️' },
+  { value: 'other', icon: '📍' },
 ];
 
+const shapes: MapFeedbackType[] = ['point', 'path', 'area'];
+
+const MAX_PHOTOS = 3;
+
 interface ReportIssueModalProps {
   visible: boolean;
-  coordinates: { latitude: number; longitude: number } | null;
+  /** Where the issue is: the long-pressed point, or a path or area drawn on the map */
+  geometry: GeoJSONGeometry | null;
+  /** Existing report being edited; a new report is created when absent */
+  feedback?: MapFeedback | null;
+  /** Switch the report to another shape; paths and areas are drawn on the map. Point only when absent. */
+  onShapeChange?: (type: MapFeedbackType) => void;
   onClose: () => void;
 }
 
-export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueModalProps) {
+export function ReportIssueModal({ visible, geometry, feedback, onShapeChange, onClose }: ReportIssueModalProps) {
   const { colors } = useTheme();
+  const { t } = useTranslation();
   const [selectedCategory, setSelectedCategory] = useState<MapFeedbackCategory>('road_damage');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  // URLs (or, for a report still in the outbox, files) of photos already on it and data URIs of newly picked ones
+  const [photos, setPhotos] = useState<string[]>([]);
 
   const createFeedbackMutation = useCreateMapFeedback();
+  const updateFeedbackMutation = useUpdateMapFeedback();
+  const isEditing = !!feedback;
+
+  // Start from the report's current values when editing
+  useEffect(() => {
+    if (!feedback) return;
+    setSelectedCategory(feedback.category);
+    setTitle(feedback.title);
+    setDescription(feedback.description);
+    setPhotos(feedback.photos ?? []);
+  }, [feedback]);
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setSelectedCategory('road_damage');
+    setPhotos([]);
+  };
+
+  const handleAddPhotos = async () => {
+    try {
+      const picked = await pickAndProcessMultipleImages({ maxImages: MAX_PHOTOS - photos.length });
+      if (picked.length > 0) {
+        setPhotos((prev) => [...prev, ...picked].slice(0, MAX_PHOTOS));
+      }
+    } catch (error) {
+      console.error('Error picking photos:', error);
+      Alert.alert(t('alerts:error.title'), t('maps:report.photoFailed', 'Could not add the photo.'));
+    }
+  };
 
   const handleSubmit = async () => {
     if (!title.trim()) {
-      Alert.alert('Title Required', 'Please enter a title for your report.');
+      Alert.alert(
+        t('maps:report.titleRequired', 'Title Required'),
+        t('maps:report.titleRequiredMessage', 'Please enter a title for your report.')
+      );
       return;
     }
 
-    if (!coordinates) {
-      Alert.alert('Error', 'Location data is missing.');
+    if (!geometry) {
+      Alert.alert(t('alerts:error.title'), t('maps:report.locationMissing', 'Location data is missing.'));
       return;
     }
 
-    try {
-      // Convert coordinates to GeoJSON Point format
-      const geoJSONCoordinates: GeoJSONPoint = {
-        type: 'Point',
-        coordinates: [coordinates.longitude, coordinates.latitude],
-      };
+    const report = {
+      type: feedbackTypeOf(geometry),
+      category: selectedCategory,
+      coordinates: geometry,
+      title: title.trim(),
+      description: description.trim(),
+    };
 
-      await createFeedbackMutation.mutateAsync({
-        type: 'point',
-        category: selectedCategory,
-        coordinates: geoJSONCoordinates,
-        title: title.trim(),
-        description: description.trim(),
-      });
+    try {
+      const outcome = feedback
+        ? await updateFeedbackMutation.mutateAsync({ feedback, data: { ...report, photos } })
+        : await createFeedbackMutation.mutateAsync(photos.length > 0 ? { ...report, photos } : report);
 
-      Alert.alert('Success', 'Your report has been submitted. Thank you!', [
+      const message = outcome === 'queued'
+        ? t('maps:report.queued', 'Your report has been saved and will be sent automatically when you have a connection.')
+        : feedback
+          ? t('maps:report.updated', 'Your report has been updated.')
+          : t('maps:report.submitted', 'Your report has been submitted. Thank you!');
+      Alert.alert(t('maps:report.success', 'Success'), message, [
         {
           text: 'OK',
           onPress: () => {
-            // Reset form
-            setTitle('');
-            setDescription('');
-            setSelectedCategory('road_damage');
+            resetForm();
             onClose();
           },
         },
       ]);
     } catch (error) {
       console.error('Error submitting report:', error);
-      Alert.alert('Error', 'Failed to submit your report. Please try again.');
+      Alert.alert(t('alerts:error.title'), t('maps:report.failed', 'Failed to submit your report. Please try again.'));
     }
   };
 
   const handleClose = () => {
-    // Reset form
-    setTitle('');
-    setDescription('');
-    setSelectedCategory('road_damage');
+    resetForm();
     onClose();
   };
 
+  const shape = geometry ? feedbackTypeOf(geometry) : 'point';
+  const center = geometry ? geometryCenter(geometry) : null;
+  const vertexCount = geometry ? geometryPoints(geometry).length : 0;
+
   return (
     <Modal
       visible={visible}
@@ -105,7 +153,9 @@ export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueM
         <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
           {/* Header */}
           <View style={[styles.header, { borderBottomColor: colors.border }]}>
-            <Text style={[styles.headerTitle, { color: colors.text }]}>Report Issue</Text>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>
+              {isEditing ? t('maps:report.editTitle', 'Edit Report') : t('maps:report.title', 'Report Issue')}
+            </Text>
             <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
               <XMarkIcon size={24} color={colors.text} />
             </TouchableOpacity>
@@ -114,7 +164,7 @@ export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueM
           <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
             {/* Category Selection */}
             <View style={styles.section}>
-              <Text style={[styles.label, { color: colors.text }]}>Category</Text>
+              <Text style={[styles.label, { color: colors.text }]}>{t('maps:report.category', 'Category')}</Text>
               <View style={styles.categoryGrid}>
                 {categories.map((cat) => (
                   <TouchableOpacity
@@ -133,37 +183,71 @@ export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueM
                   >
                     <Text style={styles.categoryIcon}>{cat.icon}</Text>
                     <Text style={[styles.categoryLabel, { color: colors.text }]}>
-                      {cat.label}
+                      {t(`maps:feedback.categories.${cat.value}`)}
                     </Text>
                     <Text
                       style={[styles.categoryDescription, { color: colors.textSecondary }]}
                       numberOfLines={1}
                     >
-                      {cat.description}
+                      {t(`maps:report.categoryDescriptions.${cat.value}`)}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
             </View>
 
+            {/* Shape: a point, or a path or area traced on the map */}
+            {onShapeChange && (
+              <View style={styles.section}>
+                <Text style={[styles.label, { color: colors.text }]}>{t('maps:report.shape', 'Shape')}</Text>
+                <View style={styles.shapeRow}>
+                  {shapes.map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      onPress={() => onShapeChange(type)}
+                      style={[
+                        styles.shapeButton,
+                        { backgroundColor: colors.card, borderColor: colors.border },
+                        shape === type && { backgroundColor: colors.primary + '20', borderColor: colors.primary },
+                      ]}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.shapeLabel, { color: colors.text }]}>
+                        {t(`maps:report.shapes.${type}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {shape !== 'point' && (
+                  <Text style={[styles.shapeHint, { color: colors.textSecondary }]}>
+                    {t('maps:report.redrawHint', 'Tap {{shape}} again to redraw it', {
+                      shape: t(`maps:report.shapes.${shape}`),
+                    })}
+                  </Text>
+                )}
+              </View>
+            )}
+
             {/* Title Input */}
             <View style={styles.section}>
-              <Text style={[styles.label, { color: colors.text }]}>Title</Text>
+              <Text style={[styles.label, { color: colors.text }]}>{t('maps:report.titleLabel', 'Title')}</Text>
               <TextInput
                 value={title}
                 onChangeText={setTitle}
-                placeholder="e.g., Large pothole on Main Street"
+                placeholder={t('maps:report.titlePlaceholder', 'e.g., Large pothole on Main Street')}
                 maxLength={100}
               />
             </View>
 
             {/* Description Input */}
             <View style={styles.section}>
-              <Text style={[styles.label, { color: colors.text }]}>Description (Optional)</Text>
+              <Text style={[styles.label, { color: colors.text }]}>
+                {t('maps:report.descriptionLabel', 'Description (Optional)')}
+              </Text>
               <TextInput
                 value={description}
                 onChangeText={setDescription}
-                placeholder="Provide additional details..."
+                placeholder={t('maps:report.descriptionPlaceholder', 'Provide additional details...')}
                 multiline
                 numberOfLines={4}
                 textAlignVertical="top"
@@ -172,15 +256,51 @@ export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueM
               />
             </View>
 
+            {/* Photos */}
+            <View style={styles.section}>
+              <Text style={[styles.label, { color: colors.text }]}>{t('maps:report.photos', 'Photos')}</Text>
+              <View style={styles.photoRow}>
+                {photos.map((uri, index) => (
+                  <View key={`${index}-${uri.slice(-16)}`}>
+                    <Image source={{ uri }} style={styles.photoThumbnail} />
+                    <TouchableOpacity
+                      style={[styles.removePhotoButton, { backgroundColor: colors.error }]}
+                      onPress={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                      activeOpacity={0.8}
+                    >
+                      <XMarkIcon size={14} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {photos.length < MAX_PHOTOS && (
+                  <TouchableOpacity
+                    onPress={handleAddPhotos}
+                    style={[styles.addPhotoButton, { borderColor: colors.border, backgroundColor: colors.card }]}
+                    activeOpacity={0.7}
+                  >
+                    <PlusIcon size={24} color={colors.textSecondary} />
+                    <Text style={[styles.addPhotoText, { color: colors.textSecondary }]}>
+                      {t('maps:report.addPhoto', 'Add photo')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
             {/* Location Info */}
-            {coordinates && (
+            {center && (
               <View style={[styles.locationInfo, { backgroundColor: colors.card }]}>
                 <Text style={[styles.locationLabel, { color: colors.textSecondary }]}>
-                  Location
+                  {t('maps:report.location', 'Location')}
                 </Text>
                 <Text style={[styles.locationText, { color: colors.text }]}>
-                  {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
+                  {center.latitude.toFixed(6)}, {center.longitude.toFixed(6)}
                 </Text>
+                {shape !== 'point' && (
+                  <Text style={[styles.locationLabel, { color: colors.textSecondary }]}>
+                    {t('maps:report.vertices', '{{count}} points', { count: vertexCount })}
+                  </Text>
+                )}
               </View>
             )}
           </ScrollView>
@@ -188,12 +308,12 @@ export function ReportIssueModal({ visible, coordinates, onClose }: ReportIssueM
           {/* Submit Button */}
           <View style={[styles.footer, { backgroundColor: colors.background, borderTopColor: colors.border }]}>
             <Button
-              title="Submit Report"
+              title={isEditing ? t('maps:report.save', 'Save Changes') : t('maps:report.submit', 'Submit Report')}
               onPress={handleSubmit}
               variant="primary"
               size="large"
               fullWidth
-              loading={createFeedbackMutation.isPending}
+              loading={createFeedbackMutation.isPending || updateFeedbackMutation.isPending}
             />
           </View>
         </View>
@@ -271,6 +391,58 @@ const styles = StyleSheet.create({
   descriptionInput: {
     minHeight: 100,
   },
+  shapeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  shapeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  shapeLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  shapeHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  photoThumbnail: {
+    width: 88,
+    height: 88,
+    borderRadius: 8,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addPhotoButton: {
+    width: 88,
+    height: 88,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addPhotoText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
   locationInfo: {
     padding: 12,
     borderRadius: 8,
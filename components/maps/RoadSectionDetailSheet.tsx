@@ -1,6 +1,7 @@
 /**
  * RoadSectionDetailSheet Component
- * Modal for displaying road section details when a segment is tapped
+ * Modal for displaying road section details when a segment is tapped, or a
+ * junction when one is; both can be rated from here
  */
 
 import React from 'react';
@@ -13,28 +14,62 @@ import {
   Dimensions,
 } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
-import { MaterialIcons } from '@expo/vector-icons';
+import { MaterialCommunityIcons, MaterialIcons } from '@expo/vector-icons';
 import type { RoadSectionPersonal, RoadSectionCommunity } from '@/lib/api/roadSections';
 import { RATING_LABELS, RATING_COLORS, getRatingColor } from '@/lib/api/roadSections';
+import type { Junction } from '@/lib/utils/placeRatings';
+import { rankTagCounts } from '@/lib/utils/segmentTags';
+import { SEGMENT_TAGS } from '@/types/rating';
 import { useTranslation } from 'react-i18next';
+import { PlaceRatingActions } from './PlaceRatingActions';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 interface RoadSectionDetailSheetProps {
   section: RoadSectionPersonal | RoadSectionCommunity | null;
+  junction?: Junction | null;
   visible: boolean;
   onClose: () => void;
 }
 
-export function RoadSectionDetailSheet({ section, visible, onClose }: RoadSectionDetailSheetProps) {
+export function RoadSectionDetailSheet({ section, junction, visible, onClose }: RoadSectionDetailSheetProps) {
   const { colors } = useTheme();
   const { t } = useTranslation();
 
+  if (junction) {
+    return (
+      <DetailModal visible={visible} onClose={onClose}>
+        <View style={styles.content}>
+          <View style={styles.ratingHeader}>
+            <View style={[styles.ratingCircle, { backgroundColor: colors.primary }]}>
+              <MaterialIcons name="call-split" size={32} color="#FFFFFF" />
+            </View>
+            <View style={styles.ratingInfo}>
+              <Text style={[styles.ratingLabel, { color: colors.text }]}>
+                {t('maps:road_sections.junction', 'Junction')}
+              </Text>
+              <Text style={[styles.detailLabel, styles.junctionSubtitle, { color: colors.textSecondary }]}>
+                {t('maps:road_sections.junction_sections', { count: junction.sectionIds.length })}
+              </Text>
+            </View>
+          </View>
+          <PlaceRatingActions
+            place={{ kind: 'junction', coordinates: junction.coordinates, sectionIds: junction.sectionIds }}
+          />
+        </View>
+      </DetailModal>
+    );
+  }
+
   if (!section) return null;
 
   const isPersonal = !('community_score' in section);
   const score = isPersonal ? section.rating : section.community_score;
   const ratingColor = getRatingColor(score);
+  // Reasons behind stressed/uncomfortable ratings: the rider's own, or how many riders gave each
+  const tagCounts = isPersonal
+    ? rankTagCounts(Object.fromEntries((section.tags ?? []).map((tag) => [tag, 1])))
+    : rankTagCounts(section.tag_counts);
 
   // Get rating label
   const getRatingLabel = (rating: number): string => {
@@ -58,6 +93,126 @@ export function RoadSectionDetailSheet({ section, visible, onClose }: RoadSectio
     );
   };
 
+  return (
+    <DetailModal visible={visible} onClose={onClose}>
+      <View style={styles.content}>
+        {/* Rating indicator */}
+        <View style={styles.ratingHeader}>
+          <View style={[styles.ratingCircle, { backgroundColor: ratingColor }]}>
+            <Text style={styles.ratingNumber}>
+              {score.toFixed(1)}
+            </Text>
+          </View>
+          <View style={styles.ratingInfo}>
+            <Text style={[styles.ratingLabel, { color: colors.text }]}>
+              {getRatingLabel(score)}
+            </Text>
+            <RatingBar value={score} />
+          </View>
+        </View>
+
+        {/* Details */}
+        {isPersonal ? (
+          // Personal section details
+          <View style={styles.detailsContainer}>
+            <View style={styles.detailRow}>
+              <MaterialIcons name="person" size={20} color={colors.textSecondary} />
+              <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                {t('maps:road_sections.your_rating', 'Your Rating')}
+              </Text>
+              <Text style={[styles.detailValue, { color: colors.text }]}>
+                {getRatingLabel(section.rating)}
+              </Text>
+            </View>
+          </View>
+        ) : (
+          // Community section details
+          <View style={styles.detailsContainer}>
+            <View style={styles.detailRow}>
+              <MaterialIcons name="people" size={20} color={colors.textSecondary} />
+              <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                {t('maps:road_sections.community_score', 'Community Score')}
+              </Text>
+              <Text style={[styles.detailValue, { color: colors.text }]}>
+                {section.community_score.toFixed(2)}
+              </Text>
+            </View>
+
+            <View style={styles.detailRow}>
+              <MaterialIcons name="how-to-vote" size={20} color={colors.textSecondary} />
+              <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                {t('maps:road_sections.rating_count', 'Ratings')}
+              </Text>
+              <Text style={[styles.detailValue, { color: colors.text }]}>
+                {section.rating_count}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {tagCounts.length > 0 && (
+          <View style={styles.tagsContainer}>
+            <Text style={[styles.legendTitle, { color: colors.textSecondary }]}>
+              {isPersonal
+                ? t('maps:road_sections.your_reasons', 'Your reasons')
+                : t('maps:road_sections.reasons', 'Reasons given')}
+            </Text>
+            <View style={styles.tagRow}>
+              {tagCounts.map(({ tag, count }) => (
+                <View key={tag} style={[styles.tag, { borderColor: colors.border }]}>
+                  <MaterialCommunityIcons
+                    name={SEGMENT_TAGS[tag].icon as any}
+                    size={14}
+                    color={colors.textSecondary}
+                  />
+                  <Text style={[styles.legendText, { color: colors.text }]}>
+                    {t(`maps:segmentTags.tags.${tag}`)}
+                    {!isPersonal && ` · ${count}`}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.rateContainer}>
+          <PlaceRatingActions
+            place={{ kind: 'section', sectionId: section.section_id, coordinates: section.geometry.coordinates }}
+          />
+        </View>
+
+        {/* Legend */}
+        <View style={styles.legend}>
+          <Text style={[styles.legendTitle, { color: colors.textSecondary }]}>
+            {t('maps:road_sections.legend', 'Rating Scale')}
+          </Text>
+          <View style={styles.legendRow}>
+            {[1, 2, 3, 4].map((rating) => (
+              <View key={rating} style={styles.legendItem}>
+                <View
+                  style={[styles.legendDot, { backgroundColor: RATING_COLORS[rating] }]}
+                />
+                <Text style={[styles.legendText, { color: colors.textSecondary }]}>
+                  {rating}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      </View>
+    </DetailModal>
+  );
+}
+
+interface DetailModalProps {
+  visible: boolean;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+function DetailModal({ visible, onClose, children }: DetailModalProps) {
+  const { colors } = useTheme();
+
   return (
     <Modal
       visible={visible}
@@ -76,80 +231,7 @@ export function RoadSectionDetailSheet({ section, visible, onClose }: RoadSectio
           ]}
           onStartShouldSetResponder={() => true}
         >
-          <View style={styles.content}>
-            {/* Rating indicator */}
-            <View style={styles.ratingHeader}>
-              <View style={[styles.ratingCircle, { backgroundColor: ratingColor }]}>
-                <Text style={styles.ratingNumber}>
-                  {score.toFixed(1)}
-                </Text>
-              </View>
-              <View style={styles.ratingInfo}>
-                <Text style={[styles.ratingLabel, { color: colors.text }]}>
-                  {getRatingLabel(score)}
-                </Text>
-                <RatingBar value={score} />
-              </View>
-            </View>
-
-            {/* Details */}
-            {isPersonal ? (
-              // Personal section details
-              <View style={styles.detailsContainer}>
-                <View style={styles.detailRow}>
-                  <MaterialIcons name="person" size={20} color={colors.textSecondary} />
-                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
-                    {t('maps:road_sections.your_rating', 'Your Rating')}
-                  </Text>
-                  <Text style={[styles.detailValue, { color: colors.text }]}>
-                    {getRatingLabel(section.rating)}
-                  </Text>
-                </View>
-              </View>
-            ) : (
-              // Community section details
-              <View style={styles.detailsContainer}>
-                <View style={styles.detailRow}>
-                  <MaterialIcons name="people" size={20} color={colors.textSecondary} />
-                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
-                    {t('maps:road_sections.community_score', 'Community Score')}
-                  </Text>
-                  <Text style={[styles.detailValue, { color: colors.text }]}>
-                    {section.community_score.toFixed(2)}
-                  </Text>
-                </View>
-
-                <View style={styles.detailRow}>
-                  <MaterialIcons name="how-to-vote" size={20} color={colors.textSecondary} />
-                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
-                    {t('maps:road_sections.rating_count', 'Ratings')}
-                  </Text>
-                  <Text style={[styles.detailValue, { color: colors.text }]}>
-                    {section.rating_count}
-                  </Text>
-                </View>
-              </View>
-            )}
-
-            {/* Legend */}
-            <View style={styles.legend}>
-              <Text style={[styles.legendTitle, { color: colors.textSecondary }]}>
-                {t('maps:road_sections.legend', 'Rating Scale')}
-              </Text>
-              <View style={styles.legendRow}>
-                {[1, 2, 3, 4].map((rating) => (
-                  <View key={rating} style={styles.legendItem}>
-                    <View
-                      style={[styles.legendDot, { backgroundColor: RATING_COLORS[rating] }]}
-                    />
-                    <Text style={[styles.legendText, { color: colors.textSecondary }]}>
-                      {rating}
-                    </Text>
-                  </View>
-                ))}
-              </View>
-            </View>
-          </View>
+          {children}
 
           {/* Close button */}
           <Pressable
@@ -239,6 +321,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  junctionSubtitle: {
+    marginLeft: 0,
+  },
+  rateContainer: {
+    marginBottom: 20,
+  },
+  tagsContainer: {
+    marginBottom: 20,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
   legend: {
     marginTop: 8,
   },
@@ -1,18 +1,24 @@
 /**
  * RoadSectionsLayer Component
- * Displays road sections as colored lines based on ratings
+ * Displays road sections as colored lines based on ratings, and the junctions
+ * where they meet when those can be tapped
  */
 
 import React, { useMemo, useEffect, useState } from 'react';
-import { ShapeSource, LineLayer } from '@rnmapbox/maps';
+import { ShapeSource, LineLayer, CircleLayer } from '@rnmapbox/maps';
 import { View, Text, StyleSheet } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import type { RoadSectionPersonal, RoadSectionCommunity } from '@/lib/api/roadSections';
+import { findJunctions, type Junction } from '@/lib/utils/placeRatings';
+
+// Junctions are only drawn once individual streets can be told apart
+const JUNCTION_MIN_ZOOM = 15;
 
 interface RoadSectionsLayerProps {
   sections?: (RoadSectionPersonal | RoadSectionCommunity)[];
   type: 'personal' | 'global';
   onSectionPress?: (section: RoadSectionPersonal | RoadSectionCommunity) => void;
+  onJunctionPress?: (junction: Junction) => void;
 }
 
 /**
@@ -48,7 +54,7 @@ function convertToGeoJSON(
   };
 }
 
-export function RoadSectionsLayer({ sections, type, onSectionPress }: RoadSectionsLayerProps) {
+export function RoadSectionsLayer({ sections, type, onSectionPress, onJunctionPress }: RoadSectionsLayerProps) {
   const { colors } = useTheme();
   const [showEmptyMessage, setShowEmptyMessage] = useState(false);
   
@@ -63,6 +69,26 @@ export function RoadSectionsLayer({ sections, type, onSectionPress }: RoadSectio
     return convertToGeoJSON(sections);
   }, [sections]);
 
+  const junctions = useMemo(() => (sections ? findJunctions(sections) : []), [sections]);
+  const junctionsGeojson = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: junctions.map((junction, index) => ({
+        type: 'Feature' as const,
+        id: index,
+        properties: {},
+        geometry: { type: 'Point' as const, coordinates: junction.coordinates },
+      })),
+    }),
+    [junctions]
+  );
+
+  const handleJunctionPress = (event: any) => {
+    const feature = event.features?.[0];
+    const junction = feature ? junctions[feature.id] : undefined;
+    if (onJunctionPress && junction) onJunctionPress(junction);
+  };
+
   // Handle line press
   const handlePress = (event: any) => {
     if (!onSectionPress || !sections) return;
@@ -114,42 +140,63 @@ export function RoadSectionsLayer({ sections, type, onSectionPress }: RoadSectio
   }
 
   return (
-    <ShapeSource
-      id={`road-sections-source-${type}`}
-      shape={geojson}
-      onPress={handlePress}
-    >
-      <LineLayer
-        id={`road-sections-lines-${type}`}
-        style={{
-          // Interpolate color based on score (1-4)
-          // Red (stressed) -> Orange -> Yellow-Green -> Green (enjoyable)
-          lineColor: [
-            'interpolate',
-            ['linear'],
-            ['get', 'score'],
-            1, '#EF4444',  // Red - Stressed
-            2, '#F97316',  // Orange - Uncomfortable
-            3, '#84CC16',  // Yellow-Green - Comfortable
-            4, '#22C55E',  // Green - Enjoyable
-          ],
-          // Line width varies by rating count for community (more ratings = thicker)
-          lineWidth: type === 'global'
-            ? [
-                'interpolate',
-                ['linear'],
-                ['get', 'rating_count'],
-                1, 3,   // 1 rating = thin
-                5, 4,   // 5 ratings = medium
-                10, 6,  // 10+ ratings = thick
-              ]
-            : 4,
-          lineOpacity: 0.85,
-          lineCap: 'round',
-          lineJoin: 'round',
-        }}
-      />
-    </ShapeSource>
+    <>
+      <ShapeSource
+        id={`road-sections-source-${type}`}
+        shape={geojson}
+        onPress={handlePress}
+      >
+        <LineLayer
+          id={`road-sections-lines-${type}`}
+          style={{
+            // Interpolate color based on score (1-4)
+            // Red (stressed) -> Orange -> Yellow-Green -> Green (enjoyable)
+            lineColor: [
+              'interpolate',
+              ['linear'],
+              ['get', 'score'],
+              1, '#EF4444',  // Red - Stressed
+              2, '#F97316',  // Orange - Uncomfortable
+              3, '#84CC16',  // Yellow-Green - Comfortable
+              4, '#22C55E',  // Green - Enjoyable
+            ],
+            // Line width varies by rating count for community (more ratings = thicker)
+            lineWidth: type === 'global'
+              ? [
+                  'interpolate',
+                  ['linear'],
+                  ['get', 'rating_count'],
+                  1, 3,   // 1 rating = thin
+                  5, 4,   // 5 ratings = medium
+                  10, 6,  // 10+ ratings = thick
+                ]
+              : 4,
+            lineOpacity: 0.85,
+            lineCap: 'round',
+            lineJoin: 'round',
+          }}
+        />
+      </ShapeSource>
+      {onJunctionPress && (
+        <ShapeSource
+          id={`road-junctions-source-${type}`}
+          shape={junctionsGeojson}
+          onPress={handleJunctionPress}
+          hitbox={{ width: 24, height: 24 }}
+        >
+          <CircleLayer
+            id={`road-junctions-circles-${type}`}
+            minZoomLevel={JUNCTION_MIN_ZOOM}
+            style={{
+              circleRadius: 6,
+              circleColor: '#FFFFFF',
+              circleStrokeColor: colors.text,
+              circleStrokeWidth: 2,
+            }}
+          />
+        </ShapeSource>
+      )}
+    </>
   );
 }
 
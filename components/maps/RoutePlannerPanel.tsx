@@ -0,0 +1,248 @@
+/**
+ * RoutePlannerPanel Component
+ * Instructions, quiet-vs-fast preference and result summary for the A→B route planner
+ */
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BorderRadius, Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { getRatingColor } from '@/lib/api/roadSections';
+import { formatDistance } from '@/lib/utils/geoCalculations';
+import type { PlannedRoute } from '@/lib/utils/routePlanner';
+import type { Coordinate } from '@/types/location';
+
+// Positions of the quiet-vs-fast slider, from fastest to quietest
+export const QUIETNESS_STEPS = [0, 0.25, 0.5, 0.75, 1] as const;
+
+const COMFORT_KEYS: Record<number, string> = {
+  1: 'stressed',
+  2: 'uncomfortable',
+  3: 'comfortable',
+  4: 'enjoyable',
+};
+
+interface RoutePlannerPanelProps {
+  from: Coordinate | null;
+  to: Coordinate | null;
+  route: PlannedRoute | null;
+  isLoading: boolean;
+  quietness: number;
+  onQuietnessChange: (quietness: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+  /** Start turn-by-turn follow mode along the planned route */
+  onFollow?: () => void;
+}
+
+export function RoutePlannerPanel({
+  from,
+  to,
+  route,
+  isLoading,
+  quietness,
+  onQuietnessChange,
+  onClear,
+  onClose,
+  onFollow,
+}: RoutePlannerPanelProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { unitSystem } = useUnits();
+  const insets = useSafeAreaInsets();
+
+  let message: string | null = null;
+  if (!from) {
+    message = t('maps:planner.setStart', 'Long-press the map to set your start');
+  } else if (!to) {
+    message = t('maps:planner.setDestination', 'Long-press the map to set your destination');
+  } else if (isLoading) {
+    message = t('maps:planner.loading', 'Loading rated roads…');
+  } else if (!route) {
+    message = t(
+      'maps:planner.noRoute',
+      'No rated roads connect these points. Zoom out so both are on screen, or move them closer to a rated road.'
+    );
+  }
+
+  const comfort = route?.averageScore != null ? Math.min(4, Math.max(1, Math.round(route.averageScore))) : null;
+
+  return (
+    <View style={[styles.container, { bottom: insets.bottom + Spacing.md, backgroundColor: colors.card }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]}>{t('maps:planner.title', 'Plan a route')}</Text>
+        <View style={styles.headerActions}>
+          {(from || to) && (
+            <Pressable onPress={onClear} accessibilityRole="button" hitSlop={8}>
+              <Text style={[styles.action, { color: colors.primary }]}>{t('maps:planner.clear', 'Clear')}</Text>
+            </Pressable>
+          )}
+          <Pressable onPress={onClose} accessibilityRole="button" hitSlop={8}>
+            <Text style={[styles.action, { color: colors.textSecondary }]}>{t('maps:planner.close', 'Close')}</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.sliderRow}>
+        <Text style={[styles.sliderLabel, { color: colors.textSecondary }]}>{t('maps:planner.fast', 'Fast')}</Text>
+        <View style={styles.track}>
+          <View style={[styles.trackLine, { backgroundColor: colors.border }]} />
+          {QUIETNESS_STEPS.map((step) => {
+            const selected = step === quietness;
+            return (
+              <Pressable
+                key={step}
+                onPress={() => onQuietnessChange(step)}
+                style={[
+                  styles.stop,
+                  { borderColor: selected ? colors.primary : colors.border, backgroundColor: colors.card },
+                  selected && { backgroundColor: colors.primary },
+                ]}
+                hitSlop={8}
+                accessibilityRole="adjustable"
+                accessibilityState={{ selected }}
+              />
+            );
+          })}
+        </View>
+        <Text style={[styles.sliderLabel, { color: colors.textSecondary }]}>{t('maps:planner.quiet', 'Quiet')}</Text>
+      </View>
+
+      {message ? (
+        <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+      ) : route ? (
+        <View style={styles.summary}>
+          <Text style={[styles.summaryValue, { color: colors.text }]}>
+            {formatDistance(route.distance, unitSystem)}
+          </Text>
+          {comfort !== null && (
+            <View style={styles.comfort}>
+              <View style={[styles.swatch, { backgroundColor: getRatingColor(comfort) }]} />
+              <Text style={[styles.summaryText, { color: colors.text }]}>
+                {t(`maps:planner.comfort.${COMFORT_KEYS[comfort]}`)}
+              </Text>
+            </View>
+          )}
+          {route.hazardCount > 0 && (
+            <Text style={[styles.summaryText, { color: colors.error }]}>
+              {t('maps:planner.hazards', '{{count}} hazards', { count: route.hazardCount })}
+            </Text>
+          )}
+          {onFollow && (
+            <Pressable
+              onPress={onFollow}
+              style={[styles.followButton, { backgroundColor: colors.primary }]}
+              accessibilityRole="button"
+            >
+              <Text style={styles.followText}>{t('maps:follow.start', 'Follow')}</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.md,
+    right: Spacing.md,
+    zIndex: 100,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sliderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  sliderLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  track: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  trackLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+  },
+  stop: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+  },
+  message: {
+    fontSize: 13,
+    marginTop: Spacing.md,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  summaryValue: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  comfort: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  followButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  followText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+});
@@ -0,0 +1,37 @@
+/**
+ * TripHeatmapLayer Component
+ * Draws trip density as a Mapbox heatmap, for the rider's own trips or the community's
+ */
+
+import React, { useMemo } from 'react';
+import { HeatmapLayer, ShapeSource, type HeatmapLayerStyle } from '@rnmapbox/maps';
+import { HEATMAP_CONFIG, toHeatmapGeoJSON } from '@/lib/utils/heatmapGrid';
+import type { HeatmapPoint } from '@/types/heatmap';
+
+// HeatmapConfig holds untyped expressions; Mapbox validates them at runtime
+const HEATMAP_STYLE = {
+  heatmapRadius: HEATMAP_CONFIG.radius,
+  heatmapWeight: HEATMAP_CONFIG.weight,
+  heatmapIntensity: HEATMAP_CONFIG.intensity,
+  heatmapColor: HEATMAP_CONFIG.color,
+  heatmapOpacity: HEATMAP_CONFIG.opacity,
+} as HeatmapLayerStyle;
+
+interface TripHeatmapLayerProps {
+  points?: HeatmapPoint[];
+  type: 'personal' | 'global';
+}
+
+export function TripHeatmapLayer({ points, type }: TripHeatmapLayerProps) {
+  const geojson = useMemo(() => toHeatmapGeoJSON(points ?? []), [points]);
+
+  if (!points || points.length === 0) {
+    return null;
+  }
+
+  return (
+    <ShapeSource id={`heatmap-source-${type}`} shape={geojson}>
+      <HeatmapLayer id={`heatmap-${type}`} style={HEATMAP_STYLE} />
+    </ShapeSource>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Modal, StyleSheet, TouchableOpacity, View, Dimensions, Text } from 'react-native';
+import { Modal, StyleSheet, TouchableOpacity, View, Dimensions, Text, Image, ScrollView } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { useTheme } from '@/contexts/ThemeContext';
 import { XMarkIcon } from 'react-native-heroicons/outline';
@@ -8,18 +8,21 @@ import type { MapFeedback } from '@/lib/api/mapFeedback';
 import type { GlobalFeedback } from '@/lib/api/globalFeedback';
 import { getCategoryIcon, getCategoryColor } from '@/lib/utils/feedbackHelpers';
 import { useTranslation } from 'react-i18next';
+import { FeedbackVoteActions } from '@/components/maps/FeedbackVoteActions';
 import { Spacing } from '@/constants/theme';
 
 interface FeedbackDetailsModalProps {
   visible: boolean;
   onClose: () => void;
   feedback: MapFeedback | GlobalFeedback | null;
+  /** Edit one of the user's own reports */
+  onEdit?: (feedback: MapFeedback) => void;
 }
 
 const { width } = Dimensions.get('window');
 const MODAL_WIDTH = Math.min(width - 48, 400);
 
-export function FeedbackDetailsModal({ visible, onClose, feedback }: FeedbackDetailsModalProps) {
+export function FeedbackDetailsModal({ visible, onClose, feedback, onEdit }: FeedbackDetailsModalProps) {
   const { colors } = useTheme();
   const { t } = useTranslation();
 
@@ -87,6 +90,13 @@ export function FeedbackDetailsModal({ visible, onClose, feedback }: FeedbackDet
                     <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
                       {feedback.description}
                     </ThemedText>
+                    {feedback.photos && feedback.photos.length > 0 && (
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photos}>
+                        {feedback.photos.map((uri) => (
+                          <Image key={uri} source={{ uri }} style={styles.photo} />
+                        ))}
+                      </ScrollView>
+                    )}
                   </>
                 )}
               </View>
@@ -190,12 +200,28 @@ export function FeedbackDetailsModal({ visible, onClose, feedback }: FeedbackDet
                 )}
               </View>
 
+              {!isPersonal && (
+                <View style={styles.votes}>
+                  <FeedbackVoteActions feedbackId={feedback.id} />
+                </View>
+              )}
+
               {/* Footer */}
               <View style={styles.footer}>
                 <ThemedText style={[styles.lastUpdated, { color: colors.textSecondary }]}>
                   {t('maps:feedback.last_updated', 'Last updated')}:{' '}
                   {formatDate(isPersonal ? feedback.created_at : feedback.last_processed_at)}
                 </ThemedText>
+                {isPersonal && onEdit && (
+                  <TouchableOpacity
+                    style={[styles.editButton, { borderColor: colors.primary }]}
+                    onPress={() => onEdit(feedback)}
+                    activeOpacity={0.7}
+                  >
+                    <MaterialCommunityIcons name="pencil" size={16} color={colors.primary} />
+                    <Text style={[styles.editText, { color: colors.primary }]}>{t('common:buttons.edit', 'Edit')}</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             </View>
           </TouchableOpacity>
@@ -318,10 +344,36 @@ const styles = StyleSheet.create({
   star: {
     fontSize: 16,
   },
+  votes: {
+    marginBottom: Spacing.lg,
+  },
   footer: {
     alignItems: 'center',
   },
   lastUpdated: {
     fontSize: 12,
   },
+  photos: {
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  photo: {
+    width: 96,
+    height: 72,
+    borderRadius: 8,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  editText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
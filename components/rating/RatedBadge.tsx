@@ -1,7 +1,8 @@
 /**
  * RatedBadge Component
  *
- * A small badge indicating whether a trip has been rated or not.
+ * A small badge indicating whether a trip has been rated or not, and
+ * whether the rating was edited after it was first saved.
  * Similar to the sync badge pattern used in trip-history.
  */
 
@@ -12,12 +13,14 @@ import { useTheme } from '@/contexts/ThemeContext';
 
 interface RatedBadgeProps {
   isRated: boolean;
+  isEdited?: boolean;
   size?: 'small' | 'medium';
   style?: ViewStyle;
 }
 
 export default function RatedBadge({
   isRated,
+  isEdited = false,
   size = 'medium',
   style,
 }: RatedBadgeProps) {
@@ -28,7 +31,7 @@ export default function RatedBadge({
 
   // Gold for unrated (needs attention), primary (teal) for rated
   const backgroundColor = isRated ? colors.primary : colors.accent;
-  const iconName = isRated ? 'check' : 'star';
+  const iconName = !isRated ? 'star' : isEdited ? 'pencil' : 'check';
 
   return (
     <View
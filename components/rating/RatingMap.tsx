@@ -75,6 +75,51 @@ interface RatingMapProps {
   onCameraIdle?: () => void; // Fires when camera stops moving (for screen point sync)
   disableInteraction?: boolean; // Disable map scrolling when painting
   onLongPress?: (coordinate: Coordinate) => void; // Native long press on map
+  highlightRanges?: { startIndex: number; endIndex: number }[]; // Outlined under the paint, e.g. edited stretches
+  suggestedSegments?: RouteSegment[]; // Ghosted over unpainted stretches until accepted
+}
+
+/**
+ * Build GeoJSON lines for highlighted index ranges of the route
+ */
+function buildHighlightFeatures(
+  route: Coordinate[],
+  ranges: { startIndex: number; endIndex: number }[]
+): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: ranges
+      .map((range) => route.slice(Math.max(0, range.startIndex - 1), range.endIndex + 2))
+      .filter((points) => points.length >= 2)
+      .map((points) => ({
+        type: 'Feature' as const,
+        properties: {},
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: points.map((c) => [c.longitude, c.latitude]),
+        },
+      })),
+  };
+}
+
+/**
+ * Build GeoJSON lines for suggested segments, coloured by feeling
+ */
+function buildSuggestionFeatures(route: Coordinate[], suggestions: RouteSegment[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: suggestions
+      .map((segment) => ({ segment, points: route.slice(segment.startIndex, segment.endIndex + 1) }))
+      .filter(({ points }) => points.length >= 2)
+      .map(({ segment, points }) => ({
+        type: 'Feature' as const,
+        properties: { color: getFeelingColor(segment.feeling) },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: points.map((c) => [c.longitude, c.latitude]),
+        },
+      })),
+  };
 }
 
 /**
@@ -238,7 +283,7 @@ function calculateBounds(
 }
 
 const RatingMap = forwardRef<RatingMapRef, RatingMapProps>(
-  ({ route: rawRoute, segments, previewSegment, pendingReportLocation, style, onMapReady, onCameraIdle, disableInteraction = false, onLongPress }, ref) => {
+  ({ route: rawRoute, segments, previewSegment, pendingReportLocation, style, onMapReady, onCameraIdle, disableInteraction = false, onLongPress, highlightRanges, suggestedSegments }, ref) => {
     const { isDark } = useTheme();
     const { selectedLayer } = useMapLayer(isDark);
     const mapRef = useRef<RNMapView>(null);
@@ -261,6 +306,8 @@ const RatingMap = forwardRef<RatingMapRef, RatingMapProps>(
     // Build GeoJSON data
     const segmentFeatures = buildSegmentFeatures(route, segments, previewSegment);
     const markerFeatures = buildMarkers(route);
+    const highlightFeatures = buildHighlightFeatures(route, highlightRanges ?? []);
+    const suggestionFeatures = buildSuggestionFeatures(route, suggestedSegments ?? []);
 
     // Calculate initial camera position
     const bounds = calculateBounds(route);
@@ -405,6 +452,22 @@ const RatingMap = forwardRef<RatingMapRef, RatingMapProps>(
             }}
           />
 
+          {/* Highlighted stretches, drawn as a halo under the paint */}
+          {highlightFeatures.features.length > 0 && (
+            <ShapeSource id="routeHighlights" shape={highlightFeatures}>
+              <LineLayer
+                id="routeHighlightsLine"
+                style={{
+                  lineColor: isDark ? '#FFFFFF' : '#111827',
+                  lineWidth: 14,
+                  lineCap: 'round',
+                  lineJoin: 'round',
+                  lineOpacity: 0.5,
+                }}
+              />
+            </ShapeSource>
+          )}
+
           {/* Route segments with different colors */}
           {segmentFeatures.features.length > 0 && (
             <ShapeSource id="routeSegments" shape={segmentFeatures}>
@@ -421,6 +484,22 @@ const RatingMap = forwardRef<RatingMapRef, RatingMapProps>(
             </ShapeSource>
           )}
 
+          {/* Suggested segments, dashed over the unpainted route */}
+          {suggestionFeatures.features.length > 0 && (
+            <ShapeSource id="routeSuggestions" shape={suggestionFeatures}>
+              <LineLayer
+                id="routeSuggestionsLine"
+                style={{
+                  lineColor: ['get', 'color'],
+                  lineWidth: 6,
+                  lineJoin: 'round',
+                  lineOpacity: 0.6,
+                  lineDasharray: [1.5, 1],
+                }}
+              />
+            </ShapeSource>
+          )}
+
           {/* Start/End markers */}
           {markerFeatures.features.length > 0 && (
             <ShapeSource id="markers" shape={markerFeatures}>
@@ -0,0 +1,159 @@
+/**
+ * SegmentTagSheet Component
+ *
+ * Shown after painting a stressed or uncomfortable segment: pick what made
+ * it feel that way and optionally leave a short note. Skipping keeps the
+ * segment without tags.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { TextInput, Button } from '@/components/ui';
+import { Spacing } from '@/constants/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  FEELINGS,
+  SEGMENT_NOTE_MAX_LENGTH,
+  SEGMENT_TAG_ORDER,
+  SEGMENT_TAGS,
+  type FeelingType,
+  type SegmentTag,
+} from '@/types/rating';
+
+interface SegmentTagSheetProps {
+  visible: boolean;
+  feeling: FeelingType | null;
+  onDone: (details: { tags: SegmentTag[]; note: string }) => void;
+  onSkip: () => void;
+}
+
+export default function SegmentTagSheet({ visible, feeling, onDone, onSkip }: SegmentTagSheetProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const [tags, setTags] = useState<SegmentTag[]>([]);
+  const [note, setNote] = useState('');
+
+  // Every painted segment starts from a blank sheet
+  useEffect(() => {
+    if (visible) {
+      setTags([]);
+      setNote('');
+    }
+  }, [visible]);
+
+  const toggleTag = (tag: SegmentTag) => {
+    setTags((current) => (current.includes(tag) ? current.filter((other) => other !== tag) : [...current, tag]));
+  };
+
+  const feelingColor = feeling ? FEELINGS[feeling].color : colors.primary;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onSkip}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {t('maps:segmentTags.title', {
+              feeling: feeling ? t(`maps:road_sections.ratings.${feeling}`).toLowerCase() : '',
+            })}
+          </Text>
+
+          <View style={styles.tagGrid}>
+            {SEGMENT_TAG_ORDER.map((tag) => {
+              const selected = tags.includes(tag);
+              return (
+                <TouchableOpacity
+                  key={tag}
+                  onPress={() => toggleTag(tag)}
+                  style={[
+                    styles.tag,
+                    { borderColor: selected ? feelingColor : colors.border },
+                    selected && { backgroundColor: feelingColor },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  activeOpacity={0.7}
+                >
+                  <MaterialCommunityIcons
+                    name={SEGMENT_TAGS[tag].icon as any}
+                    size={16}
+                    color={selected ? '#FFFFFF' : colors.text}
+                  />
+                  <Text style={[styles.tagText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                    {t(`maps:segmentTags.tags.${tag}`)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder={t('maps:segmentTags.notePlaceholder')}
+            maxLength={SEGMENT_NOTE_MAX_LENGTH}
+          />
+
+          <View style={styles.actions}>
+            <View style={styles.action}>
+              <Button title={t('maps:segmentTags.skip')} onPress={onSkip} variant="outline" size="medium" fullWidth />
+            </View>
+            <View style={styles.action}>
+              <Button
+                title={t('maps:segmentTags.done')}
+                onPress={() => onDone({ tags, note })}
+                variant="primary"
+                size="medium"
+                fullWidth
+              />
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    gap: Spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  tagGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  action: {
+    flex: 1,
+  },
+});
@@ -8,5 +8,6 @@ export { default as FeelingSelector } from './FeelingSelector';
 export { default as RatedBadge } from './RatedBadge';
 export { default as UnratedTripCard } from './UnratedTripCard';
 export { default as SegmentPainter } from './SegmentPainter';
+export { default as SegmentTagSheet } from './SegmentTagSheet';
 export { default as RatingMap } from './RatingMap';
 export type { RatingMapRef } from './RatingMap';
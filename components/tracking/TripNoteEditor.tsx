@@ -4,7 +4,7 @@ import { ThemedText } from '@/components/themed-text';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
 import { database } from '@/lib/database';
-import { syncService } from '@/lib/services/SyncService';
+import { outboxService } from '@/lib/services/OutboxService';
 import { Spacing } from '@/constants/theme';
 
 interface Props {
@@ -27,7 +27,7 @@ export function TripNoteEditor({ tripId, initialValue, onSaved }: Props) {
 
   async function handleSave() {
     await database.updateTrip(tripId, { user_note: value || null, user_note_dirty: 1 });
-    void syncService.patchTripFields(tripId).catch(() => {/* ok, will retry */});
+    void outboxService.submit('trip_patch', { tripId }).catch(() => {/* rejected by the server */});
     setIsEditing(false);
     onSaved();
   }
@@ -0,0 +1,185 @@
+import React from 'react';
+import { ActivityIndicator, Alert, View, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/themed-text';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useTranslation } from 'react-i18next';
+import { formatDate } from '@/lib/i18n/formatters';
+import { useRelabelSegment } from '@/lib/hooks/useTrips';
+import { formatDistance, formatDuration, formatSpeed } from '@/lib/utils/geoCalculations';
+import { segmentCo2Saved, totalsByMode } from '@/lib/utils/tripSegments';
+import type { TripModeSegment } from '@/lib/database/db';
+import { getTripTypeColor, getTripTypeIcon, getTripTypeName, type TripType } from '@/types/trip';
+import { Spacing } from '@/constants/theme';
+
+interface Props {
+  tripId: string;
+  segments: TripModeSegment[];
+  co2Saved: number; // the trip's, kg
+  onRelabel?: () => void;
+}
+
+const TRIP_TYPES: TripType[] = ['walk', 'run', 'cycle', 'drive'];
+
+function formatClock(timestamp: number): string {
+  return formatDate(new Date(timestamp), { hour: '2-digit', minute: '2-digit' });
+}
+
+export function TripSegmentTimeline({ tripId, segments, co2Saved, onRelabel }: Props) {
+  const { colors } = useTheme();
+  const { unitSystem } = useUnits();
+  const { t } = useTranslation('maps');
+  const relabel = useRelabelSegment();
+
+  const totalDuration = segments.reduce((sum, seg) => sum + seg.duration, 0);
+  const modes = totalsByMode(segments, co2Saved);
+  const segmentCo2 = segmentCo2Saved(segments, co2Saved);
+
+  function handleRelabel(segment: TripModeSegment) {
+    if (segment.id == null) return;
+    const segmentId = segment.id;
+
+    Alert.alert(
+      t('trip_detail.segment_relabel_title'),
+      t('trip_detail.segment_relabel_message', {
+        start: formatClock(segment.t_start),
+        end: formatClock(segment.t_end),
+      }),
+      [
+        ...TRIP_TYPES.filter((type) => type !== segment.type).map((type) => ({
+          text: getTripTypeName(type),
+          onPress: () => {
+            relabel.mutate(
+              { tripId, segmentId, type },
+              {
+                onSuccess: () => onRelabel?.(),
+                onError: (error) => {
+                  Alert.alert(
+                    t('trip_detail.segment_relabel_failed'),
+                    error instanceof Error ? error.message : undefined
+                  );
+                },
+              }
+            );
+          },
+        })),
+        { text: t('trip_detail.notes_cancel'), style: 'cancel' as const },
+      ]
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Proportional bar, one block per segment */}
+      <View style={[styles.bar, { backgroundColor: colors.border }]}>
+        {segments.map((seg) => (
+          <View
+            key={seg.id ?? seg.seq}
+            style={{
+              flex: totalDuration > 0 ? seg.duration / totalDuration : 1,
+              backgroundColor: getTripTypeColor(seg.type),
+            }}
+          />
+        ))}
+      </View>
+
+      {/* Per-mode totals */}
+      <View style={styles.modes}>
+        {modes.map((mode) => (
+          <View key={mode.type} style={styles.mode}>
+            <View style={[styles.dot, { backgroundColor: getTripTypeColor(mode.type) }]} />
+            <ThemedText style={styles.modeText}>
+              {getTripTypeName(mode.type)} · {formatDistance(mode.distance, unitSystem)}
+            </ThemedText>
+            {mode.co2Saved > 0 && (
+              <ThemedText style={[styles.modeText, { color: colors.textSecondary }]}>
+                {' · '}{t('trip_detail.co2_saved', { kg: mode.co2Saved.toFixed(2) })}
+              </ThemedText>
+            )}
+          </View>
+        ))}
+      </View>
+
+      <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+        {t('trip_detail.segments_hint')}
+      </ThemedText>
+
+      {/* Timeline */}
+      {segments.map((seg, index) => {
+        const color = getTripTypeColor(seg.type);
+        const co2 = segmentCo2[index];
+        return (
+          <TouchableOpacity
+            key={seg.id ?? seg.seq}
+            style={styles.row}
+            onPress={() => handleRelabel(seg)}
+            disabled={relabel.isPending}
+            activeOpacity={0.7}
+          >
+            <View style={styles.rail}>
+              <View style={[styles.icon, { backgroundColor: color + '25' }]}>
+                <MaterialCommunityIcons name={getTripTypeIcon(seg.type) as any} size={18} color={color} />
+              </View>
+              {index < segments.length - 1 && <View style={[styles.line, { backgroundColor: colors.border }]} />}
+            </View>
+            <View style={styles.rowBody}>
+              <View style={styles.rowHeader}>
+                <ThemedText style={[styles.rowTitle, { color }]}>{getTripTypeName(seg.type)}</ThemedText>
+                {seg.type !== seg.detected_type && (
+                  <ThemedText style={[styles.edited, { color: colors.textSecondary }]}>
+                    {t('trip_detail.segment_edited')}
+                  </ThemedText>
+                )}
+                <ThemedText style={[styles.rowTime, { color: colors.textSecondary }]}>
+                  {formatClock(seg.t_start)} – {formatClock(seg.t_end)}
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.rowStats, { color: colors.textSecondary }]}>
+                {formatDistance(seg.distance, unitSystem)} · {formatDuration(seg.duration)} ·{' '}
+                {formatSpeed(seg.avg_speed / 3.6, unitSystem)}
+                {co2 > 0 ? ` · ${t('trip_detail.co2_saved', { kg: co2.toFixed(2) })}` : ''}
+              </ThemedText>
+            </View>
+            {relabel.isPending && relabel.variables?.segmentId === seg.id ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <MaterialCommunityIcons name="pencil-outline" size={16} color={colors.textSecondary} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { paddingVertical: Spacing.sm, gap: Spacing.sm },
+  bar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  modes: { flexDirection: 'row', flexWrap: 'wrap', columnGap: Spacing.md, rowGap: 4 },
+  mode: { flexDirection: 'row', alignItems: 'center' },
+  dot: { width: 8, height: 8, borderRadius: 4, marginRight: 6 },
+  modeText: { fontSize: 13 },
+  hint: { fontSize: 12 },
+  row: { flexDirection: 'row', alignItems: 'flex-start', gap: Spacing.sm },
+  rail: { alignItems: 'center', alignSelf: 'stretch' },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  line: { flex: 1, width: 2, marginVertical: 2, minHeight: 8 },
+  rowBody: { flex: 1, paddingBottom: Spacing.sm, gap: 2 },
+  rowHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  rowTitle: { fontSize: 15, fontWeight: '600' },
+  edited: { fontSize: 11, fontStyle: 'italic' },
+  rowTime: { marginLeft: 'auto', fontSize: 12 },
+  rowStats: { fontSize: 13 },
+});
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, View, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/themed-text';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from 'react-i18next';
+import { formatDate } from '@/lib/i18n/formatters';
+import { useSplitTrip } from '@/lib/hooks/useTrips';
+import { Spacing } from '@/constants/theme';
+
+export interface SplitRoutePoint {
+  latitude: number;
+  longitude: number;
+  timestamp?: string | number;
+}
+
+interface Props {
+  tripId: string;
+  route: SplitRoutePoint[];
+  /** Index into `route` of the chosen split point, or null when not editing */
+  splitIndex: number | null;
+  onChangeSplitIndex: (index: number | null) => void;
+  onSplit: () => void;
+}
+
+// Each half of a split trip keeps at least this many points
+const MIN_POINTS_PER_PART = 2;
+
+function pointTime(point: SplitRoutePoint): number {
+  return typeof point.timestamp === 'number' ? point.timestamp : Date.parse(point.timestamp ?? '');
+}
+
+export function TripSplitEditor({ tripId, route, splitIndex, onChangeSplitIndex, onSplit }: Props) {
+  const { colors } = useTheme();
+  const { t } = useTranslation('maps');
+  const splitTrip = useSplitTrip();
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  // Points that leave enough of the track on both sides and carry a usable timestamp
+  const candidates = useMemo(
+    () =>
+      route
+        .map((point, index) => ({ index, time: pointTime(point) }))
+        .filter(({ index, time }) =>
+          !isNaN(time) &&
+          index >= MIN_POINTS_PER_PART - 1 &&
+          index < route.length - MIN_POINTS_PER_PART
+        ),
+    [route]
+  );
+
+  if (candidates.length === 0) return null;
+
+  const position = splitIndex == null ? -1 : candidates.findIndex((c) => c.index === splitIndex);
+  const current = position >= 0 ? candidates[position] : null;
+  // Roughly 50 taps from start to finish, whatever the track length
+  const step = Math.max(1, Math.round(candidates.length / 50));
+
+  function move(delta: number) {
+    const next = Math.min(candidates.length - 1, Math.max(0, position + delta));
+    onChangeSplitIndex(candidates[next].index);
+  }
+
+  function handleSplit() {
+    if (!current) return;
+    const time = formatDate(new Date(current.time), { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    Alert.alert(
+      t('trip_detail.split_confirm_title'),
+      t('trip_detail.split_confirm_message', { time }),
+      [
+        { text: t('trip_detail.notes_cancel'), style: 'cancel' },
+        {
+          text: t('trip_detail.split_confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            setIsSplitting(true);
+            try {
+              await splitTrip.mutateAsync({ tripId, timestamp: current.time });
+              onChangeSplitIndex(null);
+              onSplit();
+            } catch (error) {
+              Alert.alert(
+                t('trip_detail.split_failed'),
+                error instanceof Error ? error.message : undefined
+              );
+            } finally {
+              setIsSplitting(false);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  if (!current) {
+    return (
+      <TouchableOpacity
+        onPress={() => onChangeSplitIndex(candidates[Math.floor(candidates.length / 2)].index)}
+        activeOpacity={0.7}
+        style={styles.startRow}
+      >
+        <MaterialCommunityIcons name="call-split" size={18} color={colors.primary} />
+        <ThemedText style={[styles.startText, { color: colors.primary }]}>
+          {t('trip_detail.split_button')}
+        </ThemedText>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+        {t('trip_detail.split_hint')}
+      </ThemedText>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={() => move(-step)}
+          disabled={position === 0 || isSplitting}
+          style={[styles.stepBtn, { borderColor: colors.border }]}
+        >
+          <MaterialCommunityIcons name="chevron-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.splitTime}>
+          {t('trip_detail.split_at', {
+            time: formatDate(new Date(current.time), { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+          })}
+        </ThemedText>
+        <TouchableOpacity
+          onPress={() => move(step)}
+          disabled={position === candidates.length - 1 || isSplitting}
+          style={[styles.stepBtn, { borderColor: colors.border }]}
+        >
+          <MaterialCommunityIcons name="chevron-right" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          onPress={() => onChangeSplitIndex(null)}
+          disabled={isSplitting}
+          style={[styles.btn, { borderColor: colors.border }]}
+        >
+          <ThemedText style={{ color: colors.textSecondary }}>{t('trip_detail.notes_cancel')}</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleSplit}
+          disabled={isSplitting}
+          style={[styles.btn, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+        >
+          {isSplitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <ThemedText style={{ color: '#fff', fontWeight: '600' }}>{t('trip_detail.split_confirm')}</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { paddingVertical: Spacing.sm, gap: Spacing.sm },
+  startRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: Spacing.sm,
+  },
+  startText: { fontSize: 14, fontWeight: '600' },
+  hint: { fontSize: 13, lineHeight: 18 },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+  },
+  stepBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  splitTime: { flex: 1, textAlign: 'center', fontSize: 15, fontWeight: '600' },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  btn: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+});
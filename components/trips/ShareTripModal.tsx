@@ -17,6 +17,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { Spacing } from '@/constants/theme';
 import { useMyClubs } from '@/lib/hooks/useClubs';
 import { tripAPI, type TripShareResult } from '@/lib/api/trips';
+import { privacyZoneService } from '@/lib/services/PrivacyZoneService';
 import { XMarkIcon, CheckIcon, CheckCircleIcon } from 'react-native-heroicons/outline';
 import type { Club } from '@/types/feed';
 
@@ -85,6 +86,8 @@ export function ShareTripModal({
 
     setIsSharing(true);
     try {
+      // Trim the stored route to the rider's privacy zones before clubs can see it
+      await privacyZoneService.scrubSharedTrip(tripId);
       const { results } = await tripAPI.shareTrip(
         tripId,
         Array.from(selectedClubIds),
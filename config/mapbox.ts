@@ -4,6 +4,7 @@
 
 import Mapbox from '@rnmapbox/maps';
 import Constants from 'expo-constants';
+import type { MapLayer } from '@/lib/hooks/useMapLayer';
 
 /**
  * Initialize Mapbox with access token
@@ -65,6 +66,17 @@ export const MapStyles = {
   NAVIGATION_NIGHT: 'mapbox://styles/mapbox/navigation-night-v1',
 } as const;
 
+/**
+ * Style used for each layer in the map layer selector
+ */
+export const MapLayerStyles: Record<MapLayer, string> = {
+  light: MapStyles.LIGHT,
+  dark: MapStyles.DARK,
+  streets: MapStyles.STREETS,
+  outdoors: MapStyles.OUTDOORS,
+  satellite: MapStyles.SATELLITE_STREETS,
+};
+
 /**
  * Default camera settings
  */
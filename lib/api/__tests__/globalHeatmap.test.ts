@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { globalHeatmapApi, type GlobalHeatmapTile } from '../globalHeatmap';
+import { apiClient } from '../client';
+
+jest.mock('../client', () => ({
+  ...jest.requireActual('../client'),
+  apiClient: {
+    get: jest.fn(),
+  },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    multiRemove: jest.fn(async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    }),
+    clear: () => store.clear(),
+  };
+});
+
+const TILE = { z: 12, x: 2046, y: 1362 };
+
+const response: GlobalHeatmapTile = {
+  ...TILE,
+  cells: [{ lat: 51.50025, lng: -0.12375, trips: 14 }],
+  generated_at: '2026-05-12T03:00:00Z',
+};
+
+describe('globalHeatmapApi.getTile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage as unknown as { clear: () => void }).clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('requests the tile with its filters', async () => {
+    (apiClient.get as jest.Mock).mockResolvedValue(response);
+
+    const tile = await globalHeatmapApi.getTile(TILE, { trip_type: 'cycle', time_of_day: 'morning' });
+
+    expect(apiClient.get).toHaveBeenCalledWith('/api/heatmap/tiles/12/2046/1362/?trip_type=cycle&time_of_day=morning');
+    expect(tile).toEqual({ ...response, stale: false });
+  });
+
+  it('serves the cached tile when the backend is unreachable', async () => {
+    (apiClient.get as jest.Mock).mockResolvedValueOnce(response);
+    await globalHeatmapApi.getTile(TILE, { trip_type: 'walk' });
+
+    (apiClient.get as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    const tile = await globalHeatmapApi.getTile(TILE, { trip_type: 'walk' });
+
+    expect(tile).toEqual({ ...response, stale: true });
+  });
+
+  it('does not mix up cached tiles for different filters', async () => {
+    (apiClient.get as jest.Mock).mockResolvedValueOnce(response);
+    await globalHeatmapApi.getTile(TILE, { trip_type: 'walk' });
+
+    (apiClient.get as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    await expect(globalHeatmapApi.getTile(TILE, { trip_type: 'cycle' })).rejects.toThrow('Network error');
+  });
+
+  it('does not hide client errors behind the cache', async () => {
+    (apiClient.get as jest.Mock).mockResolvedValueOnce(response);
+    await globalHeatmapApi.getTile(TILE);
+
+    (apiClient.get as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('Bad request'), { status: 400 }));
+    await expect(globalHeatmapApi.getTile(TILE)).rejects.toThrow('Bad request');
+  });
+});
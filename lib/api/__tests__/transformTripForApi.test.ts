@@ -63,4 +63,40 @@ describe('transformTripForApi', () => {
     const trip = { ...baseTripDb, classification_source: null, engine: 'native' };
     expect(() => transformTripForApi(trip as any)).toThrow('no classification_source');
   });
+
+  it('leaves route points inside privacy zones out of the upload', () => {
+    // One point every 100 m heading north, 20 s apart
+    const route = Array.from({ length: 8 }, (_, i) => ({
+      lat: 51 + (i * 100) / 111_195,
+      lng: 0,
+      timestamp: new Date(1000000 + i * 20_000).toISOString(),
+    }));
+    const trip = { ...baseTripDb, route_data: JSON.stringify(route) };
+    const home = { id: 'home', name: 'Home', latitude: 51, longitude: 0, radius: 250 };
+
+    expect(transformTripForApi(trip).route).toHaveLength(8);
+    expect(transformTripForApi(trip, [home]).route?.map(p => p.lat)).toEqual(route.slice(3).map(p => p.lat));
+  });
+
+  it('sends segments only for multi-modal trips', () => {
+    const segment = (seq: number, type: 'walk' | 'cycle', distance: number) => ({
+      trip_id: 'trip_1',
+      seq,
+      type,
+      detected_type: type,
+      t_start: 1000000 + seq * 1800,
+      t_end: 1001800 + seq * 1800,
+      distance,
+      duration: 1.8,
+      avg_speed: 10,
+      max_speed: 20,
+      confidence: 90,
+    });
+
+    expect(transformTripForApi(baseTripDb, [], [segment(0, 'cycle', 10000)]).segments).toBeUndefined();
+    expect(transformTripForApi(baseTripDb, [], [segment(0, 'walk', 1500), segment(1, 'cycle', 8500)]).segments).toEqual([
+      { type: 'walk', start_timestamp: new Date(1000000).toISOString(), end_timestamp: new Date(1001800).toISOString(), distance: 1.5 },
+      { type: 'cycle', start_timestamp: new Date(1001800).toISOString(), end_timestamp: new Date(1003600).toISOString(), distance: 8.5 },
+    ]);
+  });
 });
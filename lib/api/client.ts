@@ -17,6 +17,23 @@ interface RequestConfig extends RequestInit {
  */
 type UnauthorizedListener = () => void;
 
+/**
+ * HTTP status attached to errors thrown for non-2xx responses.
+ * Undefined for network failures and timeouts, where no response arrived.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * True for errors thrown when no response arrived: offline, unreachable
+ * server or a timed out request.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return (error as { network?: unknown } | null)?.network === true;
+}
+
 class ApiClient {
   private baseURL: string;
   private onUnauthorized: UnauthorizedListener | null = null;
@@ -151,7 +168,7 @@ class ApiClient {
           errorMessage = response.statusText || errorMessage;
         }
 
-        throw new Error(errorMessage);
+        throw Object.assign(new Error(errorMessage), { status: response.status });
       }
 
       // Handle empty responses
@@ -164,11 +181,15 @@ class ApiClient {
     } catch (error) {
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timed out. Please check your connection and try again.');
+          throw Object.assign(new Error('Request timed out. Please check your connection and try again.'), {
+            network: true,
+          });
         }
         // Check if it's a network error
         if (error.message.includes('Network request failed') || error.message.includes('fetch')) {
-          throw new Error('Network error: Unable to reach the server. Please check your connection.');
+          throw Object.assign(new Error('Network error: Unable to reach the server. Please check your connection.'), {
+            network: true,
+          });
         }
         throw error;
       }
@@ -285,7 +306,7 @@ class ApiClient {
         } catch (e) {
           errorMessage = response.statusText || errorMessage;
         }
-        throw new Error(errorMessage);
+        throw Object.assign(new Error(errorMessage), { status: response.status });
       }
 
       const contentType = response.headers.get('content-type');
@@ -297,10 +318,14 @@ class ApiClient {
     } catch (error) {
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timed out. Please check your connection and try again.');
+          throw Object.assign(new Error('Request timed out. Please check your connection and try again.'), {
+            network: true,
+          });
         }
         if (error.message.includes('Network request failed') || error.message.includes('fetch')) {
-          throw new Error('Network error: Unable to reach the server. Please check your connection.');
+          throw Object.assign(new Error('Network error: Unable to reach the server. Please check your connection.'), {
+            network: true,
+          });
         }
         throw error;
       }
@@ -0,0 +1,40 @@
+import { apiClient } from './client';
+
+/**
+ * A rider's answer to "is this hazard still there?"
+ */
+export type FeedbackVoteKind = 'still_there' | 'fixed';
+
+/**
+ * A vote on a global feedback item. Votes feed the item's signal strength;
+ * enough "fixed" votes (or no "still there" votes for long enough) retire it.
+ */
+export interface FeedbackVote {
+  id: number;
+  feedback: number;
+  vote: FeedbackVoteKind;
+  created_at: string;
+}
+
+/**
+ * API client for confirming or resolving community feedback
+ */
+class FeedbackVotesApi {
+  /**
+   * The current user's votes, newest first
+   */
+  async getMyVotes(): Promise<FeedbackVote[]> {
+    return await apiClient.get<FeedbackVote[]>('/api/global-feedback/votes/');
+  }
+
+  /**
+   * Confirm an item is still there, or report it fixed
+   * @param feedbackId - Global feedback id
+   * @param vote - The rider's answer
+   */
+  async vote(feedbackId: number, vote: FeedbackVoteKind): Promise<FeedbackVote> {
+    return await apiClient.post<FeedbackVote>(`/api/global-feedback/${feedbackId}/votes/`, { vote });
+  }
+}
+
+export const feedbackVotesApi = new FeedbackVotesApi();
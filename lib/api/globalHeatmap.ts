@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient, getErrorStatus } from './client';
+import { tileKey, type MapTile } from '../utils/mapTiles';
+
+/**
+ * Trip types the community heatmap is aggregated for
+ */
+export type GlobalHeatmapTripType = 'walk' | 'cycle';
+
+/**
+ * Time-of-day buckets in the rider's local time:
+ * morning 06-10, daytime 10-16, evening 16-20, night 20-06
+ */
+export type HeatmapTimeOfDay = 'morning' | 'daytime' | 'evening' | 'night';
+
+/**
+ * Query parameters for the global heatmap tile endpoint
+ */
+export interface GlobalHeatmapParams {
+  trip_type?: GlobalHeatmapTripType;
+  time_of_day?: HeatmapTimeOfDay;
+}
+
+/**
+ * One grid cell of the community heatmap
+ */
+export interface GlobalHeatmapCell {
+  lat: number; // Cell centre
+  lng: number;
+  trips: number; // Distinct trips through the cell
+}
+
+/**
+ * Global heatmap tile from backend (aggregated community trips)
+ */
+export interface GlobalHeatmapTile {
+  z: number;
+  x: number;
+  y: number;
+  cells: GlobalHeatmapCell[];
+  generated_at: string;
+}
+
+/**
+ * Tile returned by the API module; `stale` when served from the device cache
+ * because the backend could not be reached
+ */
+export interface GlobalHeatmapTileResult extends GlobalHeatmapTile {
+  stale: boolean;
+}
+
+const CACHE_KEY_PREFIX = '@radzi_global_heatmap:';
+const CACHE_INDEX_KEY = '@radzi_global_heatmap_index';
+// Most recently fetched tiles kept for offline use
+const MAX_CACHED_TILES = 60;
+
+function cacheKey(tile: MapTile, params: GlobalHeatmapParams): string {
+  return `${CACHE_KEY_PREFIX}${tileKey(tile)}:${params.trip_type ?? 'all'}:${params.time_of_day ?? 'all'}`;
+}
+
+/**
+ * API client for the community heatmap
+ */
+class GlobalHeatmapApi {
+  /**
+   * Get one heatmap tile. Falls back to the last cached copy when offline
+   * or when the backend fails.
+   * @param tile - Web-mercator tile to fetch
+   * @param params - Trip type and time-of-day filters
+   */
+  async getTile(tile: MapTile, params: GlobalHeatmapParams = {}): Promise<GlobalHeatmapTileResult> {
+    const queryParams = new URLSearchParams();
+
+    if (params.trip_type) {
+      queryParams.append('trip_type', params.trip_type);
+    }
+
+    if (params.time_of_day) {
+      queryParams.append('time_of_day', params.time_of_day);
+    }
+
+    const query = queryParams.toString();
+    const endpoint = `/api/heatmap/tiles/${tile.z}/${tile.x}/${tile.y}/${query ? `?${query}` : ''}`;
+
+    try {
+      const result = await apiClient.get<GlobalHeatmapTile>(endpoint);
+      await this.cacheTile(cacheKey(tile, params), result);
+      return { ...result, stale: false };
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status === undefined || status >= 500) {
+        const cached = await this.getCachedTile(cacheKey(tile, params));
+        if (cached) {
+          console.warn(`[GlobalHeatmapApi] Using cached tile ${tileKey(tile)}:`, error);
+          return { ...cached, stale: true };
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cache a tile to AsyncStorage, dropping the oldest beyond MAX_CACHED_TILES
+   */
+  private async cacheTile(key: string, tile: GlobalHeatmapTile): Promise<void> {
+    try {
+      const rawIndex = await AsyncStorage.getItem(CACHE_INDEX_KEY);
+      const index: string[] = rawIndex ? JSON.parse(rawIndex) : [];
+      const next = [key, ...index.filter((k) => k !== key)];
+      const evicted = next.splice(MAX_CACHED_TILES);
+
+      await AsyncStorage.setItem(key, JSON.stringify(tile));
+      await AsyncStorage.setItem(CACHE_INDEX_KEY, JSON.stringify(next));
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted);
+      }
+    } catch (error) {
+      console.error('[GlobalHeatmapApi] Error caching tile:', error);
+    }
+  }
+
+  private async getCachedTile(key: string): Promise<GlobalHeatmapTile | null> {
+    try {
+      const cached = await AsyncStorage.getItem(key);
+      return cached ? (JSON.parse(cached) as GlobalHeatmapTile) : null;
+    } catch (error) {
+      console.error('[GlobalHeatmapApi] Error reading cached tile:', error);
+      return null;
+    }
+  }
+}
+
+export const globalHeatmapApi = new GlobalHeatmapApi();
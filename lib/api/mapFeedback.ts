@@ -37,6 +37,8 @@ export interface MapFeedback {
   coordinates: GeoJSONGeometry;
   title: string;
   description: string;
+  /** URLs of attached photos */
+  photos?: string[];
   created_at: string;
 }
 
@@ -49,14 +51,21 @@ export interface CreateMapFeedbackRequest {
   coordinates: GeoJSONGeometry;
   title: string;
   description: string;
+  /** Photos as base64 data URIs */
+  photos?: string[];
 }
 
 /**
  * Request payload for updating map feedback
  */
 export interface UpdateMapFeedbackRequest {
+  type?: MapFeedbackType;
+  category?: MapFeedbackCategory;
+  coordinates?: GeoJSONGeometry;
   title?: string;
   description?: string;
+  /** Photos to keep: URLs of existing photos and base64 data URIs of new ones */
+  photos?: string[];
 }
 
 /**
@@ -3,7 +3,7 @@
  */
 
 import { apiClient } from './client';
-import type { FeelingType } from '@/types/rating';
+import type { FeelingType, SegmentTag } from '@/types/rating';
 
 /**
  * Backend feeling values - capitalized strings or numeric 1-4
@@ -28,7 +28,13 @@ export interface ApiRatedSegment {
   start_lng: number;
   end_lat: number;
   end_lng: number;
+  /** The painted stretch of route, simplified, or the junction for point ratings; [lng, lat] */
+  geometry: { type: 'LineString'; coordinates: [number, number][] } | { type: 'Point'; coordinates: [number, number] };
+  /** Known road sections the stretch rode along (or that meet at the junction); empty when none matched on device */
+  road_section_ids: string[];
   feeling: BackendFeelingType;
+  tags?: SegmentTag[];
+  note?: string;
 }
 
 /**
@@ -40,6 +46,7 @@ export interface SubmitRatingsRequest {
   client_trip_id: string;
   rated_at?: string; // ISO 8601 timestamp
   rated_segments: ApiRatedSegment[];
+  version?: number; // Supersedes lower versions for the same client_trip_id
 }
 
 /**
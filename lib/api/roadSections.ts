@@ -1,5 +1,6 @@
 import { apiClient } from './client';
 import type { GeoJSONLineString } from './mapFeedback';
+import type { SegmentTag } from '@/types/rating';
 
 /**
  * Personal road section rating from backend
@@ -8,6 +9,7 @@ export interface RoadSectionPersonal {
   section_id: string;
   geometry: GeoJSONLineString;
   rating: number; // 1=Stressed, 2=Uncomfortable, 3=Comfortable, 4=Enjoyable
+  tags?: SegmentTag[]; // From the user's latest stressed/uncomfortable rating
 }
 
 /**
@@ -18,6 +20,7 @@ export interface RoadSectionCommunity {
   geometry: GeoJSONLineString;
   community_score: number; // Weighted average 1-4
   rating_count: number;
+  tag_counts?: Partial<Record<SegmentTag, number>>; // Ratings giving each reason
 }
 
 /**
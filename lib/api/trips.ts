@@ -4,7 +4,9 @@
 
 import { apiClient } from './client';
 import type { TripType, TripStatus } from '@/types/trip';
+import type { Trip as LocalTrip, TripModeSegment } from '@/lib/database/db';
 import { RouteFilter } from '@/lib/services/RouteFilter';
+import { trimRouteToPrivacyZones, type PrivacyZone } from '@/lib/utils/privacyZones';
 
 /**
  * Per-club result returned by POST /api/trips/{id}/share/.
@@ -27,6 +29,17 @@ export interface ApiTripRoute {
   accuracy?: number; // metres — horizontal accuracy of the GPS fix, when known
 }
 
+/**
+ * One mode of a multi-modal trip. The backend credits CO2 and leaderboard
+ * distance per segment instead of by the trip's dominant type.
+ */
+export interface ApiTripSegment {
+  type: TripType;
+  start_timestamp: string; // ISO 8601
+  end_timestamp: string; // ISO 8601
+  distance: number; // km
+}
+
 export interface ApiTripCreate {
   client_id: string;
   start_timestamp: string; // ISO 8601
@@ -39,6 +52,7 @@ export interface ApiTripCreate {
   classification_source: 'apple_motion' | 'android_motion' | 'manual' | 'speed';
   user_note?: string;
   elevation_loss?: number;
+  segments?: ApiTripSegment[]; // only for trips with more than one segment
 }
 
 export interface ApiTrip {
@@ -69,6 +83,7 @@ export interface ApiTrip {
   elevation_loss?: number;
   classification_source: 'apple_motion' | 'android_motion' | 'manual' | 'speed';
   auto_reclassified_from?: string | null;
+  segments?: ApiTripSegment[];
 }
 
 export interface TripFilters {
@@ -78,6 +93,16 @@ export interface TripFilters {
   end_date?: string; // YYYY-MM-DD
 }
 
+/**
+ * One page of GET /api/trips/?page=N
+ */
+export interface PaginatedTrips {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: ApiTrip[];
+}
+
 export interface SyncResult {
   success: boolean;
   synced: ApiTrip[];
@@ -132,9 +157,27 @@ export interface DBTrip {
 }
 
 /**
- * Transform frontend DB trip to backend API format
+ * Transform a stored trip segment to the backend format
+ */
+export function transformSegmentForApi(segment: TripModeSegment): ApiTripSegment {
+  return {
+    type: segment.type,
+    start_timestamp: new Date(segment.t_start).toISOString(),
+    end_timestamp: new Date(segment.t_end).toISOString(),
+    distance: segment.distance / 1000,
+  };
+}
+
+/**
+ * Transform frontend DB trip to backend API format.
+ * Route points inside any of `privacyZones` are left out of the upload.
+ * `segments` are sent when the trip has more than one.
  */
-export function transformTripForApi(dbTrip: DBTrip): ApiTripCreate {
+export function transformTripForApi(
+  dbTrip: DBTrip,
+  privacyZones: readonly PrivacyZone[] = [],
+  segments: readonly TripModeSegment[] = []
+): ApiTripCreate {
   // Guard: native engine trips must have a classification_source
   if (!dbTrip.classification_source && dbTrip.engine === 'native') {
     throw new Error(`Trip ${dbTrip.id} has native engine but no classification_source`);
@@ -193,7 +236,7 @@ export function transformTripForApi(dbTrip: DBTrip): ApiTripCreate {
             activity
           );
 
-          route = filteredCoords.map(coord => ({
+          route = trimRouteToPrivacyZones(filteredCoords, privacyZones).map(coord => ({
             lat: coord.lat,
             lng: coord.lng,
             timestamp: coord.timestamp,
@@ -233,13 +276,54 @@ export function transformTripForApi(dbTrip: DBTrip): ApiTripCreate {
     classification_source: (dbTrip.classification_source as ApiTripCreate['classification_source']) ?? 'speed',
     user_note: dbTrip.user_note ?? undefined,
     elevation_loss: dbTrip.elevation_loss_m ?? undefined,
+    ...(segments.length > 1 ? { segments: segments.map(transformSegmentForApi) } : {}),
   };
 
-  console.log(`[TripAPI] Transformed trip ${dbTrip.id}: type=${dbTrip.type}, source=${dbTrip.classification_source}, route=${route?.length ?? 0} pts`);
+  console.log(`[TripAPI] Transformed trip ${dbTrip.id}: type=${dbTrip.type}, source=${dbTrip.classification_source}, route=${route?.length ?? 0} pts, segments=${segments.length}`);
 
   return apiTrip;
 }
 
+/**
+ * Transform a backend trip into the local SQLite row shape.
+ * Server-computed stats (distance, speeds, CO2) are taken as authoritative.
+ */
+export function transformApiTripToLocal(apiTrip: ApiTrip): LocalTrip {
+  return {
+    id: apiTrip.client_id,
+    user_id: apiTrip.user.toString(),
+    type: apiTrip.type,
+    status: apiTrip.status,
+    is_manual: apiTrip.is_manual ? 1 : 0,
+    start_time: new Date(apiTrip.start_timestamp).getTime(),
+    end_time: new Date(apiTrip.end_timestamp).getTime(),
+    distance: apiTrip.distance * 1000, // Convert km to meters
+    duration: apiTrip.duration,
+    avg_speed: apiTrip.average_speed,
+    max_speed: apiTrip.max_speed ?? 0,
+    elevation_gain: apiTrip.elevation_gain || 0,
+    calories: 0, // Not available from backend
+    co2_saved: apiTrip.co2_saved,
+    notes: apiTrip.notes || null,
+    route_data: apiTrip.route ? JSON.stringify(apiTrip.route) : null,
+    created_at: new Date(apiTrip.created_at).getTime(),
+    updated_at: new Date(apiTrip.updated_at).getTime(),
+    synced: 1,
+    backend_id: apiTrip.id,
+    ml_activity_type: null,
+    ml_confidence: null,
+    classification_method: 'speed',
+    user_note: apiTrip.user_note ?? null,
+    validation_log: apiTrip.validation_log ?? null,
+    classification_source: apiTrip.classification_source ?? null,
+    moving_duration_s: apiTrip.moving_duration ?? null,
+    moving_avg_speed_kmh: apiTrip.moving_avg_speed ?? null,
+    elevation_loss_m: apiTrip.elevation_loss ?? null,
+    backend_avg_speed_kmh: apiTrip.average_speed,
+    is_valid: apiTrip.is_valid === false ? 0 : 1,
+  };
+}
+
 /**
  * Trip API service
  */
@@ -324,9 +408,16 @@ class TripAPI {
   }
 
   /**
-   * Get list of trips from backend
+   * Get list of trips from backend.
+   * With a page, returns that page of the list instead; older backends
+   * return a plain array, which is treated as a single page.
    */
-  async getTrips(filters?: TripFilters): Promise<ApiTrip[]> {
+  async getTrips(filters?: TripFilters): Promise<ApiTrip[]>;
+  async getTrips(filters: TripFilters | undefined, page: { page: number; pageSize: number }): Promise<PaginatedTrips>;
+  async getTrips(
+    filters?: TripFilters,
+    page?: { page: number; pageSize: number }
+  ): Promise<ApiTrip[] | PaginatedTrips> {
     try {
       const params = new URLSearchParams();
 
@@ -342,11 +433,22 @@ class TripAPI {
       if (filters?.end_date) {
         params.append('end_date', filters.end_date);
       }
+      if (page) {
+        params.append('page', page.page.toString());
+        params.append('page_size', page.pageSize.toString());
+      }
 
       const queryString = params.toString();
       const endpoint = queryString ? `/api/trips/?${queryString}` : '/api/trips/';
 
-      return await apiClient.get<ApiTrip[]>(endpoint);
+      if (!page) {
+        return await apiClient.get<ApiTrip[]>(endpoint);
+      }
+      const response = await apiClient.get<PaginatedTrips | ApiTrip[]>(endpoint);
+      if (Array.isArray(response)) {
+        return { count: response.length, next: null, previous: null, results: response };
+      }
+      return response;
     } catch (error) {
       // Session-expired errors are handled by the auth flow; don't show red LogBox
       if (error instanceof Error && error.message.includes('Session expired')) {
@@ -0,0 +1,244 @@
+import { openDatabaseSync } from 'expo-sqlite';
+import { DB_VERSION, runMigrationsUpTo } from '../schema';
+import { BackupTooNewError, createBackup, parseBackup, restoreBackup, type DatabaseBackup } from '../backup';
+
+async function freshDb(version = DB_VERSION) {
+  const db = openDatabaseSync(':memory:');
+  await runMigrationsUpTo(db, version);
+  await db.execAsync(`PRAGMA user_version = ${version}`);
+  return db;
+}
+
+function insertTrip(db: ReturnType<typeof openDatabaseSync>, id: string, backendId: number | null, notes: string | null = null) {
+  db.runSync(
+    `INSERT INTO trips (id, user_id, type, status, start_time, created_at, updated_at, backend_id, notes)
+     VALUES (?, 'u1', 'cycle', 'completed', 1000, 1000, 1000, ?, ?)`,
+    id, backendId, notes
+  );
+}
+
+function insertLocation(db: ReturnType<typeof openDatabaseSync>, tripId: string, timestamp: number) {
+  db.runSync(
+    `INSERT INTO locations (trip_id, latitude, longitude, timestamp) VALUES (?, 51, 0, ?)`,
+    tripId, timestamp
+  );
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createBackup', () => {
+  it('captures the schema version and every backed-up table', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'trip_1', null);
+    insertLocation(db, 'trip_1', 1000);
+    db.runSync(`INSERT INTO trip_altitude_samples (trip_id, timestamp, relative_altitude_m) VALUES ('trip_1', 1000, 2.5)`);
+
+    const backup = await createBackup(db);
+
+    expect(backup.format).toBe('radzi-backup');
+    expect(backup.schemaVersion).toBe(DB_VERSION);
+    expect(backup.tables.trips).toHaveLength(1);
+    expect(backup.tables.locations).toHaveLength(1);
+    expect(backup.tables.trip_altitude_samples).toHaveLength(1);
+    expect(backup.tables.route_ratings).toEqual([]);
+    expect(backup.tables.route_rating_versions).toEqual([]);
+  });
+});
+
+describe('parseBackup', () => {
+  it('rejects files that are not Radzi backups', () => {
+    expect(() => parseBackup('{"hello":1}')).toThrow('Not a Radzi backup file');
+    expect(() => parseBackup('nope')).toThrow('not valid JSON');
+    expect(() => parseBackup('[]')).toThrow('Not a Radzi backup file');
+    expect(() => parseBackup('{"format":"radzi-backup","formatVersion":"1","schemaVersion":1,"tables":{}}')).toThrow(
+      'Not a Radzi backup file'
+    );
+  });
+
+  it('rejects backups from a newer schema', () => {
+    const json = JSON.stringify({ format: 'radzi-backup', formatVersion: 1, schemaVersion: DB_VERSION + 1, createdAt: 0, tables: {} });
+    expect(() => parseBackup(json)).toThrow(BackupTooNewError);
+  });
+});
+
+describe('restoreBackup', () => {
+  it('restores trips with their child rows into an empty database', async () => {
+    const source = await freshDb();
+    insertTrip(source, 'trip_1', 42);
+    insertLocation(source, 'trip_1', 1000);
+    insertLocation(source, 'trip_1', 2000);
+    source.runSync(
+      `INSERT INTO motion_segments (trip_id, t_start, t_end, activity, confidence, source)
+       VALUES ('trip_1', 1000, 2000, 'cycling', 'high', 'cmma')`
+    );
+    source.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, created_at, updated_at) VALUES ('trip_1', '[]', 5, 5, 5)`
+    );
+    const backup = parseBackup(JSON.stringify(await createBackup(source)));
+
+    const target = await freshDb();
+    const result = await restoreBackup(target, backup);
+
+    expect(result).toMatchObject({ trips: 1, skippedTrips: 0, locations: 2, motionSegments: 1, routeRatings: 1 });
+    expect(target.getAllSync<{ id: string }>('SELECT id FROM trips')).toEqual([{ id: 'trip_1' }]);
+  });
+
+  it('skips trips already present by id or backend_id, along with their locations', async () => {
+    const source = await freshDb();
+    insertTrip(source, 'trip_same_id', null);
+    insertTrip(source, 'trip_local_id', 7);
+    insertTrip(source, 'trip_new', null);
+    for (const id of ['trip_same_id', 'trip_local_id', 'trip_new']) insertLocation(source, id, 1000);
+    const backup = await createBackup(source);
+
+    const target = await freshDb();
+    insertTrip(target, 'trip_same_id', null);
+    insertTrip(target, 'trip_pulled_from_server', 7);
+
+    const result = await restoreBackup(target, backup);
+
+    expect(result.trips).toBe(1);
+    expect(result.skippedTrips).toBe(2);
+    expect(result.locations).toBe(1);
+    expect(target.getFirstSync<{ n: number }>('SELECT COUNT(*) AS n FROM trips')?.n).toBe(3);
+  });
+
+  it('is idempotent when the same backup is restored twice', async () => {
+    const source = await freshDb();
+    insertTrip(source, 'trip_1', null);
+    source.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, created_at, updated_at) VALUES ('trip_1', '[]', 5, 5, 5)`
+    );
+    const backup = await createBackup(source);
+
+    const target = await freshDb();
+    await restoreBackup(target, backup);
+    const second = await restoreBackup(target, backup);
+
+    expect(second).toMatchObject({ trips: 0, skippedTrips: 1, routeRatings: 0 });
+  });
+
+  it('keeps one rating per trip, whichever was edited last', async () => {
+    const source = await freshDb();
+    source.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, version, created_at, updated_at)
+       VALUES ('trip_1', '["backup"]', 9, 2, 9, 9), ('trip_2', '["backup"]', 3, 1, 3, 3)`
+    );
+    const backup = await createBackup(source);
+
+    const target = await freshDb();
+    target.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, version, created_at, updated_at)
+       VALUES ('trip_1', '["local"]', 5, 1, 5, 5), ('trip_2', '["local"]', 7, 1, 7, 7)`
+    );
+    const result = await restoreBackup(target, backup);
+
+    expect(result.routeRatings).toBe(1);
+    expect(target.getAllSync('SELECT trip_id, segments FROM route_ratings ORDER BY trip_id')).toEqual([
+      { trip_id: 'trip_1', segments: '["backup"]' },
+      { trip_id: 'trip_2', segments: '["local"]' },
+    ]);
+  });
+
+  it('restores rating history under the id the trip has locally', async () => {
+    const source = await freshDb();
+    insertTrip(source, 'trip_src', 7);
+    source.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, version, created_at, updated_at)
+       VALUES ('trip_src', '["second"]', 9, 2, 9, 9)`
+    );
+    source.runSync(
+      `INSERT INTO route_rating_versions (trip_id, version, segments, rated_at)
+       VALUES ('trip_src', 1, '["first"]', 5), ('trip_src', 2, '["second"]', 9)`
+    );
+    const backup = await createBackup(source);
+
+    const target = await freshDb();
+    insertTrip(target, 'trip_local', 7);
+    const result = await restoreBackup(target, backup);
+
+    expect(result).toMatchObject({ skippedTrips: 1, routeRatings: 1, ratingVersions: 2 });
+    expect(target.getAllSync('SELECT trip_id, version FROM route_ratings')).toEqual([{ trip_id: 'trip_local', version: 2 }]);
+    expect(target.getAllSync('SELECT trip_id, version, segments FROM route_rating_versions ORDER BY version')).toEqual([
+      { trip_id: 'trip_local', version: 1, segments: '["first"]' },
+      { trip_id: 'trip_local', version: 2, segments: '["second"]' },
+    ]);
+  });
+
+  it('counts only the history rows that were inserted', async () => {
+    const rating = { trip_id: 'trip_1', segments: '["second"]', rated_at: 9, version: 2, created_at: 9, updated_at: 9 };
+    const backup: DatabaseBackup = {
+      format: 'radzi-backup',
+      formatVersion: 1,
+      schemaVersion: DB_VERSION,
+      createdAt: 0,
+      tables: {
+        route_ratings: [rating],
+        route_rating_versions: [
+          { trip_id: 'trip_1', version: 1, segments: '["first"]', rated_at: 5 },
+          { trip_id: 'trip_1', version: 2, segments: '["second"]', rated_at: 9 },
+          { trip_id: 'trip_1', version: 2, segments: '["second"]', rated_at: 9 },
+        ],
+      },
+    };
+    const target = await freshDb();
+
+    const result = await restoreBackup(target, backup);
+
+    expect(result.ratingVersions).toBe(2);
+    expect(target.getFirstSync<{ n: number }>('SELECT COUNT(*) AS n FROM route_rating_versions')?.n).toBe(2);
+  });
+
+  it('keeps the most recently updated setting', async () => {
+    const backup: DatabaseBackup = {
+      format: 'radzi-backup',
+      formatVersion: 1,
+      schemaVersion: DB_VERSION,
+      createdAt: 0,
+      tables: {
+        settings: [
+          { key: 'units', value: 'imperial', updated_at: 100 },
+          { key: 'theme', value: 'dark', updated_at: 100 },
+        ],
+      },
+    };
+    const target = await freshDb();
+    target.runSync(`INSERT INTO settings (key, value, updated_at) VALUES ('units', 'metric', 200)`);
+    target.runSync(`INSERT INTO settings (key, value, updated_at) VALUES ('theme', 'light', 50)`);
+
+    const result = await restoreBackup(target, backup);
+
+    expect(result.settings).toBe(1);
+    const rows = target.getAllSync<{ key: string; value: string }>('SELECT key, value FROM settings ORDER BY key');
+    expect(rows).toEqual([
+      { key: 'theme', value: 'dark' },
+      { key: 'units', value: 'metric' },
+    ]);
+  });
+
+  it('migrates older backups before merging', async () => {
+    const source = await freshDb(8);
+    insertTrip(source, 'trip_old', null, 'Walk distance (120m) is below minimum (400m)');
+    const backup = await createBackup(source);
+    expect(backup.schemaVersion).toBe(8);
+
+    const target = await freshDb();
+    await restoreBackup(target, backup);
+
+    const trip = target.getFirstSync<{ notes: string | null; validation_log: string | null; visible: number }>(
+      'SELECT notes, validation_log, visible FROM trips WHERE id = ?',
+      'trip_old'
+    );
+    expect(trip).toEqual({
+      notes: null,
+      validation_log: 'Walk distance (120m) is below minimum (400m)',
+      visible: 1,
+    });
+  });
+});
@@ -1,5 +1,101 @@
 import { openDatabaseSync } from 'expo-sqlite';
-import { runMigrations, runMigrationsUpTo } from '../schema';
+import {
+  DB_VERSION,
+  DatabaseTooNewError,
+  MIGRATIONS,
+  getSchemaVersion,
+  migrateDatabase,
+  runMigrations,
+  runMigrationsUpTo,
+} from '../schema';
+
+type Db = ReturnType<typeof openDatabaseSync>;
+
+// The tables as the first release created them, before any migration ran
+const V1_SCHEMA = [
+  `CREATE TABLE trips (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    type TEXT CHECK(type IN ('walk', 'run', 'cycle', 'drive')) DEFAULT 'walk',
+    status TEXT CHECK(status IN ('active', 'paused', 'completed', 'cancelled')) DEFAULT 'active',
+    is_manual INTEGER DEFAULT 0,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    distance REAL DEFAULT 0,
+    duration INTEGER DEFAULT 0,
+    avg_speed REAL DEFAULT 0,
+    max_speed REAL DEFAULT 0,
+    elevation_gain REAL DEFAULT 0,
+    calories INTEGER DEFAULT 0,
+    co2_saved REAL DEFAULT 0,
+    notes TEXT,
+    route_data TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    synced INTEGER DEFAULT 0
+  )`,
+  `CREATE TABLE locations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trip_id TEXT NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    altitude REAL,
+    accuracy REAL,
+    speed REAL,
+    heading REAL,
+    timestamp INTEGER NOT NULL,
+    activity_type TEXT,
+    activity_confidence REAL,
+    synced INTEGER DEFAULT 0,
+    FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE sync_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    data TEXT NOT NULL,
+    retry_count INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    last_attempt INTEGER
+  )`,
+];
+
+// route_ratings as v3 created it, still tied to trips (v4 drops the FOREIGN KEY)
+const V3_ROUTE_RATINGS = `CREATE TABLE route_ratings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trip_id TEXT NOT NULL,
+  segments TEXT NOT NULL,
+  rated_at INTEGER NOT NULL,
+  synced INTEGER DEFAULT 0,
+  backend_id INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+)`;
+
+/**
+ * A database in the shape a device that has been upgraded release by release
+ * has at `version`: the v1 tables, then each step up to `version`.
+ */
+async function legacyDatabaseAt(version: number): Promise<Db> {
+  const db = openDatabaseSync(':memory:');
+  for (const sql of V1_SCHEMA) await db.execAsync(sql);
+  await db.execAsync('PRAGMA user_version = 1');
+  await runMigrations(db, 1, Math.min(version, 2));
+  if (version >= 3) {
+    await db.execAsync(V3_ROUTE_RATINGS);
+    await db.execAsync('PRAGMA user_version = 3');
+    await runMigrations(db, 3, version);
+  }
+  return db;
+}
+
+const LEGACY_TRIP_COLUMNS =
+  'id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced';
 
 describe('schema v7 migration', () => {
   it('adds new trip columns with safe defaults', async () => {
@@ -57,20 +153,26 @@ describe('schema v8 migration', () => {
 });
 
 describe('schema v9 migration', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   it('backfills auto-generated notes into validation_log', async () => {
-    const db = openDatabaseSync(':memory:');
-    // Set up base schema through v8 (columns exist, no backfill yet)
-    await runMigrationsUpTo(db, 8);
+    // A v8 database: the note columns exist, nothing is backfilled yet
+    const db = await legacyDatabaseAt(8);
 
     // Insert two trips with legacy notes
     db.runSync(
-      `INSERT INTO trips (id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced)
+      `INSERT INTO trips (${LEGACY_TRIP_COLUMNS})
        VALUES ('t1','u','cycle','completed',0,1,2,100,10,1,1,0,0,0,'Trip contains driving (max speed: 50 km/h)','[]',1,1,0),
               ('t2','u','cycle','completed',0,1,2,100,10,1,1,0,0,0,'Beautiful coastal route','[]',1,1,0)`
     );
 
-    // Now run v9
-    await runMigrationsUpTo(db, 9);
+    await migrateDatabase(db);
 
     const t1 = db.getFirstSync<{ user_note: string | null; validation_log: string | null }>(
       `SELECT user_note, validation_log FROM trips WHERE id='t1'`
@@ -86,13 +188,12 @@ describe('schema v9 migration', () => {
   });
 
   it('leaves notes=NULL rows untouched', async () => {
-    const db = openDatabaseSync(':memory:');
-    await runMigrationsUpTo(db, 8);
+    const db = await legacyDatabaseAt(8);
     db.runSync(
-      `INSERT INTO trips (id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced)
+      `INSERT INTO trips (${LEGACY_TRIP_COLUMNS})
        VALUES ('t3','u','walk','completed',0,1,2,1,1,0,0,0,0,0,NULL,'[]',1,1,0)`
     );
-    await runMigrationsUpTo(db, 9);
+    await migrateDatabase(db);
     const t3 = db.getFirstSync<{ user_note: string | null; validation_log: string | null }>(
       `SELECT user_note, validation_log FROM trips WHERE id='t3'`
     );
@@ -109,3 +210,204 @@ describe('schema v10 migration', () => {
     expect(cols).toContain('visible');
   });
 });
+
+describe('schema v12 migration', () => {
+  it('adds outbox columns to sync_queue with pending status by default', async () => {
+    const db = openDatabaseSync(':memory:');
+    await runMigrationsUpTo(db, 12);
+    const cols = db.getAllSync<{ name: string }>(`PRAGMA table_info(sync_queue);`).map(r => r.name);
+    expect(cols).toEqual(expect.arrayContaining(['next_attempt_at', 'last_error', 'status']));
+
+    db.runSync(`INSERT INTO sync_queue (type, data, created_at) VALUES ('map_feedback', '{}', 1)`);
+    const row = db.getFirstSync<{ status: string }>(`SELECT status FROM sync_queue`);
+    expect(row!.status).toBe('pending');
+  });
+});
+
+describe('schema v13 migration', () => {
+  it('creates trip_segments and removes them with their trip', async () => {
+    const db = openDatabaseSync(':memory:');
+    await db.execAsync('PRAGMA foreign_keys = ON');
+    await runMigrationsUpTo(db, 13);
+
+    db.runSync(
+      `INSERT INTO trips (id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced)
+       VALUES ('t1','u','cycle','completed',0,1,2,100,10,1,1,0,0,0,NULL,'[]',1,1,0)`
+    );
+    db.runSync(
+      `INSERT INTO trip_segments (trip_id, seq, type, detected_type, t_start, t_end, distance, duration, avg_speed, max_speed, confidence)
+       VALUES ('t1', 0, 'walk', 'walk', 1, 2, 100, 10, 5, 6, 90)`
+    );
+    db.runSync(`DELETE FROM trips WHERE id = 't1'`);
+
+    const row = db.getFirstSync<{ count: number }>(`SELECT COUNT(*) as count FROM trip_segments`);
+    expect(row!.count).toBe(0);
+  });
+});
+
+describe('schema v14 migration', () => {
+  it('creates heatmap_cells and removes them with their trip', async () => {
+    const db = openDatabaseSync(':memory:');
+    await db.execAsync('PRAGMA foreign_keys = ON');
+    await runMigrationsUpTo(db, 14);
+
+    db.runSync(
+      `INSERT INTO trips (id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced)
+       VALUES ('t1','u','walk','completed',0,1,2,100,10,1,1,0,0,0,NULL,'[]',1,1,0)`
+    );
+    db.runSync(`INSERT INTO heatmap_cells (trip_id, cell_lat, cell_lng, hits) VALUES ('t1', 102998, -250, 4)`);
+    db.runSync(`DELETE FROM trips WHERE id = 't1'`);
+
+    const row = db.getFirstSync<{ count: number }>(`SELECT COUNT(*) as count FROM heatmap_cells`);
+    expect(row!.count).toBe(0);
+  });
+});
+
+describe('schema v15 migration', () => {
+  it('creates simplified_routes and removes them with their trip', async () => {
+    const db = openDatabaseSync(':memory:');
+    await db.execAsync('PRAGMA foreign_keys = ON');
+    await runMigrationsUpTo(db, 15);
+
+    db.runSync(
+      `INSERT INTO trips (id, user_id, type, status, is_manual, start_time, end_time, distance, duration, avg_speed, max_speed, elevation_gain, calories, co2_saved, notes, route_data, created_at, updated_at, synced)
+       VALUES ('t1','u','walk','completed',0,1,2,100,10,1,1,0,0,0,NULL,'[]',1,1,0)`
+    );
+    db.runSync(`INSERT INTO simplified_routes (trip_id, coordinates) VALUES ('t1', '[[-0.12,51.5],[-0.12,51.51]]')`);
+    db.runSync(`DELETE FROM trips WHERE id = 't1'`);
+
+    const row = db.getFirstSync<{ count: number }>(`SELECT COUNT(*) as count FROM simplified_routes`);
+    expect(row!.count).toBe(0);
+  });
+});
+
+describe('schema v16 migration', () => {
+  it('starts the version history of existing ratings at 1', async () => {
+    const db = openDatabaseSync(':memory:');
+    await runMigrationsUpTo(db, 15);
+    db.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, synced, created_at, updated_at)
+       VALUES ('t1', '[{"startIndex":0,"endIndex":4,"feeling":"stressed"}]', 100, 1, 100, 100)`
+    );
+
+    await runMigrations(db, 15, 16);
+
+    const rating = db.getFirstSync<{ version: number }>(`SELECT version FROM route_ratings WHERE trip_id = 't1'`);
+    const versions = db.getAllSync<{ version: number; segments: string; rated_at: number }>(
+      `SELECT version, segments, rated_at FROM route_rating_versions WHERE trip_id = 't1'`
+    );
+    expect(rating!.version).toBe(1);
+    expect(versions).toEqual([
+      { version: 1, segments: '[{"startIndex":0,"endIndex":4,"feeling":"stressed"}]', rated_at: 100 },
+    ]);
+  });
+});
+
+describe('migration registry', () => {
+  // Table -> sorted "column type notnull default" list, for comparing schemas
+  function describeSchema(db: Db): Record<string, string[]> {
+    const tables = db
+      .getAllSync<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name;`
+      )
+      .map((r) => r.name);
+    return Object.fromEntries(
+      tables.map((table) => [
+        table,
+        db
+          .getAllSync<{ name: string; type: string; notnull: number; dflt_value: string | null }>(
+            `PRAGMA table_info(${table});`
+          )
+          .map((c) => `${c.name} ${c.type} ${c.notnull} ${c.dflt_value}`)
+          .sort(),
+      ])
+    );
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists one step per version from 2 to DB_VERSION', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      Array.from({ length: DB_VERSION - 1 }, (_, i) => i + 2)
+    );
+  });
+
+  it('records the version of each step as it completes', async () => {
+    const db = openDatabaseSync(':memory:');
+    await runMigrationsUpTo(db, 5);
+    expect(await getSchemaVersion(db)).toBe(5);
+  });
+
+  const fromVersions = Array.from({ length: DB_VERSION - 1 }, (_, i) => i + 1);
+
+  it.each(fromVersions)('upgrades a v%i database to the current schema', async (from) => {
+    const fresh = openDatabaseSync(':memory:');
+    await migrateDatabase(fresh);
+
+    const db = await legacyDatabaseAt(from);
+    await migrateDatabase(db);
+
+    expect(await getSchemaVersion(db)).toBe(DB_VERSION);
+    expect(describeSchema(db)).toEqual(describeSchema(fresh));
+  });
+
+  it('carries v1 trips and their ratings through every step', async () => {
+    const db = await legacyDatabaseAt(3);
+    db.runSync(
+      `INSERT INTO trips (${LEGACY_TRIP_COLUMNS})
+       VALUES ('t1','u','cycle','completed',0,1,2,100,10,1,1,0,0,0,'Commute','[]',1,1,1)`
+    );
+    db.runSync(
+      `INSERT INTO route_ratings (trip_id, segments, rated_at, synced, created_at, updated_at)
+       VALUES ('t1', '[]', 5, 1, 5, 5)`
+    );
+
+    await migrateDatabase(db);
+
+    const trip = db.getFirstSync<Record<string, unknown>>(`SELECT * FROM trips WHERE id = 't1'`);
+    expect(trip).toMatchObject({
+      classification_method: 'speed',
+      engine: 'legacy',
+      user_note: 'Commute',
+      user_note_dirty: 0,
+      visible: 1,
+    });
+    const rating = db.getFirstSync<{ version: number }>(`SELECT version FROM route_ratings WHERE trip_id = 't1'`);
+    expect(rating!.version).toBe(1);
+    // The rebuilt table no longer requires a local trip
+    expect(() => db.runSync(`DELETE FROM trips WHERE id = 't1'`)).not.toThrow();
+    expect(db.getAllSync(`SELECT id FROM route_ratings`)).toHaveLength(1);
+  });
+
+  it('rolls back a failed step and keeps the last successful version', async () => {
+    const db = await legacyDatabaseAt(9);
+    const step = MIGRATIONS.find((m) => m.version === 11)!;
+    jest.spyOn(step, 'up').mockImplementation(async (target) => {
+      await target.execAsync('ALTER TABLE trips ADD COLUMN step_count INTEGER');
+      throw new Error('disk I/O error');
+    });
+
+    await expect(runMigrations(db, 9, DB_VERSION)).rejects.toThrow('Migration 10->11');
+
+    expect(await getSchemaVersion(db)).toBe(10);
+    const cols = db.getAllSync<{ name: string }>(`PRAGMA table_info(trips);`).map((r) => r.name);
+    expect(cols).toContain('visible');
+    expect(cols).not.toContain('step_count');
+  });
+
+  it('refuses to open a database from a newer app build', async () => {
+    const db = openDatabaseSync(':memory:');
+    await db.execAsync(`PRAGMA user_version = ${DB_VERSION + 1}`);
+
+    await expect(migrateDatabase(db)).rejects.toThrow(DatabaseTooNewError);
+    await expect(migrateDatabase(db)).rejects.toThrow('newer than this app supports');
+    expect(await getSchemaVersion(db)).toBe(DB_VERSION + 1);
+  });
+});
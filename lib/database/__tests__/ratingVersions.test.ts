@@ -0,0 +1,75 @@
+import { database } from '../index';
+
+const first = JSON.stringify([{ startIndex: 0, endIndex: 9, feeling: 'stressed' }]);
+const edit = JSON.stringify([{ startIndex: 0, endIndex: 9, feeling: 'comfortable' }]);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  await database.clearAllData();
+});
+
+describe('rating versions', () => {
+  it('keeps every painting and points the rating at the newest', async () => {
+    expect(await database.reviseRating('t1', first, 100)).toBe(1);
+    await database.markRatingSynced('t1', 1);
+    expect(await database.reviseRating('t1', edit, 200)).toBe(2);
+
+    const rating = await database.getRating('t1');
+    expect(rating).toMatchObject({ segments: edit, rated_at: 200, version: 2, synced: 0 });
+    expect(await database.getRatingVersions('t1')).toEqual([
+      { trip_id: 't1', version: 2, segments: edit, rated_at: 200 },
+      { trip_id: 't1', version: 1, segments: first, rated_at: 100 },
+    ]);
+  });
+
+  it('leaves an edited rating unsynced when an older version is accepted', async () => {
+    await database.reviseRating('t1', first, 100);
+    await database.reviseRating('t1', edit, 200);
+
+    await database.markRatingSynced('t1', 1);
+    expect((await database.getRating('t1'))!.synced).toBe(0);
+
+    await database.markRatingSynced('t1', 2);
+    expect((await database.getRating('t1'))!.synced).toBe(1);
+  });
+
+  it('keeps the rated route when an edit is saved without one', async () => {
+    const route = JSON.stringify([{ lat: 51, lng: 0 }, { lat: 51.001, lng: 0 }]);
+    await database.reviseRating('t1', first, 100, route);
+    await database.reviseRating('t1', edit, 200);
+
+    expect((await database.getRating('t1'))!.route_data).toBe(route);
+  });
+
+  it('gives saves made at the same time their own versions', async () => {
+    await database.reviseRating('t1', first, 100);
+    const versions = await Promise.all([
+      database.reviseRating('t1', edit, 200),
+      database.reviseRating('t1', first, 300),
+    ]);
+
+    expect(versions.sort()).toEqual([2, 3]);
+    expect((await database.getRatingVersions('t1')).map((rating) => rating.version)).toEqual([3, 2, 1]);
+  });
+
+  it('records version 1 for ratings created directly', async () => {
+    await database.createRating({ trip_id: 't1', segments: first, rated_at: 100 });
+
+    expect(await database.getRatingVersions('t1')).toHaveLength(1);
+    await database.deleteRating('t1');
+    expect(await database.getRatingVersions('t1')).toEqual([]);
+  });
+});
+
+describe('getAllRatings', () => {
+  it('leaves out ratings of places rated from the map', async () => {
+    await database.reviseRating('t1', first, 100);
+    await database.reviseRating('section:north', first, 200);
+    await database.reviseRating('junction:0.00000,51.00000', first, 300);
+
+    expect((await database.getAllRatings()).map((rating) => rating.trip_id)).toEqual(['t1']);
+  });
+});
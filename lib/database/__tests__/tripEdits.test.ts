@@ -0,0 +1,217 @@
+import { openDatabaseSync } from 'expo-sqlite';
+import { DB_VERSION, runMigrationsUpTo } from '../schema';
+import { moveAllTripData, moveTripDataAfter } from '../tripEdits';
+import { database } from '../index';
+
+type Db = ReturnType<typeof openDatabaseSync>;
+
+async function freshDb() {
+  const db = openDatabaseSync(':memory:');
+  await runMigrationsUpTo(db, DB_VERSION);
+  return db;
+}
+
+function insertTrip(db: Db, id: string) {
+  db.runSync(
+    `INSERT INTO trips (id, user_id, type, status, start_time, created_at, updated_at)
+     VALUES (?, 'u1', 'cycle', 'completed', 1000, 1000, 1000)`,
+    id
+  );
+}
+
+function insertTrack(db: Db, tripId: string, timestamps: number[]) {
+  for (const ts of timestamps) {
+    db.runSync(`INSERT INTO locations (trip_id, latitude, longitude, timestamp) VALUES (?, 51, 0, ?)`, tripId, ts);
+    db.runSync(
+      `INSERT INTO trip_altitude_samples (trip_id, timestamp, relative_altitude_m) VALUES (?, ?, 1)`,
+      tripId, ts
+    );
+  }
+}
+
+function insertSegment(db: Db, tripId: string, tStart: number, tEnd: number, activity = 'cycling') {
+  db.runSync(
+    `INSERT INTO motion_segments (trip_id, t_start, t_end, activity, confidence, source)
+     VALUES (?, ?, ?, ?, 'high', 'cmma')`,
+    tripId, tStart, tEnd, activity
+  );
+}
+
+function timestamps(db: Db, table: 'locations' | 'trip_altitude_samples', tripId: string) {
+  return db
+    .getAllSync<{ timestamp: number }>(`SELECT timestamp FROM ${table} WHERE trip_id = ? ORDER BY timestamp`, tripId)
+    .map((r) => r.timestamp);
+}
+
+function segments(db: Db, tripId: string) {
+  return db.getAllSync<{ t_start: number; t_end: number; activity: string }>(
+    'SELECT t_start, t_end, activity FROM motion_segments WHERE trip_id = ? ORDER BY t_start',
+    tripId
+  );
+}
+
+function insertRating(db: Db, tripId: string) {
+  db.runSync(
+    `INSERT INTO route_ratings (trip_id, segments, rated_at, created_at, updated_at) VALUES (?, '[]', 1, 1, 1)`,
+    tripId
+  );
+  db.runSync(`INSERT INTO route_rating_versions (trip_id, version, segments, rated_at) VALUES (?, 1, '[]', 1)`, tripId);
+}
+
+function ratedTrips(db: Db) {
+  return [
+    db.getAllSync<{ trip_id: string }>('SELECT trip_id FROM route_ratings ORDER BY trip_id').map((r) => r.trip_id),
+    db.getAllSync<{ trip_id: string }>('SELECT trip_id FROM route_rating_versions ORDER BY trip_id').map((r) => r.trip_id),
+  ];
+}
+
+describe('moveAllTripData', () => {
+  it('moves every child row onto the target trip', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'a');
+    insertTrip(db, 'b');
+    insertTrack(db, 'a', [1000, 2000]);
+    insertTrack(db, 'b', [3000, 4000]);
+    insertSegment(db, 'a', 1000, 2000, 'walking');
+    insertSegment(db, 'b', 3000, 4000);
+
+    await moveAllTripData(db, 'b', 'a');
+
+    expect(timestamps(db, 'locations', 'a')).toEqual([1000, 2000, 3000, 4000]);
+    expect(timestamps(db, 'trip_altitude_samples', 'a')).toEqual([1000, 2000, 3000, 4000]);
+    expect(segments(db, 'a').map((s) => s.activity)).toEqual(['walking', 'cycling']);
+    expect(timestamps(db, 'locations', 'b')).toEqual([]);
+    expect(segments(db, 'b')).toEqual([]);
+  });
+
+  it('resets the ratings of both trips, whose indices point into the old routes', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'a');
+    insertTrip(db, 'b');
+    insertTrip(db, 'c');
+    insertRating(db, 'a');
+    insertRating(db, 'b');
+    insertRating(db, 'c');
+
+    await moveAllTripData(db, 'b', 'a');
+
+    expect(ratedTrips(db)).toEqual([['c'], ['c']]);
+  });
+
+  it('drops altitude samples the target already has at the same instant', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'a');
+    insertTrip(db, 'b');
+    insertTrack(db, 'a', [1000]);
+    insertTrack(db, 'b', [1000, 2000]);
+
+    await moveAllTripData(db, 'b', 'a');
+
+    expect(timestamps(db, 'trip_altitude_samples', 'a')).toEqual([1000, 2000]);
+    expect(timestamps(db, 'trip_altitude_samples', 'b')).toEqual([]);
+  });
+});
+
+describe('moveTripDataAfter', () => {
+  it('moves rows after the timestamp and cuts the segment spanning it', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'a');
+    insertTrip(db, 'b');
+    insertTrack(db, 'a', [1000, 2000, 3000, 4000, 5000]);
+    insertSegment(db, 'a', 1000, 2000, 'walking');
+    insertSegment(db, 'a', 2000, 4000, 'cycling');
+    insertSegment(db, 'a', 4000, 5000, 'walking');
+
+    await moveTripDataAfter(db, 'a', 'b', 3000);
+
+    expect(timestamps(db, 'locations', 'a')).toEqual([1000, 2000, 3000]);
+    expect(timestamps(db, 'locations', 'b')).toEqual([4000, 5000]);
+    expect(timestamps(db, 'trip_altitude_samples', 'b')).toEqual([4000, 5000]);
+    expect(segments(db, 'a')).toEqual([
+      { t_start: 1000, t_end: 2000, activity: 'walking' },
+      { t_start: 2000, t_end: 3000, activity: 'cycling' },
+    ]);
+    expect(segments(db, 'b')).toEqual([
+      { t_start: 3000, t_end: 4000, activity: 'cycling' },
+      { t_start: 4000, t_end: 5000, activity: 'walking' },
+    ]);
+  });
+
+  it('resets the rating of the trip that was cut', async () => {
+    const db = await freshDb();
+    insertTrip(db, 'a');
+    insertTrip(db, 'b');
+    insertTrip(db, 'c');
+    insertTrack(db, 'a', [1000, 2000]);
+    insertRating(db, 'a');
+    insertRating(db, 'c');
+
+    await moveTripDataAfter(db, 'a', 'b', 1000);
+
+    expect(ratedTrips(db)).toEqual([['c'], ['c']]);
+  });
+});
+
+describe('edit transaction', () => {
+  const trip = (id: string) => ({
+    id,
+    user_id: 'u1',
+    type: 'cycle' as const,
+    status: 'completed' as const,
+    start_time: 1000,
+    created_at: 1000,
+    updated_at: 1000,
+  });
+  const point = (tripId: string, timestamp: number) => ({
+    trip_id: tripId,
+    latitude: 51,
+    longitude: 0,
+    altitude: null,
+    accuracy: null,
+    speed: null,
+    heading: null,
+    timestamp,
+    activity_type: null,
+    activity_confidence: null,
+    synced: 0,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    await database.clearAllData();
+  });
+
+  it('rolls back the moves, deletes and queued requests of a failed edit', async () => {
+    await database.createTrip(trip('a'));
+    await database.createTrip(trip('b'));
+    await database.addLocations([point('b', 3000), point('b', 4000)]);
+    await database.reviseRating('a', '[]', 1);
+
+    await expect(
+      database.transaction(async () => {
+        await database.moveAllTripData('b', 'a');
+        await database.deleteTrip('b');
+        await database.addToSyncQueue('trip_route', { tripId: 'a' });
+        throw new Error('validation failed');
+      })
+    ).rejects.toThrow('validation failed');
+
+    expect((await database.getLocationsByTrip('b')).map((loc) => loc.timestamp)).toEqual([3000, 4000]);
+    expect(await database.getTrip('b')).not.toBeNull();
+    expect(await database.getRating('a')).not.toBeNull();
+    expect(await database.getSyncQueue()).toEqual([]);
+  });
+
+  it('lets database calls inside an edit join it', async () => {
+    await database.transaction(async () => {
+      await database.createTrip(trip('a'));
+      // addLocations opens its own transaction when called on its own
+      await database.addLocations([point('a', 1000)]);
+    });
+
+    expect(await database.getLocationsByTrip('a')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Local Data Backup
+ *
+ * Versioned JSON archive of the user's own data in radzi.db, so unsynced
+ * trips survive a phone change or reinstall. Restore is schema-version
+ * aware: an older backup is loaded into an in-memory database at its own
+ * schema version, migrated with runMigrations, then merged into the live
+ * database without duplicating trips already present (by id or backend_id).
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { DB_VERSION, runMigrations, runMigrationsUpTo } from './schema';
+
+export const BACKUP_FORMAT = 'radzi-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Restore order matters: trips first so child rows can be matched to them
+export const BACKUP_TABLES = [
+  'trips',
+  'locations',
+  'motion_segments',
+  'trip_segments',
+  'trip_altitude_samples',
+  'route_ratings',
+  'route_rating_versions',
+  'settings',
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+type Row = Record<string, any>;
+
+export interface DatabaseBackup {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // PRAGMA user_version of the source database
+  createdAt: number;
+  tables: Partial<Record<BackupTable, Row[]>>;
+}
+
+export interface RestoreResult {
+  trips: number;
+  skippedTrips: number; // already present locally (same id or backend_id)
+  locations: number;
+  motionSegments: number;
+  tripSegments: number;
+  altitudeSamples: number;
+  routeRatings: number;
+  ratingVersions: number;
+  settings: number;
+}
+
+// Rows that belong to a trip and are only restored alongside it
+const TRIP_CHILD_TABLES = ['locations', 'motion_segments', 'trip_segments', 'trip_altitude_samples'] as const;
+
+/**
+ * Read every backed-up table from the database into a backup archive.
+ * Tables that do not exist yet (older schema) are left out.
+ */
+export async function createBackup(db: SQLite.SQLiteDatabase): Promise<DatabaseBackup> {
+  const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const existing = await getTableNames(db);
+  const tables: DatabaseBackup['tables'] = {};
+
+  for (const table of BACKUP_TABLES) {
+    if (!existing.has(table)) continue;
+    tables[table] = await db.getAllAsync<Row>(`SELECT * FROM ${table}`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: version?.user_version || DB_VERSION,
+    createdAt: Date.now(),
+    tables,
+  };
+}
+
+/** The backup was made by a newer build of the app; only an app update can restore it. */
+export class BackupTooNewError extends Error {
+  constructor(public readonly schemaVersion: number) {
+    super(`Backup was created by a newer app version (schema ${schemaVersion}, this app supports ${DB_VERSION})`);
+    this.name = 'BackupTooNewError';
+  }
+}
+
+/**
+ * Parse and validate a backup file's contents.
+ * Throws if the file is not a Radzi backup, or a BackupTooNewError if it is
+ * from a newer app version.
+ */
+export function parseBackup(json: string): DatabaseBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (
+    !isRecord(data) ||
+    data.format !== BACKUP_FORMAT ||
+    typeof data.formatVersion !== 'number' ||
+    typeof data.schemaVersion !== 'number' ||
+    !isRecord(data.tables)
+  ) {
+    throw new Error('Not a Radzi backup file');
+  }
+  if (data.formatVersion > BACKUP_FORMAT_VERSION || data.schemaVersion > DB_VERSION) {
+    throw new BackupTooNewError(data.schemaVersion);
+  }
+
+  return data as unknown as DatabaseBackup;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge a backup into the live database.
+ *
+ * - Trips already present by id or backend_id are skipped, along with their
+ *   locations, motion segments, trip segments and altitude samples.
+ * - Route ratings are de-duplicated by trip_id (one rating per trip) or
+ *   backend_id; where both sides have one, the newer version is kept, along
+ *   with its version history. Ratings of trips already present are moved
+ *   onto the local trip id.
+ * - Settings keep whichever value was updated most recently.
+ */
+export async function restoreBackup(
+  db: SQLite.SQLiteDatabase,
+  backup: DatabaseBackup
+): Promise<RestoreResult> {
+  const migrated = await migrateBackup(backup);
+  const result: RestoreResult = {
+    trips: 0,
+    skippedTrips: 0,
+    locations: 0,
+    motionSegments: 0,
+    tripSegments: 0,
+    altitudeSamples: 0,
+    routeRatings: 0,
+    ratingVersions: 0,
+    settings: 0,
+  };
+
+  await db.withTransactionAsync(async () => {
+    const restoredTripIds = new Set<string>();
+    // Backup trip id -> id of the same trip locally
+    const localTripIds = new Map<string, string>();
+
+    const tripColumns = await getColumnNames(db, 'trips');
+    for (const trip of migrated.trips ?? []) {
+      const duplicate = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM trips WHERE id = ? OR (backend_id IS NOT NULL AND backend_id = ?)',
+        [trip.id, trip.backend_id ?? null]
+      );
+      if (duplicate) {
+        localTripIds.set(trip.id, duplicate.id);
+        result.skippedTrips++;
+        continue;
+      }
+      await insertRow(db, 'trips', trip, tripColumns);
+      restoredTripIds.add(trip.id);
+      result.trips++;
+    }
+
+    for (const table of TRIP_CHILD_TABLES) {
+      const columns = await getColumnNames(db, table);
+      if (columns.size === 0) continue;
+      columns.delete('id'); // let AUTOINCREMENT assign fresh ids
+
+      let count = 0;
+      for (const row of migrated[table] ?? []) {
+        if (!restoredTripIds.has(row.trip_id)) continue;
+        count += await insertRow(db, table, row, columns, 'OR IGNORE');
+      }
+      if (table === 'locations') result.locations = count;
+      else if (table === 'motion_segments') result.motionSegments = count;
+      else if (table === 'trip_segments') result.tripSegments = count;
+      else result.altitudeSamples = count;
+    }
+
+    const ratingColumns = await getColumnNames(db, 'route_ratings');
+    ratingColumns.delete('id');
+    const versionColumns = await getColumnNames(db, 'route_rating_versions');
+    versionColumns.delete('id');
+    for (const backupRating of migrated.route_ratings ?? []) {
+      const rating: Row = { ...backupRating, trip_id: localTripIds.get(backupRating.trip_id) ?? backupRating.trip_id };
+      const local = await db.getFirstAsync<{ id: number; version: number; rated_at: number }>(
+        `SELECT id, version, rated_at FROM route_ratings
+         WHERE trip_id = ? OR (backend_id IS NOT NULL AND backend_id = ?)`,
+        [rating.trip_id, rating.backend_id ?? null]
+      );
+      if (local && !isNewerRating(rating, local)) continue;
+      if (local) {
+        await db.runAsync('DELETE FROM route_ratings WHERE id = ?', [local.id]);
+      }
+      await insertRow(db, 'route_ratings', rating, ratingColumns);
+      result.routeRatings++;
+
+      // The restored rating brings its own history
+      await db.runAsync('DELETE FROM route_rating_versions WHERE trip_id = ?', [rating.trip_id]);
+      for (const version of migrated.route_rating_versions ?? []) {
+        if (version.trip_id !== backupRating.trip_id) continue;
+        result.ratingVersions += await insertRow(
+          db,
+          'route_rating_versions',
+          { ...version, trip_id: rating.trip_id },
+          versionColumns,
+          'OR IGNORE'
+        );
+      }
+    }
+
+    for (const setting of migrated.settings ?? []) {
+      const current = await db.getFirstAsync<{ updated_at: number }>(
+        'SELECT updated_at FROM settings WHERE key = ?',
+        [setting.key]
+      );
+      if (current && current.updated_at >= setting.updated_at) continue;
+      await db.runAsync(
+        'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+        [setting.key, setting.value, setting.updated_at]
+      );
+      result.settings++;
+    }
+  });
+
+  console.log('[Backup] Restore completed', result);
+  return result;
+}
+
+/**
+ * Whether a backed-up rating is a later edit than the local one
+ */
+function isNewerRating(rating: Row, local: { version: number; rated_at: number }): boolean {
+  const version = rating.version ?? 1;
+  if (version !== local.version) return version > local.version;
+  return rating.rated_at > local.rated_at;
+}
+
+/**
+ * Bring backup rows up to the current schema. Older backups are replayed into
+ * an in-memory database at their own version and migrated with runMigrations,
+ * so data migrations (e.g. the v9 notes backfill) apply to restored trips too.
+ */
+async function migrateBackup(backup: DatabaseBackup): Promise<DatabaseBackup['tables']> {
+  if (backup.schemaVersion >= DB_VERSION) {
+    return backup.tables;
+  }
+
+  console.log(`[Backup] Migrating backup from schema v${backup.schemaVersion} to v${DB_VERSION}`);
+  const staging = await SQLite.openDatabaseAsync(':memory:');
+
+  try {
+    await runMigrationsUpTo(staging, backup.schemaVersion);
+
+    for (const table of BACKUP_TABLES) {
+      const rows = backup.tables[table];
+      if (!rows?.length) continue;
+      const columns = await getColumnNames(staging, table);
+      if (columns.size === 0) continue; // table did not exist at this version
+      for (const row of rows) {
+        await insertRow(staging, table, row, columns);
+      }
+    }
+
+    await runMigrations(staging, backup.schemaVersion, DB_VERSION);
+
+    const tables: DatabaseBackup['tables'] = {};
+    for (const table of BACKUP_TABLES) {
+      tables[table] = await staging.getAllAsync<Row>(`SELECT * FROM ${table}`);
+    }
+    return tables;
+  } finally {
+    await staging.closeAsync();
+  }
+}
+
+/**
+ * Insert a row, copying only the columns the target table knows about.
+ * Returns the number of rows inserted: 0 when OR IGNORE skipped it.
+ */
+async function insertRow(
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  row: Row,
+  columns: Set<string>,
+  conflict: '' | 'OR IGNORE' = ''
+): Promise<number> {
+  const keys = Object.keys(row).filter((key) => columns.has(key));
+  if (keys.length === 0) return 0;
+
+  const { changes } = await db.runAsync(
+    `INSERT ${conflict} INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`,
+    keys.map((key) => row[key])
+  );
+  return changes;
+}
+
+async function getColumnNames(db: SQLite.SQLiteDatabase, table: string): Promise<Set<string>> {
+  const rows = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return new Set(rows.map((r) => r.name));
+}
+
+async function getTableNames(db: SQLite.SQLiteDatabase): Promise<Set<string>> {
+  const rows = await db.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table'"
+  );
+  return new Set(rows.map((r) => r.name));
+}
@@ -1,5 +1,8 @@
 import * as SQLite from 'expo-sqlite';
 import { initializeDatabase, DB_NAME } from './schema';
+import { createBackup, restoreBackup, type DatabaseBackup, type RestoreResult } from './backup';
+import { moveAllTripData, moveTripDataAfter } from './tripEdits';
+import { isPlaceRatingKey } from '../utils/placeRatings';
 
 export interface Trip {
   id: string;
@@ -41,6 +44,7 @@ export interface Trip {
   backend_avg_speed_kmh?: number | null;
   visible?: number | null; // 0 or 1
   step_count?: number | null;
+  is_valid?: number | null; // 0 or 1 from the backend, null until synced
 }
 
 export interface LocationPoint {
@@ -65,6 +69,8 @@ export interface Setting {
   updated_at: number;
 }
 
+export type SyncQueueStatus = 'pending' | 'dead';
+
 export interface SyncQueueItem {
   id?: number;
   type: string;
@@ -72,6 +78,10 @@ export interface SyncQueueItem {
   retry_count: number;
   created_at: number;
   last_attempt: number | null;
+  // v12 outbox columns
+  next_attempt_at?: number | null;
+  last_error?: string | null;
+  status?: SyncQueueStatus;
 }
 
 export interface ActivityWindow {
@@ -101,10 +111,19 @@ export interface RouteRating {
   rated_at: number;
   synced: number;
   backend_id: number | null;
+  version: number; // 1 for the first painting, +1 per edit
+  route_data?: string | null; // JSON route the segment indices point into
   created_at: number;
   updated_at: number;
 }
 
+export interface RouteRatingVersion {
+  trip_id: string;
+  version: number;
+  segments: string; // JSON stringified RouteSegment[]
+  rated_at: number;
+}
+
 export interface MotionSegment {
   id?: number;
   trip_id: string;
@@ -115,6 +134,21 @@ export interface MotionSegment {
   source: 'cmma' | 'shadow_xgb';
 }
 
+export interface TripModeSegment {
+  id?: number;
+  trip_id: string;
+  seq: number; // 0-based position within the trip
+  type: 'walk' | 'run' | 'cycle' | 'drive';
+  detected_type: 'walk' | 'run' | 'cycle' | 'drive';
+  t_start: number; // Unix timestamp (ms)
+  t_end: number;
+  distance: number; // meters
+  duration: number; // seconds
+  avg_speed: number; // km/h
+  max_speed: number; // km/h
+  confidence: number; // 0-100
+}
+
 export interface StagingLocation {
   id?: number;
   staging_id: string;
@@ -134,6 +168,32 @@ export interface ClassifierDisagreement {
   xgb_conf: number;
 }
 
+export interface HeatmapCellRow {
+  cell_lat: number;
+  cell_lng: number;
+  hits: number;
+}
+
+export interface HeatmapCellFilters {
+  minCellLat: number;
+  maxCellLat: number;
+  minCellLng: number;
+  maxCellLng: number;
+  type?: Trip['type'];
+  startDate?: number;
+  endDate?: number;
+}
+
+export interface SimplifiedRouteRow {
+  trip_id: string;
+  backend_id: number | null;
+  type: Trip['type'];
+  start_time: number;
+  avg_speed: number; // km/h, moving average when known
+  coordinates: string; // JSON [lng, lat][]
+  rating_segments: string | null; // JSON RouteSegment[] when the trip is rated
+}
+
 export interface TripFilters {
   type?: 'walk' | 'run' | 'cycle' | 'drive';
   status?: 'active' | 'paused' | 'completed' | 'cancelled';
@@ -145,6 +205,7 @@ export interface TripFilters {
 class Database {
   private db: SQLite.SQLiteDatabase | null = null;
   private initPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+  private transactionDepth = 0;
 
   async init(): Promise<SQLite.SQLiteDatabase> {
     if (this.db) {
@@ -169,6 +230,26 @@ class Database {
     return this.db!;
   }
 
+  /**
+   * Run `work` in a transaction. Database calls made from inside it join the
+   * same transaction instead of opening their own, so a multi-step edit
+   * commits or rolls back as a whole.
+   */
+  async transaction(work: () => Promise<void>): Promise<void> {
+    const db = await this.getDb();
+    if (this.transactionDepth > 0) {
+      await work();
+      return;
+    }
+
+    this.transactionDepth++;
+    try {
+      await db.withTransactionAsync(work);
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
   // ===== TRIPS CRUD =====
 
   async createTrip(trip: Partial<Trip>): Promise<void> {
@@ -283,6 +364,16 @@ class Database {
     return results;
   }
 
+  /**
+   * All trips that exist on the backend, including hidden (visible = 0) ones.
+   */
+  async getSyncedTrips(): Promise<Trip[]> {
+    const db = await this.getDb();
+    return await db.getAllAsync<Trip>(
+      'SELECT * FROM trips WHERE synced = 1 AND backend_id IS NOT NULL'
+    );
+  }
+
   async getActiveTrip(): Promise<Trip | null> {
     const db = await this.getDb();
     const result = await db.getFirstAsync<Trip>(
@@ -317,6 +408,34 @@ class Database {
     );
   }
 
+  async addLocations(locations: LocationPoint[]): Promise<void> {
+    if (locations.length === 0) return;
+    const db = await this.getDb();
+    await this.transaction(async () => {
+      for (const location of locations) {
+        await db.runAsync(
+          `INSERT INTO locations
+           (trip_id, latitude, longitude, altitude, accuracy, speed, heading,
+            timestamp, activity_type, activity_confidence, synced)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            location.trip_id,
+            location.latitude,
+            location.longitude,
+            location.altitude,
+            location.accuracy,
+            location.speed,
+            location.heading,
+            location.timestamp,
+            location.activity_type,
+            location.activity_confidence,
+            location.synced || 0,
+          ]
+        );
+      }
+    });
+  }
+
   async getLocationsByTrip(tripId: string): Promise<LocationPoint[]> {
     const db = await this.getDb();
     const results = await db.getAllAsync<LocationPoint>(
@@ -381,15 +500,16 @@ class Database {
 
   // ===== SYNC QUEUE =====
 
-  async addToSyncQueue(type: string, data: any): Promise<void> {
+  async addToSyncQueue(type: string, data: any): Promise<number> {
     const db = await this.getDb();
     const now = Date.now();
 
-    await db.runAsync(
+    const result = await db.runAsync(
       `INSERT INTO sync_queue (type, data, retry_count, created_at, last_attempt)
        VALUES (?, ?, 0, ?, NULL)`,
       [type, JSON.stringify(data), now]
     );
+    return result.lastInsertRowId;
   }
 
   async getSyncQueue(): Promise<SyncQueueItem[]> {
@@ -400,18 +520,90 @@ class Database {
     return results;
   }
 
+  async getSyncQueueItem(id: number): Promise<SyncQueueItem | null> {
+    const db = await this.getDb();
+    return await db.getFirstAsync<SyncQueueItem>('SELECT * FROM sync_queue WHERE id = ?', [id]);
+  }
+
+  /**
+   * Pending items whose backoff has elapsed, oldest first.
+   */
+  async getDueSyncQueueItems(now: number = Date.now()): Promise<SyncQueueItem[]> {
+    const db = await this.getDb();
+    return await db.getAllAsync<SyncQueueItem>(
+      `SELECT * FROM sync_queue
+       WHERE status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+       ORDER BY created_at ASC`,
+      [now]
+    );
+  }
+
+  async findPendingSyncQueueItem(type: string, data: any): Promise<SyncQueueItem | null> {
+    const db = await this.getDb();
+    return await db.getFirstAsync<SyncQueueItem>(
+      "SELECT * FROM sync_queue WHERE type = ? AND data = ? AND status = 'pending'",
+      [type, JSON.stringify(data)]
+    );
+  }
+
+  /**
+   * Replace the data of an item still waiting to be sent. Returns false when
+   * it is no longer pending (sent, or dead-lettered).
+   */
+  async updatePendingSyncQueueData(id: number, type: string, data: any): Promise<boolean> {
+    const db = await this.getDb();
+    const result = await db.runAsync(
+      "UPDATE sync_queue SET data = ? WHERE id = ? AND type = ? AND status = 'pending'",
+      [JSON.stringify(data), id, type]
+    );
+    return result.changes > 0;
+  }
+
   async removeSyncQueueItem(id: number): Promise<void> {
     const db = await this.getDb();
     await db.runAsync('DELETE FROM sync_queue WHERE id = ?', [id]);
   }
 
-  async updateSyncQueueRetry(id: number): Promise<void> {
+  async updateSyncQueueRetry(
+    id: number,
+    nextAttemptAt: number | null = null,
+    error: string | null = null
+  ): Promise<void> {
     const db = await this.getDb();
     const now = Date.now();
 
     await db.runAsync(
-      'UPDATE sync_queue SET retry_count = retry_count + 1, last_attempt = ? WHERE id = ?',
-      [now, id]
+      `UPDATE sync_queue
+       SET retry_count = retry_count + 1, last_attempt = ?, next_attempt_at = ?, last_error = ?
+       WHERE id = ?`,
+      [now, nextAttemptAt, error, id]
+    );
+  }
+
+  /**
+   * Move an item to the dead-letter state. It stays visible to the user
+   * but is no longer picked up by getDueSyncQueueItems.
+   */
+  async markSyncQueueItemDead(id: number, error: string | null): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      `UPDATE sync_queue
+       SET status = 'dead', retry_count = retry_count + 1, last_attempt = ?, next_attempt_at = NULL, last_error = ?
+       WHERE id = ?`,
+      [Date.now(), error, id]
+    );
+  }
+
+  /**
+   * Return an item (usually a dead-lettered one) to the queue with a fresh retry budget.
+   */
+  async resetSyncQueueItem(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      `UPDATE sync_queue
+       SET status = 'pending', retry_count = 0, next_attempt_at = NULL, last_error = NULL
+       WHERE id = ?`,
+      [id]
     );
   }
 
@@ -420,20 +612,80 @@ class Database {
   async createRating(rating: Partial<RouteRating>): Promise<void> {
     const db = await this.getDb();
     const now = Date.now();
+    const version = rating.version || 1;
+
+    await this.transaction(async () => {
+      await db.runAsync(
+        `INSERT INTO route_ratings
+         (trip_id, segments, rated_at, synced, backend_id, version, route_data, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rating.trip_id!,
+          rating.segments!,
+          rating.rated_at || now,
+          rating.synced || 0,
+          rating.backend_id || null,
+          version,
+          rating.route_data ?? null,
+          rating.created_at || now,
+          rating.updated_at || now,
+        ]
+      );
+      await db.runAsync(
+        `INSERT OR REPLACE INTO route_rating_versions (trip_id, version, segments, rated_at)
+         VALUES (?, ?, ?, ?)`,
+        [rating.trip_id!, version, rating.segments!, rating.rated_at || now]
+      );
+    });
+  }
 
-    await db.runAsync(
-      `INSERT INTO route_ratings
-       (trip_id, segments, rated_at, synced, backend_id, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [
-        rating.trip_id!,
-        rating.segments!,
-        rating.rated_at || now,
-        rating.synced || 0,
-        rating.backend_id || null,
-        rating.created_at || now,
-        rating.updated_at || now,
-      ]
+  /**
+   * Save a new painting for a trip (or place), keeping the previous ones.
+   * The first save creates the rating; later saves bump its version and mark
+   * it unsynced so the edit is submitted as superseding the last one.
+   * @param routeData - JSON route the segment indices point into, if known
+   * @returns The version just saved
+   */
+  async reviseRating(
+    tripId: string,
+    segments: string,
+    ratedAt: number = Date.now(),
+    routeData: string | null = null
+  ): Promise<number> {
+    const db = await this.getDb();
+    let version = 1;
+    await this.transaction(async () => {
+      // The version is bumped by the UPDATE itself, so saves running together each get their own
+      const revised = await db.getFirstAsync<{ version: number }>(
+        `UPDATE route_ratings
+         SET segments = ?, rated_at = ?, synced = 0, version = version + 1, route_data = COALESCE(?, route_data), updated_at = ?
+         WHERE trip_id = ?
+         RETURNING version`,
+        [segments, ratedAt, routeData, Date.now(), tripId]
+      );
+      if (!revised) {
+        await this.createRating({ trip_id: tripId, segments, rated_at: ratedAt, synced: 0, route_data: routeData });
+        return;
+      }
+
+      version = revised.version;
+      await db.runAsync(
+        `INSERT OR REPLACE INTO route_rating_versions (trip_id, version, segments, rated_at)
+         VALUES (?, ?, ?, ?)`,
+        [tripId, version, segments, ratedAt]
+      );
+    });
+    return version;
+  }
+
+  /**
+   * Every saved painting of a rating, newest first
+   */
+  async getRatingVersions(tripId: string): Promise<RouteRatingVersion[]> {
+    const db = await this.getDb();
+    return db.getAllAsync<RouteRatingVersion>(
+      'SELECT trip_id, version, segments, rated_at FROM route_rating_versions WHERE trip_id = ? ORDER BY version DESC',
+      [tripId]
     );
   }
 
@@ -474,6 +726,7 @@ class Database {
   async deleteRating(tripId: string): Promise<void> {
     const db = await this.getDb();
     await db.runAsync('DELETE FROM route_ratings WHERE trip_id = ?', [tripId]);
+    await db.runAsync('DELETE FROM route_rating_versions WHERE trip_id = ?', [tripId]);
   }
 
   async getUnratedTrips(): Promise<Trip[]> {
@@ -512,11 +765,16 @@ class Database {
     return results;
   }
 
-  async markRatingSynced(tripId: string, backendId: number): Promise<void> {
+  /**
+   * Mark a rating synced once `version` of it was accepted. Does nothing when
+   * it has been edited since, so the newer version still goes out.
+   */
+  async markRatingSynced(tripId: string, version: number, backendId?: number): Promise<void> {
     const db = await this.getDb();
     await db.runAsync(
-      'UPDATE route_ratings SET synced = 1, backend_id = ?, updated_at = ? WHERE trip_id = ?',
-      [backendId, Date.now(), tripId]
+      `UPDATE route_ratings SET synced = 1, backend_id = COALESCE(?, backend_id), updated_at = ?
+       WHERE trip_id = ? AND version = ?`,
+      [backendId ?? null, Date.now(), tripId, version]
     );
   }
 
@@ -529,12 +787,15 @@ class Database {
     return (result?.count || 0) > 0;
   }
 
+  /**
+   * Ratings of trips; place ratings share the table but are left out
+   */
   async getAllRatings(): Promise<RouteRating[]> {
     const db = await this.getDb();
     const results = await db.getAllAsync<RouteRating>(
       'SELECT * FROM route_ratings ORDER BY rated_at DESC'
     );
-    return results;
+    return results.filter((rating) => !isPlaceRatingKey(rating.trip_id));
   }
 
   // ===== ACTIVITY WINDOWS (ML classifications) =====
@@ -659,6 +920,156 @@ class Database {
     );
   }
 
+  // ===== TRIP SEGMENTS =====
+
+  /**
+   * Replace a trip's segment breakdown. Rows are renumbered in the given order.
+   */
+  async replaceTripSegments(tripId: string, segments: Omit<TripModeSegment, 'id' | 'trip_id' | 'seq'>[]): Promise<void> {
+    const db = await this.getDb();
+    await this.transaction(async () => {
+      await db.runAsync('DELETE FROM trip_segments WHERE trip_id = ?', [tripId]);
+      for (const [seq, seg] of segments.entries()) {
+        await db.runAsync(
+          `INSERT INTO trip_segments (trip_id, seq, type, detected_type, t_start, t_end, distance, duration, avg_speed, max_speed, confidence)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [tripId, seq, seg.type, seg.detected_type, seg.t_start, seg.t_end, seg.distance, seg.duration, seg.avg_speed, seg.max_speed, seg.confidence]
+        );
+      }
+    });
+  }
+
+  async getTripSegments(tripId: string): Promise<TripModeSegment[]> {
+    const db = await this.getDb();
+    return await db.getAllAsync<TripModeSegment>(
+      'SELECT * FROM trip_segments WHERE trip_id = ? ORDER BY seq ASC',
+      [tripId]
+    );
+  }
+
+  async updateTripSegmentType(id: number, type: TripModeSegment['type']): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('UPDATE trip_segments SET type = ? WHERE id = ?', [type, id]);
+  }
+
+  // ===== HEATMAP CELLS =====
+
+  /**
+   * Replace a trip's heatmap cells
+   */
+  async replaceHeatmapCells(tripId: string, cells: HeatmapCellRow[]): Promise<void> {
+    const db = await this.getDb();
+    await this.transaction(async () => {
+      await db.runAsync('DELETE FROM heatmap_cells WHERE trip_id = ?', [tripId]);
+      for (const cell of cells) {
+        await db.runAsync(
+          'INSERT INTO heatmap_cells (trip_id, cell_lat, cell_lng, hits) VALUES (?, ?, ?, ?)',
+          [tripId, cell.cell_lat, cell.cell_lng, cell.hits]
+        );
+      }
+    });
+  }
+
+  async deleteHeatmapCells(tripId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM heatmap_cells WHERE trip_id = ?', [tripId]);
+  }
+
+  /**
+   * Completed trips whose track has not been binned into heatmap cells yet
+   */
+  async getTripIdsWithoutHeatmapCells(): Promise<string[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<{ id: string }>(
+      `SELECT t.id FROM trips t
+       WHERE t.status = 'completed'
+         AND NOT EXISTS (SELECT 1 FROM heatmap_cells c WHERE c.trip_id = t.id)
+         AND EXISTS (SELECT 1 FROM locations l WHERE l.trip_id = t.id)`
+    );
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Number of visible completed trips through each cell in the given range
+   */
+  async getHeatmapCellTrips(filters: HeatmapCellFilters): Promise<{ cell_lat: number; cell_lng: number; trips: number }[]> {
+    const db = await this.getDb();
+    const { where, params } = heatmapCellWhere(filters);
+    return await db.getAllAsync(
+      `SELECT c.cell_lat, c.cell_lng, COUNT(*) AS trips
+       FROM heatmap_cells c JOIN trips t ON t.id = c.trip_id
+       WHERE ${where}
+       GROUP BY c.cell_lat, c.cell_lng`,
+      params
+    );
+  }
+
+  /**
+   * Number of trips and their time span behind getHeatmapCellTrips
+   */
+  async getHeatmapTripSummary(
+    filters: HeatmapCellFilters
+  ): Promise<{ trips: number; first_start: number | null; last_start: number | null }> {
+    const db = await this.getDb();
+    const { where, params } = heatmapCellWhere(filters);
+    const row = await db.getFirstAsync<{ trips: number; first_start: number | null; last_start: number | null }>(
+      `SELECT COUNT(DISTINCT t.id) AS trips, MIN(t.start_time) AS first_start, MAX(t.start_time) AS last_start
+       FROM heatmap_cells c JOIN trips t ON t.id = c.trip_id
+       WHERE ${where}`,
+      params
+    );
+    return row ?? { trips: 0, first_start: null, last_start: null };
+  }
+
+  // ===== SIMPLIFIED ROUTES =====
+
+  async replaceSimplifiedRoute(tripId: string, coordinates: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'INSERT OR REPLACE INTO simplified_routes (trip_id, coordinates) VALUES (?, ?)',
+      [tripId, coordinates]
+    );
+  }
+
+  async deleteSimplifiedRoute(tripId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM simplified_routes WHERE trip_id = ?', [tripId]);
+  }
+
+  /**
+   * Completed trips with a route or locations that have no simplified route yet
+   */
+  async getTripIdsWithoutSimplifiedRoute(): Promise<string[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<{ id: string }>(
+      `SELECT t.id FROM trips t
+       WHERE t.status = 'completed'
+         AND NOT EXISTS (SELECT 1 FROM simplified_routes r WHERE r.trip_id = t.id)
+         AND ((t.route_data IS NOT NULL AND t.route_data != '[]')
+           OR EXISTS (SELECT 1 FROM locations l WHERE l.trip_id = t.id))`
+    );
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Simplified routes of visible completed trips, oldest first, with what
+   * the map colours them by
+   */
+  async getSimplifiedRoutes(): Promise<SimplifiedRouteRow[]> {
+    const db = await this.getDb();
+    return await db.getAllAsync<SimplifiedRouteRow>(
+      `SELECT t.id AS trip_id, t.backend_id, t.type, t.start_time,
+              COALESCE(t.moving_avg_speed_kmh, t.avg_speed) AS avg_speed,
+              r.coordinates,
+              (SELECT rr.segments FROM route_ratings rr
+               WHERE rr.trip_id = t.id ORDER BY rr.updated_at DESC LIMIT 1) AS rating_segments
+       FROM simplified_routes r
+       JOIN trips t ON t.id = r.trip_id
+       WHERE t.status = 'completed' AND (t.visible = 1 OR t.visible IS NULL)
+       ORDER BY t.start_time`
+    );
+  }
+
   // ===== STAGING LOCATIONS =====
 
   async insertStagingLocation(loc: StagingLocation): Promise<void> {
@@ -687,7 +1098,7 @@ class Database {
   async insertClassifierDisagreements(rows: ClassifierDisagreement[]): Promise<void> {
     if (rows.length === 0) return;
     const db = await this.getDb();
-    await db.withTransactionAsync(async () => {
+    await this.transaction(async () => {
       for (const r of rows) {
         await db.runAsync(
           `INSERT INTO classifier_disagreements (trip_id, t, xgb_label, cmma_label, xgb_conf) VALUES (?, ?, ?, ?, ?)`,
@@ -705,6 +1116,30 @@ class Database {
     );
   }
 
+  // ===== TRIP EDITS (merge / split) =====
+
+  async moveAllTripData(fromTripId: string, toTripId: string): Promise<void> {
+    const db = await this.getDb();
+    await this.transaction(() => moveAllTripData(db, fromTripId, toTripId));
+  }
+
+  async moveTripDataAfter(fromTripId: string, toTripId: string, timestamp: number): Promise<void> {
+    const db = await this.getDb();
+    await this.transaction(() => moveTripDataAfter(db, fromTripId, toTripId, timestamp));
+  }
+
+  // ===== BACKUP =====
+
+  async createBackup(): Promise<DatabaseBackup> {
+    const db = await this.getDb();
+    return await createBackup(db);
+  }
+
+  async restoreBackup(backup: DatabaseBackup): Promise<RestoreResult> {
+    const db = await this.getDb();
+    return await restoreBackup(db, backup);
+  }
+
   // ===== UTILITY =====
 
   async clearAllData(): Promise<void> {
@@ -713,9 +1148,13 @@ class Database {
     await db.execAsync('DELETE FROM locations');
     await db.execAsync('DELETE FROM sync_queue');
     await db.execAsync('DELETE FROM route_ratings');
+    await db.execAsync('DELETE FROM route_rating_versions');
     await db.execAsync('DELETE FROM activity_windows');
     await db.execAsync('DELETE FROM sensor_batches');
     await db.execAsync('DELETE FROM motion_segments');
+    await db.execAsync('DELETE FROM trip_segments');
+    await db.execAsync('DELETE FROM heatmap_cells');
+    await db.execAsync('DELETE FROM simplified_routes');
     await db.execAsync('DELETE FROM staging_locations');
     await db.execAsync('DELETE FROM classifier_disagreements');
     console.log('[Database] All data cleared');
@@ -768,5 +1207,30 @@ class Database {
   }
 }
 
+function heatmapCellWhere(filters: HeatmapCellFilters): { where: string; params: (string | number)[] } {
+  const clauses = [
+    "t.status = 'completed'",
+    '(t.visible = 1 OR t.visible IS NULL)',
+    'c.cell_lat BETWEEN ? AND ?',
+    'c.cell_lng BETWEEN ? AND ?',
+  ];
+  const params: (string | number)[] = [filters.minCellLat, filters.maxCellLat, filters.minCellLng, filters.maxCellLng];
+
+  if (filters.type) {
+    clauses.push('t.type = ?');
+    params.push(filters.type);
+  }
+  if (filters.startDate) {
+    clauses.push('t.start_time >= ?');
+    params.push(filters.startDate);
+  }
+  if (filters.endDate) {
+    clauses.push('t.start_time <= ?');
+    params.push(filters.endDate);
+  }
+
+  return { where: clauses.join(' AND '), params };
+}
+
 // Export singleton instance
 export const database = new Database();
@@ -10,12 +10,20 @@ export type {
   LocationPoint,
   Setting,
   SyncQueueItem,
+  SyncQueueStatus,
   TripFilters,
   ActivityWindow,
   MotionSegment,
+  TripModeSegment,
   StagingLocation,
   ClassifierDisagreement,
+  HeatmapCellRow,
+  HeatmapCellFilters,
+  SimplifiedRouteRow,
+  RouteRatingVersion,
 } from './db';
 
-export { initializeDatabase, DB_NAME, DB_VERSION, SCHEMA, INDEXES } from './schema';
+export { initializeDatabase, DatabaseTooNewError, DB_NAME, DB_VERSION, SCHEMA, INDEXES } from './schema';
+export { parseBackup, BackupTooNewError, BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from './backup';
+export type { DatabaseBackup, RestoreResult } from './backup';
 export { testDatabase } from './test-db';
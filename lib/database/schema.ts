@@ -1,7 +1,7 @@
 import * as SQLite from 'expo-sqlite';
 
 export const DB_NAME = 'radzi.db';
-export const DB_VERSION = 11;
+export const DB_VERSION = 18;
 
 export const SCHEMA = {
   trips: `
@@ -140,6 +140,67 @@ export const SCHEMA = {
     )
   `,
 
+  // Per-mode breakdown of a trip, built from motion_segments by
+  // MotionActivitySegmenter when the trip is finalized. `type` is what the
+  // user sees and may be relabelled; `detected_type` keeps the original label.
+  trip_segments: `
+    CREATE TABLE IF NOT EXISTS trip_segments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trip_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      detected_type TEXT NOT NULL,
+      t_start INTEGER NOT NULL,
+      t_end INTEGER NOT NULL,
+      distance REAL NOT NULL,
+      duration REAL NOT NULL,
+      avg_speed REAL NOT NULL,
+      max_speed REAL NOT NULL,
+      confidence INTEGER NOT NULL,
+      FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+    )
+  `,
+
+  // Personal heatmap cache: how many fixes of each trip fall in each grid
+  // cell (see lib/utils/heatmapGrid.ts). Derived from locations by
+  // HeatmapService when a trip is finalized; rows are dropped whenever a
+  // trip's locations move so the trip is re-binned on the next read.
+  heatmap_cells: `
+    CREATE TABLE IF NOT EXISTS heatmap_cells (
+      trip_id TEXT NOT NULL,
+      cell_lat INTEGER NOT NULL,
+      cell_lng INTEGER NOT NULL,
+      hits INTEGER NOT NULL,
+      PRIMARY KEY (trip_id, cell_lat, cell_lng),
+      FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+    )
+  `,
+
+  // "My routes" map layer cache: each completed trip's route simplified to
+  // a few dozen [lng, lat] pairs (JSON) so hundreds of trips draw at once.
+  // Written by RouteHistoryService when a trip is finalized; rows are
+  // dropped whenever a trip's locations move so the route is rebuilt.
+  simplified_routes: `
+    CREATE TABLE IF NOT EXISTS simplified_routes (
+      trip_id TEXT PRIMARY KEY NOT NULL,
+      coordinates TEXT NOT NULL,
+      FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+    )
+  `,
+
+  // Every saved painting of a rating, oldest first. route_ratings holds the
+  // current one; its version column points at the newest row here.
+  route_rating_versions: `
+    CREATE TABLE IF NOT EXISTS route_rating_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trip_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      segments TEXT NOT NULL,
+      rated_at INTEGER NOT NULL,
+      UNIQUE (trip_id, version)
+    )
+  `,
+
   // DORMANT — DATA COLLECTION ONLY.
   // Populated by ShadowClassifierLogger.ts after each trip ends. Records
   // windows where XGBoost and CMMA disagree. Used for offline model evaluation.
@@ -171,20 +232,55 @@ export const INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_motion_segments_trip ON motion_segments(trip_id)',
   'CREATE INDEX IF NOT EXISTS idx_staging_id ON staging_locations(staging_id)',
   'CREATE INDEX IF NOT EXISTS idx_disagreements_trip ON classifier_disagreements(trip_id)',
+  'CREATE INDEX IF NOT EXISTS idx_trip_segments_trip ON trip_segments(trip_id, seq)',
+  'CREATE INDEX IF NOT EXISTS idx_heatmap_cells_cell ON heatmap_cells(cell_lat, cell_lng)',
 ];
 
 export async function initializeDatabase(): Promise<SQLite.SQLiteDatabase> {
   const db = await SQLite.openDatabaseAsync(DB_NAME);
 
-  // Enable foreign keys
+  // Enable foreign keys and WAL mode
   await db.execAsync('PRAGMA foreign_keys = ON');
   await db.execAsync('PRAGMA journal_mode = WAL');
 
-  // Check current version
+  await migrateDatabase(db);
+
+  // Create indexes
+  for (const indexSQL of INDEXES) {
+    await db.execAsync(indexSQL);
+  }
+  console.log(`[Database] Created ${INDEXES.length} indexes`);
+
+  console.log('[Database] Initialized successfully');
+  return db;
+}
+
+/** The database was written by a newer build of the app; only an app update can open it. */
+export class DatabaseTooNewError extends Error {
+  constructor(public readonly version: number) {
+    super(`Database schema v${version} is newer than this app supports (v${DB_VERSION}). Please update the app.`);
+    this.name = 'DatabaseTooNewError';
+  }
+}
+
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
   const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
-  const currentVersion = result?.user_version || 0;
+  return result?.user_version || 0;
+}
+
+/**
+ * Bring an opened database up to DB_VERSION.
+ * Throws DatabaseTooNewError if the database was written by a newer build of the app (a downgrade);
+ * it is left untouched so that build can still open it.
+ */
+export async function migrateDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
+  const currentVersion = await getSchemaVersion(db);
   console.log(`[Database] Current version: ${currentVersion}, Target version: ${DB_VERSION}`);
 
+  if (currentVersion > DB_VERSION) {
+    throw new DatabaseTooNewError(currentVersion);
+  }
+
   // Create tables
   for (const [tableName, createSQL] of Object.entries(SCHEMA)) {
     await db.execAsync(createSQL);
@@ -195,18 +291,6 @@ export async function initializeDatabase(): Promise<SQLite.SQLiteDatabase> {
   if (currentVersion < DB_VERSION) {
     await runMigrations(db, currentVersion, DB_VERSION);
   }
-
-  // Create indexes
-  for (const indexSQL of INDEXES) {
-    await db.execAsync(indexSQL);
-  }
-  console.log(`[Database] Created ${INDEXES.length} indexes`);
-
-  // Set version
-  await db.execAsync(`PRAGMA user_version = ${DB_VERSION}`);
-
-  console.log('[Database] Initialized successfully');
-  return db;
 }
 
 export async function runMigrationsUpTo(db: SQLite.SQLiteDatabase, maxVersion: number): Promise<void> {
@@ -217,43 +301,91 @@ export async function runMigrationsUpTo(db: SQLite.SQLiteDatabase, maxVersion: n
   await runMigrations(db, 0, maxVersion);
 }
 
+/**
+ * Apply every registered migration with from < version <= to, in order.
+ *
+ * Each step runs in its own transaction together with the PRAGMA user_version
+ * bump, so a failed step rolls back cleanly and the recorded version is always
+ * the last step that fully succeeded. The error is rethrown; later steps are
+ * not attempted.
+ */
 export async function runMigrations(db: SQLite.SQLiteDatabase, from: number, to: number): Promise<void> {
   console.log(`[Database] Running migrations from version ${from} to ${to}`);
 
-  // Migration from version 1 to 2: Add backend_id column
-  if (from < 2 && to >= 2) {
-    console.log('[Database] Migration 1->2: Adding backend_id column to trips table');
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from || migration.version > to) continue;
+
+    const label = `Migration ${migration.version - 1}->${migration.version}`;
+    console.log(`[Database] ${label}: ${migration.description}`);
     try {
-      await db.execAsync('ALTER TABLE trips ADD COLUMN backend_id INTEGER');
-      console.log('[Database] Migration 1->2: Successfully added backend_id column');
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
     } catch (error) {
-      // Column might already exist if migration was partially run
-      console.log('[Database] Migration 1->2: backend_id column may already exist', error);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Database] ${label} failed, rolled back:`, message);
+      throw new Error(`${label} (${migration.description}) failed: ${message}`);
     }
   }
 
-  // Migration from version 2 to 3: Add route_ratings table
-  if (from < 3 && to >= 3) {
-    console.log('[Database] Migration 2->3: Creating route_ratings table');
-    try {
+  console.log('[Database] Migrations completed');
+}
+
+export interface Migration {
+  version: number; // user_version once this step has been applied
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+async function hasColumn(db: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> {
+  const rows = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return rows.some((r) => r.name === column);
+}
+
+/**
+ * ALTER TABLE ... ADD COLUMN, skipped when the column is already there
+ * (fresh installs get some columns from SCHEMA directly).
+ */
+async function addColumn(
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (await hasColumn(db, table, column)) return;
+  await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Ordered, contiguous from v2 to DB_VERSION. Every step must be safe to run
+// against a database created from the current SCHEMA (fresh installs replay
+// the whole list), so use addColumn / IF NOT EXISTS rather than bare DDL.
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: 'Add backend_id column to trips',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'backend_id', 'INTEGER');
+    },
+  },
+  {
+    version: 3,
+    description: 'Create route_ratings table',
+    up: async (db) => {
       await db.execAsync(SCHEMA.route_ratings);
       await db.execAsync('CREATE INDEX IF NOT EXISTS idx_rating_trip ON route_ratings(trip_id)');
       await db.execAsync('CREATE INDEX IF NOT EXISTS idx_rating_synced ON route_ratings(synced)');
-      console.log('[Database] Migration 2->3: Successfully created route_ratings table');
-    } catch (error) {
-      // Table might already exist if migration was partially run
-      console.log('[Database] Migration 2->3: route_ratings table may already exist', error);
-    }
-  }
-
-  // Migration from version 3 to 4: Remove FOREIGN KEY constraint from route_ratings
-  // This allows ratings for backend-only trips that don't exist in local trips table
-  if (from < 4 && to >= 4) {
-    console.log('[Database] Migration 3->4: Removing FOREIGN KEY constraint from route_ratings');
-    try {
-      // SQLite doesn't support dropping constraints, so we recreate the table
+    },
+  },
+  {
+    // Allows ratings for backend-only trips that don't exist in the local trips table.
+    // SQLite can't drop a constraint, so the table is rebuilt.
+    version: 4,
+    description: 'Remove FOREIGN KEY constraint from route_ratings',
+    up: async (db) => {
+      await db.execAsync('DROP TABLE IF EXISTS route_ratings_new');
       await db.execAsync(`
-        CREATE TABLE IF NOT EXISTS route_ratings_new (
+        CREATE TABLE route_ratings_new (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           trip_id TEXT NOT NULL,
           segments TEXT NOT NULL,
@@ -264,42 +396,26 @@ export async function runMigrations(db: SQLite.SQLiteDatabase, from: number, to:
           updated_at INTEGER NOT NULL
         )
       `);
-      // Copy existing data
       await db.execAsync(`
         INSERT INTO route_ratings_new (id, trip_id, segments, rated_at, synced, backend_id, created_at, updated_at)
         SELECT id, trip_id, segments, rated_at, synced, backend_id, created_at, updated_at
         FROM route_ratings
       `);
-      // Drop old table and rename new one
       await db.execAsync('DROP TABLE route_ratings');
       await db.execAsync('ALTER TABLE route_ratings_new RENAME TO route_ratings');
-      // Recreate indexes
       await db.execAsync('CREATE INDEX IF NOT EXISTS idx_rating_trip ON route_ratings(trip_id)');
       await db.execAsync('CREATE INDEX IF NOT EXISTS idx_rating_synced ON route_ratings(synced)');
-      console.log('[Database] Migration 3->4: Successfully removed FOREIGN KEY constraint');
-    } catch (error) {
-      console.log('[Database] Migration 3->4: Error during migration', error);
-    }
-  }
-
-  // Migration from version 4 to 5: Add activity_windows + sensor_batches tables,
-  // and ML classification columns on trips.
-  if (from < 5 && to >= 5) {
-    console.log('[Database] Migration 4->5: Adding activity_windows + sensor_batches + ML columns');
-    try {
+    },
+  },
+  {
+    version: 5,
+    description: 'Add activity_windows + sensor_batches tables and ML columns on trips',
+    up: async (db) => {
       await db.execAsync(SCHEMA.activity_windows);
       await db.execAsync(SCHEMA.sensor_batches);
-      for (const stmt of [
-        'ALTER TABLE trips ADD COLUMN ml_activity_type TEXT',
-        'ALTER TABLE trips ADD COLUMN ml_confidence REAL',
-        "ALTER TABLE trips ADD COLUMN classification_method TEXT DEFAULT 'speed'",
-      ]) {
-        try {
-          await db.execAsync(stmt);
-        } catch (err) {
-          console.log(`[Database] Migration 4->5: ALTER skipped (likely exists): ${stmt}`);
-        }
-      }
+      await addColumn(db, 'trips', 'ml_activity_type', 'TEXT');
+      await addColumn(db, 'trips', 'ml_confidence', 'REAL');
+      await addColumn(db, 'trips', 'classification_method', "TEXT DEFAULT 'speed'");
       await db.execAsync(
         'CREATE INDEX IF NOT EXISTS idx_activity_windows_trip ON activity_windows(trip_id, t_start)'
       );
@@ -309,80 +425,56 @@ export async function runMigrations(db: SQLite.SQLiteDatabase, from: number, to:
       await db.execAsync(
         'CREATE INDEX IF NOT EXISTS idx_sensor_batches_synced ON sensor_batches(synced)'
       );
-      console.log('[Database] Migration 4->5: Tables created');
-    } catch (error) {
-      console.log('[Database] Migration 4->5: Error (may already exist)', error);
-    }
-  }
-
-  // Migration from version 5 to 6: Add native engine columns, new motion/staging/disagreement tables
-  if (from < 6 && to >= 6) {
-    console.log('[Database] Migration 5->6: Adding native engine columns and new tables');
-
-    // Idempotent ALTER TABLE statements (wrapped in try/catch for duplicate column errors)
-    for (const stmt of [
-      "ALTER TABLE trips ADD COLUMN engine TEXT DEFAULT 'legacy'",
-      'ALTER TABLE trips ADD COLUMN backfill_start INTEGER',
-      'ALTER TABLE trips ADD COLUMN detection_state TEXT',
-      "ALTER TABLE locations ADD COLUMN gps_accuracy_mode TEXT DEFAULT 'best'",
-    ]) {
-      try {
-        await db.execAsync(stmt);
-      } catch (err) {
-        console.log(`[Database] Migration 5->6: ALTER skipped (likely exists): ${stmt}`);
-      }
-    }
-
-    // New tables
-    await db.execAsync(SCHEMA.motion_segments);
-    await db.execAsync(
-      'CREATE INDEX IF NOT EXISTS idx_motion_segments_trip ON motion_segments(trip_id)'
-    );
-
-    await db.execAsync(SCHEMA.staging_locations);
-    await db.execAsync(
-      'CREATE INDEX IF NOT EXISTS idx_staging_id ON staging_locations(staging_id)'
-    );
-
-    await db.execAsync(SCHEMA.classifier_disagreements);
-    await db.execAsync(
-      'CREATE INDEX IF NOT EXISTS idx_disagreements_trip ON classifier_disagreements(trip_id)'
-    );
-
-    // Backfill existing trips as legacy (no-op since DEFAULT 'legacy' already sets them)
-    await db.execAsync("UPDATE trips SET engine = 'legacy' WHERE engine IS NULL OR engine = ''");
+    },
+  },
+  {
+    version: 6,
+    description: 'Add native engine columns and motion/staging/disagreement tables',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'engine', "TEXT DEFAULT 'legacy'");
+      await addColumn(db, 'trips', 'backfill_start', 'INTEGER');
+      await addColumn(db, 'trips', 'detection_state', 'TEXT');
+      await addColumn(db, 'locations', 'gps_accuracy_mode', "TEXT DEFAULT 'best'");
+
+      await db.execAsync(SCHEMA.motion_segments);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_motion_segments_trip ON motion_segments(trip_id)'
+      );
 
-    console.log('[Database] Migration 5->6: Completed');
-  }
+      await db.execAsync(SCHEMA.staging_locations);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_staging_id ON staging_locations(staging_id)'
+      );
 
-  // Migration from version 6 to 7: Add user-edit, classification, and moving-stats columns
-  if (from < 7 && to >= 7) {
-    console.log('[Database] Migration 6->7: Adding user-edit and stats columns to trips');
-    for (const stmt of [
-      'ALTER TABLE trips ADD COLUMN user_note TEXT',
-      'ALTER TABLE trips ADD COLUMN validation_log TEXT',
-      'ALTER TABLE trips ADD COLUMN user_note_dirty INTEGER NOT NULL DEFAULT 0',
-      'ALTER TABLE trips ADD COLUMN type_dirty INTEGER NOT NULL DEFAULT 0',
-      'ALTER TABLE trips ADD COLUMN classification_source TEXT',
-      'ALTER TABLE trips ADD COLUMN moving_duration_s INTEGER',
-      'ALTER TABLE trips ADD COLUMN moving_avg_speed_kmh REAL',
-      'ALTER TABLE trips ADD COLUMN max_speed_filtered_kmh REAL',
-      'ALTER TABLE trips ADD COLUMN elevation_loss_m REAL',
-      'ALTER TABLE trips ADD COLUMN backend_avg_speed_kmh REAL',
-    ]) {
-      try {
-        await db.execAsync(stmt);
-      } catch (err) {
-        console.log(`[Database] Migration 6->7: ALTER skipped (likely exists): ${stmt}`);
-      }
-    }
-    console.log('[Database] Migration 6->7: Completed');
-  }
+      await db.execAsync(SCHEMA.classifier_disagreements);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_disagreements_trip ON classifier_disagreements(trip_id)'
+      );
 
-  // Migration from version 7 to 8: Add trip_altitude_samples and activity_history_snapshot tables
-  if (from < 8 && to >= 8) {
-    console.log('[Database] Migration 7->8: Adding altitude samples and activity history tables');
-    try {
+      // Backfill existing trips as legacy (no-op since DEFAULT 'legacy' already sets them)
+      await db.execAsync("UPDATE trips SET engine = 'legacy' WHERE engine IS NULL OR engine = ''");
+    },
+  },
+  {
+    version: 7,
+    description: 'Add user-edit, classification and moving-stats columns to trips',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'user_note', 'TEXT');
+      await addColumn(db, 'trips', 'validation_log', 'TEXT');
+      await addColumn(db, 'trips', 'user_note_dirty', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumn(db, 'trips', 'type_dirty', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumn(db, 'trips', 'classification_source', 'TEXT');
+      await addColumn(db, 'trips', 'moving_duration_s', 'INTEGER');
+      await addColumn(db, 'trips', 'moving_avg_speed_kmh', 'REAL');
+      await addColumn(db, 'trips', 'max_speed_filtered_kmh', 'REAL');
+      await addColumn(db, 'trips', 'elevation_loss_m', 'REAL');
+      await addColumn(db, 'trips', 'backend_avg_speed_kmh', 'REAL');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add trip_altitude_samples and activity_history_snapshot tables',
+    up: async (db) => {
       await db.execAsync(`
         CREATE TABLE IF NOT EXISTS trip_altitude_samples (
           trip_id TEXT NOT NULL,
@@ -403,16 +495,12 @@ export async function runMigrations(db: SQLite.SQLiteDatabase, from: number, to:
           PRIMARY KEY (trip_id, query_start)
         )
       `);
-      console.log('[Database] Migration 7->8: Completed');
-    } catch (error) {
-      console.log('[Database] Migration 7->8: Error (tables may already exist)', error);
-    }
-  }
-
-  // Migration from version 8 to 9: Backfill legacy notes into user_note / validation_log
-  if (from < 9 && to >= 9) {
-    console.log('[Database] Migration 8->9: Backfilling legacy notes');
-    try {
+    },
+  },
+  {
+    version: 9,
+    description: 'Backfill legacy notes into user_note / validation_log',
+    up: async (db) => {
       const AUTO_PATTERN = /^(Trip contains driving|Walk distance|Ride distance|Trip type)/;
       const rows = await db.getAllAsync<{ id: string; notes: string | null }>(
         `SELECT id, notes FROM trips WHERE notes IS NOT NULL AND user_note IS NULL AND validation_log IS NULL`
@@ -432,32 +520,82 @@ export async function runMigrations(db: SQLite.SQLiteDatabase, from: number, to:
         }
       }
       console.log(`[Database] Migration 8->9: Backfilled ${rows.length} rows`);
-    } catch (error) {
-      console.log('[Database] Migration 8->9: Error during backfill', error);
-    }
-  }
-
-  // Migration from version 9 to 10: Add visible column to trips (1=show, 0=hide transit)
-  if (from < 10 && to >= 10) {
-    console.log('[Database] Migration 9->10: Adding visible column to trips');
-    try {
-      await db.execAsync('ALTER TABLE trips ADD COLUMN visible INTEGER NOT NULL DEFAULT 1');
-    } catch (err) {
-      console.log('[Database] Migration 9->10: ALTER skipped (likely exists):', err);
-    }
-    console.log('[Database] Migration 9->10: Completed');
-  }
-
-  // Migration from version 10 to 11: Add step_count for pedometer cross-check
-  if (from < 11 && to >= 11) {
-    console.log('[Database] Migration 10->11: Adding step_count column to trips');
-    try {
-      await db.execAsync('ALTER TABLE trips ADD COLUMN step_count INTEGER');
-    } catch (err) {
-      console.log('[Database] Migration 10->11: ALTER skipped (likely exists):', err);
-    }
-    console.log('[Database] Migration 10->11: Completed');
-  }
-
-  console.log('[Database] Migrations completed');
-}
+    },
+  },
+  {
+    version: 10,
+    description: 'Add visible column to trips (1=show, 0=hide transit)',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'visible', 'INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+  {
+    version: 11,
+    description: 'Add step_count column to trips for pedometer cross-check',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'step_count', 'INTEGER');
+    },
+  },
+  {
+    version: 12,
+    description: 'Add outbox columns to sync_queue (backoff + dead-lettering)',
+    up: async (db) => {
+      await addColumn(db, 'sync_queue', 'next_attempt_at', 'INTEGER');
+      await addColumn(db, 'sync_queue', 'last_error', 'TEXT');
+      await addColumn(db, 'sync_queue', 'status', "TEXT NOT NULL DEFAULT 'pending'");
+    },
+  },
+  {
+    version: 13,
+    description: 'Create trip_segments table for per-mode trip breakdowns',
+    up: async (db) => {
+      await db.execAsync(SCHEMA.trip_segments);
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_trip_segments_trip ON trip_segments(trip_id, seq)');
+    },
+  },
+  {
+    version: 14,
+    description: 'Create heatmap_cells table for the personal heatmap',
+    up: async (db) => {
+      await db.execAsync(SCHEMA.heatmap_cells);
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_heatmap_cells_cell ON heatmap_cells(cell_lat, cell_lng)');
+    },
+  },
+  {
+    version: 15,
+    description: 'Create simplified_routes table for the my routes map layer',
+    up: async (db) => {
+      await db.execAsync(SCHEMA.simplified_routes);
+    },
+  },
+  {
+    // Existing ratings become version 1 of their history
+    version: 16,
+    description: 'Keep rating versions in route_rating_versions',
+    up: async (db) => {
+      await addColumn(db, 'route_ratings', 'version', 'INTEGER NOT NULL DEFAULT 1');
+      await db.execAsync(SCHEMA.route_rating_versions);
+      await db.execAsync(
+        `INSERT OR IGNORE INTO route_rating_versions (trip_id, version, segments, rated_at)
+         SELECT trip_id, version, segments, rated_at FROM route_ratings`
+      );
+    },
+  },
+  {
+    // Segment indices point into the route as rated (the backend's filtered,
+    // privacy-trimmed copy), not the local route_data; older ratings have none
+    version: 17,
+    description: 'Store the rated route with each rating',
+    up: async (db) => {
+      await addColumn(db, 'route_ratings', 'route_data', 'TEXT');
+    },
+  },
+  {
+    // Pulled trips keep the backend's verdict so lists can hide drift offline
+    version: 18,
+    description: 'Store backend trip validity',
+    up: async (db) => {
+      await addColumn(db, 'trips', 'is_valid', 'INTEGER');
+    },
+  },
+];
@@ -0,0 +1,78 @@
+/**
+ * Trip Edits
+ *
+ * Moves a trip's child rows (track points, motion segments, altitude
+ * samples) onto another trip. TripManager uses this to merge two adjacent
+ * trips and to split one trip at a timestamp. The moves do not open a
+ * transaction of their own: Database runs them inside the edit's
+ * transaction, so a failed merge or split never leaves a trip holding half
+ * of its track.
+ *
+ * Both trips' heatmap cells and simplified routes are dropped with the
+ * move; HeatmapService and RouteHistoryService rebuild them from the new
+ * locations the next time they are read. Route ratings of the edited trips
+ * are deleted with their history: their segment indices point into the old
+ * route, so the rider rates the new trip afresh. TripManager supersedes the
+ * backend's copy with an empty rating.
+ */
+
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * Move every child row of `fromTripId` onto `toTripId`.
+ */
+export async function moveAllTripData(
+  db: SQLite.SQLiteDatabase,
+  fromTripId: string,
+  toTripId: string
+): Promise<void> {
+  await db.runAsync('UPDATE locations SET trip_id = ? WHERE trip_id = ?', [toTripId, fromTripId]);
+  await db.runAsync('UPDATE motion_segments SET trip_id = ? WHERE trip_id = ?', [toTripId, fromTripId]);
+  // (trip_id, timestamp) is the primary key; a sample at the same instant already belongs to the target
+  await db.runAsync('UPDATE OR IGNORE trip_altitude_samples SET trip_id = ? WHERE trip_id = ?', [toTripId, fromTripId]);
+  await db.runAsync('DELETE FROM trip_altitude_samples WHERE trip_id = ?', [fromTripId]);
+  await db.runAsync('DELETE FROM heatmap_cells WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+  await db.runAsync('DELETE FROM simplified_routes WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+  await db.runAsync('DELETE FROM route_ratings WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+  await db.runAsync('DELETE FROM route_rating_versions WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+}
+
+/**
+ * Move the child rows of `fromTripId` recorded strictly after `timestamp`
+ * onto `toTripId`. A motion segment spanning the timestamp is cut in two,
+ * one half per trip.
+ */
+export async function moveTripDataAfter(
+  db: SQLite.SQLiteDatabase,
+  fromTripId: string,
+  toTripId: string,
+  timestamp: number
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE locations SET trip_id = ? WHERE trip_id = ? AND timestamp > ?',
+    [toTripId, fromTripId, timestamp]
+  );
+  await db.runAsync(
+    'UPDATE trip_altitude_samples SET trip_id = ? WHERE trip_id = ? AND timestamp > ?',
+    [toTripId, fromTripId, timestamp]
+  );
+
+  await db.runAsync(
+    `INSERT INTO motion_segments (trip_id, t_start, t_end, activity, confidence, source)
+     SELECT ?, ?, t_end, activity, confidence, source FROM motion_segments
+     WHERE trip_id = ? AND t_start < ? AND t_end > ?`,
+    [toTripId, timestamp, fromTripId, timestamp, timestamp]
+  );
+  await db.runAsync(
+    'UPDATE motion_segments SET t_end = ? WHERE trip_id = ? AND t_start < ? AND t_end > ?',
+    [timestamp, fromTripId, timestamp, timestamp]
+  );
+  await db.runAsync(
+    'UPDATE motion_segments SET trip_id = ? WHERE trip_id = ? AND t_start >= ?',
+    [toTripId, fromTripId, timestamp]
+  );
+  await db.runAsync('DELETE FROM heatmap_cells WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+  await db.runAsync('DELETE FROM simplified_routes WHERE trip_id IN (?, ?)', [fromTripId, toTripId]);
+  await db.runAsync('DELETE FROM route_ratings WHERE trip_id = ?', [fromTripId]);
+  await db.runAsync('DELETE FROM route_rating_versions WHERE trip_id = ?', [fromTripId]);
+}
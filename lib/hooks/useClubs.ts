@@ -4,6 +4,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { clubAPI } from '@/lib/api/clubs';
+import { outboxService } from '@/lib/services/OutboxService';
 import type { Club, ClubCreateRequest, ClubUpdateRequest, JoinRequest } from '@/types/feed';
 
 /**
@@ -129,13 +130,13 @@ export function useDeleteClub() {
 }
 
 /**
- * Hook to join a club
+ * Hook to join a club (queued through the outbox when offline)
  */
 export function useJoinClub() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: number) => clubAPI.joinClub(id),
+    mutationFn: (id: number) => outboxService.submit('club_join', { clubId: id, requestOnly: false }),
     onSuccess: (_, id) => {
       // Invalidate my clubs list (user is now a member)
       queryClient.invalidateQueries({ queryKey: clubKeys.myClubs() });
@@ -165,13 +166,13 @@ export function useLeaveClub() {
 }
 
 /**
- * Hook to request to join a private club
+ * Hook to request to join a private club (queued through the outbox when offline)
  */
 export function useRequestJoinClub() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: number) => clubAPI.requestJoin(id),
+    mutationFn: (id: number) => outboxService.submit('club_join', { clubId: id, requestOnly: true }),
     onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: clubKeys.detail(id) });
     },
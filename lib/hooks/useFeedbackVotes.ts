@@ -0,0 +1,63 @@
+/**
+ * React Query hooks for confirming or resolving community feedback
+ */
+
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { feedbackVotesApi, type FeedbackVote, type FeedbackVoteKind } from '@/lib/api/feedbackVotes';
+import { outboxService } from '@/lib/services/OutboxService';
+import { latestVotes, queuedVotes } from '@/lib/utils/hazardConfirmations';
+
+/**
+ * Query key factory for feedback votes
+ */
+export const feedbackVoteKeys = {
+  all: ['feedbackVotes'] as const,
+  mine: () => [...feedbackVoteKeys.all, 'mine'] as const,
+};
+
+/**
+ * Hook to fetch the current user's vote history, including votes still in the outbox
+ * @returns The query plus `latest`, the newest vote per feedback item
+ */
+export function useFeedbackVotes() {
+  const query = useQuery({
+    queryKey: feedbackVoteKeys.mine(),
+    queryFn: async () => {
+      const [votes, queued] = await Promise.all([
+        feedbackVotesApi.getMyVotes(),
+        outboxService.getQueuedPayloads('feedback_vote'),
+      ]);
+      return [...queuedVotes(queued), ...votes];
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const latest = useMemo(() => latestVotes(query.data ?? []), [query.data]);
+
+  return { ...query, latest };
+}
+
+/**
+ * Hook to vote on a feedback item.
+ * Goes through the outbox, so votes cast offline are sent later. The vote is
+ * added to the cached history straight away so the UI reflects it either way.
+ */
+export function useVoteOnFeedback() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ feedbackId, vote }: { feedbackId: number; vote: FeedbackVoteKind }) =>
+      outboxService.submit('feedback_vote', { feedbackId, vote }),
+    onSuccess: (outcome, { feedbackId, vote }) => {
+      queryClient.setQueryData<FeedbackVote[]>(feedbackVoteKeys.mine(), (votes = []) => [
+        // Negative ids mark votes the backend has not numbered yet
+        { id: -Date.now(), feedback: feedbackId, vote, created_at: new Date().toISOString() },
+        ...votes,
+      ]);
+      if (outcome === 'sent') {
+        queryClient.invalidateQueries({ queryKey: feedbackVoteKeys.mine() });
+      }
+    },
+  });
+}
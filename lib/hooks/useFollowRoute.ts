@@ -0,0 +1,117 @@
+/**
+ * Hook for following a guide track with live position and haptic cues
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as ExpoLocation from 'expo-location';
+import * as Haptics from 'expo-haptics';
+import { TrackingCoordinator } from '@/lib/services/TrackingCoordinator';
+import {
+  advanceFollow,
+  createGuideTrack,
+  INITIAL_FOLLOW_STATE,
+  type FollowCue,
+  type FollowState,
+} from '@/lib/utils/routeFollower';
+import type { Coordinate } from '@/types/location';
+import { useLocation } from './useLocation';
+
+function playCue(cue: FollowCue): void {
+  const played =
+    cue === 'offRoute'
+      ? Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+      : cue === 'turnAhead'
+        ? Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy)
+        : cue === 'arrived'
+          ? Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+          : Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  played.catch(() => {
+    // Haptics are a nicety; devices without a motor reject
+  });
+}
+
+/**
+ * Hook to follow a route. Fixes come from the foreground location watch and,
+ * while a trip is being recorded, from the tracker's stored locations.
+ * @param route - Guide track coordinates (a past trip or a planned route)
+ */
+export function useFollowRoute(route: Coordinate[]) {
+  const track = useMemo(() => createGuideTrack(route), [route]);
+  const { location, getCurrentLocation } = useLocation();
+  const [state, setState] = useState<FollowState>(INITIAL_FOLLOW_STATE);
+  const [position, setPosition] = useState<Coordinate | null>(null);
+  // GPS course over ground, used for heading-up while off the track
+  const [course, setCourse] = useState<number | null>(null);
+  const stateRef = useRef<FollowState>(INITIAL_FOLLOW_STATE);
+
+  const handleFix = useCallback(
+    (point: Coordinate) => {
+      const { state: next, cues } = advanceFollow(track, stateRef.current, point);
+      stateRef.current = next;
+      setState(next);
+      setPosition(point);
+      cues.forEach(playCue);
+    },
+    [track]
+  );
+
+  // getCurrentLocation changes every render; the first fix is requested once
+  const getCurrentLocationRef = useRef(getCurrentLocation);
+  useEffect(() => {
+    getCurrentLocationRef.current = getCurrentLocation;
+  }, [getCurrentLocation]);
+
+  // First fix, before the watch reports
+  useEffect(() => {
+    getCurrentLocationRef.current();
+  }, []);
+
+  useEffect(() => {
+    if (location) {
+      handleFix({ latitude: location.latitude, longitude: location.longitude });
+    }
+  }, [location, handleFix]);
+
+  useEffect(() => {
+    stateRef.current = INITIAL_FOLLOW_STATE;
+    setState(INITIAL_FOLLOW_STATE);
+
+    let cancelled = false;
+    let subscription: ExpoLocation.LocationSubscription | null = null;
+
+    ExpoLocation.watchPositionAsync(
+      {
+        accuracy: ExpoLocation.Accuracy.BestForNavigation,
+        timeInterval: 1000,
+        distanceInterval: 5,
+      },
+      (fix) => {
+        handleFix({ latitude: fix.coords.latitude, longitude: fix.coords.longitude });
+        if (fix.coords.heading !== null && fix.coords.heading >= 0) {
+          setCourse(fix.coords.heading);
+        }
+      }
+    )
+      .then((sub) => {
+        if (cancelled) sub.remove();
+        else subscription = sub;
+      })
+      .catch((error) => {
+        console.error('[useFollowRoute] Failed to watch position:', error);
+      });
+
+    const unsubscribe = TrackingCoordinator.onLocationStored((event) => {
+      handleFix({ latitude: event.lat, longitude: event.lng });
+    });
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+      unsubscribe();
+    };
+  }, [handleFix]);
+
+  const heading = state.snap && !state.isOffRoute ? state.snap.bearing : course;
+
+  return { track, state, position, heading };
+}
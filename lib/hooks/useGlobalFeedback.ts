@@ -2,13 +2,9 @@
  * React Query hooks for Global Feedback API operations
  */
 
-import { useQuery } from '@tanstack/react-query';
 import { globalFeedbackApi, type ConfidenceLevel } from '@/lib/api/globalFeedback';
-
-/**
- * Large bbox covering all of UK/Western Europe - effectively fetches ALL feedback
- */
-const ALL_FEEDBACK_BBOX = '-10,35,20,65';
+import { tileKey, type MapTile, type MapViewport } from '@/lib/utils/mapTiles';
+import { useViewportTiles } from './useViewportTiles';
 
 /**
  * Query key factory for global feedback
@@ -17,18 +13,26 @@ export const globalFeedbackKeys = {
   all: ['globalFeedback'] as const,
   list: (confidenceLevel?: ConfidenceLevel) =>
     [...globalFeedbackKeys.all, { confidenceLevel }] as const,
+  tile: (tile: MapTile, confidenceLevel?: ConfidenceLevel) =>
+    [...globalFeedbackKeys.list(confidenceLevel), tileKey(tile)] as const,
 };
 
 /**
- * Hook to fetch ALL global/community feedback records
+ * Hook to fetch global/community feedback records in the viewport
+ * @param viewport - Visible map area; nothing is fetched until it is known
  * @param enabled - Whether to enable the query (defaults to true)
  * @param confidenceLevel - Optional confidence level filter
  */
-export function useGlobalFeedback(enabled: boolean = true, confidenceLevel?: ConfidenceLevel) {
-  return useQuery({
-    queryKey: globalFeedbackKeys.list(confidenceLevel),
-    queryFn: () => globalFeedbackApi.getGlobalFeedback({ bbox: ALL_FEEDBACK_BBOX, confidence_level: confidenceLevel }),
+export function useGlobalFeedback(
+  viewport: MapViewport | null,
+  enabled: boolean = true,
+  confidenceLevel?: ConfidenceLevel
+) {
+  return useViewportTiles({
+    viewport,
     enabled,
-    staleTime: 1000 * 60 * 5, // 5 minutes cache
+    queryKey: (tile) => globalFeedbackKeys.tile(tile, confidenceLevel),
+    fetchTile: (bbox) => globalFeedbackApi.getGlobalFeedback({ bbox, confidence_level: confidenceLevel }),
+    getId: (feedback) => feedback.id,
   });
 }
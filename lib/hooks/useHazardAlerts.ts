@@ -0,0 +1,46 @@
+/**
+ * Hook for the rider's hazard alert opt-ins
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { hazardAlertService } from '@/lib/services/HazardAlertService';
+import {
+  DEFAULT_HAZARD_ALERT_PREFERENCES,
+  type HazardAlertCategory,
+  type HazardAlertPreferences,
+} from '@/lib/utils/hazardAlerts';
+
+/**
+ * Hook to read and toggle hazard alert categories. Re-reads them whenever they change.
+ */
+export function useHazardAlertPreferences() {
+  const [preferences, setPreferences] = useState<HazardAlertPreferences>(DEFAULT_HAZARD_ALERT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPreferences(await hazardAlertService.getPreferences());
+    } catch (error) {
+      console.error('[useHazardAlertPreferences] Failed to load hazard alert preferences:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return hazardAlertService.subscribe(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  const setEnabled = useCallback(async (category: HazardAlertCategory, enabled: boolean) => {
+    try {
+      await hazardAlertService.setCategoryEnabled(category, enabled);
+    } catch (error) {
+      console.error('[useHazardAlertPreferences] Failed to save hazard alert preference:', error);
+    }
+  }, []);
+
+  return { preferences, isLoading, setEnabled };
+}
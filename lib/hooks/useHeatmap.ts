@@ -0,0 +1,124 @@
+/**
+ * React Query hooks for the personal (on-device) and global (community) heatmaps
+ */
+
+import { useEffect, useMemo } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { globalHeatmapApi, type GlobalHeatmapParams } from '@/lib/api/globalHeatmap';
+import { heatmapService } from '@/lib/services/HeatmapService';
+import { heatmapLegend, weightByTrips } from '@/lib/utils/heatmapGrid';
+import { tileKey, type MapTile, type MapViewport } from '@/lib/utils/mapTiles';
+import { useViewportTiles } from './useViewportTiles';
+import type { HeatmapDataRequest } from '@/types/heatmap';
+import type { TripType } from '@/types/trip';
+
+// Bounds are widened to this grid so small pans reuse the cached result
+const BOUNDS_STEP_DEG = 0.02;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PersonalHeatmapFilters {
+  /** Only trips started within this many days; all trips when omitted */
+  days?: number;
+  tripType?: TripType;
+}
+
+/**
+ * Query key factory for heatmaps
+ */
+export const heatmapKeys = {
+  all: ['heatmap'] as const,
+  personal: () => [...heatmapKeys.all, 'personal'] as const,
+  personalArea: (request: HeatmapDataRequest) => [...heatmapKeys.personal(), request] as const,
+  global: (params: GlobalHeatmapParams) => [...heatmapKeys.all, 'global', params] as const,
+  globalTile: (tile: MapTile, params: GlobalHeatmapParams) =>
+    [...heatmapKeys.global(params), tileKey(tile)] as const,
+};
+
+function widen(value: number, round: (n: number) => number): number {
+  return Number((round(value / BOUNDS_STEP_DEG) * BOUNDS_STEP_DEG).toFixed(4));
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Hook to build the personal heatmap for the viewport from local trips.
+ * Refetches whenever a finalized trip is added to the heatmap.
+ * @param viewport - Visible map area; nothing is built until it is known
+ * @param enabled - Whether to enable the query (defaults to true)
+ * @param filters - Date range and trip type
+ */
+export function usePersonalHeatmap(
+  viewport: MapViewport | null,
+  enabled: boolean = true,
+  filters: PersonalHeatmapFilters = {}
+) {
+  const queryClient = useQueryClient();
+  const { days, tripType } = filters;
+
+  const request = useMemo<HeatmapDataRequest | null>(() => {
+    if (!viewport) return null;
+    const { ne, sw } = viewport.bounds;
+    return {
+      bounds: {
+        northEast: { latitude: widen(ne[1], Math.ceil), longitude: widen(ne[0], Math.ceil) },
+        southWest: { latitude: widen(sw[1], Math.floor), longitude: widen(sw[0], Math.floor) },
+      },
+      // Day granularity keeps the key stable while the screen is open
+      startDate: days ? new Date(startOfDay(Date.now()) - days * DAY_MS) : undefined,
+      tripType,
+    };
+  }, [viewport, days, tripType]);
+
+  useEffect(() => {
+    return heatmapService.subscribe(() => {
+      queryClient.invalidateQueries({ queryKey: heatmapKeys.personal() });
+    });
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: heatmapKeys.personalArea(request!),
+    queryFn: () => heatmapService.getHeatmap(request!),
+    enabled: enabled && !!request,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Hook to fetch the community heatmap in the viewport, tile by tile.
+ * Tiles come from the device cache when the backend cannot be reached.
+ * @param viewport - Visible map area; nothing is fetched until it is known
+ * @param enabled - Whether to enable the query (defaults to true)
+ * @param params - Trip type and time-of-day filters
+ */
+export function useGlobalHeatmap(
+  viewport: MapViewport | null,
+  enabled: boolean = true,
+  params: GlobalHeatmapParams = {}
+) {
+  const { trip_type, time_of_day } = params;
+
+  const tiles = useViewportTiles({
+    viewport,
+    enabled,
+    queryKey: (tile) => heatmapKeys.globalTile(tile, { trip_type, time_of_day }),
+    fetchTile: async (_bbox, tile) => (await globalHeatmapApi.getTile(tile, { trip_type, time_of_day })).cells,
+    getId: (cell) => `${cell.lat},${cell.lng}`,
+  });
+
+  const data = useMemo(() => {
+    if (!tiles.data) return undefined;
+    const maxTrips = tiles.data.reduce((max, cell) => Math.max(max, cell.trips), 0);
+    return {
+      points: weightByTrips(
+        tiles.data.map((cell) => ({ coordinate: { latitude: cell.lat, longitude: cell.lng }, trips: cell.trips }))
+      ),
+      legend: heatmapLegend(maxTrips),
+    };
+  }, [tiles.data]);
+
+  return { ...tiles, data };
+}
@@ -2,8 +2,17 @@
  * React Query hooks for Map Feedback API operations
  */
 
+import { useEffect, useMemo, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { mapFeedbackApi, type CreateMapFeedbackRequest, type UpdateMapFeedbackRequest } from '@/lib/api/mapFeedback';
+import {
+  mapFeedbackApi,
+  type CreateMapFeedbackRequest,
+  type MapFeedback,
+  type UpdateMapFeedbackRequest,
+} from '@/lib/api/mapFeedback';
+import { outboxService, type SubmitOutcome } from '@/lib/services/OutboxService';
+import { queuedReportId, withQueuedReports } from '@/lib/utils/feedbackHelpers';
+import { deleteStoredPhotos, storePhotos } from '@/lib/utils/reportPhotos';
 
 /**
  * Query key factory for map feedback
@@ -12,46 +21,113 @@ export const mapFeedbackKeys = {
   all: ['mapFeedback'] as const,
   lists: () => [...mapFeedbackKeys.all, 'list'] as const,
   list: () => [...mapFeedbackKeys.lists()] as const,
+  queued: () => [...mapFeedbackKeys.all, 'queued'] as const,
 };
 
 /**
- * Hook to fetch user's map feedback reports
+ * Hook to fetch user's map feedback reports, including reports and edits
+ * still in the outbox so they show (and can be edited) while offline
  */
 export function useMapFeedback() {
-  return useQuery({
+  const queryClient = useQueryClient();
+  const query = useQuery({
     queryKey: mapFeedbackKeys.list(),
     queryFn: () => mapFeedbackApi.getMyFeedback(),
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
+  const queued = useQuery({
+    queryKey: mapFeedbackKeys.queued(),
+    queryFn: async () => {
+      const [created, updated] = await Promise.all([
+        outboxService.getQueuedPayloads('map_feedback'),
+        outboxService.getQueuedPayloads('map_feedback_update'),
+      ]);
+      return { created, updated };
+    },
+  });
+
+  useEffect(
+    () =>
+      outboxService.subscribe(() => {
+        queryClient.invalidateQueries({ queryKey: mapFeedbackKeys.queued() });
+      }),
+    [queryClient]
+  );
+
+  // Reports and edits leaving the outbox were sent; the backend's list now has them
+  const queuedCount = (queued.data?.created.length ?? 0) + (queued.data?.updated.length ?? 0);
+  const previousQueuedCount = useRef(queuedCount);
+  useEffect(() => {
+    if (queuedCount < previousQueuedCount.current) {
+      queryClient.invalidateQueries({ queryKey: mapFeedbackKeys.list() });
+    }
+    previousQueuedCount.current = queuedCount;
+  }, [queuedCount, queryClient]);
+
+  const data = useMemo(
+    () => withQueuedReports(query.data ?? [], queued.data?.created ?? [], queued.data?.updated ?? []),
+    [query.data, queued.data]
+  );
+
+  return { ...query, data };
 }
 
 /**
- * Hook to create a map feedback report
+ * Hook to create a map feedback report.
+ * Goes through the outbox, so reports made offline are sent later;
+ * resolves to 'queued' in that case.
  */
 export function useCreateMapFeedback() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: CreateMapFeedbackRequest) => mapFeedbackApi.createFeedback(data),
-    onSuccess: () => {
-      // Invalidate and refetch feedback list
-      queryClient.invalidateQueries({ queryKey: mapFeedbackKeys.list() });
+    mutationFn: (data: CreateMapFeedbackRequest) =>
+      outboxService.submit('map_feedback', data.photos ? { ...data, photos: storePhotos(data.photos) } : data),
+    onSuccess: (outcome) => {
+      // Invalidate and refetch feedback list, or show the queued report
+      queryClient.invalidateQueries({ queryKey: outcome === 'sent' ? mapFeedbackKeys.all : mapFeedbackKeys.queued() });
     },
   });
 }
 
 /**
- * Hook to update a map feedback report
+ * Change a report that is still in the outbox, so it is created with the edits.
+ * Photo files the report no longer uses are deleted.
+ */
+async function editQueuedReport(queuedId: number, data: UpdateMapFeedbackRequest): Promise<SubmitOutcome> {
+  const queued = (await outboxService.getQueuedPayloads('map_feedback')).find(({ id }) => id === queuedId);
+  const edited = queued && { ...queued.payload, ...data };
+  if (!edited || !(await outboxService.replaceQueued(queuedId, 'map_feedback', edited))) {
+    deleteStoredPhotos((data.photos ?? []).filter((photo) => !queued?.payload.photos?.includes(photo)));
+    throw new Error('The report was sent while it was being edited');
+  }
+  deleteStoredPhotos((queued.payload.photos ?? []).filter((photo) => !edited.photos?.includes(photo)));
+  return 'queued';
+}
+
+/**
+ * Hook to update a map feedback report.
+ * Goes through the outbox like creating one; resolves to 'queued' when offline.
+ * A report that has not been sent yet is edited in the outbox instead.
  */
 export function useUpdateMapFeedback() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: number; data: UpdateMapFeedbackRequest }) =>
-      mapFeedbackApi.updateFeedback(id, data),
-    onSuccess: () => {
-      // Invalidate and refetch feedback list
-      queryClient.invalidateQueries({ queryKey: mapFeedbackKeys.list() });
+    mutationFn: ({ feedback, data }: { feedback: MapFeedback; data: UpdateMapFeedbackRequest }) => {
+      const stored = data.photos ? { ...data, photos: storePhotos(data.photos) } : data;
+      const queuedId = queuedReportId(feedback);
+      return queuedId === null
+        ? outboxService.submit('map_feedback_update', { id: feedback.id, data: stored })
+        : editQueuedReport(queuedId, stored);
+    },
+    onSuccess: (outcome) => {
+      // Invalidate and refetch feedback list, or show the queued edit
+      queryClient.invalidateQueries({ queryKey: outcome === 'sent' ? mapFeedbackKeys.all : mapFeedbackKeys.queued() });
+    },
+    onError: () => {
+      // A queued report may have been sent meanwhile; show it as the backend has it
+      queryClient.invalidateQueries({ queryKey: mapFeedbackKeys.all });
     },
   });
 }
@@ -0,0 +1,36 @@
+/**
+ * React Query hook for the my routes map layer
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { routeHistoryService } from '@/lib/services/RouteHistoryService';
+
+/**
+ * Query key factory for my routes
+ */
+export const myRoutesKeys = {
+  all: ['myRoutes'] as const,
+};
+
+/**
+ * Hook to load every past trip's simplified route from the device.
+ * Filtering by date and trip type happens in memory so scrubbing stays smooth.
+ * Refetches whenever a finalized trip is added.
+ * @param enabled - Whether to enable the query (defaults to true)
+ */
+export function useMyRoutes(enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return routeHistoryService.subscribe(() => {
+      queryClient.invalidateQueries({ queryKey: myRoutesKeys.all });
+    });
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: myRoutesKeys.all,
+    queryFn: () => routeHistoryService.getRoutes(),
+    enabled,
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * Hook for offline map regions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { offlineMapService, type OfflineRegion } from '@/lib/services/OfflineMapService';
+import type { OfflineRegionSuggestion } from '@/lib/utils/offlineRegions';
+
+/**
+ * Hook to list downloaded regions and suggestions. Re-reads them whenever
+ * a region changes or a download makes progress.
+ */
+export function useOfflineMaps() {
+  const [regions, setRegions] = useState<OfflineRegion[]>([]);
+  const [suggestions, setSuggestions] = useState<OfflineRegionSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshRegions = useCallback(async () => {
+    try {
+      setRegions(await offlineMapService.getRegions());
+    } catch (error) {
+      console.error('[useOfflineMaps] Failed to load offline regions:', error);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextRegions, nextSuggestions] = await Promise.all([
+        offlineMapService.getRegions(),
+        offlineMapService.getSuggestions(),
+      ]);
+      setRegions(nextRegions);
+      setSuggestions(nextSuggestions);
+    } catch (error) {
+      console.error('[useOfflineMaps] Failed to load offline regions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Progress events are frequent; suggestions only change once a download starts or is removed
+    return offlineMapService.subscribe(() => {
+      refreshRegions();
+    });
+  }, [refresh, refreshRegions]);
+
+  const totalBytes = regions.reduce((sum, region) => sum + region.sizeBytes, 0);
+
+  return { regions, suggestions, totalBytes, isLoading, refresh };
+}
@@ -0,0 +1,62 @@
+/**
+ * Hooks for the offline outbox (queued API writes)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, type AppStateStatus } from 'react-native';
+import { outboxService, type PendingOperation } from '@/lib/services/OutboxService';
+import { useAutoSync } from './useNetworkStatus';
+
+/**
+ * Hook to list operations waiting in the outbox, including dead-lettered ones.
+ * Re-reads the queue whenever it changes.
+ */
+export function usePendingOperations() {
+  const [operations, setOperations] = useState<PendingOperation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setOperations(await outboxService.getPendingOperations());
+    } catch (error) {
+      console.error('[useOutbox] Failed to load pending operations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return outboxService.subscribe(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return { operations, isLoading, refresh };
+}
+
+/**
+ * Flush the outbox on launch, when the network comes back and when the
+ * app returns to the foreground. Mount once near the root of the app.
+ */
+export function useOutboxFlush() {
+  const prevAppState = useRef<AppStateStatus>(AppState.currentState);
+
+  const flush = useCallback(async () => {
+    await outboxService.flush();
+  }, []);
+
+  useAutoSync(flush);
+
+  useEffect(() => {
+    flush();
+
+    const sub = AppState.addEventListener('change', (next: AppStateStatus) => {
+      if (prevAppState.current !== 'active' && next === 'active') {
+        flush();
+      }
+      prevAppState.current = next;
+    });
+    return () => sub.remove();
+  }, [flush]);
+}
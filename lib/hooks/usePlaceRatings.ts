@@ -0,0 +1,66 @@
+/**
+ * React Query hooks for rating road sections and junctions from the map
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { database } from '@/lib/database';
+import { outboxService } from '@/lib/services/OutboxService';
+import { placeRatingKey, placeRatingSegments } from '@/lib/utils/placeRatings';
+import { fromDBRating, toPlaceRatingRequest, type FeelingType, type RatedPlace } from '@/types/rating';
+import { roadSectionKeys } from './useRoadSections';
+
+/**
+ * Query key factory for place ratings
+ */
+export const placeRatingKeys = {
+  all: ['placeRatings'] as const,
+  place: (key: string) => [...placeRatingKeys.all, key] as const,
+};
+
+/**
+ * Hook to read the local rating of a section or junction
+ * @returns The query; data is the rated feeling and time, or null if never rated
+ */
+export function usePlaceRating(place: RatedPlace | null) {
+  const key = place ? placeRatingKey(place) : '';
+
+  return useQuery({
+    queryKey: placeRatingKeys.place(key),
+    queryFn: async () => {
+      const row = await database.getRating(key);
+      if (!row) return null;
+      const rating = fromDBRating(row);
+      const feeling = rating.segments[0]?.feeling;
+      return feeling ? { feeling, ratedAt: rating.ratedAt } : null;
+    },
+    enabled: !!place,
+  });
+}
+
+/**
+ * Hook to rate a section or junction.
+ * Saved to route_ratings first (re-rating adds a version), then sent through
+ * the outbox like a trip rating, so ratings given offline are uploaded later.
+ */
+export function useRatePlace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ place, feeling }: { place: RatedPlace; feeling: FeelingType }) => {
+      const key = placeRatingKey(place);
+      const now = Date.now();
+      const version = await database.reviseRating(key, JSON.stringify(placeRatingSegments(place, feeling)), now);
+
+      return outboxService.submit('route_rating', {
+        tripId: key,
+        request: { ...toPlaceRatingRequest(key, place, feeling, now), version },
+      });
+    },
+    onSuccess: (outcome, { place }) => {
+      queryClient.invalidateQueries({ queryKey: placeRatingKeys.place(placeRatingKey(place)) });
+      if (outcome === 'sent') {
+        queryClient.invalidateQueries({ queryKey: roadSectionKeys.personal() });
+      }
+    },
+  });
+}
@@ -11,6 +11,7 @@ import type {
   PostCommentCreateRequest,
 } from '@/types/feed';
 import type { PostFilters } from '@/lib/api/posts';
+import { outboxService } from '@/lib/services/OutboxService';
 
 /**
  * Query key factory for posts
@@ -118,7 +119,8 @@ export function useDeletePost() {
 }
 
 /**
- * Hook to add a comment to a post
+ * Hook to add a comment to a post.
+ * Resolves to 'queued' when the comment was saved to the outbox for later.
  */
 export function useAddComment() {
   const queryClient = useQueryClient();
@@ -132,8 +134,10 @@ export function useAddComment() {
       clubId: number;
       postId: number;
       text: string;
-    }) => postAPI.addComment(clubId, postId, { text }),
-    onSuccess: (_, { clubId, postId }) => {
+    }) => outboxService.submit('post_comment', { clubId, postId, text }),
+    onSuccess: (outcome, { clubId, postId }) => {
+      if (outcome !== 'sent') return;
+
       // Invalidate post detail to refresh comments
       queryClient.invalidateQueries({ queryKey: postKeys.detail(clubId, postId) });
 
@@ -187,12 +191,8 @@ export function useTogglePostLike() {
       postId: number;
       isLiked: boolean;
     }) => {
-      // Call the appropriate API based on current state
-      if (isLiked) {
-        await postAPI.unlikePost(clubId, postId);
-      } else {
-        await postAPI.likePost(clubId, postId);
-      }
+      // Queued through the outbox when offline; the optimistic update stays in place
+      await outboxService.submit('post_like', { clubId, postId, liked: !isLiked });
     },
     onMutate: async ({ clubId, postId, isLiked }) => {
       // Cancel all outgoing refetches for this post
@@ -0,0 +1,34 @@
+/**
+ * Hook for the rider's privacy zones
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { privacyZoneService } from '@/lib/services/PrivacyZoneService';
+import type { PrivacyZone } from '@/lib/utils/privacyZones';
+
+/**
+ * Hook to list privacy zones. Re-reads them whenever they change.
+ */
+export function usePrivacyZones() {
+  const [zones, setZones] = useState<PrivacyZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setZones(await privacyZoneService.getZones());
+    } catch (error) {
+      console.error('[usePrivacyZones] Failed to load privacy zones:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return privacyZoneService.subscribe(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return { zones, isLoading, refresh };
+}
@@ -2,14 +2,9 @@
  * React Query hooks for Road Sections API operations
  */
 
-import { useQuery } from '@tanstack/react-query';
 import { roadSectionsApi } from '@/lib/api/roadSections';
-
-/**
- * Large bbox covering all of UK/Western Europe - effectively fetches ALL ratings
- * This avoids the complexity of viewport-based filtering
- */
-const ALL_RATINGS_BBOX = '-10,35,20,65';
+import { minRatingCountForTileZoom, tileKey, type MapTile, type MapViewport } from '@/lib/utils/mapTiles';
+import { useViewportTiles } from './useViewportTiles';
 
 /**
  * Query key factory for road sections
@@ -17,34 +12,39 @@ const ALL_RATINGS_BBOX = '-10,35,20,65';
 export const roadSectionKeys = {
   all: ['roadSections'] as const,
   personal: () => [...roadSectionKeys.all, 'personal'] as const,
+  personalTile: (tile: MapTile) => [...roadSectionKeys.personal(), tileKey(tile)] as const,
   community: () => [...roadSectionKeys.all, 'community'] as const,
-  communityWithParams: (minRatingCount?: number) =>
-    [...roadSectionKeys.community(), { minRatingCount }] as const,
+  communityTile: (tile: MapTile, minRatingCount: number) =>
+    [...roadSectionKeys.community(), tileKey(tile), { minRatingCount }] as const,
 };
 
 /**
- * Hook to fetch ALL of user's personal road section ratings
+ * Hook to fetch the user's personal road section ratings in the viewport
+ * @param viewport - Visible map area; nothing is fetched until it is known
  * @param enabled - Whether to enable the query (defaults to true)
  */
-export function usePersonalRoadSections(enabled: boolean = true) {
-  return useQuery({
-    queryKey: roadSectionKeys.personal(),
-    queryFn: () => roadSectionsApi.getPersonalRoadSections(ALL_RATINGS_BBOX),
+export function usePersonalRoadSections(viewport: MapViewport | null, enabled: boolean = true) {
+  return useViewportTiles({
+    viewport,
     enabled,
-    staleTime: 1000 * 60 * 5, // 5 minutes cache (longer since we fetch all)
+    queryKey: roadSectionKeys.personalTile,
+    fetchTile: (bbox) => roadSectionsApi.getPersonalRoadSections(bbox),
+    getId: (section) => section.section_id,
   });
 }
 
 /**
- * Hook to fetch ALL community road section scores
+ * Hook to fetch community road section scores in the viewport.
+ * Zoomed out, sections need more ratings to be shown.
+ * @param viewport - Visible map area; nothing is fetched until it is known
  * @param enabled - Whether to enable the query (defaults to true)
- * @param minRatingCount - Optional minimum rating count threshold
  */
-export function useCommunityRoadSections(enabled: boolean = true, minRatingCount?: number) {
-  return useQuery({
-    queryKey: roadSectionKeys.communityWithParams(minRatingCount),
-    queryFn: () => roadSectionsApi.getCommunityRoadSections(ALL_RATINGS_BBOX, minRatingCount),
+export function useCommunityRoadSections(viewport: MapViewport | null, enabled: boolean = true) {
+  return useViewportTiles({
+    viewport,
     enabled,
-    staleTime: 1000 * 60 * 5, // 5 minutes cache
+    queryKey: (tile) => roadSectionKeys.communityTile(tile, minRatingCountForTileZoom(tile.z)),
+    fetchTile: (bbox, tile) => roadSectionsApi.getCommunityRoadSections(bbox, minRatingCountForTileZoom(tile.z)),
+    getId: (section) => section.section_id,
   });
 }
@@ -0,0 +1,72 @@
+/**
+ * Hook for planning comfort-aware routes over community road sections
+ */
+
+import { useMemo } from 'react';
+import type { GlobalFeedback } from '@/lib/api/globalFeedback';
+import type { MapFeedbackCategory } from '@/lib/api/mapFeedback';
+import type { RoadSectionCommunity } from '@/lib/api/roadSections';
+import { geometryVertices } from '@/lib/utils/geoCalculations';
+import { buildRouteGraph, planRoute, type PlannerSection } from '@/lib/utils/routePlanner';
+import type { MapViewport } from '@/lib/utils/mapTiles';
+import type { Coordinate } from '@/types/location';
+import { useCommunityRoadSections } from './useRoadSections';
+import { useGlobalFeedback } from './useGlobalFeedback';
+
+// Feedback categories the planner steers around
+const HAZARD_CATEGORIES: MapFeedbackCategory[] = ['road_damage', 'safety_issue'];
+
+export interface RoutePlannerRequest {
+  from: Coordinate | null;
+  to: Coordinate | null;
+  /** 0 = fastest, 1 = quietest */
+  quietness: number;
+}
+
+function toPlannerSections(sections: RoadSectionCommunity[]): PlannerSection[] {
+  return sections.map((section) => ({
+    id: section.section_id,
+    coordinates: section.geometry.coordinates,
+    score: section.community_score,
+  }));
+}
+
+/**
+ * Every vertex of active hazard reports; line and area reports are
+ * approximated by their vertices
+ */
+function toHazards(feedback: GlobalFeedback[]): Coordinate[] {
+  return feedback
+    .filter((item) => item.is_active && HAZARD_CATEGORIES.includes(item.category))
+    .flatMap((item) => geometryVertices(item.representative_geometry));
+}
+
+/**
+ * Hook to plan a route from A to B over the road sections loaded for the
+ * viewport, weighted by community stress score, distance and hazards.
+ * Both points must be inside the loaded area.
+ * @param viewport - Visible map area; nothing is loaded until it is known
+ * @param enabled - Whether to load road sections and hazards
+ * @param request - Start, destination and the quiet-vs-fast preference
+ */
+export function useRoutePlanner(viewport: MapViewport | null, enabled: boolean, request: RoutePlannerRequest) {
+  const { from, to, quietness } = request;
+  const sections = useCommunityRoadSections(viewport, enabled);
+  const feedback = useGlobalFeedback(viewport, enabled);
+
+  const graph = useMemo(
+    () => buildRouteGraph(toPlannerSections(sections.data ?? []), toHazards(feedback.data ?? [])),
+    [sections.data, feedback.data]
+  );
+
+  const route = useMemo(
+    () => (enabled && from && to ? planRoute(graph, from, to, { quietness }) : null),
+    [enabled, graph, from, to, quietness]
+  );
+
+  return {
+    route,
+    sections: sections.data,
+    isLoading: sections.isLoading || feedback.isLoading,
+  };
+}
@@ -2,8 +2,17 @@
  * React Query hooks for Trip API operations
  */
 
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState, type AppStateStatus } from 'react-native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { tripAPI } from '@/lib/api/trips';
+import { TripManager } from '@/lib/services/TripManager';
+import { syncService } from '@/lib/services/SyncService';
+import { database } from '@/lib/database';
+import type { TripFilters as LocalTripFilters } from '@/lib/database/db';
+import { useAutoSync } from './useNetworkStatus';
+import { privacyZoneService } from '@/lib/services/PrivacyZoneService';
+import type { TripType } from '@/types/trip';
 import type {
   ApiTrip,
   ApiTripCreate,
@@ -18,8 +27,10 @@ export const tripKeys = {
   all: ['trips'] as const,
   lists: () => [...tripKeys.all, 'list'] as const,
   list: (filters?: TripFilters) => [...tripKeys.lists(), filters] as const,
+  local: (filters?: LocalTripFilters) => [...tripKeys.all, 'local', filters] as const,
   details: () => [...tripKeys.all, 'detail'] as const,
   detail: (id: number) => [...tripKeys.details(), id] as const,
+  segments: (tripId: string) => [...tripKeys.all, 'segments', tripId] as const,
 };
 
 /**
@@ -35,6 +46,48 @@ export function useTrips(filters?: TripFilters) {
   });
 }
 
+/**
+ * Hook to read trips from the local database, including those pulled from
+ * the backend, so history works offline
+ */
+export function useLocalTrips(filters?: LocalTripFilters) {
+  return useQuery({
+    queryKey: tripKeys.local(filters),
+    queryFn: () => database.getAllTrips(filters),
+  });
+}
+
+/**
+ * Pull backend trips into the local database on launch, when the network
+ * comes back and when the app returns to the foreground. Mount once near the
+ * root of the app.
+ */
+export function useTripPull() {
+  const queryClient = useQueryClient();
+  const prevAppState = useRef<AppStateStatus>(AppState.currentState);
+
+  const pull = useCallback(async () => {
+    const result = await syncService.pullTrips();
+    if (result.inserted + result.updated + result.deleted > 0) {
+      queryClient.invalidateQueries({ queryKey: tripKeys.all });
+    }
+  }, [queryClient]);
+
+  useAutoSync(pull);
+
+  useEffect(() => {
+    pull();
+
+    const sub = AppState.addEventListener('change', (next: AppStateStatus) => {
+      if (prevAppState.current !== 'active' && next === 'active') {
+        pull();
+      }
+      prevAppState.current = next;
+    });
+    return () => sub.remove();
+  }, [pull]);
+}
+
 /**
  * Hook to fetch a specific trip
  */
@@ -112,6 +165,66 @@ export function useDeleteTrip() {
   });
 }
 
+/**
+ * Hook to merge two adjacent local trips into one
+ */
+export function useMergeTrips() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ tripIdA, tripIdB }: { tripIdA: string; tripIdB: string }) =>
+      TripManager.mergeTrips(tripIdA, tripIdB),
+    onSettled: () => {
+      // Both trips changed (one is gone), so refetch every trip query
+      queryClient.invalidateQueries({ queryKey: tripKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['userProfile'] });
+    },
+  });
+}
+
+/**
+ * Hook to split a local trip in two at a timestamp
+ */
+export function useSplitTrip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ tripId, timestamp }: { tripId: string; timestamp: number }) =>
+      TripManager.splitTrip(tripId, timestamp),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tripKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['userProfile'] });
+    },
+  });
+}
+
+/**
+ * Hook to read a local trip's per-mode segments
+ */
+export function useTripSegments(tripId: string | undefined) {
+  return useQuery({
+    queryKey: tripKeys.segments(tripId ?? ''),
+    queryFn: () => database.getTripSegments(tripId!),
+    enabled: !!tripId,
+  });
+}
+
+/**
+ * Hook to relabel one segment of a trip
+ */
+export function useRelabelSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ tripId, segmentId, type }: { tripId: string; segmentId: number; type: TripType }) =>
+      TripManager.relabelSegment(tripId, segmentId, type),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tripKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['userProfile'] });
+    },
+  });
+}
+
 /**
  * Hook to share a trip to one or more clubs.
  * Returns per-club results from the new multi-club API.
@@ -124,8 +237,11 @@ export function useShareTrip() {
     Error,
     { tripId: number; clubIds: number[]; caption?: string }
   >({
-    mutationFn: ({ tripId, clubIds, caption }) =>
-      tripAPI.shareTrip(tripId, clubIds, caption),
+    mutationFn: async ({ tripId, clubIds, caption }) => {
+      // Trim the stored route to the rider's privacy zones before clubs can see it
+      await privacyZoneService.scrubSharedTrip(tripId);
+      return tripAPI.shareTrip(tripId, clubIds, caption);
+    },
     onSuccess: (_, { tripId }) => {
       queryClient.invalidateQueries({ queryKey: tripKeys.detail(tripId) });
       queryClient.invalidateQueries({ queryKey: ['feed'] });
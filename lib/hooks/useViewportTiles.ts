@@ -0,0 +1,72 @@
+/**
+ * Viewport-driven tiled loading for map layers
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useQueries, type QueryKey, type UseQueryResult } from '@tanstack/react-query';
+import { tileBBox, tilesForViewport, type MapTile, type MapViewport } from '@/lib/utils/mapTiles';
+
+// Tiles that scroll off screen lose their observers and are dropped after this
+const TILE_GC_TIME = 1000 * 60 * 2; // 2 minutes
+const TILE_STALE_TIME = 1000 * 60 * 5; // 5 minutes
+
+interface ViewportTilesOptions<T> {
+  viewport: MapViewport | null;
+  enabled: boolean;
+  queryKey: (tile: MapTile) => QueryKey;
+  fetchTile: (bbox: string, tile: MapTile) => Promise<T[]>;
+  /** Identity used to drop duplicates of items crossing tile edges */
+  getId: (item: T) => string | number;
+}
+
+/**
+ * Fetch a layer tile by tile for the current viewport and merge the tiles.
+ * While the first tiles of a new viewport load, the previous result is kept
+ * so the layer does not flicker empty on zoom changes.
+ */
+export function useViewportTiles<T>({ viewport, enabled, queryKey, fetchTile, getId }: ViewportTilesOptions<T>) {
+  const tiles = useMemo(() => (viewport ? tilesForViewport(viewport) : []), [viewport]);
+  const lastData = useRef<T[] | undefined>(undefined);
+
+  // Merged tiles are structurally shared, so data keeps its identity until a tile changes
+  const combine = useCallback(
+    (results: UseQueryResult<T[]>[]) => {
+      const loaded = results.filter((r) => r.data !== undefined);
+      const seen = new Map<string | number, T>();
+      for (const result of loaded) {
+        for (const item of result.data!) {
+          seen.set(getId(item), item);
+        }
+      }
+      return {
+        data: loaded.length > 0 ? [...seen.values()] : undefined,
+        isLoading: results.some((r) => r.isLoading),
+        isError: results.some((r) => r.isError),
+      };
+    },
+    [getId]
+  );
+
+  const { data, isLoading, isError } = useQueries({
+    queries: tiles.map((tile) => ({
+      queryKey: queryKey(tile),
+      queryFn: () => fetchTile(tileBBox(tile), tile),
+      enabled,
+      staleTime: TILE_STALE_TIME,
+      gcTime: TILE_GC_TIME,
+    })),
+    combine,
+  });
+
+  useEffect(() => {
+    if (data !== undefined) {
+      lastData.current = data;
+    }
+  }, [data]);
+
+  return {
+    data: enabled && tiles.length > 0 ? data ?? lastData.current : undefined,
+    isLoading: enabled && isLoading,
+    isError,
+  };
+}
@@ -90,7 +90,7 @@ export interface NativeLogEntry {
   message: string;
 }
 
-interface RadziTrackerNativeModule {
+export interface RadziTrackerNativeModule {
   start(): Promise<void>;
   stop(): Promise<void>;
   getStatus(): Promise<TrackingStatus>;
@@ -105,6 +105,20 @@ interface RadziTrackerNativeModule {
   getLogs(): Promise<NativeLogEntry[]>;
 }
 
+export interface RadziTrackerEventSource {
+  onTripStarted(cb: (e: TripStartedEvent) => void): () => void;
+  onTripEnded(cb: (e: TripEndedEvent) => void): () => void;
+  onActivityChanged(cb: (e: ActivityChangedEvent) => void): () => void;
+  onStateChanged(cb: (e: StateChangedEvent) => void): () => void;
+  onLocationStored(cb: (e: LocationStoredEvent) => void): () => void;
+  onPermissionMissing(cb: (e: { permission: string }) => void): () => void;
+}
+
+/** A JS stand-in for the native tracker, e.g. TrackingSimulator. */
+export interface SimulatedTracker extends RadziTrackerNativeModule {
+  readonly events: RadziTrackerEventSource;
+}
+
 const Native = NativeModules.RadziTracker as RadziTrackerNativeModule | undefined;
 
 if (!Native && (Platform.OS === 'ios' || Platform.OS === 'android')) {
@@ -113,7 +127,7 @@ if (!Native && (Platform.OS === 'ios' || Platform.OS === 'android')) {
 
 const unavailable = () => Promise.reject(new Error('RadziTracker native module unavailable'));
 
-export const RadziTrackerNative: RadziTrackerNativeModule = Native ?? {
+const nativeModule: RadziTrackerNativeModule = Native ?? {
   start: unavailable,
   stop: unavailable,
   getStatus: unavailable,
@@ -130,29 +144,80 @@ export const RadziTrackerNative: RadziTrackerNativeModule = Native ?? {
 
 const emitter = Native ? new NativeEventEmitter(NativeModules.RadziTracker) : null;
 
-export const RadziTrackerEvents = {
-  onTripStarted(cb: (e: TripStartedEvent) => void): () => void {
+const nativeEvents: RadziTrackerEventSource = {
+  onTripStarted(cb) {
     const sub = emitter?.addListener('tripStarted', cb);
     return () => sub?.remove();
   },
-  onTripEnded(cb: (e: TripEndedEvent) => void): () => void {
+  onTripEnded(cb) {
     const sub = emitter?.addListener('tripEnded', cb);
     return () => sub?.remove();
   },
-  onActivityChanged(cb: (e: ActivityChangedEvent) => void): () => void {
+  onActivityChanged(cb) {
     const sub = emitter?.addListener('activityChanged', cb);
     return () => sub?.remove();
   },
-  onStateChanged(cb: (e: StateChangedEvent) => void): () => void {
+  onStateChanged(cb) {
     const sub = emitter?.addListener('stateChanged', cb);
     return () => sub?.remove();
   },
-  onLocationStored(cb: (e: LocationStoredEvent) => void): () => void {
+  onLocationStored(cb) {
     const sub = emitter?.addListener('locationStored', cb);
     return () => sub?.remove();
   },
-  onPermissionMissing(cb: (e: { permission: string }) => void): () => void {
+  onPermissionMissing(cb) {
     const sub = emitter?.addListener('trackingPermissionMissing', cb);
     return () => { sub?.remove(); };
   },
 };
+
+let simulated: SimulatedTracker | null = null;
+const backendListeners = new Set<() => void>();
+
+/**
+ * Route RadziTrackerNative and RadziTrackerEvents to a simulator instead of
+ * the native module (dev replay mode and tests). Pass null to go back to native.
+ * Event subscriptions are per backend, so listeners registered with
+ * onTrackerBackendChanged are told to re-subscribe.
+ */
+export function setSimulatedTracker(tracker: SimulatedTracker | null): void {
+  if (tracker === simulated) return;
+  simulated = tracker;
+  backendListeners.forEach(cb => cb());
+}
+
+export function getSimulatedTracker(): SimulatedTracker | null {
+  return simulated;
+}
+
+export function onTrackerBackendChanged(cb: () => void): () => void {
+  backendListeners.add(cb);
+  return () => { backendListeners.delete(cb); };
+}
+
+const backend = (): RadziTrackerNativeModule => simulated ?? nativeModule;
+const events = (): RadziTrackerEventSource => simulated?.events ?? nativeEvents;
+
+export const RadziTrackerNative: RadziTrackerNativeModule = {
+  start: () => backend().start(),
+  stop: () => backend().stop(),
+  getStatus: () => backend().getStatus(),
+  forceStartTrip: () => backend().forceStartTrip(),
+  forceStopTrip: () => backend().forceStopTrip(),
+  checkPermissions: () => backend().checkPermissions(),
+  getTrackingHealth: () => backend().getTrackingHealth(),
+  setConfig: (config) => backend().setConfig(config),
+  getConfig: () => backend().getConfig(),
+  recoverStaleTrip: () => backend().recoverStaleTrip(),
+  notifyFinalizationComplete: () => backend().notifyFinalizationComplete(),
+  getLogs: () => backend().getLogs(),
+};
+
+export const RadziTrackerEvents: RadziTrackerEventSource = {
+  onTripStarted: (cb) => events().onTripStarted(cb),
+  onTripEnded: (cb) => events().onTripEnded(cb),
+  onActivityChanged: (cb) => events().onActivityChanged(cb),
+  onStateChanged: (cb) => events().onStateChanged(cb),
+  onLocationStored: (cb) => events().onLocationStored(cb),
+  onPermissionMissing: (cb) => events().onPermissionMissing(cb),
+};
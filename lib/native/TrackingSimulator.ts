@@ -0,0 +1,497 @@
+/**
+ * TrackingSimulator
+ *
+ * A JS stand-in for the RadziTracker native module. It replays a recorded
+ * session (state, activity and location events) and writes trips, locations,
+ * staging fixes and motion segments into the local SQLite database the same
+ * way TrackingDatabase does on device, emitting the same events.
+ *
+ * Install it with setSimulatedTracker() so TrackingCoordinator,
+ * TripFinalizationPipeline and TripValidationService run unchanged against
+ * replayed data — in Jest, or from the dev replay mode in app/debug-tracking.
+ *
+ * Recorded sessions carry the state machine's decisions (detecting, recording,
+ * cooldown, ending); the simulator does not re-run detection. What it does
+ * reproduce is the native bookkeeping around them: the accuracy gate, staging
+ * promotion and false-start discard, GPS skipped during cooldown, ENDING held
+ * until finalization completes, and stale-trip recovery.
+ */
+
+import { database } from '../database';
+import { calculateDistance } from '../utils/geoCalculations';
+import { getTrackingConfig, toNativeConfig } from '../services/TrackingConfig';
+import type {
+  Activity,
+  ActivityChangedEvent,
+  Confidence,
+  LocationStoredEvent,
+  NativeLogEntry,
+  PermissionStatus,
+  RadziTrackerEventSource,
+  SimulatedTracker,
+  StateChangedEvent,
+  TrackerConfig,
+  TrackingHealth,
+  TrackingState,
+  TrackingStatus,
+  TripEndedEvent,
+  TripStartedEvent,
+} from './RadziTracker';
+
+// Same threshold as TrackingDatabase.findStaleRecordingTrip()
+const STALE_TRIP_MS = 10 * 60 * 1000;
+const MAX_LOGS = 500;
+
+/**
+ * One recorded event; `at` is milliseconds since the start of the session.
+ * `kill` simulates the OS killing the app mid-session: replay stops and any
+ * trip being recorded is left behind as an active row.
+ */
+export type RecordedEvent =
+  | { at: number; kind: 'state'; state: TrackingState }
+  | { at: number; kind: 'activity'; activity: Activity; confidence: Confidence }
+  | { at: number; kind: 'location'; lat: number; lng: number; accuracy: number; speed: number }
+  | { at: number; kind: 'permissionMissing'; permission: string }
+  | { at: number; kind: 'kill' };
+
+export interface RecordedSession {
+  name: string;
+  description: string;
+  events: RecordedEvent[];
+}
+
+export interface ReplayOptions {
+  /** Playback speed multiplier; Infinity replays without waiting. Default 1. */
+  speed?: number;
+  /** Wall-clock time the session starts at (ms). Default Date.now(). */
+  startTime?: number;
+  onProgress?: (index: number, total: number) => void;
+}
+
+interface EventMap {
+  tripStarted: TripStartedEvent;
+  tripEnded: TripEndedEvent;
+  activityChanged: ActivityChangedEvent;
+  stateChanged: StateChangedEvent;
+  locationStored: LocationStoredEvent;
+  trackingPermissionMissing: { permission: string };
+}
+
+type Listeners = { [K in keyof EventMap]: Set<(e: EventMap[K]) => void> };
+
+function tripTypeForActivity(activity: Activity): string {
+  switch (activity) {
+    case 'running':
+      return 'run';
+    case 'cycling':
+      return 'cycle';
+    case 'automotive':
+      return 'drive';
+    default:
+      return 'walk';
+  }
+}
+
+export class TrackingSimulator implements SimulatedTracker {
+  private state: TrackingState = 'idle';
+  private activity: Activity = 'unknown';
+  private tripId: string | null = null;
+  private stagingId: string | null = null;
+  private lastLocationTimestamp: number | null = null;
+  private running = false;
+  private clock = Date.now();
+  private tripSeq = 0;
+  private replayToken = 0;
+  private finalizationWaiter: (() => void) | null = null;
+  private logs: NativeLogEntry[] = [];
+  private config: TrackerConfig = {
+    detectionSustainSeconds: 8,
+    imuSampleRateHz: 50,
+    ...(toNativeConfig(getTrackingConfig()) as Omit<TrackerConfig, 'detectionSustainSeconds' | 'imuSampleRateHz'>),
+  };
+  private listeners: Listeners = {
+    tripStarted: new Set(),
+    tripEnded: new Set(),
+    activityChanged: new Set(),
+    stateChanged: new Set(),
+    locationStored: new Set(),
+    trackingPermissionMissing: new Set(),
+  };
+
+  readonly events: RadziTrackerEventSource = {
+    onTripStarted: (cb) => this.subscribe('tripStarted', cb),
+    onTripEnded: (cb) => this.subscribe('tripEnded', cb),
+    onActivityChanged: (cb) => this.subscribe('activityChanged', cb),
+    onStateChanged: (cb) => this.subscribe('stateChanged', cb),
+    onLocationStored: (cb) => this.subscribe('locationStored', cb),
+    onPermissionMissing: (cb) => this.subscribe('trackingPermissionMissing', cb),
+  };
+
+  // ===== REPLAY =====
+
+  /**
+   * Replay a session. Resolves once every event has been applied and any trip
+   * it ended has been finalized; a newer replay or cancelReplay() stops it early.
+   */
+  async replay(session: RecordedSession, options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    const startTime = options.startTime ?? Date.now();
+    const token = ++this.replayToken;
+    this.log('info', `replay "${session.name}" (${session.events.length} events, ${speed}x)`);
+
+    let previousAt = 0;
+    for (let i = 0; i < session.events.length; i++) {
+      const event = session.events[i];
+      const delay = (event.at - previousAt) / speed;
+      previousAt = event.at;
+      if (delay > 0 && isFinite(delay)) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      if (token !== this.replayToken) return;
+
+      this.clock = startTime + event.at;
+      if (event.kind === 'kill') {
+        this.kill();
+        return;
+      }
+      await this.apply(event);
+      options.onProgress?.(i + 1, session.events.length);
+    }
+    this.log('info', `replay "${session.name}" done`);
+  }
+
+  cancelReplay(): void {
+    this.replayToken++;
+  }
+
+  /**
+   * Forget all in-memory state without touching the database, as if the
+   * process died. Whatever trip was recording stays 'active' until recovered.
+   */
+  kill(): void {
+    this.log('warn', `killed in ${this.state}${this.tripId ? ` with trip ${this.tripId}` : ''}`);
+    this.cancelReplay();
+    this.state = 'idle';
+    this.tripId = null;
+    this.stagingId = null;
+    this.finalizationWaiter?.();
+    this.finalizationWaiter = null;
+  }
+
+  /** Move the simulated clock forward, e.g. to let an orphaned trip go stale. */
+  advanceClock(ms: number): void {
+    this.clock += ms;
+  }
+
+  now(): number {
+    return this.clock;
+  }
+
+  private async apply(event: Exclude<RecordedEvent, { kind: 'kill' }>): Promise<void> {
+    switch (event.kind) {
+      case 'state':
+        await this.transition(event.state);
+        break;
+      case 'activity':
+        await this.handleActivity(event.activity, event.confidence);
+        break;
+      case 'location':
+        await this.handleLocation(event.lat, event.lng, event.accuracy, event.speed);
+        break;
+      case 'permissionMissing':
+        this.emit('trackingPermissionMissing', { permission: event.permission });
+        break;
+    }
+  }
+
+  // ===== NATIVE BOOKKEEPING =====
+
+  private async transition(requested: TrackingState): Promise<void> {
+    // A recording that drops straight to idle still goes through ENDING
+    const next = requested === 'idle' && this.tripId ? 'ending' : requested;
+    const previousState = this.state;
+    if (next === previousState) return;
+
+    const db = await database.getDb();
+    if (next === 'detecting' && !this.tripId) {
+      this.stagingId = `staging_${this.clock}`;
+    } else if (previousState === 'detecting' && next === 'idle' && this.stagingId) {
+      await db.runAsync('DELETE FROM staging_locations WHERE staging_id = ?', [this.stagingId]);
+      this.log('info', `false start — discarded staging ${this.stagingId}`);
+      this.stagingId = null;
+    }
+
+    const startedAt = next === 'recording' && !this.tripId ? await this.startTrip() : null;
+
+    this.state = next;
+    this.emit('stateChanged', { state: next, previousState, timestamp: this.clock });
+
+    if (startedAt !== null) {
+      this.emit('tripStarted', { tripId: this.tripId!, startTime: startedAt, backfillStart: startedAt });
+    } else if (next === 'ending' && this.tripId) {
+      await this.endTrip();
+    }
+  }
+
+  /** Create the trip row, promote staged fixes into it and return its start time. */
+  private async startTrip(): Promise<number> {
+    const db = await database.getDb();
+    const stagingId = this.stagingId;
+    let startTime = this.clock;
+    if (stagingId) {
+      const first = await db.getFirstAsync<{ ts: number | null }>(
+        'SELECT MIN(timestamp) AS ts FROM staging_locations WHERE staging_id = ?',
+        [stagingId]
+      );
+      startTime = first?.ts ?? this.clock;
+    }
+
+    const tripId = `trip_${startTime}_sim${++this.tripSeq}`;
+    await db.runAsync(
+      `INSERT INTO trips (id, user_id, type, status, start_time, created_at, updated_at,
+         engine, backfill_start, detection_state, classification_source)
+       VALUES (?, 'current_user', ?, 'active', ?, ?, ?, 'native', ?, 'recording', 'speed')`,
+      [tripId, tripTypeForActivity(this.activity), startTime, startTime, startTime, startTime]
+    );
+    if (stagingId) {
+      await db.runAsync(
+        `INSERT INTO locations (trip_id, latitude, longitude, accuracy, speed, timestamp, gps_accuracy_mode, synced)
+         SELECT ?, latitude, longitude, accuracy, speed, timestamp, 'hundred', 0
+         FROM staging_locations WHERE staging_id = ? ORDER BY timestamp ASC`,
+        [tripId, stagingId]
+      );
+      await db.runAsync('DELETE FROM staging_locations WHERE staging_id = ?', [stagingId]);
+    }
+
+    this.tripId = tripId;
+    this.stagingId = null;
+    this.log('info', `trip ${tripId} started`);
+    return startTime;
+  }
+
+  /** Mark the trip completed with native-style stats, then hold ENDING until finalized. */
+  private async endTrip(): Promise<void> {
+    const tripId = this.tripId!;
+    await this.writeTripEnd(tripId, this.clock);
+    this.log('info', `trip ${tripId} ended`);
+
+    const finalized = this.waitForFinalization();
+    this.emit('tripEnded', { tripId, endTime: this.clock });
+    await finalized;
+  }
+
+  private waitForFinalization(): Promise<void> {
+    if (this.listeners.tripEnded.size === 0) {
+      // Nobody will finalize; release right away instead of sitting in ENDING
+      return Promise.resolve().then(() => this.notifyFinalizationComplete());
+    }
+    return new Promise(resolve => {
+      this.finalizationWaiter = resolve;
+    });
+  }
+
+  private async writeTripEnd(tripId: string, endTime: number): Promise<void> {
+    const db = await database.getDb();
+    const rows = await db.getAllAsync<{ latitude: number; longitude: number; timestamp: number; speed: number | null }>(
+      'SELECT latitude, longitude, timestamp, speed FROM locations WHERE trip_id = ? ORDER BY timestamp ASC',
+      [tripId]
+    );
+
+    let distance = 0;
+    let maxSpeed = 0;
+    let duration = 0;
+    let routeData: string | null = null;
+    if (rows.length >= 2) {
+      for (let i = 0; i < rows.length; i++) {
+        if (i > 0) {
+          distance += calculateDistance(
+            { latitude: rows[i - 1].latitude, longitude: rows[i - 1].longitude },
+            { latitude: rows[i].latitude, longitude: rows[i].longitude }
+          );
+        }
+        maxSpeed = Math.max(maxSpeed, rows[i].speed ?? 0);
+      }
+      duration = Math.floor((rows[rows.length - 1].timestamp - rows[0].timestamp) / 1000);
+      routeData = JSON.stringify(rows.map(r => ({
+        lat: Math.round(r.latitude * 1_000_000) / 1_000_000,
+        lng: Math.round(r.longitude * 1_000_000) / 1_000_000,
+        timestamp: new Date(r.timestamp).toISOString(),
+      })));
+    }
+    const avgSpeed = duration > 0 ? (distance / 1000) / (duration / 3600) : 0;
+
+    await db.runAsync(
+      `UPDATE trips SET status = 'completed', end_time = ?, updated_at = ?,
+         detection_state = 'ending', distance = ?, duration = ?,
+         avg_speed = ?, max_speed = ?, route_data = ?
+       WHERE id = ?`,
+      [endTime, endTime, distance, duration, avgSpeed, maxSpeed * 3.6, routeData, tripId]
+    );
+  }
+
+  private async handleActivity(activity: Activity, confidence: Confidence): Promise<void> {
+    this.activity = activity;
+    this.emit('activityChanged', { activity, confidence, timestamp: this.clock });
+
+    if (this.tripId) {
+      const db = await database.getDb();
+      await db.runAsync(
+        `UPDATE motion_segments SET t_end = ? WHERE trip_id = ? AND id = (
+           SELECT MAX(id) FROM motion_segments WHERE trip_id = ?)`,
+        [this.clock, this.tripId, this.tripId]
+      );
+      await database.insertMotionSegment({
+        trip_id: this.tripId,
+        t_start: this.clock,
+        t_end: this.clock,
+        activity,
+        confidence,
+        source: 'cmma',
+      });
+    }
+  }
+
+  private async handleLocation(lat: number, lng: number, accuracy: number, speed: number): Promise<void> {
+    const timestamp = this.clock;
+    if (this.state === 'detecting') {
+      if (accuracy > this.config.detectingAccuracyThresholdM) {
+        this.log('info', `detecting — dropped low-accuracy fix (${Math.round(accuracy)}m)`);
+        return;
+      }
+      if (!this.stagingId) return;
+      await database.insertStagingLocation({ staging_id: this.stagingId, latitude: lat, longitude: lng, accuracy, speed, timestamp });
+      this.lastLocationTimestamp = timestamp;
+    } else if (this.state === 'recording' && this.tripId) {
+      if (accuracy > this.config.recordingAccuracyThresholdM) {
+        this.log('info', `recording — dropped low-accuracy fix (${Math.round(accuracy)}m)`);
+        return;
+      }
+      const db = await database.getDb();
+      await db.runAsync(
+        `INSERT INTO locations (trip_id, latitude, longitude, accuracy, speed, timestamp, gps_accuracy_mode, synced)
+         VALUES (?, ?, ?, ?, ?, ?, 'best', 0)`,
+        [this.tripId, lat, lng, accuracy, speed, timestamp]
+      );
+      await db.runAsync('UPDATE trips SET updated_at = ? WHERE id = ?', [timestamp, this.tripId]);
+      this.lastLocationTimestamp = timestamp;
+      this.emit('locationStored', { tripId: this.tripId, lat, lng, accuracy, speed, timestamp });
+    }
+    // idle, cooldown and ending ignore GPS, as on device
+  }
+
+  // ===== RadziTrackerNativeModule =====
+
+  async start(): Promise<void> {
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.cancelReplay();
+  }
+
+  async getStatus(): Promise<TrackingStatus> {
+    return {
+      state: this.state,
+      activity: this.activity,
+      tripId: this.tripId,
+      stagingId: this.stagingId,
+      gpsAccuracyMode: this.state === 'idle' ? null : 'best',
+      lastLocationTimestamp: this.lastLocationTimestamp,
+    };
+  }
+
+  async forceStartTrip(): Promise<{ tripId: string }> {
+    if (this.state === 'ending') {
+      throw new Error('Cannot start a trip while the previous one is finalizing');
+    }
+    if (!this.tripId) {
+      this.clock = Math.max(this.clock, Date.now());
+      await this.transition('recording');
+    }
+    return { tripId: this.tripId! };
+  }
+
+  async forceStopTrip(): Promise<void> {
+    if (this.tripId) {
+      await this.transition('ending');
+    }
+  }
+
+  async checkPermissions(): Promise<PermissionStatus> {
+    return { location: 'granted', motion: 'granted' };
+  }
+
+  async getTrackingHealth(): Promise<TrackingHealth> {
+    return {
+      platform: 'ios',
+      locationAuth: 'always',
+      locationPrecise: true,
+      motion: 'granted',
+      lowPowerMode: false,
+      batteryOptExempt: true,
+      slcRunning: this.running,
+      engineState: this.state,
+      tripId: this.tripId,
+    };
+  }
+
+  async setConfig(config: Partial<TrackerConfig>): Promise<void> {
+    this.config = { ...this.config, ...config };
+  }
+
+  async getConfig(): Promise<TrackerConfig> {
+    return { ...this.config };
+  }
+
+  /** End every active trip idle for longer than STALE_TRIP_MS except the one being recorded. */
+  async recoverStaleTrip(): Promise<{ recovered: string | null }> {
+    const db = await database.getDb();
+    let recovered: string | null = null;
+    for (;;) {
+      const stale = await db.getFirstAsync<{ id: string; updated_at: number }>(
+        `SELECT id, updated_at FROM trips
+         WHERE engine = 'native' AND status = 'active' AND updated_at < ? AND id != ?
+         ORDER BY updated_at DESC LIMIT 1`,
+        [this.clock - STALE_TRIP_MS, this.tripId ?? '']
+      );
+      if (!stale) break;
+      await this.writeTripEnd(stale.id, stale.updated_at);
+      this.log('warn', `recovered stale trip ${stale.id}`);
+      this.emit('tripEnded', { tripId: stale.id, endTime: stale.updated_at, recovered: true });
+      recovered = stale.id;
+    }
+    return { recovered };
+  }
+
+  async notifyFinalizationComplete(): Promise<void> {
+    const waiter = this.finalizationWaiter;
+    this.finalizationWaiter = null;
+    if (this.state === 'ending') {
+      this.tripId = null;
+      this.state = 'idle';
+      this.emit('stateChanged', { state: 'idle', previousState: 'ending', timestamp: this.clock });
+    }
+    waiter?.();
+  }
+
+  async getLogs(): Promise<NativeLogEntry[]> {
+    return [...this.logs];
+  }
+
+  // ===== EVENTS =====
+
+  private subscribe<K extends keyof EventMap>(name: K, cb: (e: EventMap[K]) => void): () => void {
+    this.listeners[name].add(cb);
+    return () => { this.listeners[name].delete(cb); };
+  }
+
+  private emit<K extends keyof EventMap>(name: K, event: EventMap[K]): void {
+    this.listeners[name].forEach(cb => cb(event));
+  }
+
+  private log(level: NativeLogEntry['level'], message: string): void {
+    this.logs.push({ timestamp: this.clock, level, message: `TrackingSimulator: ${message}` });
+    if (this.logs.length > MAX_LOGS) this.logs.shift();
+  }
+}
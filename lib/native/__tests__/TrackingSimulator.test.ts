@@ -0,0 +1,180 @@
+import { AppState } from 'react-native';
+import { database } from '../../database';
+import type { Trip } from '../../database/db';
+import { TrackingCoordinator } from '../../services/TrackingCoordinator';
+import { syncService } from '../../services/SyncService';
+import { setSimulatedTracker, type StateChangedEvent, type TripEndedEvent } from '../RadziTracker';
+import { TrackingSimulator, type RecordedSession } from '../TrackingSimulator';
+import { cooldownResume, falseStart, gpsStarvation, walkCommute, zombieTrip } from '../simulatorSessions';
+
+jest.mock('react-native', () => ({
+  NativeModules: {},
+  NativeEventEmitter: jest.fn(),
+  Platform: { OS: 'web' },
+  AppState: { addEventListener: jest.fn().mockReturnValue({ remove: jest.fn() }) },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn().mockResolvedValue({ status: 'denied' }),
+  dismissNotificationAsync: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../services/TripManager', () => ({
+  scheduleTripCompletionNotifications: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../services/SyncService', () => ({
+  syncService: { syncSingleTrip: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const T0 = Date.UTC(2026, 4, 12, 7, 30);
+const INSTANT = { speed: Infinity, startTime: T0 };
+
+let sim: TrackingSimulator;
+let states: StateChangedEvent[];
+let onAppStateChange: (state: string) => Promise<void>;
+
+async function trips(): Promise<Trip[]> {
+  const db = await database.getDb();
+  return db.getAllAsync<Trip>('SELECT * FROM trips ORDER BY start_time ASC');
+}
+
+async function count(table: string, tripId?: string): Promise<number> {
+  const db = await database.getDb();
+  const row = tripId
+    ? await db.getFirstAsync<{ n: number }>(`SELECT COUNT(*) AS n FROM ${table} WHERE trip_id = ?`, [tripId])
+    : await db.getFirstAsync<{ n: number }>(`SELECT COUNT(*) AS n FROM ${table}`);
+  return row?.n ?? 0;
+}
+
+function nextTripEnded(): Promise<TripEndedEvent> {
+  return new Promise(resolve => {
+    const unsub = TrackingCoordinator.onTripEnded(e => {
+      unsub();
+      resolve(e);
+    });
+  });
+}
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  setSimulatedTracker(new TrackingSimulator());
+  await TrackingCoordinator.init();
+  onAppStateChange = (AppState.addEventListener as jest.Mock).mock.calls[0][1];
+  TrackingCoordinator.onStateChange(e => states.push(e));
+});
+
+afterAll(() => {
+  setSimulatedTracker(null);
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await database.clearAllData();
+  states = [];
+  sim = new TrackingSimulator();
+  setSimulatedTracker(sim);
+});
+
+describe('TrackingSimulator', () => {
+  it('records a walk end to end and releases ENDING after finalization', async () => {
+    await sim.replay(walkCommute, INSTANT);
+
+    const [trip] = await trips();
+    expect(trip.status).toBe('completed');
+    expect(trip.type).toBe('walk');
+    expect(trip.start_time).toBe(T0);
+    expect(trip.distance).toBeGreaterThan(1200);
+    expect(syncService.syncSingleTrip).toHaveBeenCalledWith(trip.id);
+    expect(await count('trip_segments', trip.id)).toBe(1);
+    expect((await sim.getStatus()).state).toBe('idle');
+    expect(states.map(e => e.state)).toEqual(['detecting', 'recording', 'cooldown', 'ending', 'idle']);
+  });
+
+  it('discards staged fixes on a false start without creating a trip', async () => {
+    const started = jest.fn();
+    const unsub = TrackingCoordinator.onTripStarted(started);
+
+    await sim.replay(falseStart, INSTANT);
+    unsub();
+
+    expect(await trips()).toEqual([]);
+    expect(await count('staging_locations')).toBe(0);
+    expect(started).not.toHaveBeenCalled();
+    expect(states.map(e => e.state)).toEqual(['detecting', 'idle']);
+  });
+
+  it('keeps one trip through cooldown and ignores GPS while cooling down', async () => {
+    await sim.replay(cooldownResume, INSTANT);
+
+    const all = await trips();
+    expect(all).toHaveLength(1);
+    expect(all[0].status).toBe('completed');
+
+    const db = await database.getDb();
+    const duringCooldown = await db.getFirstAsync<{ n: number }>(
+      'SELECT COUNT(*) AS n FROM locations WHERE trip_id = ? AND timestamp > ? AND timestamp < ?',
+      [all[0].id, T0 + 430_000, T0 + 480_000]
+    );
+    expect(duringCooldown?.n).toBe(0);
+    expect(states.map(e => e.state)).toEqual([
+      'detecting', 'recording', 'cooldown', 'recording', 'cooldown', 'ending', 'idle',
+    ]);
+  });
+
+  it('recovers a zombie trip once it goes stale and finalizes it', async () => {
+    await sim.replay(zombieTrip, INSTANT);
+
+    const [orphan] = await trips();
+    expect(orphan.status).toBe('active');
+
+    // Five minutes later the trip is not stale yet
+    sim.advanceClock(5 * 60 * 1000);
+    expect(await sim.recoverStaleTrip()).toEqual({ recovered: null });
+
+    // The app comes back to the foreground well after the stale threshold
+    sim.advanceClock(10 * 60 * 1000);
+    const ended = nextTripEnded();
+    await onAppStateChange('active');
+    const event = await ended;
+
+    expect(event).toEqual({ tripId: orphan.id, endTime: orphan.updated_at, recovered: true });
+    const [recovered] = await trips();
+    expect(recovered.status).toBe('completed');
+    expect(recovered.end_time).toBe(T0 + 600_000);
+    expect(syncService.syncSingleTrip).toHaveBeenCalledWith(orphan.id);
+  });
+
+  it('cancels a GPS-starved trip instead of syncing it', async () => {
+    await sim.replay(gpsStarvation, INSTANT);
+
+    const [trip] = await trips();
+    expect(trip.status).toBe('cancelled');
+    expect(trip.notes).toMatch(/GPS-starved/);
+    expect(await count('locations', trip.id)).toBe(2);
+    expect(syncService.syncSingleTrip).not.toHaveBeenCalled();
+  });
+
+  it('replays at the requested speed', async () => {
+    const session: RecordedSession = {
+      name: 'two events',
+      description: '',
+      events: [
+        { at: 0, kind: 'activity', activity: 'walking', confidence: 'high' },
+        { at: 400, kind: 'activity', activity: 'stationary', confidence: 'high' },
+      ],
+    };
+
+    const started = Date.now();
+    await sim.replay(session, { speed: 4, startTime: T0 });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(sim.now()).toBe(T0 + 400);
+  });
+});
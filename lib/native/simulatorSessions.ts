@@ -0,0 +1,147 @@
+/**
+ * Recorded tracking sessions for TrackingSimulator.
+ *
+ * Each session reproduces the event stream the native tracker emitted for
+ * one real-world scenario. GPS fixes are regenerated along a straight line
+ * due north so the sessions stay small; timings, accuracies and state
+ * transitions follow the original recordings.
+ */
+
+import type { RecordedEvent, RecordedSession } from './TrackingSimulator';
+
+const ORIGIN = { lat: 51.5007, lng: -0.1246 };
+const METERS_PER_DEGREE_LAT = 111_320;
+
+interface FixOptions {
+  /** Distance already covered north of ORIGIN at `fromS` (m) */
+  fromM?: number;
+  accuracy?: number;
+  everyS?: number;
+}
+
+/** GPS fixes every `everyS` seconds from `fromS` to `toS` moving north at `speed` m/s */
+function fixes(fromS: number, toS: number, speed: number, options: FixOptions = {}): RecordedEvent[] {
+  const { fromM = 0, accuracy = 8, everyS = 5 } = options;
+  const events: RecordedEvent[] = [];
+  for (let t = fromS; t <= toS; t += everyS) {
+    const meters = fromM + (t - fromS) * speed;
+    events.push({
+      at: t * 1000,
+      kind: 'location',
+      lat: ORIGIN.lat + meters / METERS_PER_DEGREE_LAT,
+      lng: ORIGIN.lng,
+      accuracy,
+      speed,
+    });
+  }
+  return events;
+}
+
+function state(atS: number, value: Extract<RecordedEvent, { kind: 'state' }>['state']): RecordedEvent {
+  return { at: atS * 1000, kind: 'state', state: value };
+}
+
+function activity(
+  atS: number,
+  value: Extract<RecordedEvent, { kind: 'activity' }>['activity'],
+  confidence: Extract<RecordedEvent, { kind: 'activity' }>['confidence'] = 'high'
+): RecordedEvent {
+  return { at: atS * 1000, kind: 'activity', activity: value, confidence };
+}
+
+function byTime(events: RecordedEvent[]): RecordedEvent[] {
+  // Stable sort keeps same-timestamp events in the order they were listed
+  return [...events].sort((a, b) => a.at - b.at);
+}
+
+const WALK_SPEED = 1.4; // m/s
+
+export const walkCommute: RecordedSession = {
+  name: 'Walk commute',
+  description: '15 min walk, stop at the destination, cooldown, trip ends',
+  events: byTime([
+    activity(0, 'walking'),
+    state(0, 'detecting'),
+    ...fixes(0, 55, WALK_SPEED),
+    state(60, 'recording'),
+    activity(60, 'walking'),
+    ...fixes(60, 900, WALK_SPEED, { fromM: 60 * WALK_SPEED }),
+    activity(900, 'stationary'),
+    ...fixes(905, 930, 0, { fromM: 900 * WALK_SPEED }),
+    state(930, 'cooldown'),
+    state(1110, 'ending'),
+  ]),
+};
+
+export const falseStart: RecordedSession = {
+  name: 'False start',
+  description: 'Motion wobble at a desk: detecting with <15 m GPS displacement, back to idle',
+  events: byTime([
+    activity(0, 'walking', 'low'),
+    state(0, 'detecting'),
+    ...fixes(0, 40, 0.1, { accuracy: 12 }),
+    activity(42, 'stationary'),
+    state(45, 'idle'),
+  ]),
+};
+
+export const cooldownResume: RecordedSession = {
+  name: 'Cooldown resume',
+  description: 'Walk, wait at a crossing long enough to enter cooldown, walk on — one trip',
+  events: byTime([
+    activity(0, 'walking'),
+    state(0, 'detecting'),
+    ...fixes(0, 25, WALK_SPEED),
+    state(30, 'recording'),
+    activity(30, 'walking'),
+    ...fixes(30, 400, WALK_SPEED, { fromM: 30 * WALK_SPEED }),
+    activity(400, 'stationary'),
+    state(430, 'cooldown'),
+    // GPS keeps reporting during cooldown; the tracker ignores it
+    ...fixes(435, 475, 0, { fromM: 400 * WALK_SPEED }),
+    activity(480, 'walking'),
+    state(480, 'recording'),
+    ...fixes(480, 900, WALK_SPEED, { fromM: 400 * WALK_SPEED }),
+    activity(900, 'stationary'),
+    state(930, 'cooldown'),
+    state(1110, 'ending'),
+  ]),
+};
+
+export const zombieTrip: RecordedSession = {
+  name: 'Zombie trip',
+  description: 'App killed by the OS ten minutes into a walk; the trip is left active',
+  events: byTime([
+    activity(0, 'walking'),
+    state(0, 'detecting'),
+    ...fixes(0, 25, WALK_SPEED),
+    state(30, 'recording'),
+    activity(30, 'walking'),
+    ...fixes(30, 600, WALK_SPEED, { fromM: 30 * WALK_SPEED }),
+    { at: 600_000, kind: 'kill' },
+  ]),
+};
+
+export const gpsStarvation: RecordedSession = {
+  name: 'GPS starvation',
+  description: 'Trip starts on two good fixes, then every fix fails the accuracy gate',
+  events: byTime([
+    activity(0, 'walking'),
+    state(0, 'detecting'),
+    ...fixes(0, 5, 0.4, { accuracy: 12 }),
+    state(10, 'recording'),
+    activity(10, 'walking'),
+    ...fixes(15, 300, WALK_SPEED, { accuracy: 150 }),
+    activity(300, 'stationary'),
+    state(300, 'cooldown'),
+    state(480, 'ending'),
+  ]),
+};
+
+export const SIMULATOR_SESSIONS: RecordedSession[] = [
+  walkCommute,
+  falseStart,
+  cooldownResume,
+  zombieTrip,
+  gpsStarvation,
+];
@@ -0,0 +1,190 @@
+/**
+ * Hazard Alert Service - warns the rider about community hazards ahead while recording
+ *
+ * Opt-in per category; preferences are stored as JSON in the settings table.
+ * While the tracker is recording, high-confidence hazards around the rider are
+ * cached from the global feedback API and each stored location is checked
+ * against them. In the foreground the alert is a haptic warning, in the
+ * background a local notification.
+ */
+
+import { AppState } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Notifications from 'expo-notifications';
+import i18n from '../i18n';
+import { database } from '../database';
+import { globalFeedbackApi } from '../api/globalFeedback';
+import { TrackingCoordinator } from './TrackingCoordinator';
+import {
+  DEFAULT_HAZARD_ALERT_PREFERENCES,
+  findHazardsAhead,
+  hazardCacheBbox,
+  needsHazardRefresh,
+  toCachedHazards,
+  type CachedHazard,
+  type HazardAhead,
+  type HazardAlertCategory,
+  type HazardAlertPreferences,
+} from '../utils/hazardAlerts';
+import type { Coordinate } from '../../types/location';
+
+const HAZARD_ALERTS_SETTING = 'hazard_alerts';
+
+/**
+ * Hazard Alert Service for opt-in preferences and the recording-time geofence
+ */
+class HazardAlertService {
+  private preferences: HazardAlertPreferences | null = null;
+  private readonly listeners = new Set<() => void>();
+  private hazards: CachedHazard[] = [];
+  private cacheCenter: Coordinate | null = null;
+  private refreshFailedAt: number | null = null;
+  private refreshing = false;
+  private recording = false;
+  private previous: Coordinate | null = null;
+  private readonly alerted = new Set<number>();
+
+  /**
+   * Opt-in preferences, loaded from settings on first use
+   */
+  async getPreferences(): Promise<HazardAlertPreferences> {
+    if (!this.preferences) {
+      const raw = await database.getSetting(HAZARD_ALERTS_SETTING);
+      let stored: Partial<HazardAlertPreferences> = {};
+      try {
+        stored = raw ? (JSON.parse(raw) as Partial<HazardAlertPreferences>) : {};
+      } catch (error) {
+        // A corrupt setting falls back to the defaults rather than breaking tracking
+        console.warn('[HazardAlerts] Ignoring unreadable preferences:', error);
+      }
+      this.preferences = { ...DEFAULT_HAZARD_ALERT_PREFERENCES, ...stored };
+    }
+    return this.preferences;
+  }
+
+  /**
+   * Turn alerts for one category on or off
+   */
+  async setCategoryEnabled(category: HazardAlertCategory, enabled: boolean): Promise<void> {
+    const preferences = { ...(await this.getPreferences()), [category]: enabled };
+    await database.setSetting(HAZARD_ALERTS_SETTING, JSON.stringify(preferences));
+    this.preferences = preferences;
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[HazardAlerts] Listener error:', error);
+      }
+    }
+  }
+
+  /**
+   * Listen for preference changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Follow the tracker's state and stored locations. Returns a function that stops.
+   */
+  start(): () => void {
+    const unsubscribers = [
+      TrackingCoordinator.onStateChange((event) => {
+        this.recording = event.state === 'recording';
+      }),
+      TrackingCoordinator.onTripStarted(() => {
+        // Each trip announces every hazard again
+        this.alerted.clear();
+        this.previous = null;
+      }),
+      TrackingCoordinator.onLocationStored((event) => {
+        this.handleLocation({ latitude: event.lat, longitude: event.lng }).catch((error) => {
+          console.error('[HazardAlerts] Failed to check hazards:', error);
+        });
+      }),
+    ];
+
+    // The app may be (re)started in the middle of a recording
+    TrackingCoordinator.getStatus()
+      .then((status) => {
+        this.recording = status.state === 'recording';
+      })
+      .catch((error) => {
+        console.warn('[HazardAlerts] Failed to read tracking status:', error);
+      });
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private async handleLocation(position: Coordinate): Promise<void> {
+    if (!this.recording) return;
+
+    const preferences = await this.getPreferences();
+    if (!Object.values(preferences).some(Boolean)) return;
+
+    if (needsHazardRefresh(this.cacheCenter, position, this.refreshFailedAt)) {
+      await this.refreshHazards(position);
+    }
+
+    const ahead = findHazardsAhead(this.hazards, position, this.previous, this.alerted, preferences);
+    this.previous = position;
+    if (ahead.length === 0) return;
+
+    ahead.forEach(({ hazard }) => this.alerted.add(hazard.id));
+    // One alert per fix; the nearest hazard is the one that matters
+    await this.announce(ahead[0]);
+  }
+
+  private async refreshHazards(position: Coordinate): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+    try {
+      const feedback = await globalFeedbackApi.getGlobalFeedback({
+        bbox: hazardCacheBbox(position),
+        confidence_level: 'high',
+      });
+      this.hazards = toCachedHazards(feedback);
+      this.cacheCenter = position;
+      this.refreshFailedAt = null;
+    } catch (error) {
+      // Offline: keep whatever was cached and retry after a pause
+      console.warn('[HazardAlerts] Failed to load hazards:', error);
+      this.refreshFailedAt = Date.now();
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async announce({ hazard }: HazardAhead): Promise<void> {
+    if (AppState.currentState === 'active') {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => {
+        // Devices without a haptic motor reject
+      });
+      return;
+    }
+
+    try {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') return;
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: i18n.t('maps:hazardAlerts.title'),
+          body: i18n.t(`maps:hazardAlerts.${hazard.category}`),
+          data: { type: 'hazard_alert', feedbackId: hazard.id },
+        },
+        trigger: null,
+      });
+    } catch (error) {
+      // Never let notification errors interrupt tracking
+      console.warn('[HazardAlerts] Failed to show alert:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const hazardAlertService = new HazardAlertService();
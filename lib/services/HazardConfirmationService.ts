@@ -0,0 +1,112 @@
+/**
+ * Hazard Confirmation Service - asks riders about hazards they just rode past
+ *
+ * When a trip is finalized, the active community hazards its route passed
+ * close to are looked up and, if there are any the rider has not answered
+ * recently, a local notification invites them to say whether each one is
+ * still there or fixed. Those votes are what lets stale hazards age out.
+ */
+
+import * as Notifications from 'expo-notifications';
+import i18n from '../i18n';
+import { database } from '../database';
+import { globalFeedbackApi, type GlobalFeedback } from '../api/globalFeedback';
+import { feedbackVotesApi, type FeedbackVote } from '../api/feedbackVotes';
+import { TrackingCoordinator } from './TrackingCoordinator';
+import { outboxService } from './OutboxService';
+import { parseRouteData } from '../utils/geoCalculations';
+import { findPassedHazards, queuedVotes, routeBbox } from '../utils/hazardConfirmations';
+import type { Coordinate } from '../../types/location';
+
+/**
+ * Hazard Confirmation Service for post-trip still-there / fixed prompts
+ */
+class HazardConfirmationService {
+  private readonly passed = new Map<string, GlobalFeedback[]>();
+
+  /**
+   * Prompt after every finalized trip. Returns a function that stops.
+   */
+  start(): () => void {
+    return TrackingCoordinator.onTripEnded(({ tripId }) => {
+      this.promptForTrip(tripId).catch((error) => {
+        console.warn('[HazardConfirmations] Failed to prompt for trip:', error);
+      });
+    });
+  }
+
+  /**
+   * Hazards a trip passed that the rider has not answered recently.
+   * Results are kept for the session so the prompt and the screen agree.
+   */
+  async getPassedHazards(tripId: string): Promise<GlobalFeedback[]> {
+    const cached = this.passed.get(tripId);
+    if (cached) return cached;
+
+    const route = await this.loadTripRoute(tripId);
+    const bbox = routeBbox(route);
+    if (!bbox) return [];
+
+    const [feedback, votes, queued] = await Promise.all([
+      globalFeedbackApi.getGlobalFeedback({ bbox }),
+      feedbackVotesApi.getMyVotes().catch((error): FeedbackVote[] => {
+        // Without the history the rider may be asked again; that beats not asking
+        console.warn('[HazardConfirmations] Failed to load votes:', error);
+        return [];
+      }),
+      // Votes cast offline have not reached the history yet
+      outboxService.getQueuedPayloads('feedback_vote'),
+    ]);
+
+    const hazards = findPassedHazards(route, feedback, [...votes, ...queuedVotes(queued)]);
+    this.passed.set(tripId, hazards);
+    return hazards;
+  }
+
+  /**
+   * The route of a completed trip. Multi-modal trips split by older builds
+   * left a cancelled parent, with the route on `${tripId}_segment${i}` trips.
+   */
+  private async loadTripRoute(tripId: string): Promise<Coordinate[]> {
+    const trip = await database.getTrip(tripId);
+    if (!trip) return [];
+    if (trip.status === 'completed') return this.loadRoute(tripId, trip.route_data);
+
+    const route: Coordinate[] = [];
+    for (let i = 0; ; i++) {
+      const segment = await database.getTrip(`${tripId}_segment${i}`);
+      if (!segment) break;
+      if (segment.status === 'completed') {
+        route.push(...(await this.loadRoute(segment.id, segment.route_data)));
+      }
+    }
+    return route;
+  }
+
+  private async loadRoute(tripId: string, routeData: string | null): Promise<Coordinate[]> {
+    const route = parseRouteData(routeData);
+    if (route.length > 0) return route;
+    const locations = await database.getLocationsByTrip(tripId);
+    return locations.map(({ latitude, longitude }) => ({ latitude, longitude }));
+  }
+
+  private async promptForTrip(tripId: string): Promise<void> {
+    const hazards = await this.getPassedHazards(tripId);
+    if (hazards.length === 0) return;
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return;
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: i18n.t('maps:votes.prompt.title'),
+        body: i18n.t('maps:votes.prompt.body', { count: hazards.length }),
+        data: { type: 'confirm_hazards', tripId },
+      },
+      trigger: null,
+    });
+  }
+}
+
+// Export singleton instance
+export const hazardConfirmationService = new HazardConfirmationService();
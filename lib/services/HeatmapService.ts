@@ -0,0 +1,136 @@
+/**
+ * Heatmap Service - personal heatmap built from on-device trip locations
+ *
+ * Each completed trip is binned into grid cells once (heatmap_cells) when it
+ * is finalized. Trips that have no cells yet (recorded before this cache
+ * existed, or re-cut by a merge/split) are binned on the next read, so the
+ * cache fills in incrementally and never needs a full rebuild.
+ */
+
+import { database } from '../database';
+import {
+  binLocations,
+  cellIndex,
+  heatmapLegend,
+  toHeatmapPoints,
+} from '../utils/heatmapGrid';
+import type {
+  HeatmapDataRequest,
+  HeatmapDataResponse,
+  HeatmapLegendEntry,
+} from '../../types/heatmap';
+
+export interface PersonalHeatmap extends HeatmapDataResponse {
+  legend: HeatmapLegendEntry[];
+}
+
+/**
+ * Heatmap Service for binning trips and reading the aggregated grid
+ */
+class HeatmapService {
+  private readonly listeners = new Set<() => void>();
+  private backfill: Promise<void> | null = null;
+
+  /**
+   * Bin a trip's locations into heatmap cells. Trips that are not completed
+   * (cancelled, still active) have their cells removed instead.
+   */
+  async indexTrip(tripId: string): Promise<void> {
+    await this.binTrip(tripId);
+    this.notify();
+  }
+
+  /**
+   * Aggregate the grid for the request's bounds, date range and trip type.
+   * `userId` is ignored: the device only holds the signed-in rider's trips.
+   */
+  async getHeatmap(request: HeatmapDataRequest): Promise<PersonalHeatmap> {
+    await this.backfillMissing();
+
+    const { northEast, southWest } = request.bounds;
+    const filters = {
+      minCellLat: cellIndex(Math.min(southWest.latitude, northEast.latitude)),
+      maxCellLat: cellIndex(Math.max(southWest.latitude, northEast.latitude)),
+      minCellLng: cellIndex(Math.min(southWest.longitude, northEast.longitude)),
+      maxCellLng: cellIndex(Math.max(southWest.longitude, northEast.longitude)),
+      type: request.tripType,
+      startDate: request.startDate?.getTime(),
+      endDate: request.endDate?.getTime(),
+    };
+
+    const [rows, summary] = await Promise.all([
+      database.getHeatmapCellTrips(filters),
+      database.getHeatmapTripSummary(filters),
+    ]);
+    const cells = rows.map((row) => ({ cellLat: row.cell_lat, cellLng: row.cell_lng, trips: row.trips }));
+    const maxTrips = cells.reduce((max, cell) => Math.max(max, cell.trips), 0);
+
+    return {
+      points: toHeatmapPoints(cells),
+      totalTrips: summary.trips,
+      dateRange: {
+        start: new Date(summary.first_start ?? request.startDate?.getTime() ?? Date.now()),
+        end: new Date(summary.last_start ?? request.endDate?.getTime() ?? Date.now()),
+      },
+      legend: heatmapLegend(maxTrips),
+    };
+  }
+
+  /**
+   * Listen for trips being added to the heatmap. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async binTrip(tripId: string): Promise<void> {
+    const trip = await database.getTripById(tripId);
+    if (!trip || trip.status !== 'completed') {
+      await database.deleteHeatmapCells(tripId);
+      return;
+    }
+
+    const cells = binLocations(await database.getLocationsByTrip(tripId));
+    await database.replaceHeatmapCells(
+      tripId,
+      cells.map((cell) => ({ cell_lat: cell.cellLat, cell_lng: cell.cellLng, hits: cell.hits }))
+    );
+  }
+
+  /**
+   * Bin every completed trip that has no cells yet. Concurrent reads share
+   * one pass.
+   */
+  private backfillMissing(): Promise<void> {
+    if (!this.backfill) {
+      this.backfill = (async () => {
+        const tripIds = await database.getTripIdsWithoutHeatmapCells();
+        for (const tripId of tripIds) {
+          await this.binTrip(tripId);
+        }
+        if (tripIds.length > 0) {
+          console.log(`[HeatmapService] Binned ${tripIds.length} trips`);
+        }
+      })().finally(() => {
+        this.backfill = null;
+      });
+    }
+    return this.backfill;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[HeatmapService] Listener error:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const heatmapService = new HeatmapService();
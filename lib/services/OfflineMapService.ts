@@ -0,0 +1,187 @@
+/**
+ * Offline Map Service - Mapbox offline packs for riding without signal
+ *
+ * Each downloaded region is one Mapbox offline pack. The pack's metadata
+ * records the map layer, the bounds and when it was downloaded, so the
+ * settings screen can show the style and expiry without a separate table.
+ * Mapbox stores the tiles itself; nothing is kept in SQLite.
+ */
+
+import { offlineManager, OfflinePackDownloadState } from '@rnmapbox/maps';
+import { MapLayerStyles } from '../../config/mapbox';
+import { database } from '../database';
+import { parseRouteData } from '../utils/geoCalculations';
+import {
+  containsRegion,
+  OFFLINE_MAX_ZOOM,
+  OFFLINE_MIN_ZOOM,
+  packExpiresAt,
+  suggestOfflineRegions,
+  toPackBounds,
+  type OfflineRegionBounds,
+  type OfflineRegionSuggestion,
+} from '../utils/offlineRegions';
+import type { MapLayer } from '../hooks/useMapLayer';
+import type { Coordinate } from '../../types/location';
+
+// Trips older than this no longer say much about where the rider goes
+const SUGGESTION_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OfflinePackMetadata {
+  layer: MapLayer;
+  bounds: OfflineRegionBounds;
+  downloadedAt: number;
+}
+
+export interface OfflineRegion {
+  name: string;
+  layer: MapLayer;
+  bounds: OfflineRegionBounds;
+  downloadedAt: number;
+  expiresAt: number;
+  isExpired: boolean;
+  /** Bytes downloaded so far */
+  sizeBytes: number;
+  /** Download progress, 0-100 */
+  percentage: number;
+  isComplete: boolean;
+}
+
+/**
+ * Offline Map Service for downloading, refreshing and removing region packs
+ */
+class OfflineMapService {
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * Downloaded and in-progress regions, newest first
+   */
+  async getRegions(): Promise<OfflineRegion[]> {
+    const packs = await offlineManager.getPacks();
+    const regions: OfflineRegion[] = [];
+
+    for (const pack of packs) {
+      const metadata = pack.metadata as OfflinePackMetadata | undefined;
+      // Packs created outside this screen have no region metadata
+      if (!metadata?.bounds || !metadata.layer) continue;
+
+      const status = await pack.status();
+      const expiresAt = packExpiresAt(metadata.downloadedAt);
+      regions.push({
+        name: pack.name,
+        layer: metadata.layer,
+        bounds: metadata.bounds,
+        downloadedAt: metadata.downloadedAt,
+        expiresAt,
+        isExpired: expiresAt <= Date.now(),
+        sizeBytes: status.completedResourceSize,
+        percentage: status.percentage,
+        isComplete: status.state === OfflinePackDownloadState.Complete,
+      });
+    }
+
+    return regions.sort((a, b) => b.downloadedAt - a.downloadedAt);
+  }
+
+  /**
+   * Start downloading a region in the given map layer. Progress is reported
+   * through subscribe() listeners.
+   */
+  async downloadRegion(bounds: OfflineRegionBounds, layer: MapLayer): Promise<void> {
+    await this.createPack(`region_${Date.now()}`, bounds, layer);
+  }
+
+  /**
+   * Download an expired region again so its tiles and expiry are fresh
+   */
+  async updateRegion(name: string): Promise<void> {
+    const pack = await offlineManager.getPack(name);
+    const metadata = pack?.metadata as OfflinePackMetadata | undefined;
+    if (!metadata?.bounds) {
+      throw new Error(`Offline region ${name} not found`);
+    }
+
+    await offlineManager.deletePack(name);
+    await this.createPack(name, metadata.bounds, metadata.layer);
+  }
+
+  /**
+   * Delete a region and its tiles
+   */
+  async removeRegion(name: string): Promise<void> {
+    await offlineManager.deletePack(name);
+    this.notify();
+  }
+
+  /**
+   * Regions where the rider often travels that are not downloaded yet,
+   * from the bounding boxes of recent completed trips
+   */
+  async getSuggestions(): Promise<OfflineRegionSuggestion[]> {
+    const trips = await database.getAllTrips({
+      status: 'completed',
+      startDate: Date.now() - SUGGESTION_WINDOW_DAYS * DAY_MS,
+    });
+
+    const routes: Coordinate[][] = [];
+    for (const trip of trips) {
+      const route = parseRouteData(trip.route_data);
+      if (route.length > 0) {
+        routes.push(route);
+      } else {
+        const locations = await database.getLocationsByTrip(trip.id);
+        routes.push(locations.map(({ latitude, longitude }) => ({ latitude, longitude })));
+      }
+    }
+
+    const downloaded = await this.getRegions();
+    return suggestOfflineRegions(routes).filter(
+      (suggestion) => !downloaded.some((region) => containsRegion(region.bounds, suggestion.bounds))
+    );
+  }
+
+  /**
+   * Listen for region changes and download progress. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async createPack(name: string, bounds: OfflineRegionBounds, layer: MapLayer): Promise<void> {
+    const metadata: OfflinePackMetadata = { layer, bounds, downloadedAt: Date.now() };
+
+    await offlineManager.createPack(
+      {
+        name,
+        styleURL: MapLayerStyles[layer],
+        bounds: toPackBounds(bounds),
+        minZoom: OFFLINE_MIN_ZOOM,
+        maxZoom: OFFLINE_MAX_ZOOM,
+        metadata: { ...metadata },
+      },
+      () => this.notify(),
+      (_pack, error) => {
+        console.error(`[OfflineMaps] Download of ${name} failed:`, error.message);
+        this.notify();
+      }
+    );
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[OfflineMaps] Listener error:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const offlineMapService = new OfflineMapService();
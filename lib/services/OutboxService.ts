@@ -0,0 +1,460 @@
+/**
+ * Outbox Service - durable queue for mutating API calls
+ *
+ * Every write the rider makes (rating a route, reporting a pothole, liking a
+ * post...) is persisted to the sync_queue table before it is sent, so it
+ * survives being offline or the app being killed. Failed sends are retried
+ * with exponential backoff and dead-lettered after MAX_ATTEMPTS; dead items
+ * stay visible in Settings so the rider can retry or discard them.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { database } from '../database';
+import type { SyncQueueItem, SyncQueueStatus } from '../database/db';
+import { getErrorStatus, isNetworkError } from '../api/client';
+import { ratingsAPI, type SubmitRatingsRequest } from '../api/ratings';
+import { mapFeedbackApi, type CreateMapFeedbackRequest, type UpdateMapFeedbackRequest } from '../api/mapFeedback';
+import { feedbackVotesApi, type FeedbackVoteKind } from '../api/feedbackVotes';
+import { postAPI } from '../api/posts';
+import { clubAPI } from '../api/clubs';
+import { tripAPI } from '../api/trips';
+import { syncService } from './SyncService';
+import { privacyZoneService } from './PrivacyZoneService';
+import { trimSegmentsToPrivacyZones } from '../utils/privacyZones';
+import { withRoadSections, type MatchableSection } from '../utils/roadMatching';
+import { calculateBoundingBox, formatBoundingBox, geometryVertices } from '../utils/geoCalculations';
+import { roadSectionsApi } from '../api/roadSections';
+import { deleteStoredPhotos, loadPhotos } from '../utils/reportPhotos';
+
+/**
+ * Payload stored for each operation type
+ */
+export interface OutboxPayloads {
+  route_rating: { tripId: string; request: SubmitRatingsRequest };
+  map_feedback: CreateMapFeedbackRequest; // new photos are stored files until sent (see reportPhotos)
+  map_feedback_update: { id: number; data: UpdateMapFeedbackRequest };
+  feedback_vote: { feedbackId: number; vote: FeedbackVoteKind };
+  post_like: { clubId: number; postId: number; liked: boolean };
+  post_comment: { clubId: number; postId: number; text: string };
+  club_join: { clubId: number; requestOnly: boolean }; // requestOnly for private clubs
+  trip_patch: { tripId: string }; // dirty fields are read from the trip at send time
+  trip_route: { tripId: string }; // route and stats after a merge or split, read at send time
+  trip_segments: { tripId: string }; // type and segment breakdown after a relabel, read at send time
+  trip_batch_delete: { tripIds: number[] };
+}
+
+export type OutboxOperationType = keyof OutboxPayloads;
+
+/**
+ * Outcome of submitting an operation: sent straight away, or left in the queue
+ */
+export type SubmitOutcome = 'sent' | 'queued';
+
+export interface PendingOperation {
+  id: number;
+  type: OutboxOperationType | 'unknown'; // 'unknown' for types this build can't send, kept so they can be discarded
+  payload: unknown;
+  status: SyncQueueStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt: number | null;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+}
+
+export interface FlushResult {
+  sent: number;
+  retrying: number;
+  dead: number;
+}
+
+type Handler<K extends OutboxOperationType> = (payload: OutboxPayloads[K]) => Promise<void>;
+
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Types where a second pending copy of the same payload would be redundant
+const COALESCED_TYPES: ReadonlySet<OutboxOperationType> = new Set(['trip_patch', 'trip_route', 'trip_segments']);
+
+/**
+ * The rider's known road sections around some rated segments; none when they
+ * can't be fetched, in which case the backend matches the geometry itself
+ */
+async function loadRoadSections(segments: SubmitRatingsRequest['rated_segments']): Promise<MatchableSection[]> {
+  const box = calculateBoundingBox(
+    segments.flatMap((segment) => (segment.geometry ? geometryVertices(segment.geometry) : []))
+  );
+  if (!box) return [];
+  try {
+    return await roadSectionsApi.getPersonalRoadSections(formatBoundingBox(box));
+  } catch (error) {
+    console.warn('[Outbox] Could not load road sections to match the rating:', errorMessage(error));
+    return [];
+  }
+}
+
+const HANDLERS: { [K in OutboxOperationType]: Handler<K> } = {
+  route_rating: async ({ tripId, request }) => {
+    // Zones are applied at send time so ratings queued before a zone was added are covered too
+    const zones = await privacyZoneService.getZones();
+    const ratedSegments = trimSegmentsToPrivacyZones(request.rated_segments, zones);
+    // Nothing left to send when every rated segment was inside a zone
+    if (ratedSegments.length > 0 || request.rated_segments.length === 0) {
+      // Matched here rather than on save so ratings saved offline get road sections too
+      const sections = await loadRoadSections(ratedSegments);
+      await ratingsAPI.submitRatings({ ...request, rated_segments: withRoadSections(ratedSegments, sections) });
+    }
+    if (request.version === undefined) {
+      // Queued before ratings were versioned
+      await database.updateRating(tripId, { synced: 1 });
+    } else {
+      await database.markRatingSynced(tripId, request.version);
+    }
+  },
+  map_feedback: async (payload) => {
+    await mapFeedbackApi.createFeedback(
+      payload.photos ? { ...payload, photos: await loadPhotos(payload.photos) } : payload
+    );
+    deleteStoredPhotos(payload.photos ?? []);
+  },
+  map_feedback_update: async ({ id, data }) => {
+    await mapFeedbackApi.updateFeedback(id, data.photos ? { ...data, photos: await loadPhotos(data.photos) } : data);
+    deleteStoredPhotos(data.photos ?? []);
+  },
+  feedback_vote: async ({ feedbackId, vote }) => {
+    await feedbackVotesApi.vote(feedbackId, vote);
+  },
+  post_like: async ({ clubId, postId, liked }) => {
+    if (liked) {
+      await postAPI.likePost(clubId, postId);
+    } else {
+      await postAPI.unlikePost(clubId, postId);
+    }
+  },
+  post_comment: async ({ clubId, postId, text }) => {
+    await postAPI.addComment(clubId, postId, { text });
+  },
+  club_join: async ({ clubId, requestOnly }) => {
+    if (requestOnly) {
+      await clubAPI.requestJoin(clubId);
+    } else {
+      await clubAPI.joinClub(clubId);
+    }
+  },
+  trip_patch: ({ tripId }) => syncService.patchTripFields(tripId),
+  trip_route: ({ tripId }) => syncService.patchTripRoute(tripId),
+  trip_segments: ({ tripId }) => syncService.patchTripSegments(tripId),
+  trip_batch_delete: async ({ tripIds }) => {
+    const result = await tripAPI.batchDelete(tripIds);
+    if (result.failed.length > 0) {
+      // Per-trip failures (already deleted, not owned) will not succeed on
+      // retry; dead-letter them on their own so they show in pending uploads
+      console.warn('[Outbox] Batch delete partially failed:', result.failed);
+      const id = await database.addToSyncQueue('trip_batch_delete', {
+        tripIds: result.failed.map((failure) => failure.trip_id),
+      });
+      await database.markSyncQueueItemDead(
+        id,
+        result.failed.map((failure) => `Trip ${failure.trip_id}: ${failure.error}`).join('\n')
+      );
+    }
+  },
+};
+
+/**
+ * Delay before the given attempt number is retried: 30s, 1m, 2m, 4m... capped at 6h
+ */
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * Network failures, timeouts, 5xx, 408 and 429 are worth retrying. Other 4xx
+ * responses mean the request itself is wrong, and errors raised on the device
+ * (a bad payload, a bug) will fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+  const status = getErrorStatus(error);
+  return status !== undefined && (status >= 500 || status === 408 || status === 429);
+}
+
+function isSessionExpired(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('Session expired');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Photo files an operation holds on to, deleted with it when it is dropped
+ */
+function storedPhotosOf<K extends OutboxOperationType>(type: K, payload: OutboxPayloads[K]): string[] {
+  if (type === 'map_feedback') return (payload as OutboxPayloads['map_feedback']).photos ?? [];
+  if (type === 'map_feedback_update') return (payload as OutboxPayloads['map_feedback_update']).data.photos ?? [];
+  return [];
+}
+
+function isOperationType(type: string): type is OutboxOperationType {
+  return Object.prototype.hasOwnProperty.call(HANDLERS, type);
+}
+
+function run<K extends OutboxOperationType>(type: K, payload: OutboxPayloads[K]): Promise<void> {
+  return (HANDLERS[type] as Handler<K>)(payload);
+}
+
+/**
+ * Outbox Service for queueing and replaying API writes
+ */
+class OutboxService {
+  private flushPromise: Promise<FlushResult> | null = null;
+  private readonly inflight = new Set<number>();
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * Check if device has network connectivity
+   */
+  async checkNetwork(): Promise<boolean> {
+    try {
+      const netInfo = await NetInfo.fetch();
+      return netInfo.isConnected === true && netInfo.isInternetReachable !== false;
+    } catch (error) {
+      console.error('[Outbox] Error checking network:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Persist an operation and try to send it immediately.
+   *
+   * Resolves 'sent' on success and 'queued' when offline or on a retryable
+   * failure. Non-retryable failures (e.g. a 400) are dropped from the queue
+   * and rethrown so the caller can show the error while the user is still there.
+   */
+  async submit<K extends OutboxOperationType>(type: K, payload: OutboxPayloads[K]): Promise<SubmitOutcome> {
+    const id = await this.enqueue(type, payload);
+    if (id === null) return 'queued';
+
+    if (!(await this.checkNetwork())) {
+      console.log(`[Outbox] Offline, queued ${type} #${id}`);
+      return 'queued';
+    }
+
+    this.inflight.add(id);
+    try {
+      await run(type, payload);
+      await database.removeSyncQueueItem(id);
+      return 'sent';
+    } catch (error) {
+      if (isSessionExpired(error) || isRetryableError(error)) {
+        await database.updateSyncQueueRetry(id, Date.now() + getBackoffDelay(1), errorMessage(error));
+        console.log(`[Outbox] Queued ${type} #${id} for retry:`, errorMessage(error));
+        return 'queued';
+      }
+      await database.removeSyncQueueItem(id);
+      deleteStoredPhotos(storedPhotosOf(type, payload));
+      throw error;
+    } finally {
+      this.inflight.delete(id);
+      this.notify();
+    }
+  }
+
+  /**
+   * Persist an operation without sending it; the next flush picks it up.
+   * Lets a caller queue work inside its own database transaction.
+   * Resolves the queue item's id, or null when an identical one is pending.
+   */
+  async enqueue<K extends OutboxOperationType>(type: K, payload: OutboxPayloads[K]): Promise<number | null> {
+    if (COALESCED_TYPES.has(type)) {
+      const existing = await database.findPendingSyncQueueItem(type, payload);
+      if (existing) {
+        console.log(`[Outbox] ${type} already queued as #${existing.id}`);
+        return null;
+      }
+    }
+
+    const id = await database.addToSyncQueue(type, payload);
+    this.notify();
+    return id;
+  }
+
+  /**
+   * Send every pending operation whose backoff has elapsed, oldest first.
+   * Concurrent calls share the same run.
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async runFlush(): Promise<FlushResult> {
+    const result: FlushResult = { sent: 0, retrying: 0, dead: 0 };
+
+    try {
+      if (!(await this.checkNetwork())) return result;
+
+      const items = await database.getDueSyncQueueItems();
+      for (const item of items) {
+        if (item.id == null || this.inflight.has(item.id)) continue;
+
+        const outcome = await this.attempt(item as SyncQueueItem & { id: number });
+        if (outcome === 'unauthorized') {
+          console.log('[Outbox] Session expired, pausing flush until sign-in');
+          break;
+        }
+        result[outcome]++;
+      }
+
+      if (items.length > 0) {
+        console.log('[Outbox] Flush completed', result);
+        this.notify();
+      }
+    } catch (error) {
+      console.error('[Outbox] Flush error:', error);
+    }
+
+    return result;
+  }
+
+  private async attempt(
+    item: SyncQueueItem & { id: number }
+  ): Promise<keyof FlushResult | 'unauthorized'> {
+    if (!isOperationType(item.type)) {
+      await database.markSyncQueueItemDead(item.id, `Unknown operation type: ${item.type}`);
+      return 'dead';
+    }
+
+    this.inflight.add(item.id);
+    try {
+      await run(item.type, JSON.parse(item.data));
+      await database.removeSyncQueueItem(item.id);
+      return 'sent';
+    } catch (error) {
+      if (isSessionExpired(error)) return 'unauthorized';
+
+      const attempts = item.retry_count + 1;
+      if (!isRetryableError(error) || attempts >= MAX_ATTEMPTS) {
+        console.warn(`[Outbox] Dead-lettering ${item.type} #${item.id}:`, errorMessage(error));
+        await database.markSyncQueueItemDead(item.id, errorMessage(error));
+        return 'dead';
+      }
+
+      await database.updateSyncQueueRetry(
+        item.id,
+        Date.now() + getBackoffDelay(attempts),
+        errorMessage(error)
+      );
+      return 'retrying';
+    } finally {
+      this.inflight.delete(item.id);
+    }
+  }
+
+  /**
+   * Everything still in the queue, including dead-lettered items and items of
+   * unknown type
+   */
+  async getPendingOperations(): Promise<PendingOperation[]> {
+    const items = await database.getSyncQueue();
+    return items
+      .filter((item): item is SyncQueueItem & { id: number } => item.id != null)
+      .map((item) => ({
+        id: item.id,
+        type: isOperationType(item.type) ? item.type : 'unknown',
+        payload: JSON.parse(item.data),
+        status: item.status ?? 'pending',
+        attempts: item.retry_count,
+        createdAt: item.created_at,
+        lastAttemptAt: item.last_attempt,
+        nextAttemptAt: item.next_attempt_at ?? null,
+        lastError: item.last_error ?? null,
+      }));
+  }
+
+  /**
+   * Payloads of one type still waiting to be sent, with when they were queued.
+   * Dead operations are left out; they will not be sent.
+   */
+  async getQueuedPayloads<K extends OutboxOperationType>(
+    type: K
+  ): Promise<{ id: number; payload: OutboxPayloads[K]; createdAt: number }[]> {
+    const items = await database.getSyncQueue();
+    return items
+      .filter(
+        (item): item is SyncQueueItem & { id: number } =>
+          item.id != null && item.type === type && item.status !== 'dead'
+      )
+      .map((item) => ({
+        id: item.id,
+        payload: JSON.parse(item.data) as OutboxPayloads[K],
+        createdAt: item.created_at,
+      }));
+  }
+
+  /**
+   * Change an operation that has not been sent yet, e.g. a report edited
+   * offline before it was created. Resolves false when it is already being
+   * sent or has left the queue; the caller should then edit what was sent.
+   */
+  async replaceQueued<K extends OutboxOperationType>(
+    id: number,
+    type: K,
+    payload: OutboxPayloads[K]
+  ): Promise<boolean> {
+    if (this.inflight.has(id)) return false;
+    const replaced = await database.updatePendingSyncQueueData(id, type, payload);
+    if (replaced) this.notify();
+    return replaced;
+  }
+
+  /**
+   * Put an operation back in the queue with a fresh retry budget and send it now
+   */
+  async retry(id: number): Promise<FlushResult> {
+    await database.resetSyncQueueItem(id);
+    this.notify();
+    return this.flush();
+  }
+
+  /**
+   * Drop an operation without sending it
+   */
+  async discard(id: number): Promise<void> {
+    const item = await database.getSyncQueueItem(id);
+    await database.removeSyncQueueItem(id);
+    if (item && isOperationType(item.type)) {
+      deleteStoredPhotos(storedPhotosOf(item.type, JSON.parse(item.data)));
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for queue changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[Outbox] Listener error:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
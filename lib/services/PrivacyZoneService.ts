@@ -0,0 +1,119 @@
+/**
+ * Privacy Zone Service - user-defined areas hidden from shared routes
+ *
+ * Zones are stored as JSON in the settings table and cached in memory.
+ * Every path that sends route geometry to the backend reads them from here:
+ * trip uploads (transformTripForApi), road-section ratings and trip shares.
+ */
+
+import { database } from '../database';
+import { tripAPI } from '../api/trips';
+import {
+  MAX_ZONE_RADIUS,
+  MIN_ZONE_RADIUS,
+  trimRouteToPrivacyZones,
+  type PrivacyZone,
+} from '../utils/privacyZones';
+
+const PRIVACY_ZONES_SETTING = 'privacy_zones';
+
+function clampRadius(radius: number): number {
+  return Math.round(Math.min(MAX_ZONE_RADIUS, Math.max(MIN_ZONE_RADIUS, radius)));
+}
+
+/**
+ * Privacy Zone Service for managing zones and scrubbing shared routes
+ */
+class PrivacyZoneService {
+  private zones: PrivacyZone[] | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * All zones, loaded from settings on first use
+   */
+  async getZones(): Promise<PrivacyZone[]> {
+    if (!this.zones) {
+      const raw = await database.getSetting(PRIVACY_ZONES_SETTING);
+      this.zones = raw ? (JSON.parse(raw) as PrivacyZone[]) : [];
+    }
+    return this.zones;
+  }
+
+  /**
+   * Add a zone. The radius is clamped to MIN_ZONE_RADIUS..MAX_ZONE_RADIUS.
+   */
+  async addZone(zone: Omit<PrivacyZone, 'id'>): Promise<PrivacyZone> {
+    const created: PrivacyZone = {
+      ...zone,
+      id: `zone_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      radius: clampRadius(zone.radius),
+    };
+    await this.save([...(await this.getZones()), created]);
+    return created;
+  }
+
+  /**
+   * Update a zone's name, centre or radius
+   */
+  async updateZone(id: string, changes: Partial<Omit<PrivacyZone, 'id'>>): Promise<void> {
+    const zones = await this.getZones();
+    await this.save(
+      zones.map((zone) =>
+        zone.id === id
+          ? { ...zone, ...changes, radius: clampRadius(changes.radius ?? zone.radius) }
+          : zone
+      )
+    );
+  }
+
+  /**
+   * Remove a zone
+   */
+  async removeZone(id: string): Promise<void> {
+    const zones = await this.getZones();
+    await this.save(zones.filter((zone) => zone.id !== id));
+  }
+
+  /**
+   * Make sure the backend copy of a trip has no points inside a privacy zone
+   * before it is shared. Trips uploaded before a zone was added still carry
+   * the full route, so the route is fetched, trimmed and PATCHed back.
+   */
+  async scrubSharedTrip(backendTripId: number): Promise<void> {
+    const zones = await this.getZones();
+    if (zones.length === 0) return;
+
+    const trip = await tripAPI.getTrip(backendTripId);
+    const route = trip.route ?? [];
+    const trimmed = trimRouteToPrivacyZones(route, zones);
+    if (trimmed === route) return;
+
+    await tripAPI.patchTrip(backendTripId, { route: trimmed });
+    console.log(`[PrivacyZones] Trimmed ${route.length - trimmed.length} points from trip ${backendTripId} before sharing`);
+  }
+
+  /**
+   * Listen for zone changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async save(zones: PrivacyZone[]): Promise<void> {
+    await database.setSetting(PRIVACY_ZONES_SETTING, JSON.stringify(zones));
+    this.zones = zones;
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[PrivacyZones] Listener error:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const privacyZoneService = new PrivacyZoneService();
@@ -0,0 +1,119 @@
+/**
+ * Route History Service - simplified routes of past trips for the my routes layer
+ *
+ * Each completed trip's route is simplified once (simplified_routes) when it
+ * is finalized. Trips that have no simplified route yet (recorded before this
+ * cache existed, pulled from the backend, or re-cut by a merge/split) are
+ * simplified on the next read, so the cache fills in incrementally.
+ */
+
+import { database, type SimplifiedRouteRow } from '../database';
+import { parseRouteData } from '../utils/geoCalculations';
+import { dominantFeeling, simplifyTripRoute, type MyRoute } from '../utils/routeHistory';
+import type { RouteSegment } from '../../types/rating';
+
+/**
+ * Route History Service for caching and reading simplified trip routes
+ */
+class RouteHistoryService {
+  private readonly listeners = new Set<() => void>();
+  private backfill: Promise<void> | null = null;
+
+  /**
+   * Simplify a trip's route. Trips that are not completed (cancelled, still
+   * active) have their route removed instead.
+   */
+  async indexTrip(tripId: string): Promise<void> {
+    await this.simplifyTrip(tripId);
+    this.notify();
+  }
+
+  /**
+   * Every visible completed trip's simplified route, oldest first
+   */
+  async getRoutes(): Promise<MyRoute[]> {
+    await this.backfillMissing();
+    const rows = await database.getSimplifiedRoutes();
+    return rows.map(toMyRoute);
+  }
+
+  /**
+   * Listen for trips being added to the layer. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async simplifyTrip(tripId: string): Promise<void> {
+    const trip = await database.getTripById(tripId);
+    if (!trip || trip.status !== 'completed') {
+      await database.deleteSimplifiedRoute(tripId);
+      return;
+    }
+
+    let route = parseRouteData(trip.route_data);
+    if (route.length === 0) {
+      const locations = await database.getLocationsByTrip(tripId);
+      route = locations.map(({ latitude, longitude }) => ({ latitude, longitude }));
+    }
+    await database.replaceSimplifiedRoute(tripId, JSON.stringify(simplifyTripRoute(route)));
+  }
+
+  /**
+   * Simplify every completed trip that has no simplified route yet.
+   * Concurrent reads share one pass.
+   */
+  private backfillMissing(): Promise<void> {
+    if (!this.backfill) {
+      this.backfill = (async () => {
+        const tripIds = await database.getTripIdsWithoutSimplifiedRoute();
+        for (const tripId of tripIds) {
+          await this.simplifyTrip(tripId);
+        }
+        if (tripIds.length > 0) {
+          console.log(`[RouteHistoryService] Simplified ${tripIds.length} routes`);
+        }
+      })().finally(() => {
+        this.backfill = null;
+      });
+    }
+    return this.backfill;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[RouteHistoryService] Listener error:', error);
+      }
+    }
+  }
+}
+
+function toMyRoute(row: SimplifiedRouteRow): MyRoute {
+  let comfort: MyRoute['comfort'] = null;
+  if (row.rating_segments) {
+    try {
+      comfort = dominantFeeling(JSON.parse(row.rating_segments) as RouteSegment[]);
+    } catch {
+      // A corrupt rating only loses its colour
+    }
+  }
+
+  return {
+    tripId: row.trip_id,
+    backendId: row.backend_id,
+    type: row.type,
+    startTime: row.start_time,
+    avgSpeed: row.avg_speed,
+    coordinates: JSON.parse(row.coordinates) as [number, number][],
+    comfort,
+  };
+}
+
+// Export singleton instance
+export const routeHistoryService = new RouteHistoryService();
@@ -4,9 +4,18 @@
 
 import NetInfo from '@react-native-community/netinfo';
 import { database } from '../database';
-import { tripAPI, transformTripForApi, type DBTrip, type ApiTrip, type ApiTripCreate } from '../api/trips';
+import {
+  tripAPI,
+  transformSegmentForApi,
+  transformTripForApi,
+  transformApiTripToLocal,
+  type DBTrip,
+  type ApiTrip,
+  type ApiTripCreate,
+} from '../api/trips';
 import type { Trip } from '../database/db';
 import { getTrackingConfig } from './TrackingConfig';
+import { privacyZoneService } from './PrivacyZoneService';
 
 export interface SyncResult {
   success: boolean;
@@ -19,17 +28,56 @@ export interface SyncResult {
   }>;
 }
 
+export interface PullResult {
+  success: boolean;
+  inserted: number;
+  updated: number;
+  deleted: number; // synced trips that no longer exist on the server
+  error?: string;
+}
+
 export interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: number | null;
   unsyncedCount: number;
 }
 
+const PULL_PAGE_SIZE = 100;
+const PULL_MAX_PAGES = 50;
+const LAST_PULL_SETTING = 'last_trip_pull_at';
+
+// Server-computed fields that always win over the local copy on pull
+const SERVER_OWNED_FIELDS = [
+  'status',
+  'is_manual',
+  'start_time',
+  'end_time',
+  'distance',
+  'duration',
+  'avg_speed',
+  'co2_saved',
+  'validation_log',
+  'classification_source',
+  'moving_duration_s',
+  'moving_avg_speed_kmh',
+  'elevation_loss_m',
+  'backend_avg_speed_kmh',
+  'is_valid',
+] as const;
+
+/**
+ * Copy one field of a trip onto a set of updates, keeping its type
+ */
+function copyTripField<K extends keyof Trip>(updates: Partial<Trip>, source: Trip, field: K): void {
+  updates[field] = source[field];
+}
+
 /**
  * Sync Service for managing trip synchronization
  */
 class SyncService {
   private isSyncing = false;
+  private isPulling = false;
   private lastSyncTime: number | null = null;
   private retryDelays = [1000, 2000, 4000, 8000]; // Exponential backoff
   private readonly inflightSyncs = new Map<string, Promise<boolean>>();
@@ -135,8 +183,12 @@ class SyncService {
         }
       }
 
-      // Transform to API format
-      const apiTrip = transformTripForApi(trip as DBTrip);
+      // Transform to API format, leaving out points inside privacy zones
+      const apiTrip = transformTripForApi(
+        trip as DBTrip,
+        await privacyZoneService.getZones(),
+        await database.getTripSegments(tripId)
+      );
 
       // Send to backend
       const backendTrip = await tripAPI.createTrip(apiTrip);
@@ -234,6 +286,8 @@ class SyncService {
 
       if (unsyncedTrips.length === 0) {
         console.log('[SyncService] No trips to sync');
+        // Nothing to push, but a fresh install still has history to pull
+        void this.pullTrips();
         return {
           success: true,
           syncedCount: 0,
@@ -253,6 +307,8 @@ class SyncService {
         errors: [],
       };
 
+      const privacyZones = await privacyZoneService.getZones();
+
       // Process trips in batches of 50
       const batchSize = 50;
       for (let i = 0; i < unsyncedTrips.length; i += batchSize) {
@@ -264,7 +320,11 @@ class SyncService {
 
         for (const trip of batch) {
           try {
-            const apiTrip = transformTripForApi(trip as DBTrip);
+            const apiTrip = transformTripForApi(
+              trip as DBTrip,
+              privacyZones,
+              await database.getTripSegments(trip.id)
+            );
             apiTrips.push(apiTrip);
           } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -344,6 +404,9 @@ class SyncService {
       // already-synced trips.
       void this.syncDirtyTrips();
 
+      // Fire-and-forget: pull trips recorded on other devices / before a reinstall.
+      void this.pullTrips();
+
       return result;
     } catch (error) {
       console.error('[SyncService] Sync error:', error);
@@ -560,6 +623,52 @@ class SyncService {
     }
   }
 
+  /**
+   * PATCH a synced trip's route, timestamps and stats after it was merged or
+   * split locally. Reads the trip at send time so queued edits send the latest shape.
+   */
+  async patchTripRoute(tripId: string): Promise<void> {
+    const trip = await database.getTrip(tripId);
+    if (!trip || !trip.backend_id) return;
+
+    const apiTrip = transformTripForApi(
+      trip as DBTrip,
+      await privacyZoneService.getZones(),
+      await database.getTripSegments(tripId)
+    );
+    await tripAPI.patchTrip(trip.backend_id, {
+      start_timestamp: apiTrip.start_timestamp,
+      end_timestamp: apiTrip.end_timestamp,
+      route: apiTrip.route,
+      type: apiTrip.type,
+      elevation_gain: apiTrip.elevation_gain,
+      elevation_loss: apiTrip.elevation_loss,
+      segments: apiTrip.segments ?? [],
+    });
+    console.log(`[SyncService] PATCHed route of trip ${tripId} successfully`);
+  }
+
+  /**
+   * PATCH a synced trip's type and segment breakdown after a segment was
+   * relabelled. Clears type_dirty, since the type is sent along.
+   */
+  async patchTripSegments(tripId: string): Promise<void> {
+    const trip = await database.getTrip(tripId);
+    if (!trip || !trip.backend_id) return;
+
+    const segments = await database.getTripSegments(tripId);
+    const updated = await tripAPI.patchTrip(trip.backend_id, {
+      type: trip.type,
+      segments: segments.length > 1 ? segments.map(transformSegmentForApi) : [],
+    });
+    // The backend re-credits the trip from its segments
+    await database.updateTrip(tripId, {
+      type_dirty: 0,
+      ...(updated?.co2_saved != null ? { co2_saved: updated.co2_saved } : {}),
+    });
+    console.log(`[SyncService] PATCHed segments of trip ${tripId} successfully`);
+  }
+
   /**
    * Find all synced trips with dirty flags and PATCH them to the backend.
    * Best-effort: individual failures leave the dirty flag set for the next cycle.
@@ -584,6 +693,145 @@ class SyncService {
     }
   }
 
+  /**
+   * Pull every trip from the backend and reconcile it into the local database.
+   *
+   * - Matched by backend_id, then by client_id (= local trip id).
+   * - Server-computed stats always win; user_note and type only win when the
+   *   local copy has no pending edit (user_note_dirty / type_dirty).
+   * - Local route_data is kept when present — it is higher fidelity than the
+   *   filtered route the server returns.
+   * - Synced trips missing from a complete pull were deleted on the server
+   *   (e.g. from another device) and are removed locally. Unsynced trips are
+   *   never touched.
+   *
+   * Throttled to once per `minIntervalMs` unless called with 0.
+   */
+  async pullTrips(minIntervalMs = 15 * 60 * 1000): Promise<PullResult> {
+    const result: PullResult = { success: false, inserted: 0, updated: 0, deleted: 0 };
+
+    if (this.isPulling) {
+      return { ...result, error: 'Pull already in progress' };
+    }
+
+    this.isPulling = true;
+
+    try {
+      const lastPull = Number(await database.getSetting(LAST_PULL_SETTING)) || 0;
+      if (minIntervalMs > 0 && Date.now() - lastPull < minIntervalMs) {
+        return { ...result, success: true };
+      }
+
+      const isOnline = await this.checkNetwork();
+      if (!isOnline) {
+        return { ...result, error: 'No network connection' };
+      }
+
+      // Trips synced while the pages load are missing from them; only these can have been deleted
+      const syncedBeforePull = await database.getSyncedTrips();
+
+      // Page through the full trip list
+      const serverTrips: ApiTrip[] = [];
+      let complete = false;
+      for (let page = 1; page <= PULL_MAX_PAGES; page++) {
+        const response = await tripAPI.getTrips(undefined, { page, pageSize: PULL_PAGE_SIZE });
+        serverTrips.push(...response.results);
+        if (!response.next || response.results.length === 0) {
+          complete = true;
+          break;
+        }
+      }
+
+      const seenBackendIds = new Set<number>();
+      for (const apiTrip of serverTrips) {
+        seenBackendIds.add(apiTrip.id);
+        const outcome = await this.reconcileTrip(apiTrip);
+        if (outcome === 'inserted') result.inserted++;
+        else if (outcome === 'updated') result.updated++;
+      }
+
+      // Only trust absence from the list when every page was read. Hidden
+      // (visible = 0) trips are kept: the list may leave them out.
+      if (complete) {
+        for (const trip of syncedBeforePull) {
+          if (trip.backend_id != null && trip.visible !== 0 && !seenBackendIds.has(trip.backend_id)) {
+            console.log(`[SyncService] Trip ${trip.id} (backend ${trip.backend_id}) was deleted on the server`);
+            await database.deleteTrip(trip.id);
+            result.deleted++;
+          }
+        }
+      } else {
+        console.warn(`[SyncService] Pull stopped after ${PULL_MAX_PAGES} pages; skipping deletion check`);
+      }
+
+      await database.setSetting(LAST_PULL_SETTING, String(Date.now()));
+      result.success = true;
+
+      console.log(
+        `[SyncService] Pull complete: ${serverTrips.length} server trips, ` +
+          `${result.inserted} inserted, ${result.updated} updated, ${result.deleted} deleted`
+      );
+      return result;
+    } catch (error) {
+      console.error('[SyncService] Pull error:', error);
+      return { ...result, error: error instanceof Error ? error.message : 'Unknown error' };
+    } finally {
+      this.isPulling = false;
+    }
+  }
+
+  /**
+   * Insert or update the local copy of one backend trip.
+   */
+  private async reconcileTrip(apiTrip: ApiTrip): Promise<'inserted' | 'updated' | 'unchanged'> {
+    const remote = transformApiTripToLocal(apiTrip);
+    const local =
+      (await database.getTripByBackendId(apiTrip.id)) ?? (await database.getTrip(apiTrip.client_id));
+
+    if (!local) {
+      await database.createTrip(remote);
+      // createTrip only writes the base columns; fill in the rest
+      await database.updateTrip(remote.id, {
+        backend_id: remote.backend_id,
+        user_note: remote.user_note,
+        validation_log: remote.validation_log,
+        classification_source: remote.classification_source,
+        moving_duration_s: remote.moving_duration_s,
+        moving_avg_speed_kmh: remote.moving_avg_speed_kmh,
+        elevation_loss_m: remote.elevation_loss_m,
+        backend_avg_speed_kmh: remote.backend_avg_speed_kmh,
+        is_valid: remote.is_valid,
+      });
+      return 'inserted';
+    }
+
+    const updates: Partial<Trip> = {};
+    for (const field of SERVER_OWNED_FIELDS) {
+      if (remote[field] !== undefined && remote[field] !== local[field]) {
+        copyTripField(updates, remote, field);
+      }
+    }
+    if (!local.user_note_dirty && remote.user_note !== (local.user_note ?? null)) {
+      updates.user_note = remote.user_note;
+    }
+    if (!local.type_dirty && remote.type !== local.type) {
+      updates.type = remote.type;
+    }
+    if (!local.route_data && remote.route_data) {
+      updates.route_data = remote.route_data;
+    }
+    // Local trip the server already has (e.g. sync response was lost)
+    if (local.synced !== 1 || local.backend_id !== apiTrip.id) {
+      updates.synced = 1;
+      updates.backend_id = apiTrip.id;
+    }
+
+    if (Object.keys(updates).length === 0) return 'unchanged';
+
+    await database.updateTrip(local.id, { ...updates, updated_at: Date.now() });
+    return 'updated';
+  }
+
   /**
    * Get last sync time
    */
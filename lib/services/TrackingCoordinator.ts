@@ -4,6 +4,7 @@ import * as Notifications from 'expo-notifications';
 import {
   RadziTrackerNative,
   RadziTrackerEvents,
+  onTrackerBackendChanged,
   type TrackingStatus,
   type PermissionStatus,
   type TripStartedEvent,
@@ -30,6 +31,7 @@ interface CoordinatorListeners {
 class CoordinatorImpl {
   private manualOnly = false;
   private subs: Array<() => void> = [];
+  private nativeSubs: (() => void)[] = [];
   private listeners: CoordinatorListeners = {
     state: new Set(),
     activity: new Set(),
@@ -59,6 +61,8 @@ class CoordinatorImpl {
     this.manualOnly = storedManual === 'true';
 
     this.attachNativeSubscriptions();
+    // Dev replay swaps the native module for a simulator at runtime; follow it.
+    this.subs.push(onTrackerBackendChanged(() => this.attachNativeSubscriptions()));
 
     await this.recoverStaleTrips();
 
@@ -174,17 +178,17 @@ class CoordinatorImpl {
   }
 
   private attachNativeSubscriptions(): void {
-    this.detachAll();
-    this.subs.push(RadziTrackerEvents.onPermissionMissing((e) => {
+    this.detachNativeSubscriptions();
+    this.nativeSubs.push(RadziTrackerEvents.onPermissionMissing((e) => {
       this.notifyPermissionWarning(e.permission);
     }));
-    this.subs.push(RadziTrackerEvents.onStateChanged(e => this.listeners.state.forEach(cb => cb(e))));
-    this.subs.push(RadziTrackerEvents.onActivityChanged(async e => {
+    this.nativeSubs.push(RadziTrackerEvents.onStateChanged(e => this.listeners.state.forEach(cb => cb(e))));
+    this.nativeSubs.push(RadziTrackerEvents.onActivityChanged(async e => {
       // Forward to listeners only — native GRDB already writes motion segments.
       this.listeners.activity.forEach(cb => cb(e));
     }));
 
-    this.subs.push(RadziTrackerEvents.onTripStarted(async e => {
+    this.nativeSubs.push(RadziTrackerEvents.onTripStarted(async e => {
       this.activeTripId = e.tripId;
       // On iOS only: show a persistent notification so the user knows a trip is
       // being recorded. Android uses the native foreground-service notification
@@ -215,11 +219,11 @@ class CoordinatorImpl {
     // event to listeners is enough.  DO NOT also insert via database.addLocation()
     // because that creates duplicate rows in the same SQLite file and corrupts
     // the distance calculation during finalization.
-    this.subs.push(RadziTrackerEvents.onLocationStored(async e => {
+    this.nativeSubs.push(RadziTrackerEvents.onLocationStored(async e => {
       this.listeners.locationStored.forEach(cb => cb(e));
     }));
 
-    this.subs.push(RadziTrackerEvents.onTripEnded(async e => {
+    this.nativeSubs.push(RadziTrackerEvents.onTripEnded(async e => {
       this.activeTripId = null;
       // Dismiss trip-recording notification.
       // On iOS: dismiss the fixed-id notification we scheduled above.
@@ -246,9 +250,9 @@ class CoordinatorImpl {
     }));
   }
 
-  private detachAll(): void {
-    this.subs.forEach(unsub => unsub());
-    this.subs = [];
+  private detachNativeSubscriptions(): void {
+    this.nativeSubs.forEach(unsub => unsub());
+    this.nativeSubs = [];
     this.activeTripId = null;
     this.activeTripNotificationId = null;
   }
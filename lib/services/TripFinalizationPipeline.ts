@@ -1,5 +1,8 @@
 import { database } from '../database';
 import { calculateDistance, type Coordinate } from '../utils/geoCalculations';
+import { segmentRowsFromAnalysis } from '../utils/tripSegments';
+import { heatmapService } from './HeatmapService';
+import { routeHistoryService } from './RouteHistoryService';
 import { scheduleTripCompletionNotifications } from './TripManager';
 import { getTrackingConfig } from './TrackingConfig';
 
@@ -112,132 +115,61 @@ export class TripFinalizationPipeline {
     const { TripValidationService } = await import('./TripValidationService');
     const { syncService } = await import('./SyncService');
 
-    // Classify trip and check for multi-modal segments
+    // Classify the trip and keep its per-mode breakdown. Multi-modal trips
+    // stay a single trip; each mode is stored as a trip segment so the detail
+    // screen can show it and the backend credits CO2 and distance per mode.
     try {
       const { MotionActivitySegmenter } = await import('./MotionActivitySegmenter');
       const seg = await MotionActivitySegmenter.analyze(tripId);
-      
-      if (seg.isMultiModal && seg.segments.length > 1) {
-        console.log(`[TripFinalizationPipeline] Multi-modal trip detected! Splitting into ${seg.segments.length} segments.`);
-        
-        const MIN_SEGMENT_DIST: Record<string, number> = {
-           walk: 400, cycle: 1000, run: 500, drive: 2000
-        };
-        
-        for (let i = 0; i < seg.segments.length; i++) {
-          const segment = seg.segments[i];
-          const subTripId = `${tripId}_segment${i}`;
-          const minDist = MIN_SEGMENT_DIST[segment.type] ?? 400;
+      const method = seg.classificationMethod === 'cmma' ? 'cmma' : 'speed';
 
-          if (segment.distance < minDist) {
-            console.log(`[TripFinalizationPipeline] Skipping segment ${i} (${segment.type}): ${segment.distance.toFixed(0)}m < ${minDist}m`);
-            continue;
-          }
-
-          try {
-            if (!segment.locations?.length) {
-              throw new Error(`Segment ${i} has no locations`);
-            }
-
-            const sortedLocations = [...segment.locations].sort((a, b) => a.timestamp - b.timestamp);
-
-            const segmentRouteForSync = sortedLocations.map(loc => ({
-              lat: Number(loc.latitude.toFixed(6)),
-              lng: Number(loc.longitude.toFixed(6)),
-              timestamp: new Date(loc.timestamp).toISOString(),
-              ...(loc.accuracy != null ? { accuracy: Math.round(loc.accuracy) } : {}),
-            }));
-
-            const segmentStartTime = sortedLocations[0].timestamp;
-            const segmentEndTime = sortedLocations[sortedLocations.length - 1].timestamp;
-            const method = seg.classificationMethod === 'cmma' ? 'cmma' : 'speed';
-
-            await database.createTrip({
-              id: subTripId,
-              user_id: freshTrip.user_id || 'current_user',
-              type: segment.type,
-              status: 'completed',
-              is_manual: 0,
-              start_time: segmentStartTime,
-              end_time: segmentEndTime,
-              distance: segment.distance,
-              duration: segment.duration,
-              avg_speed: segment.avgSpeed,
-              max_speed: segment.maxSpeed,
-              elevation_gain: 0,
-              calories: 0,
-              co2_saved: 0,
-              notes: `Segment ${i + 1} of ${seg.segments.length} (multi-modal trip)`,
-              route_data: JSON.stringify(segmentRouteForSync),
-              created_at: Date.now(),
-              updated_at: Date.now(),
-              synced: 0,
-            });
-            // Set classification fields (not in createTrip's INSERT)
-            await database.updateTrip(subTripId, {
-              classification_method: method,
-              ml_activity_type: method === 'cmma' ? segment.type : null,
-              ml_confidence: method === 'cmma' ? segment.confidence / 100 : null,
-            });
+      await database.replaceTripSegments(tripId, segmentRowsFromAnalysis(seg.segments));
+      if (seg.isMultiModal) {
+        console.log(`[TripFinalizationPipeline] Multi-modal trip: ${seg.segments.map((s) => s.type).join(' → ')}`);
+      }
 
-            console.log(`[TripFinalizationPipeline] Validating sub-trip ${subTripId}...`);
-            const val = await TripValidationService.validateAndFinalizeTrip(subTripId, segmentEndTime);
-            if (val.isValid) {
-              await syncService.syncSingleTrip(subTripId);
-            }
-          } catch (segErr) {
-            console.warn(`[TripFinalizationPipeline] segment ${i} (${subTripId}) failed: ${String(segErr)}`);
-          }
-        }
-        
-        // Cancel the original parent trip
-        await database.updateTrip(tripId, {
-          status: 'cancelled',
-          notes: `Multi-modal trip split into segments`,
-          updated_at: Date.now(),
-        });
+      await database.updateTrip(tripId, {
+        classification_method: method,
+        type: seg.dominantType as any,
+        ...(seg.confidence > 0 ? { ml_activity_type: seg.dominantType, ml_confidence: seg.confidence / 100 } : {}),
+      });
+      console.log(`[TripFinalizationPipeline] classified as ${seg.dominantType} (${method})`);
 
-        // Notify the user — use the parent trip's total distance
+      console.log(`[TripFinalizationPipeline] Validating trip ${tripId}...`);
+      const val = await TripValidationService.validateAndFinalizeTrip(tripId, freshTrip.end_time || Date.now());
+      if (val.isValid) {
+        await syncService.syncSingleTrip(tripId);
         try {
           await scheduleTripCompletionNotifications(
             tripId,
-            (freshTrip.distance ?? 0) / 1000,
+            (freshTrip.distance ?? fallbackDistance) / 1000,
             seg.dominantType,
           );
         } catch { /* non-fatal */ }
-        
-      } else {
-        // Single-mode trip
-        const method = seg.classificationMethod === 'cmma' ? 'cmma' : 'speed';
-        await database.updateTrip(tripId, {
-          classification_method: method,
-          type: seg.dominantType as any,
-          ...(seg.confidence > 0 ? { ml_activity_type: seg.dominantType, ml_confidence: seg.confidence / 100 } : {}),
-        });
-        console.log(`[TripFinalizationPipeline] classified as ${seg.dominantType} (${method})`);
-        
-        console.log(`[TripFinalizationPipeline] Validating single-mode trip ${tripId}...`);
-        const val = await TripValidationService.validateAndFinalizeTrip(tripId, freshTrip.end_time || Date.now());
-        if (val.isValid) {
-          await syncService.syncSingleTrip(tripId);
-          try {
-            await scheduleTripCompletionNotifications(
-              tripId,
-              (freshTrip.distance ?? fallbackDistance) / 1000,
-              seg.dominantType,
-            );
-          } catch { /* non-fatal */ }
-        }
-
-        // Happy-path safety net: GPS may have been starved by the accuracy gate even though
-        // segmentation completed without throwing. A 0 m "completed" trip should never reach the list.
-        await safetyCancelIfBelowMinimum(tripId);
       }
+
+      // Happy-path safety net: GPS may have been starved by the accuracy gate even though
+      // segmentation completed without throwing. A 0 m "completed" trip should never reach the list.
+      await safetyCancelIfBelowMinimum(tripId);
     } catch (err) {
       console.warn(`[TripFinalizationPipeline] segmentation/validation failed: ${String(err)}`);
       await safetyCancelIfBelowMinimum(tripId);
     }
 
+    // Add the trip to the personal heatmap. Runs after the safety cancel so
+    // discarded trips never reach the grid.
+    try {
+      await heatmapService.indexTrip(tripId);
+    } catch (err) {
+      console.warn(`[TripFinalizationPipeline] heatmap indexing failed: ${String(err)}`);
+    }
+
+    try {
+      await routeHistoryService.indexTrip(tripId);
+    } catch (err) {
+      console.warn(`[TripFinalizationPipeline] route simplification failed: ${String(err)}`);
+    }
+
     console.log('[TripFinalizationPipeline] complete for', tripId);
   }
 }
@@ -6,8 +6,9 @@
  */
 
 import * as Notifications from 'expo-notifications';
-import { database, type Trip as DBTrip, type LocationPoint } from '../database';
+import { database, type Trip as DBTrip, type LocationPoint, type MotionSegment } from '../database';
 import { MLSegmentDetector } from './MLSegmentDetector';
+import { RouteFilter, type RoutePoint } from './RouteFilter';
 import {
   calculateDistance,
   calculateSpeed,
@@ -17,7 +18,19 @@ import {
   stringifyRouteData,
   parseRouteData,
 } from '../utils/geoCalculations';
-import type { TripType, TripStats, ManualTripDto, TripFilters } from '../../types/trip';
+import type { TripType, TripStats, ManualTripDto, ImportedTripDto, TripFilters } from '../../types/trip';
+import {
+  buildGpx,
+  buildTcx,
+  buildGeoJson,
+  buildTripExport,
+  pointsFromRouteData,
+  type ExportPoint,
+  type TripExportFile,
+  type TripExportFormat,
+} from '../utils/tripExport';
+import { dominantSegmentType, segmentRowsFromAnalysis } from '../utils/tripSegments';
+import { outboxService } from './OutboxService';
 
 interface CalculatedTripStats extends TripStats {
   elevationLoss: number;
@@ -160,127 +173,22 @@ export class TripManager {
       types: segmentAnalysis.segments.map(s => s.type),
     });
 
-    // If multi-modal, create separate trips for each segment
-    if (segmentAnalysis.isMultiModal && segmentAnalysis.segments.length > 1) {
-      console.log(`[TripManager] Multi-modal trip detected! Creating ${segmentAnalysis.segments.length} separate trips...`);
-
-      const subTrips: DBTrip[] = [];
-      const syncedSubTrips: string[] = [];
-
-      // Minimum segment distances per class. Backend accepts all 4 types;
-      // we still drop runs/drives that are too short to be meaningful data.
-      const MIN_SEGMENT_DIST: Record<TripType, number> = {
-        walk: 400,
-        run: 400,
-        cycle: 1000,
-        drive: 1000,
-      };
-
-      for (let i = 0; i < segmentAnalysis.segments.length; i++) {
-        const segment = segmentAnalysis.segments[i];
-        const subTripId = `${tripId}_segment${i}`;
-
-        const minDist = MIN_SEGMENT_DIST[segment.type] ?? 400;
-        if (segment.distance < minDist) {
-          console.log(`[TripManager] Skipping ${segment.type} segment ${i}: ${segment.distance.toFixed(0)}m < ${minDist}m`);
-          continue;
-        }
-
-        console.log(`[TripManager] Creating sub-trip ${subTripId} (${segment.type}, ${segment.distance.toFixed(0)}m)`);
-
-        // Build route data for this segment
-        const segmentRouteForSync = segment.locations.map((loc) => ({
-          lat: Number(loc.latitude.toFixed(6)),
-          lng: Number(loc.longitude.toFixed(6)),
-          timestamp: new Date(loc.timestamp).toISOString(),
-        }));
-
-        const segmentRouteDataJson = JSON.stringify(segmentRouteForSync);
-        const segmentStartTime = segment.locations[0].timestamp;
-        const segmentEndTime = segment.locations[segment.locations.length - 1].timestamp;
-
-        // Calculate segment stats
-        const segmentStats = this.calculateTripStats(segment.locations);
-
-        // Create sub-trip
-        await database.createTrip({
-          id: subTripId,
-          user_id: trip.user_id,
-          type: segment.type,
-          status: 'completed',
-          is_manual: 0,
-          start_time: segmentStartTime,
-          end_time: segmentEndTime,
-          distance: segment.distance,
-          duration: segment.duration,
-          avg_speed: segment.avgSpeed,
-          max_speed: segment.maxSpeed,
-          elevation_gain: segmentStats.elevationGain,
-          calories: segmentStats.calories,
-          co2_saved: 0, // Backend calculates CO2 (0.129 kg/km); populated via sync
-          notes: `Segment ${i + 1} of ${segmentAnalysis.segments.length} (multi-modal trip)`,
-          route_data: segmentRouteDataJson,
-          created_at: now,
-          updated_at: now,
-          synced: 0,
-          backend_id: null,
-          ml_activity_type: classificationMethod === 'ml' ? segment.type : null,
-          ml_confidence: classificationMethod === 'ml' ? segment.confidence / 100 : null,
-          classification_method: classificationMethod,
-        });
-
-        const subTrip = await database.getTrip(subTripId);
-        if (subTrip) {
-          subTrips.push(subTrip);
-
-          // Try to sync each sub-trip
-          try {
-            const synced = await syncService.syncSingleTrip(subTripId);
-            if (synced) {
-              syncedSubTrips.push(subTripId);
-            }
-          } catch (error) {
-            console.error(`[TripManager] Error syncing sub-trip ${subTripId}:`, error);
-          }
-        }
-      }
-
-      // Mark original trip as cancelled (replaced by sub-trips)
-      await database.updateTrip(tripId, {
-        status: 'cancelled',
-        end_time: now,
-        notes: `Multi-modal trip split into ${subTrips.length} segments`,
-        updated_at: now,
-      });
-
-      console.log(`[TripManager] Multi-modal trip processing complete. Created ${subTrips.length} trips, synced ${syncedSubTrips.length}`);
-
-      // Fetch trophies if any sub-trip was synced
-      let newTrophies: Trophy[] = [];
-      if (syncedSubTrips.length > 0) {
-        try {
-          newTrophies = await trophyAPI.getNewTrophies();
-        } catch (error) {
-          console.error('[TripManager] Error fetching trophies:', error);
-        }
-      }
-
-      return {
-        trip: await database.getTrip(tripId),
-        synced: syncedSubTrips.length > 0,
-        newTrophies,
-      };
-    }
+    // A multi-modal trip stays one trip; each mode is kept as a trip segment
+    // and the backend credits CO2 and distance per segment.
+    const segmentRows = segmentRowsFromAnalysis(segmentAnalysis.segments);
+    await database.replaceTripSegments(tripId, segmentRows);
 
-    // Single-modal trip - continue with normal validation.
-    // Prefer the ML-derived dominant type when ML ran; fall back to speed-based.
+    // The trip's type is the mode covering the most distance. Prefer the
+    // ML-derived type when ML ran; fall back to speed-based.
     const finalType: TripType =
-      classificationMethod === 'ml' && segmentAnalysis.dominantType
-        ? segmentAnalysis.dominantType
-        : dominantActivity;
+      segmentAnalysis.isMultiModal
+        ? dominantSegmentType(segmentRows) ?? dominantActivity
+        : classificationMethod === 'ml' && segmentAnalysis.dominantType
+          ? segmentAnalysis.dominantType
+          : dominantActivity;
 
     console.log(
-      `[TripManager] Single-modal trip (${finalType}, via ${classificationMethod}), continuing with normal processing...`,
+      `[TripManager] ${segmentRows.length > 1 ? 'Multi' : 'Single'}-modal trip (${finalType}, via ${classificationMethod}), continuing with normal processing...`,
     );
 
     // Ensure DB has the final dominant type and key stats before validation reads them
@@ -507,6 +415,313 @@ export class TripManager {
     }
   }
 
+  /**
+   * Merge two adjacent completed trips into one.
+   *
+   * The trip already on the backend survives (the earlier one if both or
+   * neither are); the other trip's points, motion segments and altitude
+   * samples move onto it and it is deleted. Stats and validation are
+   * recomputed from the combined track, and both trips' route ratings are
+   * reset. The backend copy is PATCHed with the new route and the absorbed
+   * trip is deleted there, both through the outbox so the merge also works
+   * offline. All local changes and the queued requests commit together.
+   */
+  static async mergeTrips(tripIdA: string, tripIdB: string): Promise<DBTrip> {
+    const [a, b] = await Promise.all([database.getTrip(tripIdA), database.getTrip(tripIdB)]);
+    if (!a || !b) {
+      throw new Error('Trip not found');
+    }
+    if (a.id === b.id) {
+      throw new Error('Cannot merge a trip with itself');
+    }
+    if (a.status !== 'completed' || b.status !== 'completed') {
+      throw new Error('Only completed trips can be merged');
+    }
+
+    const [first, second] = a.start_time <= b.start_time ? [a, b] : [b, a];
+    const between = await database.getAllTrips({
+      status: 'completed',
+      startDate: first.start_time,
+      endDate: second.start_time,
+    });
+    if (between.some((t) => t.id !== first.id && t.id !== second.id)) {
+      throw new Error('Only adjacent trips can be merged');
+    }
+
+    const survivor = second.backend_id && !first.backend_id ? second : first;
+    const absorbed = survivor === first ? second : first;
+
+    // The longer leg decides the type; both user notes are kept
+    const type = second.distance > first.distance ? second.type : first.type;
+    const userNote = [first.user_note, second.user_note].filter(Boolean).join('\n') || null;
+
+    let merged!: DBTrip;
+    await database.transaction(async () => {
+      await this.queueRatingReset(survivor);
+      await this.ensureTrackPoints(survivor);
+      await this.ensureTrackPoints(absorbed);
+      await database.moveAllTripData(absorbed.id, survivor.id);
+
+      if (userNote !== (survivor.user_note ?? null)) {
+        // Synced survivors send the combined note on the next dirty-trip PATCH
+        await database.updateTrip(survivor.id, {
+          user_note: userNote,
+          ...(survivor.backend_id ? { user_note_dirty: 1 } : {}),
+        });
+      }
+
+      merged = await this.recomputeTrip(survivor.id, type);
+      await database.deleteTrip(absorbed.id);
+
+      await this.queueEditedTrip(merged);
+      if (absorbed.backend_id) {
+        await outboxService.enqueue('trip_batch_delete', { tripIds: [absorbed.backend_id] });
+      }
+    });
+
+    console.log(`[TripManager] Merged trip ${absorbed.id} into ${survivor.id}`, {
+      distance: merged.distance,
+      duration: merged.duration,
+    });
+
+    await this.syncEditedTrips([merged]);
+
+    return merged;
+  }
+
+  /**
+   * Split a completed trip in two at `timestamp`.
+   *
+   * Points up to and including the timestamp stay on the original trip;
+   * later points, altitude samples and motion segments move to a new trip.
+   * Both halves are recomputed and validated, and the original's route
+   * rating is reset. A synced original is PATCHed through the outbox and
+   * the new half is uploaded like any new trip. All local changes and the
+   * queued requests commit together.
+   */
+  static async splitTrip(tripId: string, timestamp: number): Promise<{ before: DBTrip; after: DBTrip }> {
+    const trip = await database.getTrip(tripId);
+    if (!trip) {
+      throw new Error(`Trip ${tripId} not found`);
+    }
+    if (trip.status !== 'completed') {
+      throw new Error('Only completed trips can be split');
+    }
+
+    const newTripId = `split_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const now = Date.now();
+    // Keep the platform's per-point activity labels when there are any
+    const typeFor = (points: LocationPoint[]): TripType =>
+      points.some((loc) => loc.activity_type) ? this.getDominantActivity(points) : trip.type;
+
+    let first!: DBTrip;
+    let second!: DBTrip;
+    let before: LocationPoint[] = [];
+    let after: LocationPoint[] = [];
+    await database.transaction(async () => {
+      const locations = await this.ensureTrackPoints(trip);
+      before = locations.filter((loc) => loc.timestamp <= timestamp);
+      after = locations.filter((loc) => loc.timestamp > timestamp);
+      if (before.length < 2 || after.length < 2) {
+        throw new Error('Both parts of a split trip need at least 2 points');
+      }
+
+      await this.queueRatingReset(trip);
+      await database.createTrip({
+        id: newTripId,
+        user_id: trip.user_id,
+        type: trip.type,
+        status: 'completed',
+        is_manual: trip.is_manual,
+        start_time: after[0].timestamp,
+        end_time: after[after.length - 1].timestamp,
+        distance: 0,
+        duration: 0,
+        avg_speed: 0,
+        max_speed: 0,
+        elevation_gain: 0,
+        calories: 0,
+        co2_saved: 0, // Backend calculates CO2 (0.129 kg/km); populated via sync
+        notes: null,
+        route_data: null,
+        created_at: now,
+        updated_at: now,
+        synced: 0,
+        backend_id: null,
+      });
+      await database.updateTrip(newTripId, {
+        classification_source: trip.classification_source ?? null,
+        engine: trip.engine,
+      });
+      await database.moveTripDataAfter(tripId, newTripId, timestamp);
+
+      first = await this.recomputeTrip(tripId, typeFor(before));
+      second = await this.recomputeTrip(newTripId, typeFor(after));
+      await this.queueEditedTrip(first);
+    });
+
+    console.log(`[TripManager] Split trip ${tripId} at ${new Date(timestamp).toISOString()} into ${newTripId}`, {
+      before: before.length,
+      after: after.length,
+    });
+
+    await this.syncEditedTrips([first, second]);
+
+    return { before: first, after: second };
+  }
+
+  /**
+   * Relabel one segment of a multi-modal trip, e.g. a walk that was a run.
+   * The trip takes the type of whichever mode now covers the most distance.
+   * A synced trip sends its type and segments through the outbox.
+   */
+  static async relabelSegment(tripId: string, segmentId: number, type: TripType): Promise<DBTrip> {
+    const trip = await database.getTrip(tripId);
+    if (!trip) {
+      throw new Error(`Trip ${tripId} not found`);
+    }
+    const segments = await database.getTripSegments(tripId);
+    if (!segments.some((seg) => seg.id === segmentId)) {
+      throw new Error(`Segment ${segmentId} not found on trip ${tripId}`);
+    }
+
+    await database.updateTripSegmentType(segmentId, type);
+
+    const tripType = dominantSegmentType(
+      segments.map((seg) => (seg.id === segmentId ? { ...seg, type } : seg))
+    ) ?? trip.type;
+    if (tripType !== trip.type) {
+      await database.updateTrip(tripId, {
+        type: tripType,
+        classification_source: 'manual',
+        // Keeps a background pull from reverting the type before the PATCH lands
+        ...(trip.backend_id ? { type_dirty: 1 } : {}),
+        updated_at: Date.now(),
+      });
+    }
+
+    if (trip.backend_id) {
+      await outboxService.submit('trip_segments', { tripId }).catch((error) => {
+        console.error(`[TripManager] Failed to send relabelled segments of ${tripId}:`, error);
+      });
+    }
+
+    return (await database.getTrip(tripId))!;
+  }
+
+  /**
+   * Make sure a trip's track lives in the locations table. Trips recorded by
+   * the native engine, imported or created manually may only have route_data.
+   */
+  private static async ensureTrackPoints(trip: DBTrip): Promise<LocationPoint[]> {
+    const existing = await database.getLocationsByTrip(trip.id);
+    if (existing.length > 0) return existing;
+
+    const locations: LocationPoint[] = pointsFromRouteData(trip.route_data, trip).map((p) => ({
+      trip_id: trip.id,
+      latitude: p.latitude,
+      longitude: p.longitude,
+      altitude: p.altitude ?? null,
+      accuracy: null,
+      speed: p.speed ?? null,
+      heading: null,
+      timestamp: p.timestamp,
+      activity_type: null,
+      activity_confidence: null,
+      synced: 0,
+    }));
+    await database.addLocations(locations);
+    return locations;
+  }
+
+  /**
+   * Recompute a trip's stats from its track points and run it back through
+   * validation, which rebuilds route_data and the visible flag. The segment
+   * breakdown is rebuilt from motion_segments, so segment relabels are reset.
+   */
+  private static async recomputeTrip(tripId: string, type: TripType): Promise<DBTrip> {
+    const locations = await database.getLocationsByTrip(tripId);
+    const stats = this.calculateTripStats(locations);
+    const endTime = stats.endTime ?? stats.startTime;
+
+    // Clear route_data so validation rebuilds it from the locations rows
+    await database.updateTrip(tripId, {
+      type,
+      start_time: stats.startTime,
+      distance: stats.totalDistance,
+      max_speed: stats.maxSpeed,
+      route_data: null,
+      updated_at: Date.now(),
+    });
+
+    await TripValidationService.validateAndFinalizeTrip(tripId, endTime, {
+      type,
+      distance: stats.totalDistance,
+      duration: stats.totalDuration,
+      avg_speed: stats.avgSpeed,
+      max_speed: stats.maxSpeed,
+      elevation_gain: stats.elevationGain,
+      elevation_loss_m: stats.elevationLoss,
+      calories: stats.calories,
+    });
+
+    const { MotionActivitySegmenter } = await import('./MotionActivitySegmenter');
+    const analysis = await MotionActivitySegmenter.analyze(tripId);
+    await database.replaceTripSegments(tripId, segmentRowsFromAnalysis(analysis.segments));
+
+    return (await database.getTrip(tripId))!;
+  }
+
+  /**
+   * Queue the route PATCH of a merged or split trip the backend already has.
+   * Runs inside the edit's transaction so the request commits with it.
+   */
+  private static async queueEditedTrip(trip: DBTrip): Promise<void> {
+    if (trip.status !== 'completed' || !trip.backend_id) return;
+    await outboxService.enqueue('trip_route', { tripId: trip.id });
+  }
+
+  /**
+   * Supersede the backend's rating of a trip whose route is about to change
+   * with an empty one a version higher. Reads the version before the edit
+   * deletes the local rating history.
+   */
+  private static async queueRatingReset(trip: DBTrip): Promise<void> {
+    if (!trip.backend_id) return;
+    const rating = await database.getRating(trip.id);
+    if (!rating) return;
+
+    await outboxService.enqueue('route_rating', {
+      tripId: trip.id,
+      request: {
+        trip_id: trip.backend_id,
+        client_trip_id: trip.id,
+        rated_at: new Date().toISOString(),
+        rated_segments: [],
+        version: rating.version + 1,
+      },
+    });
+  }
+
+  /**
+   * Once an edit has committed: send what it queued and upload the trips
+   * the backend does not have yet.
+   */
+  private static async syncEditedTrips(trips: DBTrip[]): Promise<void> {
+    outboxService.flush().catch((error) => {
+      console.error('[TripManager] Failed to send edited trips:', error);
+    });
+
+    for (const trip of trips) {
+      if (trip.status !== 'completed' || trip.backend_id) continue;
+      try {
+        await syncService.syncSingleTrip(trip.id);
+      } catch (error) {
+        console.error(`[TripManager] Failed to sync edited trip ${trip.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Create manual trip entry
    */
@@ -519,22 +734,7 @@ export class TripManager {
     const now = Date.now();
 
     // Validate manual trip against quality thresholds
-    const MIN_WALK_DISTANCE = 400; // meters
-    const MIN_RIDE_DISTANCE = 1000; // meters (1 km)
-
-    // Check minimum distances
-    if (data.type === 'walk' && data.distance < MIN_WALK_DISTANCE) {
-      throw new Error(`Walk distance (${data.distance.toFixed(0)}m) is below minimum (${MIN_WALK_DISTANCE}m)`);
-    }
-
-    if (data.type === 'cycle' && data.distance < MIN_RIDE_DISTANCE) {
-      throw new Error(`Ride distance (${data.distance.toFixed(0)}m) is below minimum (${MIN_RIDE_DISTANCE}m)`);
-    }
-
-    // Reject run and drive types
-    if (data.type === 'run' || data.type === 'drive') {
-      throw new Error(`Trip type '${data.type}' not supported (only walk/cycle allowed)`);
-    }
+    TripManager.validateManualTrip(data.type, data.distance);
 
     // Calculate stats from manual data
     const avgSpeed = calculateSpeed(data.distance, data.duration);
@@ -574,8 +774,153 @@ export class TripManager {
     });
 
     const trip = (await database.getTrip(tripId))!;
+    const { synced, newTrophies } = await TripManager.syncManualTrip(tripId);
 
-    // Attempt to sync trip to backend
+    return {
+      trip,
+      synced,
+      newTrophies,
+    };
+  }
+
+  /**
+   * Create a completed trip from an imported GPX / FIT track.
+   * The track is run through RouteFilter, stored with its location points
+   * (so stats, export and segment views work as for recorded trips) and
+   * synced like any other manual entry.
+   */
+  static async createImportedTrip(data: ImportedTripDto): Promise<{
+    trip: DBTrip;
+    synced: boolean;
+    newTrophies: Trophy[];
+  }> {
+    if (data.type === 'run' || data.type === 'drive') {
+      throw new Error(`Trip type '${data.type}' not supported (only walk/cycle allowed)`);
+    }
+
+    const timed = data.points.filter((p) => p.timestamp != null);
+    if (timed.length < 2) {
+      throw new Error('Imported track has fewer than 2 timestamped points');
+    }
+
+    // Drop duplicates and GPS spikes the same way uploads are filtered
+    const routePoints: RoutePoint[] = timed.map((p) => ({
+      lat: p.latitude,
+      lng: p.longitude,
+      timestamp: new Date(p.timestamp!).toISOString(),
+      accuracy: p.accuracy ?? undefined,
+    }));
+    const sourceByRoutePoint = new Map(routePoints.map((rp, i) => [rp, timed[i]]));
+    const kept = RouteFilter.filter(routePoints, data.type).map((rp) => sourceByRoutePoint.get(rp)!);
+
+    const tripId = `import_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const activityType = data.type === 'cycle' ? 'cycling' : 'walking';
+
+    const locations: LocationPoint[] = kept.map((p, i) => {
+      let speed = p.speed ?? null;
+      // Files without a speed channel: use the implied speed from the previous point
+      if (speed == null && i > 0) {
+        const prev = kept[i - 1];
+        const dt = (p.timestamp! - prev.timestamp!) / 1000;
+        speed = dt > 0 ? calculateDistance(prev, p) / dt : 0;
+      }
+      return {
+        trip_id: tripId,
+        latitude: p.latitude,
+        longitude: p.longitude,
+        altitude: p.altitude ?? null,
+        accuracy: p.accuracy ?? null,
+        speed,
+        heading: p.heading ?? null,
+        timestamp: p.timestamp!,
+        activity_type: activityType,
+        activity_confidence: null,
+        synced: 0,
+      };
+    });
+
+    const stats = TripManager.calculateTripStats(locations);
+    TripManager.validateManualTrip(data.type, stats.totalDistance);
+
+    const now = Date.now();
+    await database.createTrip({
+      id: tripId,
+      user_id: data.userId,
+      type: data.type,
+      status: 'completed',
+      is_manual: 1,
+      start_time: stats.startTime,
+      end_time: stats.endTime,
+      distance: stats.totalDistance,
+      duration: stats.totalDuration,
+      avg_speed: stats.avgSpeed,
+      max_speed: stats.maxSpeed,
+      elevation_gain: stats.elevationGain,
+      calories: calculateCalories(stats.totalDistance / 1000, activityType, 70),
+      co2_saved: 0, // Backend calculates CO2 (0.129 kg/km); populated via sync
+      notes: data.notes || null,
+      route_data: JSON.stringify(
+        locations.map((loc) => ({
+          lat: loc.latitude,
+          lng: loc.longitude,
+          timestamp: new Date(loc.timestamp).toISOString(),
+        }))
+      ),
+      created_at: now,
+      updated_at: now,
+      synced: 0,
+    });
+    await database.updateTrip(tripId, {
+      classification_source: 'manual',
+      elevation_loss_m: stats.elevationLoss,
+    });
+    await database.addLocations(locations);
+
+    console.log(`[TripManager] Created imported trip ${tripId}`, {
+      source: data.source,
+      type: data.type,
+      points: `${locations.length}/${data.points.length}`,
+      distance: stats.totalDistance,
+      duration: stats.totalDuration,
+    });
+
+    const trip = (await database.getTrip(tripId))!;
+    const { synced, newTrophies } = await TripManager.syncManualTrip(tripId);
+
+    return {
+      trip,
+      synced,
+      newTrophies,
+    };
+  }
+
+  /**
+   * Quality thresholds shared by manual and imported trips
+   */
+  private static validateManualTrip(type: TripType, distance: number): void {
+    const MIN_WALK_DISTANCE = 400; // meters
+    const MIN_RIDE_DISTANCE = 1000; // meters (1 km)
+
+    // Check minimum distances
+    if (type === 'walk' && distance < MIN_WALK_DISTANCE) {
+      throw new Error(`Walk distance (${distance.toFixed(0)}m) is below minimum (${MIN_WALK_DISTANCE}m)`);
+    }
+
+    if (type === 'cycle' && distance < MIN_RIDE_DISTANCE) {
+      throw new Error(`Ride distance (${distance.toFixed(0)}m) is below minimum (${MIN_RIDE_DISTANCE}m)`);
+    }
+
+    // Reject run and drive types
+    if (type === 'run' || type === 'drive') {
+      throw new Error(`Trip type '${type}' not supported (only walk/cycle allowed)`);
+    }
+  }
+
+  /**
+   * Sync a freshly created manual/imported trip and fetch any new trophies.
+   * Sync failures are logged, never thrown — the trip stays queued locally.
+   */
+  private static async syncManualTrip(tripId: string): Promise<{ synced: boolean; newTrophies: Trophy[] }> {
     let synced = false;
     let newTrophies: Trophy[] = [];
 
@@ -606,11 +951,7 @@ export class TripManager {
       // Don't fail the trip creation if sync fails
     }
 
-    return {
-      trip,
-      synced,
-      newTrophies,
-    };
+    return { synced, newTrophies };
   }
 
   /**
@@ -800,26 +1141,61 @@ export class TripManager {
   }
 
   /**
-   * Export trip data for sharing
+   * Export trip data for sharing.
+   * Builds GPX 1.1, TCX and GeoJSON from the trip's `locations` rows (falling
+   * back to `route_data` for manual trips), split by `motion_segments`.
    */
   static async exportTrip(tripId: string): Promise<{
     trip: DBTrip;
     route: Coordinate[];
-    gpx?: string;
+    gpx: string;
+    tcx: string;
+    geojson: string;
   } | null> {
-    const details = await this.getTripDetails(tripId);
-    if (!details) return null;
+    const data = await this.loadExportData(tripId);
+    if (!data) return null;
 
-    // TODO: Generate GPX format for export
-    const gpx = undefined;
+    const { trip, points, segments } = data;
 
     return {
-      trip: details.trip,
-      route: details.route,
-      gpx,
+      trip,
+      route: points.map((p) => ({ latitude: p.latitude, longitude: p.longitude })),
+      gpx: buildGpx(trip, points, segments),
+      tcx: buildTcx(trip, points, segments),
+      geojson: buildGeoJson(trip, points, segments),
     };
   }
 
+  /**
+   * Build a single export file (GPX / TCX / GeoJSON) ready for the share sheet.
+   * Returns null if the trip is not in the local database or has no route.
+   */
+  static async getTripExportFile(tripId: string, format: TripExportFormat): Promise<TripExportFile | null> {
+    const data = await this.loadExportData(tripId);
+    if (!data || data.points.length === 0) return null;
+    return buildTripExport(format, data.trip, data.points, data.segments);
+  }
+
+  /**
+   * Load the trip, its track points and motion segments for export.
+   */
+  private static async loadExportData(tripId: string): Promise<{
+    trip: DBTrip;
+    points: ExportPoint[];
+    segments: MotionSegment[];
+  } | null> {
+    const trip = await database.getTrip(tripId);
+    if (!trip) return null;
+
+    const locations = await database.getLocationsByTrip(tripId);
+    const points: ExportPoint[] = locations.length > 0
+      ? locations
+      : pointsFromRouteData(trip.route_data, trip);
+    const segments = await database.getMotionSegmentsByTrip(tripId);
+
+    return { trip, points, segments };
+  }
+
   /**
    * Get recent trips (last N trips)
    */
@@ -0,0 +1,141 @@
+import { database } from '../../database';
+import type { Trip } from '../../database/db';
+import { heatmapService } from '../HeatmapService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 4, 12, 12);
+
+const LONDON = {
+  northEast: { latitude: 51.6, longitude: 0 },
+  southWest: { latitude: 51.4, longitude: -0.3 },
+};
+
+// A short walk north along one street
+async function addTrip(id: string, overrides: Partial<Trip> = {}, lng = -0.124): Promise<void> {
+  await database.createTrip({
+    id,
+    user_id: 'u',
+    type: 'walk',
+    status: 'completed',
+    start_time: NOW,
+    end_time: NOW + 600_000,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  });
+  await database.addLocations(
+    Array.from({ length: 10 }, (_, i) => ({
+      trip_id: id,
+      latitude: 51.5 + i * 0.0002,
+      longitude: lng,
+      altitude: null,
+      accuracy: 8,
+      speed: 1.4,
+      heading: 0,
+      timestamp: NOW + i * 5000,
+      activity_type: null,
+      activity_confidence: null,
+      synced: 0,
+    }))
+  );
+}
+
+async function cellCount(tripId: string): Promise<number> {
+  const db = await database.getDb();
+  const row = await db.getFirstAsync<{ n: number }>('SELECT COUNT(*) AS n FROM heatmap_cells WHERE trip_id = ?', [tripId]);
+  return row?.n ?? 0;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  await database.clearAllData();
+});
+
+describe('HeatmapService', () => {
+  it('counts trips per cell and weights shared streets higher', async () => {
+    await addTrip('a');
+    await addTrip('b');
+    await addTrip('c', {}, -0.2);
+
+    const heatmap = await heatmapService.getHeatmap({ bounds: LONDON });
+
+    expect(heatmap.totalTrips).toBe(3);
+    const weights = heatmap.points.map((p) => p.weight);
+    expect(Math.max(...weights)).toBe(10);
+    expect(Math.min(...weights)).toBe(1);
+    expect(heatmap.legend.map((e) => e.label)).toEqual(['1', '2']);
+  });
+
+  it('bins trips recorded before the cache existed on first read', async () => {
+    await addTrip('a');
+    expect(await cellCount('a')).toBe(0);
+
+    await heatmapService.getHeatmap({ bounds: LONDON });
+
+    expect(await cellCount('a')).toBeGreaterThan(0);
+  });
+
+  it('filters by bounds, date range and trip type', async () => {
+    await addTrip('recent-walk');
+    await addTrip('old-walk', { start_time: NOW - 60 * DAY });
+    await addTrip('ride', { type: 'cycle' });
+
+    const recent = await heatmapService.getHeatmap({ bounds: LONDON, startDate: new Date(NOW - 30 * DAY) });
+    const rides = await heatmapService.getHeatmap({ bounds: LONDON, tripType: 'cycle' });
+    const elsewhere = await heatmapService.getHeatmap({
+      bounds: { northEast: { latitude: 48.9, longitude: 2.4 }, southWest: { latitude: 48.8, longitude: 2.3 } },
+    });
+
+    expect(recent.totalTrips).toBe(2);
+    expect(rides.totalTrips).toBe(1);
+    expect(elsewhere.totalTrips).toBe(0);
+    expect(elsewhere.points).toEqual([]);
+  });
+
+  it('indexes a finalized trip and notifies subscribers', async () => {
+    await addTrip('a');
+    const listener = jest.fn();
+    const unsubscribe = heatmapService.subscribe(listener);
+
+    await heatmapService.indexTrip('a');
+    unsubscribe();
+
+    expect(await cellCount('a')).toBeGreaterThan(0);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves cancelled and hidden trips out', async () => {
+    await addTrip('cancelled', { status: 'cancelled' });
+    await addTrip('hidden');
+    await database.updateTrip('hidden', { visible: 0 });
+
+    await heatmapService.indexTrip('cancelled');
+    const heatmap = await heatmapService.getHeatmap({ bounds: LONDON });
+
+    expect(await cellCount('cancelled')).toBe(0);
+    expect(heatmap.totalTrips).toBe(0);
+  });
+
+  it('re-bins trips whose locations moved in a split', async () => {
+    await addTrip('a');
+    await heatmapService.indexTrip('a');
+    await database.createTrip({
+      id: 'b',
+      user_id: 'u',
+      type: 'walk',
+      status: 'completed',
+      start_time: NOW + 25_000,
+      created_at: NOW,
+      updated_at: NOW,
+    });
+
+    await database.moveTripDataAfter('a', 'b', NOW + 20_000);
+    expect(await cellCount('a')).toBe(0);
+
+    const heatmap = await heatmapService.getHeatmap({ bounds: LONDON });
+    expect(heatmap.totalTrips).toBe(2);
+  });
+});
@@ -0,0 +1,381 @@
+import { database } from '../../database';
+import type { SyncQueueItem } from '../../database/db';
+import { mapFeedbackApi } from '../../api/mapFeedback';
+import { postAPI } from '../../api/posts';
+import { ratingsAPI } from '../../api/ratings';
+import { tripAPI } from '../../api/trips';
+import { outboxService, getBackoffDelay, isRetryableError, MAX_ATTEMPTS } from '../OutboxService';
+
+jest.mock('../../database', () => ({
+  database: {
+    addToSyncQueue: jest.fn().mockResolvedValue(1),
+    findPendingSyncQueueItem: jest.fn().mockResolvedValue(null),
+    getDueSyncQueueItems: jest.fn().mockResolvedValue([]),
+    getSyncQueue: jest.fn().mockResolvedValue([]),
+    removeSyncQueueItem: jest.fn().mockResolvedValue(undefined),
+    updateSyncQueueRetry: jest.fn().mockResolvedValue(undefined),
+    markSyncQueueItemDead: jest.fn().mockResolvedValue(undefined),
+    resetSyncQueueItem: jest.fn().mockResolvedValue(undefined),
+    updatePendingSyncQueueData: jest.fn().mockResolvedValue(true),
+    updateRating: jest.fn().mockResolvedValue(undefined),
+    markRatingSynced: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../api/client', () => ({
+  getErrorStatus: jest.requireActual('../../api/client').getErrorStatus,
+  isNetworkError: jest.requireActual('../../api/client').isNetworkError,
+}));
+jest.mock('../../api/ratings', () => ({ ratingsAPI: { submitRatings: jest.fn() } }));
+jest.mock('../../api/mapFeedback', () => ({ mapFeedbackApi: { createFeedback: jest.fn() } }));
+jest.mock('../../api/posts', () => ({
+  postAPI: { likePost: jest.fn(), unlikePost: jest.fn(), addComment: jest.fn() },
+}));
+jest.mock('../../api/clubs', () => ({ clubAPI: { joinClub: jest.fn(), requestJoin: jest.fn() } }));
+jest.mock('../../api/trips', () => ({ tripAPI: { batchDelete: jest.fn() } }));
+jest.mock('../../api/roadSections', () => ({
+  roadSectionsApi: { getPersonalRoadSections: jest.fn().mockResolvedValue([]) },
+}));
+jest.mock('../SyncService', () => ({ syncService: { patchTripFields: jest.fn() } }));
+jest.mock('../../utils/reportPhotos', () => ({
+  loadPhotos: jest.fn(async (photos: string[]) => photos.map((photo) => `data:${photo}`)),
+  deleteStoredPhotos: jest.fn(),
+}));
+jest.mock('../PrivacyZoneService', () => ({
+  privacyZoneService: { getZones: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn().mockResolvedValue({ isConnected: true, isInternetReachable: true }),
+}));
+
+const mockDatabase = database as jest.Mocked<typeof database>;
+const mockMapFeedbackApi = mapFeedbackApi as jest.Mocked<typeof mapFeedbackApi>;
+const mockPostAPI = postAPI as jest.Mocked<typeof postAPI>;
+const mockRatingsAPI = ratingsAPI as jest.Mocked<typeof ratingsAPI>;
+const mockTripAPI = tripAPI as jest.Mocked<typeof tripAPI>;
+const mockNetInfo = jest.requireMock('@react-native-community/netinfo') as { fetch: jest.Mock };
+const mockDeleteStoredPhotos = jest.requireMock('../../utils/reportPhotos').deleteStoredPhotos as jest.Mock;
+
+const httpError = (status: number, message = `HTTP ${status}`) =>
+  Object.assign(new Error(message), { status });
+const networkError = () =>
+  Object.assign(new Error('Network error: Unable to reach the server.'), { network: true });
+
+function queueItem(overrides: Partial<SyncQueueItem>): SyncQueueItem {
+  return {
+    id: 1,
+    type: 'post_like',
+    data: JSON.stringify({ clubId: 3, postId: 9, liked: true }),
+    retry_count: 0,
+    created_at: 1000,
+    last_attempt: null,
+    next_attempt_at: null,
+    last_error: null,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  mockNetInfo.fetch.mockResolvedValue({ isConnected: true, isInternetReachable: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('error classification', () => {
+  it('retries network errors, 5xx, 408 and 429 but not other 4xx or local errors', () => {
+    expect(isRetryableError(networkError())).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false);
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect(getBackoffDelay(1)).toBe(30_000);
+    expect(getBackoffDelay(2)).toBe(60_000);
+    expect(getBackoffDelay(4)).toBe(240_000);
+    expect(getBackoffDelay(30)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('OutboxService.submit', () => {
+  const feedback = {
+    type: 'point' as const,
+    category: 'road_damage' as const,
+    coordinates: { type: 'Point' as const, coordinates: [0, 51] as [number, number] },
+    title: 'Pothole',
+    description: 'Deep one by the kerb',
+  };
+
+  it('sends immediately when online and removes the queue entry', async () => {
+    mockMapFeedbackApi.createFeedback.mockResolvedValue({} as never);
+
+    await expect(outboxService.submit('map_feedback', feedback)).resolves.toBe('sent');
+
+    expect(mockDatabase.addToSyncQueue).toHaveBeenCalledWith('map_feedback', feedback);
+    expect(mockMapFeedbackApi.createFeedback).toHaveBeenCalledWith(feedback);
+    expect(mockDatabase.removeSyncQueueItem).toHaveBeenCalledWith(1);
+  });
+
+  it('leaves the operation queued when offline', async () => {
+    mockNetInfo.fetch.mockResolvedValue({ isConnected: false, isInternetReachable: false });
+
+    await expect(outboxService.submit('map_feedback', feedback)).resolves.toBe('queued');
+
+    expect(mockMapFeedbackApi.createFeedback).not.toHaveBeenCalled();
+    expect(mockDatabase.removeSyncQueueItem).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry on a server error', async () => {
+    mockMapFeedbackApi.createFeedback.mockRejectedValue(httpError(502, 'Bad gateway'));
+
+    await expect(outboxService.submit('map_feedback', feedback)).resolves.toBe('queued');
+
+    expect(mockDatabase.updateSyncQueueRetry).toHaveBeenCalledWith(1, expect.any(Number), 'Bad gateway');
+    expect(mockDatabase.removeSyncQueueItem).not.toHaveBeenCalled();
+  });
+
+  it('drops the operation and rethrows when the server rejects it', async () => {
+    mockMapFeedbackApi.createFeedback.mockRejectedValue(httpError(400, 'title: required'));
+
+    await expect(outboxService.submit('map_feedback', feedback)).rejects.toThrow('title: required');
+
+    expect(mockDatabase.removeSyncQueueItem).toHaveBeenCalledWith(1);
+  });
+
+  it('queues photo file paths and reads them back only when sending', async () => {
+    mockMapFeedbackApi.createFeedback.mockResolvedValue({} as never);
+    const withPhotos = { ...feedback, photos: ['file:///report-photos/a.jpg'] };
+
+    await outboxService.submit('map_feedback', withPhotos);
+
+    expect(mockDatabase.addToSyncQueue).toHaveBeenCalledWith('map_feedback', withPhotos);
+    expect(mockMapFeedbackApi.createFeedback).toHaveBeenCalledWith({
+      ...feedback,
+      photos: ['data:file:///report-photos/a.jpg'],
+    });
+    expect(mockDeleteStoredPhotos).toHaveBeenCalledWith(['file:///report-photos/a.jpg']);
+  });
+
+  it('deletes the photos of a report the server rejects', async () => {
+    mockMapFeedbackApi.createFeedback.mockRejectedValue(httpError(400, 'title: required'));
+
+    await expect(
+      outboxService.submit('map_feedback', { ...feedback, photos: ['file:///report-photos/a.jpg'] })
+    ).rejects.toThrow('title: required');
+
+    expect(mockDeleteStoredPhotos).toHaveBeenCalledWith(['file:///report-photos/a.jpg']);
+  });
+
+  it('does not queue a second trip patch for the same trip', async () => {
+    mockDatabase.findPendingSyncQueueItem.mockResolvedValueOnce(queueItem({ id: 4, type: 'trip_patch' }));
+
+    await expect(outboxService.submit('trip_patch', { tripId: 't1' })).resolves.toBe('queued');
+
+    expect(mockDatabase.addToSyncQueue).not.toHaveBeenCalled();
+  });
+});
+
+describe('OutboxService.replaceQueued', () => {
+  it('rewrites an operation that has not been sent', async () => {
+    const payload = { clubId: 3, postId: 9, liked: false };
+
+    await expect(outboxService.replaceQueued(4, 'post_like', payload)).resolves.toBe(true);
+
+    expect(mockDatabase.updatePendingSyncQueueData).toHaveBeenCalledWith(4, 'post_like', payload);
+  });
+
+  it('reports when the operation has already left the queue', async () => {
+    mockDatabase.updatePendingSyncQueueData.mockResolvedValueOnce(false);
+
+    await expect(outboxService.replaceQueued(4, 'post_like', { clubId: 3, postId: 9, liked: false })).resolves.toBe(
+      false
+    );
+  });
+});
+
+describe('OutboxService.enqueue', () => {
+  it('stores the operation without sending it', async () => {
+    await expect(outboxService.enqueue('trip_route', { tripId: 't1' })).resolves.toBe(1);
+
+    expect(mockDatabase.addToSyncQueue).toHaveBeenCalledWith('trip_route', { tripId: 't1' });
+    expect(mockNetInfo.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('OutboxService.flush', () => {
+  it('replays due operations through their handlers', async () => {
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({ id: 1 }),
+      queueItem({
+        id: 2,
+        type: 'route_rating',
+        data: JSON.stringify({ tripId: 't1', request: { client_trip_id: 't1', rated_segments: [] } }),
+      }),
+    ]);
+    mockPostAPI.likePost.mockResolvedValue(undefined);
+    mockRatingsAPI.submitRatings.mockResolvedValue({ message: 'ok' });
+
+    const result = await outboxService.flush();
+
+    expect(result).toEqual({ sent: 2, retrying: 0, dead: 0 });
+    expect(mockPostAPI.likePost).toHaveBeenCalledWith(3, 9);
+    expect(mockRatingsAPI.submitRatings).toHaveBeenCalledWith({ client_trip_id: 't1', rated_segments: [] });
+    expect(mockDatabase.updateRating).toHaveBeenCalledWith('t1', { synced: 1 });
+    expect(mockDatabase.removeSyncQueueItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks only the submitted version of an edited rating as synced', async () => {
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({
+        type: 'route_rating',
+        data: JSON.stringify({ tripId: 't1', request: { client_trip_id: 't1', rated_segments: [], version: 2 } }),
+      }),
+    ]);
+    mockRatingsAPI.submitRatings.mockResolvedValue({ message: 'ok' });
+
+    await outboxService.flush();
+
+    expect(mockDatabase.markRatingSynced).toHaveBeenCalledWith('t1', 2);
+    expect(mockDatabase.updateRating).not.toHaveBeenCalled();
+  });
+
+  it('leaves rated segments inside a privacy zone out of rating submissions', async () => {
+    const mockZones = jest.requireMock('../PrivacyZoneService').privacyZoneService.getZones as jest.Mock;
+    mockZones.mockResolvedValueOnce([{ id: 'home', name: 'Home', latitude: 51, longitude: 0, radius: 400 }]);
+    const atHome = { start_lat: 51, start_lng: 0, end_lat: 51.001, end_lng: 0, feeling: 'Comfortable' as const };
+    const inTown = { start_lat: 51.01, start_lng: 0, end_lat: 51.02, end_lng: 0, feeling: 'Stressed' as const };
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({
+        type: 'route_rating',
+        data: JSON.stringify({ tripId: 't1', request: { client_trip_id: 't1', rated_segments: [atHome, inTown] } }),
+      }),
+    ]);
+    mockRatingsAPI.submitRatings.mockResolvedValue({ message: 'ok' });
+
+    await outboxService.flush();
+
+    expect(mockRatingsAPI.submitRatings).toHaveBeenCalledWith({ client_trip_id: 't1', rated_segments: [inTown] });
+  });
+
+  it('matches rated segments to road sections when they are sent', async () => {
+    const mockSections = jest.requireMock('../../api/roadSections').roadSectionsApi.getPersonalRoadSections as jest.Mock;
+    mockSections.mockResolvedValueOnce([
+      { section_id: 'high-st', geometry: { type: 'LineString', coordinates: [[0, 51], [0, 51.002]] } },
+    ]);
+    const alongHighSt = {
+      start_lat: 51,
+      start_lng: 0,
+      end_lat: 51.002,
+      end_lng: 0,
+      geometry: { type: 'LineString', coordinates: [[0, 51], [0, 51.002]] },
+      road_section_ids: [],
+      feeling: 'Enjoyable' as const,
+    };
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({
+        type: 'route_rating',
+        data: JSON.stringify({ tripId: 't1', request: { client_trip_id: 't1', rated_segments: [alongHighSt] } }),
+      }),
+    ]);
+    mockRatingsAPI.submitRatings.mockResolvedValue({ message: 'ok' });
+
+    await outboxService.flush();
+
+    expect(mockSections).toHaveBeenCalledWith('0.00000,51.00000,0.00000,51.00200');
+    expect(mockRatingsAPI.submitRatings).toHaveBeenCalledWith({
+      client_trip_id: 't1',
+      rated_segments: [{ ...alongHighSt, road_section_ids: ['high-st'] }],
+    });
+  });
+
+  it('backs off retryable failures using the attempt count', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([queueItem({ retry_count: 2 })]);
+    mockPostAPI.likePost.mockRejectedValue(networkError());
+
+    const result = await outboxService.flush();
+
+    expect(result.retrying).toBe(1);
+    expect(mockDatabase.updateSyncQueueRetry).toHaveBeenCalledWith(
+      1,
+      1_000_000 + getBackoffDelay(3),
+      'Network error: Unable to reach the server.'
+    );
+  });
+
+  it('dead-letters after MAX_ATTEMPTS or on a non-retryable error', async () => {
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({ id: 1, retry_count: MAX_ATTEMPTS - 1 }),
+      queueItem({ id: 2 }),
+    ]);
+    mockPostAPI.likePost
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(404, 'Not found.'));
+
+    const result = await outboxService.flush();
+
+    expect(result).toEqual({ sent: 0, retrying: 0, dead: 2 });
+    expect(mockDatabase.markSyncQueueItemDead).toHaveBeenCalledWith(1, 'HTTP 503');
+    expect(mockDatabase.markSyncQueueItemDead).toHaveBeenCalledWith(2, 'Not found.');
+  });
+
+  it('stops without spending attempts when the session has expired', async () => {
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([queueItem({ id: 1 }), queueItem({ id: 2 })]);
+    mockPostAPI.likePost.mockRejectedValue(new Error('Session expired. Please sign in again.'));
+
+    const result = await outboxService.flush();
+
+    expect(result).toEqual({ sent: 0, retrying: 0, dead: 0 });
+    expect(mockPostAPI.likePost).toHaveBeenCalledTimes(1);
+    expect(mockDatabase.updateSyncQueueRetry).not.toHaveBeenCalled();
+    expect(mockDatabase.markSyncQueueItemDead).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters the trips a batch delete could not remove', async () => {
+    mockDatabase.getDueSyncQueueItems.mockResolvedValue([
+      queueItem({ type: 'trip_batch_delete', data: JSON.stringify({ tripIds: [1, 2, 3] }) }),
+    ]);
+    mockDatabase.addToSyncQueue.mockResolvedValueOnce(7);
+    mockTripAPI.batchDelete.mockResolvedValue({ deleted: [1, 3], failed: [{ trip_id: 2, error: 'Not found.' }] });
+
+    const result = await outboxService.flush();
+
+    expect(result.sent).toBe(1);
+    expect(mockDatabase.removeSyncQueueItem).toHaveBeenCalledWith(1);
+    expect(mockDatabase.addToSyncQueue).toHaveBeenCalledWith('trip_batch_delete', { tripIds: [2] });
+    expect(mockDatabase.markSyncQueueItemDead).toHaveBeenCalledWith(7, 'Trip 2: Not found.');
+  });
+
+  it('does nothing while offline', async () => {
+    mockNetInfo.fetch.mockResolvedValue({ isConnected: false, isInternetReachable: false });
+
+    await outboxService.flush();
+
+    expect(mockDatabase.getDueSyncQueueItems).not.toHaveBeenCalled();
+  });
+});
+
+describe('OutboxService.getPendingOperations', () => {
+  it('lists items of unknown type so they can be discarded', async () => {
+    mockDatabase.getSyncQueue.mockResolvedValue([
+      queueItem({ id: 1 }),
+      queueItem({ id: 2, type: 'retired_type', status: 'dead', last_error: 'Unknown operation type: retired_type' }),
+    ]);
+
+    const operations = await outboxService.getPendingOperations();
+
+    expect(operations.map(({ id, type, status }) => ({ id, type, status }))).toEqual([
+      { id: 1, type: 'post_like', status: 'pending' },
+      { id: 2, type: 'unknown', status: 'dead' },
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { database } from '../../database';
+import type { Trip } from '../../database/db';
+import { routeHistoryService } from '../RouteHistoryService';
+
+const NOW = Date.UTC(2026, 4, 12, 12);
+
+// A walk north along one street, then east along another
+async function addTrip(id: string, overrides: Partial<Trip> = {}): Promise<void> {
+  await database.createTrip({
+    id,
+    user_id: 'u',
+    type: 'walk',
+    status: 'completed',
+    start_time: NOW,
+    end_time: NOW + 600_000,
+    avg_speed: 5,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  });
+  await database.addLocations(
+    Array.from({ length: 20 }, (_, i) => ({
+      trip_id: id,
+      latitude: 51.5 + Math.min(i, 10) * 0.0002,
+      longitude: -0.124 + Math.max(0, i - 10) * 0.0003,
+      altitude: null,
+      accuracy: 8,
+      speed: 1.4,
+      heading: 0,
+      timestamp: NOW + i * 5000,
+      activity_type: null,
+      activity_confidence: null,
+      synced: 0,
+    }))
+  );
+}
+
+async function hasRoute(tripId: string): Promise<boolean> {
+  const db = await database.getDb();
+  const row = await db.getFirstAsync<{ n: number }>('SELECT COUNT(*) AS n FROM simplified_routes WHERE trip_id = ?', [tripId]);
+  return (row?.n ?? 0) > 0;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  await database.clearAllData();
+});
+
+describe('RouteHistoryService', () => {
+  it('simplifies trips recorded before the cache existed on first read', async () => {
+    await addTrip('a');
+    expect(await hasRoute('a')).toBe(false);
+
+    const routes = await routeHistoryService.getRoutes();
+
+    expect(routes).toHaveLength(1);
+    // The straight legs collapse to their ends and the corner
+    expect(routes[0].coordinates).toEqual([
+      [-0.124, 51.5],
+      [-0.124, 51.502],
+      [-0.1213, 51.502],
+    ]);
+    expect(await hasRoute('a')).toBe(true);
+  });
+
+  it('prefers the stored route over raw locations', async () => {
+    await addTrip('a', {
+      route_data: JSON.stringify([
+        { latitude: 51.51, longitude: -0.1 },
+        { latitude: 51.52, longitude: -0.1 },
+      ]),
+    });
+
+    const [route] = await routeHistoryService.getRoutes();
+
+    expect(route.coordinates).toEqual([
+      [-0.1, 51.51],
+      [-0.1, 51.52],
+    ]);
+  });
+
+  it('carries the speed and dominant comfort rating used for colouring', async () => {
+    await addTrip('a');
+    await database.updateTrip('a', { moving_avg_speed_kmh: 6.2 });
+    await database.createRating({
+      trip_id: 'a',
+      segments: JSON.stringify([
+        { startIndex: 0, endIndex: 3, feeling: 'stressed' },
+        { startIndex: 4, endIndex: 19, feeling: 'enjoyable' },
+      ]),
+      rated_at: NOW,
+    });
+
+    const [route] = await routeHistoryService.getRoutes();
+
+    expect(route.avgSpeed).toBe(6.2);
+    expect(route.comfort).toBe('enjoyable');
+  });
+
+  it('indexes a finalized trip and notifies subscribers', async () => {
+    await addTrip('a');
+    const listener = jest.fn();
+    const unsubscribe = routeHistoryService.subscribe(listener);
+
+    await routeHistoryService.indexTrip('a');
+    unsubscribe();
+
+    expect(await hasRoute('a')).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves cancelled and hidden trips out', async () => {
+    await addTrip('cancelled', { status: 'cancelled' });
+    await addTrip('hidden');
+    await database.updateTrip('hidden', { visible: 0 });
+
+    await routeHistoryService.indexTrip('cancelled');
+    const routes = await routeHistoryService.getRoutes();
+
+    expect(await hasRoute('cancelled')).toBe(false);
+    expect(routes).toEqual([]);
+  });
+
+  it('rebuilds routes whose locations moved in a split', async () => {
+    await addTrip('a');
+    await routeHistoryService.indexTrip('a');
+    await database.createTrip({
+      id: 'b',
+      user_id: 'u',
+      type: 'walk',
+      status: 'completed',
+      start_time: NOW + 55_000,
+      created_at: NOW,
+      updated_at: NOW,
+    });
+
+    await database.moveTripDataAfter('a', 'b', NOW + 50_000);
+    expect(await hasRoute('a')).toBe(false);
+
+    const routes = await routeHistoryService.getRoutes();
+    expect(routes.map((route) => route.tripId)).toEqual(['a', 'b']);
+  });
+});
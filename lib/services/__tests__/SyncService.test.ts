@@ -11,6 +11,13 @@ jest.mock('../../database', () => ({
     updateTrip: jest.fn().mockResolvedValue(undefined),
     getAllTrips: jest.fn().mockResolvedValue([]),
     getLocationsByTrip: jest.fn().mockResolvedValue([]),
+    getTripSegments: jest.fn().mockResolvedValue([]),
+    getTripByBackendId: jest.fn().mockResolvedValue(null),
+    getSyncedTrips: jest.fn().mockResolvedValue([]),
+    createTrip: jest.fn().mockResolvedValue(undefined),
+    deleteTrip: jest.fn().mockResolvedValue(undefined),
+    getSetting: jest.fn().mockResolvedValue(null),
+    setSetting: jest.fn().mockResolvedValue(undefined),
   },
 }));
 
@@ -19,8 +26,11 @@ jest.mock('../../api/trips', () => ({
     patchTrip: jest.fn(),
     createTrip: jest.fn(),
     syncTrips: jest.fn(),
+    getTrips: jest.fn(),
   },
   transformTripForApi: jest.fn(),
+  transformSegmentForApi: jest.requireActual('../../api/trips').transformSegmentForApi,
+  transformApiTripToLocal: jest.requireActual('../../api/trips').transformApiTripToLocal,
 }));
 
 jest.mock('@react-native-community/netinfo', () => ({
@@ -174,6 +184,57 @@ describe('SyncService.syncDirtyTrips', () => {
   });
 });
 
+describe('SyncService.patchTripSegments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const segment = (seq: number, type: string, tStart: number, tEnd: number, distance: number) => ({
+    id: seq + 1,
+    trip_id: 'a',
+    seq,
+    type,
+    detected_type: type,
+    t_start: tStart,
+    t_end: tEnd,
+    distance,
+    duration: (tEnd - tStart) / 1000,
+    avg_speed: 10,
+    max_speed: 15,
+    confidence: 90,
+  });
+
+  it('PATCHes type and segments, clears type_dirty and takes the re-credited CO2', async () => {
+    mockDatabase.getTrip.mockResolvedValueOnce(
+      { id: 'a', synced: 1, backend_id: 7, type: 'cycle', type_dirty: 1 } as unknown as Trip
+    );
+    mockDatabase.getTripSegments.mockResolvedValueOnce([
+      segment(0, 'walk', Date.UTC(2026, 4, 5, 8, 0), Date.UTC(2026, 4, 5, 8, 10), 800),
+      segment(1, 'cycle', Date.UTC(2026, 4, 5, 8, 12), Date.UTC(2026, 4, 5, 8, 30), 5000),
+    ] as any);
+    mockTripAPI.patchTrip.mockResolvedValueOnce({ co2_saved: 0.75 } as ApiTrip);
+
+    await syncService.patchTripSegments('a');
+
+    expect(mockTripAPI.patchTrip).toHaveBeenCalledWith(7, {
+      type: 'cycle',
+      segments: [
+        { type: 'walk', start_timestamp: '2026-05-05T08:00:00.000Z', end_timestamp: '2026-05-05T08:10:00.000Z', distance: 0.8 },
+        { type: 'cycle', start_timestamp: '2026-05-05T08:12:00.000Z', end_timestamp: '2026-05-05T08:30:00.000Z', distance: 5 },
+      ],
+    });
+    expect(mockDatabase.updateTrip).toHaveBeenCalledWith('a', { type_dirty: 0, co2_saved: 0.75 });
+  });
+
+  it('skips PATCH when no backend_id', async () => {
+    mockDatabase.getTrip.mockResolvedValueOnce({ id: 'a', synced: 0, backend_id: null } as unknown as Trip);
+
+    await syncService.patchTripSegments('a');
+
+    expect(mockTripAPI.patchTrip).not.toHaveBeenCalled();
+  });
+});
+
 describe('SyncService.cleanupInvalidTrips', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -238,3 +299,176 @@ describe('SyncService.cleanupInvalidTrips', () => {
     expect(mockDatabase.updateTrip).not.toHaveBeenCalled();
   });
 });
+
+describe('SyncService.pullTrips', () => {
+  const apiTrip = (overrides: Partial<ApiTrip> = {}): ApiTrip => ({
+    id: 10,
+    user: 1,
+    client_id: 'trip_a',
+    start_timestamp: '2026-05-05T08:00:00.000Z',
+    end_timestamp: '2026-05-05T08:30:00.000Z',
+    type: 'cycle',
+    is_manual: false,
+    average_speed: 16,
+    distance: 8,
+    status: 'completed',
+    is_valid: true,
+    user_confirmed: null,
+    created_at: '2026-05-05T08:30:00.000Z',
+    updated_at: '2026-05-05T08:31:00.000Z',
+    duration: 1800,
+    co2_saved: 1.03,
+    user_note: 'server note',
+    classification_source: 'apple_motion',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.requireMock('@react-native-community/netinfo').fetch.mockResolvedValue({ isConnected: true, isInternetReachable: true });
+    mockDatabase.getTrip.mockResolvedValue(null);
+    mockDatabase.getTripByBackendId.mockResolvedValue(null);
+    mockDatabase.getSyncedTrips.mockResolvedValue([]);
+    mockDatabase.getSetting.mockResolvedValue(null);
+  });
+
+  it('pages through the trip list and inserts unknown trips', async () => {
+    mockTripAPI.getTrips
+      .mockResolvedValueOnce({ count: 2, next: 'page2', previous: null, results: [apiTrip()] })
+      .mockResolvedValueOnce({ count: 2, next: null, previous: 'page1', results: [apiTrip({ id: 11, client_id: 'trip_b' })] });
+
+    const result = await syncService.pullTrips(0);
+
+    expect(mockTripAPI.getTrips).toHaveBeenCalledTimes(2);
+    expect(mockTripAPI.getTrips).toHaveBeenLastCalledWith(undefined, { page: 2, pageSize: 100 });
+    expect(result).toMatchObject({ success: true, inserted: 2, updated: 0, deleted: 0 });
+    expect(mockDatabase.createTrip).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'trip_a', backend_id: 10, distance: 8000, synced: 1 })
+    );
+    expect(mockDatabase.updateTrip).toHaveBeenCalledWith(
+      'trip_a',
+      expect.objectContaining({ user_note: 'server note', classification_source: 'apple_motion' })
+    );
+  });
+
+  it('keeps locally edited note and type when the dirty flags are set', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 1, next: null, previous: null, results: [apiTrip({ type: 'walk' })] });
+    mockDatabase.getTripByBackendId.mockResolvedValue({
+      id: 'trip_a',
+      backend_id: 10,
+      synced: 1,
+      type: 'cycle',
+      type_dirty: 1,
+      user_note: 'my edit',
+      user_note_dirty: 1,
+      distance: 7900,
+      route_data: '[]',
+    } as unknown as Trip);
+
+    await syncService.pullTrips(0);
+
+    const updates = mockDatabase.updateTrip.mock.calls[0][1];
+    expect(updates.distance).toBe(8000);
+    expect(updates).not.toHaveProperty('type');
+    expect(updates).not.toHaveProperty('user_note');
+  });
+
+  it('takes server note and type when there are no local edits', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 1, next: null, previous: null, results: [apiTrip({ type: 'walk' })] });
+    mockDatabase.getTripByBackendId.mockResolvedValue({
+      id: 'trip_a',
+      backend_id: 10,
+      synced: 1,
+      type: 'cycle',
+      type_dirty: 0,
+      user_note: null,
+      user_note_dirty: 0,
+    } as unknown as Trip);
+
+    await syncService.pullTrips(0);
+
+    expect(mockDatabase.updateTrip).toHaveBeenCalledWith(
+      'trip_a',
+      expect.objectContaining({ type: 'walk', user_note: 'server note' })
+    );
+  });
+
+  it('links an unsynced local trip the server already has by client_id', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 1, next: null, previous: null, results: [apiTrip()] });
+    mockDatabase.getTrip.mockResolvedValue({ id: 'trip_a', backend_id: null, synced: 0, type: 'cycle' } as unknown as Trip);
+
+    await syncService.pullTrips(0);
+
+    expect(mockDatabase.createTrip).not.toHaveBeenCalled();
+    expect(mockDatabase.updateTrip).toHaveBeenCalledWith('trip_a', expect.objectContaining({ synced: 1, backend_id: 10 }));
+  });
+
+  it('removes synced trips that were deleted on the server', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 1, next: null, previous: null, results: [apiTrip()] });
+    mockDatabase.getTripByBackendId.mockResolvedValue({ id: 'trip_a', backend_id: 10, synced: 1, type: 'cycle' } as unknown as Trip);
+    mockDatabase.getSyncedTrips.mockResolvedValue([
+      { id: 'trip_a', backend_id: 10, synced: 1 } as unknown as Trip,
+      { id: 'trip_gone', backend_id: 99, synced: 1 } as unknown as Trip,
+    ]);
+
+    const result = await syncService.pullTrips(0);
+
+    expect(result.deleted).toBe(1);
+    expect(mockDatabase.deleteTrip).toHaveBeenCalledWith('trip_gone');
+    expect(mockDatabase.deleteTrip).not.toHaveBeenCalledWith('trip_a');
+  });
+
+  it('keeps trips synced while the pages were loading', async () => {
+    mockTripAPI.getTrips.mockImplementation(async () => {
+      // A concurrent sync lands a new trip after the pull started
+      mockDatabase.getSyncedTrips.mockResolvedValue([{ id: 'trip_new', backend_id: 50, synced: 1 } as unknown as Trip]);
+      return { count: 0, next: null, previous: null, results: [] };
+    });
+
+    const result = await syncService.pullTrips(0);
+
+    expect(result.deleted).toBe(0);
+    expect(mockDatabase.deleteTrip).not.toHaveBeenCalled();
+  });
+
+  it('keeps hidden trips the list may leave out', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 0, next: null, previous: null, results: [] });
+    mockDatabase.getSyncedTrips.mockResolvedValue([
+      { id: 'trip_hidden', backend_id: 98, synced: 1, visible: 0 } as unknown as Trip,
+    ]);
+
+    const result = await syncService.pullTrips(0);
+
+    expect(result.deleted).toBe(0);
+    expect(mockDatabase.deleteTrip).not.toHaveBeenCalled();
+  });
+
+  it('pulls on sync even when there is nothing to push', async () => {
+    mockDatabase.getAllTrips.mockResolvedValue([]);
+    const pull = jest
+      .spyOn(syncService, 'pullTrips')
+      .mockResolvedValue({ success: true, inserted: 0, updated: 0, deleted: 0 });
+
+    await syncService.syncTrips();
+
+    expect(pull).toHaveBeenCalled();
+    pull.mockRestore();
+  });
+
+  it('stores the backend validity on pulled trips', async () => {
+    mockTripAPI.getTrips.mockResolvedValue({ count: 1, next: null, previous: null, results: [apiTrip({ is_valid: false })] });
+
+    await syncService.pullTrips(0);
+
+    expect(mockDatabase.updateTrip).toHaveBeenCalledWith('trip_a', expect.objectContaining({ is_valid: 0 }));
+  });
+
+  it('skips the pull when the last one was recent', async () => {
+    mockDatabase.getSetting.mockResolvedValue(String(Date.now() - 60_000));
+
+    const result = await syncService.pullTrips();
+
+    expect(result.success).toBe(true);
+    expect(mockTripAPI.getTrips).not.toHaveBeenCalled();
+  });
+});
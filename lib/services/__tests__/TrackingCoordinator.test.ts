@@ -40,6 +40,7 @@ const mockEvents = {
 jest.mock('../../native/RadziTracker', () => ({
   RadziTrackerNative: mockNative,
   RadziTrackerEvents: mockEvents,
+  onTrackerBackendChanged: jest.fn().mockReturnValue(() => {}),
 }));
 
 jest.mock('../TripFinalizationPipeline', () => ({
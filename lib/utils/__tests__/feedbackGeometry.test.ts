@@ -0,0 +1,60 @@
+import {
+  buildFeedbackGeometry,
+  feedbackTypeOf,
+  geometryCenter,
+  geometryPoints,
+  isDrawingComplete,
+} from '../feedbackGeometry';
+
+const A = { latitude: 51.5, longitude: -0.1 };
+const B = { latitude: 51.51, longitude: -0.1 };
+const C = { latitude: 51.51, longitude: -0.09 };
+
+describe('buildFeedbackGeometry', () => {
+  it('builds a point from the last tap', () => {
+    expect(buildFeedbackGeometry('point', [A, B])).toEqual({ type: 'Point', coordinates: [-0.1, 51.51] });
+  });
+
+  it('needs two vertices for a path and three for an area', () => {
+    expect(buildFeedbackGeometry('path', [A])).toBeNull();
+    expect(buildFeedbackGeometry('area', [A, B])).toBeNull();
+    expect(isDrawingComplete('area', [A, B, C])).toBe(true);
+  });
+
+  it('builds a line in tap order', () => {
+    expect(buildFeedbackGeometry('path', [A, B])).toEqual({
+      type: 'LineString',
+      coordinates: [[-0.1, 51.5], [-0.1, 51.51]],
+    });
+  });
+
+  it('closes polygon rings', () => {
+    const geometry = buildFeedbackGeometry('area', [A, B, C]);
+
+    expect(geometry?.type).toBe('Polygon');
+    const ring = (geometry as { coordinates: [number, number][][] }).coordinates[0];
+    expect(ring).toHaveLength(4);
+    expect(ring[3]).toEqual(ring[0]);
+  });
+});
+
+describe('geometryPoints', () => {
+  it('round-trips drawn vertices', () => {
+    for (const type of ['point', 'path', 'area'] as const) {
+      const points = type === 'point' ? [A] : type === 'path' ? [A, B] : [A, B, C];
+      const geometry = buildFeedbackGeometry(type, points)!;
+
+      expect(geometryPoints(geometry)).toEqual(points);
+      expect(feedbackTypeOf(geometry)).toBe(type);
+    }
+  });
+});
+
+describe('geometryCenter', () => {
+  it('averages the vertices', () => {
+    const center = geometryCenter(buildFeedbackGeometry('path', [A, B])!);
+
+    expect(center?.latitude).toBeCloseTo(51.505);
+    expect(center?.longitude).toBeCloseTo(-0.1);
+  });
+});
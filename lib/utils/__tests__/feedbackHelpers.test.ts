@@ -0,0 +1,52 @@
+import { queuedReportId, withQueuedReports } from '../feedbackHelpers';
+import type { CreateMapFeedbackRequest, MapFeedback } from '../../api/mapFeedback';
+
+const report = (id: number, title: string): MapFeedback => ({
+  id,
+  user: 7,
+  type: 'point',
+  category: 'road_damage',
+  coordinates: { type: 'Point', coordinates: [0, 51] },
+  title,
+  description: '',
+  created_at: '2026-10-01T00:00:00.000Z',
+});
+
+const pothole: CreateMapFeedbackRequest = {
+  type: 'point',
+  category: 'road_damage',
+  coordinates: { type: 'Point', coordinates: [0.001, 51] },
+  title: 'Pothole',
+  description: 'By the kerb',
+  photos: ['file:///report-photos/a.jpg'],
+};
+
+describe('withQueuedReports', () => {
+  it('lists reports still in the outbox first, under negative ids', () => {
+    const reports = withQueuedReports([report(12, 'Broken light')], [{ id: 3, payload: pothole, createdAt: 0 }], []);
+
+    expect(reports.map(({ id, title }) => ({ id, title }))).toEqual([
+      { id: -3, title: 'Pothole' },
+      { id: 12, title: 'Broken light' },
+    ]);
+    expect(reports[0].photos).toEqual(pothole.photos);
+    expect(queuedReportId(reports[0])).toBe(3);
+    expect(queuedReportId(reports[1])).toBeNull();
+  });
+
+  it('applies queued edits in the order they were made', () => {
+    const reports = withQueuedReports(
+      [report(12, 'Broken light'), report(13, 'Glass')],
+      [],
+      [
+        { payload: { id: 12, data: { title: 'Light out' } } },
+        { payload: { id: 12, data: { title: 'Light out again', description: 'Both sides' } } },
+      ]
+    );
+
+    expect(reports.map(({ title, description }) => ({ title, description }))).toEqual([
+      { title: 'Light out again', description: 'Both sides' },
+      { title: 'Glass', description: '' },
+    ]);
+  });
+});
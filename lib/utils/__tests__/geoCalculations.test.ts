@@ -2,6 +2,12 @@ import {
   trimStationaryTail,
   calculateElevationGain,
   calculateElevationLoss,
+  paddedBoundingBox,
+  boundingBoxesOverlap,
+  formatBoundingBox,
+  geometryVertices,
+  bearingBetween,
+  distanceToPolyline,
 } from '../geoCalculations';
 
 /** Build a point offset north of (51, 0) by the given metres. 1 deg lat ≈ 111_320 m. */
@@ -84,3 +90,58 @@ describe('elevation dead-band', () => {
     expect(calculateElevationLoss([...up, ...down])).toBe(50);
   });
 });
+
+describe('bounding boxes', () => {
+  it('pads by the same distance in meters on both axes', () => {
+    const box = paddedBoundingBox([{ latitude: 60, longitude: 10 }], 1000)!;
+
+    // A degree of longitude at 60° is half as long as at the equator
+    expect((box.maxLng - box.minLng) / (box.maxLat - box.minLat)).toBeCloseTo(2, 1);
+    expect(paddedBoundingBox([], 1000)).toBeNull();
+  });
+
+  it('formats as min_lon,min_lat,max_lon,max_lat and detects overlap', () => {
+    const a = { minLat: 0, maxLat: 1, minLng: 0, maxLng: 1 };
+    const b = { minLat: 1, maxLat: 2, minLng: 0.5, maxLng: 3 };
+
+    expect(formatBoundingBox(b)).toBe('0.50000,1.00000,3.00000,2.00000');
+    expect(boundingBoxesOverlap(a, b)).toBe(true);
+    expect(boundingBoxesOverlap(a, { ...b, minLat: 1.1 })).toBe(false);
+  });
+});
+
+describe('geometryVertices', () => {
+  it('returns the vertices of points, lines and polygons as coordinates', () => {
+    expect(geometryVertices({ type: 'Point', coordinates: [1, 2] })).toEqual([{ latitude: 2, longitude: 1 }]);
+    expect(
+      geometryVertices({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 1], [0, 0]]] })
+    ).toHaveLength(4);
+  });
+});
+
+describe('bearingBetween', () => {
+  it('measures clockwise from north', () => {
+    expect(bearingBetween({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(0);
+    expect(bearingBetween({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 })).toBeCloseTo(90);
+    expect(bearingBetween({ latitude: 0, longitude: 0 }, { latitude: -1, longitude: 0 })).toBeCloseTo(180);
+  });
+});
+
+describe('distanceToPolyline', () => {
+  // ~1 km due east along the equator, then north
+  const polyline = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 0, longitude: 0.009 },
+    { latitude: 0.009, longitude: 0.009 },
+  ];
+
+  it('measures to the nearest segment, not just the vertices', () => {
+    expect(distanceToPolyline({ latitude: 0.0001, longitude: 0.0045 }, polyline)).toBeCloseTo(11, 0);
+    expect(distanceToPolyline({ latitude: 0.0045, longitude: 0.0092 }, polyline)).toBeCloseTo(22, 0);
+  });
+
+  it('handles a single point and an empty polyline', () => {
+    expect(distanceToPolyline({ latitude: 0.0001, longitude: 0 }, polyline.slice(0, 1))).toBeCloseTo(11, 0);
+    expect(distanceToPolyline({ latitude: 0, longitude: 0 }, [])).toBe(Infinity);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  DEFAULT_HAZARD_ALERT_PREFERENCES,
+  HAZARD_RETRY_AFTER_MS,
+  findHazardsAhead,
+  hazardCacheBbox,
+  needsHazardRefresh,
+  toCachedHazards,
+  type CachedHazard,
+} from '../hazardAlerts';
+import type { GlobalFeedback } from '../../api/globalFeedback';
+
+const ALL_ON = { road_damage: true, safety_issue: true };
+
+function feedback(overrides: Partial<GlobalFeedback>): GlobalFeedback {
+  return {
+    id: 1,
+    category: 'road_damage',
+    representative_geometry: { type: 'Point', coordinates: [0.001, 0] },
+    confidence_score: 0.9,
+    confidence_level: 'high',
+    signal_strength: 5,
+    is_active: true,
+    last_processed_at: '2026-01-01T00:00:00Z',
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// ~100 m east of the origin
+const EAST: CachedHazard = { id: 1, category: 'road_damage', points: [{ latitude: 0, longitude: 0.0009 }] };
+
+describe('toCachedHazards', () => {
+  it('keeps active, high-confidence road damage and safety issues', () => {
+    const hazards = toCachedHazards([
+      feedback({ id: 1 }),
+      feedback({ id: 2, category: 'safety_issue' }),
+      feedback({ id: 3, category: 'traffic_light' }),
+      feedback({ id: 4, confidence_level: 'medium' }),
+      feedback({ id: 5, is_active: false }),
+    ]);
+
+    expect(hazards.map((h) => h.id)).toEqual([1, 2]);
+    expect(hazards[0].points).toEqual([{ latitude: 0, longitude: 0.001 }]);
+  });
+
+  it('uses every vertex of line geometry', () => {
+    const [hazard] = toCachedHazards([
+      feedback({ representative_geometry: { type: 'LineString', coordinates: [[0, 0], [0.001, 0.001]] } }),
+    ]);
+
+    expect(hazard.points).toHaveLength(2);
+  });
+});
+
+describe('hazardCacheBbox', () => {
+  it('builds a square around the centre', () => {
+    const [minLng, minLat, maxLng, maxLat] = hazardCacheBbox({ latitude: 0, longitude: 0 }, 1000)
+      .split(',')
+      .map(Number);
+
+    expect(maxLat).toBeCloseTo(-minLat, 5);
+    expect(maxLng).toBeCloseTo(-minLng, 5);
+    expect(maxLat).toBeCloseTo(0.009, 3);
+  });
+});
+
+describe('needsHazardRefresh', () => {
+  it('refreshes without a cache and after moving away from it', () => {
+    expect(needsHazardRefresh(null, { latitude: 0, longitude: 0 })).toBe(true);
+    expect(needsHazardRefresh({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 0.005 })).toBe(false);
+    expect(needsHazardRefresh({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 0.02 })).toBe(true);
+  });
+
+  it('waits before trying again after a failed fetch', () => {
+    const position = { latitude: 0, longitude: 0 };
+
+    expect(needsHazardRefresh(null, position, 1000, 1000 + HAZARD_RETRY_AFTER_MS - 1)).toBe(false);
+    expect(needsHazardRefresh(null, position, 1000, 1000 + HAZARD_RETRY_AFTER_MS)).toBe(true);
+  });
+});
+
+describe('findHazardsAhead', () => {
+  const position = { latitude: 0, longitude: 0 };
+
+  it('alerts for a hazard ahead in the direction of travel', () => {
+    const ahead = findHazardsAhead([EAST], position, { latitude: 0, longitude: -0.0002 }, new Set(), ALL_ON);
+
+    expect(ahead).toHaveLength(1);
+    expect(ahead[0].distance).toBeCloseTo(100, -1);
+  });
+
+  it('ignores hazards behind the rider', () => {
+    const ahead = findHazardsAhead([EAST], position, { latitude: 0, longitude: 0.0002 }, new Set(), ALL_ON);
+
+    expect(ahead).toEqual([]);
+  });
+
+  it('alerts for any nearby hazard before the direction of travel is known', () => {
+    expect(findHazardsAhead([EAST], position, null, new Set(), ALL_ON)).toHaveLength(1);
+  });
+
+  it('ignores far, already alerted and opted-out hazards', () => {
+    const far = { ...EAST, id: 2, points: [{ latitude: 0, longitude: 0.003 }] };
+
+    expect(findHazardsAhead([far], position, null, new Set(), ALL_ON)).toEqual([]);
+    expect(findHazardsAhead([EAST], position, null, new Set([1]), ALL_ON)).toEqual([]);
+    expect(findHazardsAhead([EAST], position, null, new Set(), DEFAULT_HAZARD_ALERT_PREFERENCES)).toEqual([]);
+  });
+});
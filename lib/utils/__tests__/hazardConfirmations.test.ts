@@ -0,0 +1,103 @@
+import { findPassedHazards, latestVotes, queuedVotes, routeBbox } from '../hazardConfirmations';
+import type { FeedbackVote } from '../../api/feedbackVotes';
+import type { GlobalFeedback } from '../../api/globalFeedback';
+
+const NOW = new Date('2026-06-15T12:00:00Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ~1 km due east along the equator
+const ROUTE = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0, longitude: 0.009 },
+];
+
+function hazard(id: number, latitude: number, longitude: number, overrides: Partial<GlobalFeedback> = {}): GlobalFeedback {
+  return {
+    id,
+    category: 'road_damage',
+    representative_geometry: { type: 'Point', coordinates: [longitude, latitude] },
+    confidence_score: 0.8,
+    confidence_level: 'high',
+    signal_strength: 0.6,
+    is_active: true,
+    last_processed_at: '2026-06-01T00:00:00Z',
+    created_at: '2026-06-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function vote(feedback: number, daysAgo: number, kind: FeedbackVote['vote'] = 'still_there'): FeedbackVote {
+  return { id: feedback * 100 + daysAgo, feedback, vote: kind, created_at: new Date(NOW - daysAgo * DAY_MS).toISOString() };
+}
+
+describe('findPassedHazards', () => {
+  it('finds hazards beside the middle of a long straight segment', () => {
+    // ~11 m north of the route, halfway along
+    const passed = findPassedHazards(ROUTE, [hazard(1, 0.0001, 0.0045)], [], NOW);
+
+    expect(passed.map((h) => h.id)).toEqual([1]);
+  });
+
+  it('ignores hazards the route did not pass', () => {
+    // ~110 m north
+    expect(findPassedHazards(ROUTE, [hazard(1, 0.001, 0.0045)], [], NOW)).toEqual([]);
+  });
+
+  it('ignores inactive items and categories that cannot be confirmed', () => {
+    const passed = findPassedHazards(
+      ROUTE,
+      [hazard(1, 0, 0.001, { is_active: false }), hazard(2, 0, 0.002, { category: 'other' })],
+      [],
+      NOW
+    );
+
+    expect(passed).toEqual([]);
+  });
+
+  it('skips items voted on recently and asks again later', () => {
+    const items = [hazard(1, 0, 0.001), hazard(2, 0, 0.002)];
+
+    const passed = findPassedHazards(ROUTE, items, [vote(1, 2), vote(2, 10)], NOW);
+
+    expect(passed.map((h) => h.id)).toEqual([2]);
+  });
+
+  it('orders by distance from the route and caps the list', () => {
+    const items = Array.from({ length: 8 }, (_, i) => hazard(i + 1, 0.00002 * (8 - i), 0.001 * (i + 1)));
+
+    const passed = findPassedHazards(ROUTE, items, [], NOW);
+
+    expect(passed).toHaveLength(5);
+    expect(passed[0].id).toBe(8);
+  });
+});
+
+describe('latestVotes', () => {
+  it('keeps the newest vote per item', () => {
+    const latest = latestVotes([vote(1, 5, 'still_there'), vote(1, 1, 'fixed'), vote(2, 3)]);
+
+    expect(latest.get(1)?.vote).toBe('fixed');
+    expect(latest.size).toBe(2);
+  });
+});
+
+describe('queuedVotes', () => {
+  it('skips hazards the rider answered offline', () => {
+    const queued = queuedVotes([{ payload: { feedbackId: 1, vote: 'fixed' }, createdAt: NOW - DAY_MS }]);
+
+    const passed = findPassedHazards(ROUTE, [hazard(1, 0.0001, 0.0045)], queued, NOW);
+
+    expect(passed).toEqual([]);
+  });
+});
+
+describe('routeBbox', () => {
+  it('pads the route bounds', () => {
+    const [minLng, minLat, maxLng, maxLat] = routeBbox(ROUTE)!.split(',').map(Number);
+
+    expect(minLng).toBeLessThan(0);
+    expect(maxLng).toBeGreaterThan(0.009);
+    expect(maxLat).toBeCloseTo(-minLat, 5);
+    expect(routeBbox([])).toBeNull();
+  });
+});
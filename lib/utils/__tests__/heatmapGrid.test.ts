@@ -0,0 +1,75 @@
+import {
+  HEATMAP_CELL_DEG,
+  binLocations,
+  cellCenter,
+  cellIndex,
+  heatmapLegend,
+  heatmapWeight,
+  toHeatmapGeoJSON,
+  toHeatmapPoints,
+} from '../heatmapGrid';
+
+describe('binLocations', () => {
+  it('counts fixes per cell and skips inaccurate ones', () => {
+    const cells = binLocations([
+      { latitude: 51.50001, longitude: -0.12401, accuracy: 5 },
+      { latitude: 51.50002, longitude: -0.12402, accuracy: 10 },
+      { latitude: 51.50101, longitude: -0.12401, accuracy: null },
+      { latitude: 51.6, longitude: -0.2, accuracy: 120 },
+    ]);
+
+    expect(cells).toHaveLength(2);
+    expect(cells[0]).toEqual({ cellLat: cellIndex(51.50001), cellLng: cellIndex(-0.12401), hits: 2 });
+    expect(cells[1].hits).toBe(1);
+  });
+});
+
+describe('cellCenter', () => {
+  it('returns the middle of the cell a point falls in', () => {
+    const center = cellCenter(cellIndex(51.50001), cellIndex(-0.12401));
+
+    expect(Math.abs(center.latitude - 51.50001)).toBeLessThan(HEATMAP_CELL_DEG);
+    expect(Math.abs(center.longitude + 0.12401)).toBeLessThan(HEATMAP_CELL_DEG);
+  });
+});
+
+describe('heatmapWeight', () => {
+  it('scales trip counts to 1-10', () => {
+    expect(heatmapWeight(1, 1)).toBe(1);
+    expect(heatmapWeight(1, 5)).toBe(1);
+    expect(heatmapWeight(3, 5)).toBe(5.5);
+    expect(heatmapWeight(5, 5)).toBe(10);
+  });
+});
+
+describe('toHeatmapGeoJSON', () => {
+  it('builds weighted point features in [lng, lat] order', () => {
+    const geojson = toHeatmapGeoJSON(
+      toHeatmapPoints([
+        { cellLat: 103000, cellLng: -248, trips: 1 },
+        { cellLat: 103001, cellLng: -248, trips: 4 },
+      ])
+    );
+
+    expect(geojson.features).toHaveLength(2);
+    expect(geojson.features[0].geometry.coordinates).toEqual([-0.12375, 51.50025]);
+    expect(geojson.features.map((f) => f.properties.weight)).toEqual([1, 10]);
+  });
+});
+
+describe('heatmapLegend', () => {
+  it('has no entries for an empty heatmap', () => {
+    expect(heatmapLegend(0)).toEqual([]);
+  });
+
+  it('uses one entry per trip count when there are few trips', () => {
+    expect(heatmapLegend(2).map((e) => e.label)).toEqual(['1', '2']);
+  });
+
+  it('splits large counts into contiguous ranges', () => {
+    const legend = heatmapLegend(20);
+
+    expect(legend.map((e) => e.label)).toEqual(['1-4', '5-8', '9-12', '13-16', '17-20']);
+    expect(new Set(legend.map((e) => e.color)).size).toBe(5);
+  });
+});
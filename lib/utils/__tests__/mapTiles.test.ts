@@ -0,0 +1,78 @@
+import {
+  MAX_VIEWPORT_TILES,
+  minRatingCountForTileZoom,
+  tileBBox,
+  tileKey,
+  tileZoomFor,
+  tilesForViewport,
+  type MapViewport,
+} from '../mapTiles';
+
+// Central London at a typical browsing zoom
+const london: MapViewport = {
+  bounds: { ne: [-0.1, 51.52], sw: [-0.15, 51.49] },
+  zoom: 13,
+};
+
+describe('tileZoomFor', () => {
+  it('snaps one level below the map zoom down to a tile zoom', () => {
+    expect(tileZoomFor(13)).toBe(12);
+    expect(tileZoomFor(13.9)).toBe(12);
+    expect(tileZoomFor(16)).toBe(14);
+    expect(tileZoomFor(3)).toBe(6);
+  });
+});
+
+describe('tilesForViewport', () => {
+  it('covers the viewport with a few tiles at the tile zoom', () => {
+    const tiles = tilesForViewport(london);
+
+    expect(tiles.length).toBeGreaterThan(0);
+    expect(tiles.length).toBeLessThanOrEqual(4);
+    expect(tiles.every((t) => t.z === 12)).toBe(true);
+    expect(tiles.map(tileKey)).toContain('12/2046/1362');
+  });
+
+  it('gives the same tiles for small pans inside them', () => {
+    const panned: MapViewport = {
+      ...london,
+      bounds: { ne: [-0.101, 51.519], sw: [-0.149, 51.491] },
+    };
+
+    expect(tilesForViewport(panned).map(tileKey)).toEqual(tilesForViewport(london).map(tileKey));
+  });
+
+  it('falls back to a coarser zoom instead of loading too many tiles', () => {
+    const wide: MapViewport = { bounds: { ne: [2, 53], sw: [-3, 50] }, zoom: 11 };
+    const tiles = tilesForViewport(wide);
+
+    expect(tiles.length).toBeLessThanOrEqual(MAX_VIEWPORT_TILES);
+    expect(tiles[0].z).toBeLessThan(10);
+  });
+
+  it('loads nothing when zoomed out to the whole world', () => {
+    const world: MapViewport = { bounds: { ne: [180, 85], sw: [-180, -85] }, zoom: 1 };
+
+    expect(tilesForViewport(world)).toEqual([]);
+  });
+});
+
+describe('tileBBox', () => {
+  it('returns the tile extent as min_lon,min_lat,max_lon,max_lat', () => {
+    const [minLon, minLat, maxLon, maxLat] = tileBBox({ z: 12, x: 2046, y: 1362 }).split(',').map(Number);
+
+    expect(minLon).toBeCloseTo(-0.17578, 4);
+    expect(maxLon).toBeCloseTo(-0.08789, 4);
+    expect(minLat).toBeLessThan(51.5);
+    expect(maxLat).toBeGreaterThan(51.5);
+  });
+});
+
+describe('minRatingCountForTileZoom', () => {
+  it('asks for more ratings the further out the map is', () => {
+    expect(minRatingCountForTileZoom(8)).toBe(5);
+    expect(minRatingCountForTileZoom(10)).toBe(3);
+    expect(minRatingCountForTileZoom(12)).toBe(2);
+    expect(minRatingCountForTileZoom(14)).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  estimatePackBytes,
+  estimateTileCount,
+  formatBytes,
+  MAX_SUGGESTIONS,
+  packExpiresAt,
+  suggestOfflineRegions,
+  toPackBounds,
+} from '../offlineRegions';
+import type { Coordinate } from '../../../types/location';
+
+// Short commute-sized route starting at (lat, lng)
+function route(lat: number, lng: number): Coordinate[] {
+  return [
+    { latitude: lat, longitude: lng },
+    { latitude: lat + 0.01, longitude: lng + 0.01 },
+    { latitude: lat + 0.02, longitude: lng + 0.015 },
+  ];
+}
+
+describe('suggestOfflineRegions', () => {
+  it('groups overlapping trips into one region', () => {
+    const suggestions = suggestOfflineRegions([route(51.5, -0.12), route(51.505, -0.115), route(51.51, -0.11)]);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].tripCount).toBe(3);
+    expect(suggestions[0].bounds.minLat).toBeLessThan(51.5);
+    expect(suggestions[0].bounds.maxLat).toBeGreaterThan(51.53);
+  });
+
+  it('drops areas visited only once', () => {
+    const suggestions = suggestOfflineRegions([route(51.5, -0.12), route(51.5, -0.12), route(48.85, 2.35)]);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].tripCount).toBe(2);
+  });
+
+  it('orders regions by trip count', () => {
+    const suggestions = suggestOfflineRegions([
+      route(48.85, 2.35),
+      route(48.85, 2.35),
+      route(51.5, -0.12),
+      route(51.5, -0.12),
+      route(51.5, -0.12),
+    ]);
+
+    expect(suggestions.map((s) => s.tripCount)).toEqual([3, 2]);
+  });
+
+  it('skips long-distance trips that would make a huge pack', () => {
+    const longTrip = [
+      { latitude: 51.5, longitude: -0.12 },
+      { latitude: 52.2, longitude: 0.12 },
+    ];
+
+    expect(suggestOfflineRegions([longTrip, longTrip])).toEqual([]);
+  });
+
+  it('returns at most MAX_SUGGESTIONS regions', () => {
+    const routes = Array.from({ length: MAX_SUGGESTIONS + 2 }, (_, i) => route(40 + i, 0)).flatMap((r) => [r, r]);
+
+    expect(suggestOfflineRegions(routes)).toHaveLength(MAX_SUGGESTIONS);
+  });
+});
+
+describe('pack helpers', () => {
+  const bounds = { minLat: 51.49, maxLat: 51.52, minLng: -0.15, maxLng: -0.1 };
+
+  it('orders pack bounds north-east first as [lng, lat]', () => {
+    expect(toPackBounds(bounds)).toEqual([
+      [-0.1, 51.52],
+      [-0.15, 51.49],
+    ]);
+  });
+
+  it('estimates more tiles and bytes for a larger area and for satellite', () => {
+    const larger = { ...bounds, maxLat: 51.6, maxLng: 0 };
+
+    expect(estimateTileCount(larger)).toBeGreaterThan(estimateTileCount(bounds));
+    expect(estimatePackBytes(bounds, 'satellite')).toBeGreaterThan(estimatePackBytes(bounds, 'outdoors'));
+  });
+
+  it('expires packs after 30 days', () => {
+    expect(packExpiresAt(0)).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('1 KB');
+    expect(formatBytes(850 * 1024)).toBe('850 KB');
+    expect(formatBytes(12.4 * 1024 * 1024)).toBe('12.4 MB');
+    expect(formatBytes(2 * 1024 * 1024 * 1024)).toBe('2.00 GB');
+  });
+});
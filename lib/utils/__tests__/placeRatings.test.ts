@@ -0,0 +1,71 @@
+import { findJunctions, placeRatingKey, placeRatingSegments } from '../placeRatings';
+import { toPlaceRatingRequest, type RatedPlace } from '../../../types/rating';
+
+const section = (id: string, ...coordinates: [number, number][]) => ({
+  section_id: id,
+  geometry: { type: 'LineString' as const, coordinates },
+});
+
+// A roundabout entry: three roads meeting at one point, plus a dead end
+const sections = [
+  section('north', [0, 51], [0, 51.001]),
+  section('east', [0, 51], [0.001, 51]),
+  section('south', [0, 50.999], [0.0000001, 51.0000001]),
+  section('lane', [0.001, 51], [0.002, 51]),
+  section('lone', [1, 52], [1, 52.001]),
+];
+
+describe('findJunctions', () => {
+  it('finds points where two or more sections start or end, within about a meter', () => {
+    const junctions = findJunctions(sections);
+
+    expect(junctions).toEqual([
+      { coordinates: [0, 51], sectionIds: ['north', 'east', 'south'] },
+      { coordinates: [0.001, 51], sectionIds: ['east', 'lane'] },
+    ]);
+  });
+
+  it('does not count a loop meeting itself as a junction', () => {
+    expect(findJunctions([section('loop', [0, 51], [0.001, 51], [0, 51])])).toEqual([]);
+  });
+});
+
+describe('place ratings', () => {
+  const road: RatedPlace = { kind: 'section', sectionId: 'north', coordinates: sections[0].geometry.coordinates };
+  const junction: RatedPlace = { kind: 'junction', coordinates: [0, 51], sectionIds: ['north', 'east', 'south'] };
+
+  it('keys ratings so they cannot clash with trip ids', () => {
+    expect(placeRatingKey(road)).toBe('section:north');
+    expect(placeRatingKey(junction)).toBe('junction:0.00000,51.00000');
+  });
+
+  it('stores one segment over the section or the junction point', () => {
+    expect(placeRatingSegments(road, 'stressed')).toEqual([{ startIndex: 0, endIndex: 1, feeling: 'stressed' }]);
+    expect(placeRatingSegments(junction, 'stressed')).toEqual([{ startIndex: 0, endIndex: 0, feeling: 'stressed' }]);
+  });
+
+  it('submits a section as its line and a junction as a point', () => {
+    const ratedAt = Date.UTC(2026, 9, 1);
+
+    expect(toPlaceRatingRequest('section:north', road, 'enjoyable', ratedAt)).toEqual({
+      client_trip_id: 'section:north',
+      rated_at: '2026-10-01T00:00:00.000Z',
+      rated_segments: [
+        {
+          start_lat: 51,
+          start_lng: 0,
+          end_lat: 51.001,
+          end_lng: 0,
+          geometry: { type: 'LineString', coordinates: [[0, 51], [0, 51.001]] },
+          road_section_ids: ['north'],
+          feeling: 'Enjoyable',
+        },
+      ],
+    });
+
+    const [point] = toPlaceRatingRequest('junction:0.00000,51.00000', junction, 'stressed').rated_segments;
+    expect(point.geometry).toEqual({ type: 'Point', coordinates: [0, 51] });
+    expect(point.road_section_ids).toEqual(['north', 'east', 'south']);
+    expect([point.start_lat, point.end_lat]).toEqual([51, 51]);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  distanceFromZoneToSegment,
+  isInPrivacyZone,
+  privacyZoneRing,
+  trimRouteToPrivacyZones,
+  trimSegmentsToPrivacyZones,
+  type PrivacyZone,
+} from '../privacyZones';
+import { calculateDistance } from '../geoCalculations';
+
+/** 1 deg lat ≈ 110_540 m; these helpers offset from the zone centre in meters. */
+const north = (m: number) => 51 + m / 110_540;
+const east = (m: number) => (m / (111_320 * Math.cos((51 * Math.PI) / 180)));
+
+const home: PrivacyZone = { id: 'home', name: 'Home', latitude: 51, longitude: 0, radius: 400 };
+
+describe('isInPrivacyZone', () => {
+  it('includes points up to the radius and excludes points beyond it', () => {
+    expect(isInPrivacyZone({ latitude: north(0), longitude: 0 }, [home])).toBe(true);
+    expect(isInPrivacyZone({ latitude: north(390), longitude: 0 }, [home])).toBe(true);
+    expect(isInPrivacyZone({ latitude: north(410), longitude: 0 }, [home])).toBe(false);
+  });
+
+  it('is never true without zones', () => {
+    expect(isInPrivacyZone({ latitude: 51, longitude: 0 }, [])).toBe(false);
+  });
+});
+
+describe('trimRouteToPrivacyZones', () => {
+  // A ride leaving home: one point every 100 m heading north, starting 50 m out
+  const route = Array.from({ length: 10 }, (_, i) => ({
+    lat: north(50 + i * 100),
+    lng: 0,
+    timestamp: `2026-05-05T08:0${i}:00.000Z`,
+  }));
+
+  it('drops the start of a route inside a zone and keeps point fields', () => {
+    const trimmed = trimRouteToPrivacyZones(route, [home]);
+
+    expect(trimmed).toHaveLength(6);
+    expect(trimmed[0]).toEqual(route[4]);
+  });
+
+  it('drops both ends when the route starts at home and ends at work', () => {
+    const work: PrivacyZone = { id: 'work', name: 'Work', latitude: north(950), longitude: 0, radius: 150 };
+
+    const trimmed = trimRouteToPrivacyZones(route, [home, work]);
+
+    expect(trimmed.map((p) => p.timestamp)).toEqual(route.slice(4, 8).map((p) => p.timestamp));
+  });
+
+  it('returns the same array when nothing is inside a zone', () => {
+    const far: PrivacyZone = { ...home, latitude: 52 };
+
+    expect(trimRouteToPrivacyZones(route, [far])).toBe(route);
+    expect(trimRouteToPrivacyZones(route, [])).toBe(route);
+  });
+});
+
+describe('distanceFromZoneToSegment', () => {
+  it('measures to the closest point on the segment, not just its ends', () => {
+    // Passes 300 m east of the centre, from 1 km south to 1 km north
+    const a = { latitude: north(-1000), longitude: east(300) };
+    const b = { latitude: north(1000), longitude: east(300) };
+
+    expect(distanceFromZoneToSegment(home, a, b)).toBeCloseTo(300, 0);
+  });
+
+  it('measures to the nearer end when the centre is beyond the segment', () => {
+    const a = { latitude: north(500), longitude: 0 };
+    const b = { latitude: north(800), longitude: 0 };
+
+    expect(distanceFromZoneToSegment(home, a, b)).toBeCloseTo(500, 0);
+  });
+});
+
+describe('trimSegmentsToPrivacyZones', () => {
+  const segment = (fromM: number, toM: number, eastM = 0) => ({
+    start_lat: north(fromM),
+    start_lng: east(eastM),
+    end_lat: north(toM),
+    end_lng: east(eastM),
+    feeling: 'Comfortable' as const,
+  });
+
+  it('drops segments that start, end or pass through a zone', () => {
+    const starting = segment(200, 800);
+    const crossing = segment(-1000, 1000, 300);
+    const clear = segment(500, 1500);
+    const skirting = segment(-1000, 1000, 500);
+
+    expect(trimSegmentsToPrivacyZones([starting, crossing, clear, skirting], [home])).toEqual([clear, skirting]);
+  });
+
+  it('checks the whole polyline when a segment has one', () => {
+    // Both ends are well clear, but the street bends through the zone
+    const detour = {
+      ...segment(-1000, 1000, 600),
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: [
+          [east(600), north(-1000)],
+          [east(100), north(0)],
+          [east(600), north(1000)],
+        ] as [number, number][],
+      },
+    };
+
+    expect(trimSegmentsToPrivacyZones([detour], [home])).toEqual([]);
+  });
+});
+
+describe('privacyZoneRing', () => {
+  it('returns a closed ring at the zone radius', () => {
+    const ring = privacyZoneRing(home, 16);
+
+    expect(ring).toHaveLength(17);
+    expect(ring[16]).toEqual(ring[0]);
+    for (const [lng, lat] of ring) {
+      expect(calculateDistance(home, { latitude: lat, longitude: lng })).toBeCloseTo(400, -1);
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { diffRatings } from '../ratingDiff';
+
+describe('diffRatings', () => {
+  it('returns the stretches whose feeling changed, in route order', () => {
+    const previous = [
+      { startIndex: 0, endIndex: 9, feeling: 'stressed' as const },
+      { startIndex: 10, endIndex: 19, feeling: 'comfortable' as const },
+    ];
+    const current = [
+      { startIndex: 0, endIndex: 4, feeling: 'stressed' as const },
+      { startIndex: 5, endIndex: 9, feeling: 'uncomfortable' as const },
+      { startIndex: 10, endIndex: 19, feeling: 'comfortable' as const },
+      { startIndex: 20, endIndex: 24, feeling: 'enjoyable' as const },
+    ];
+
+    expect(diffRatings(previous, current)).toEqual([
+      { startIndex: 5, endIndex: 9, from: 'stressed', to: 'uncomfortable' },
+      { startIndex: 20, endIndex: 24, from: null, to: 'enjoyable' },
+    ]);
+  });
+
+  it('reports erased stretches and nothing for an unchanged painting', () => {
+    const previous = [{ startIndex: 0, endIndex: 9, feeling: 'stressed' as const }];
+
+    expect(diffRatings(previous, [])).toEqual([{ startIndex: 0, endIndex: 9, from: 'stressed', to: null }]);
+    expect(diffRatings(previous, previous)).toEqual([]);
+  });
+});
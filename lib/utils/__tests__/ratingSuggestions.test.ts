@@ -0,0 +1,84 @@
+import { clearSuggestedRange, suggestSegments, type PastRouteRating, type SuggestableSection } from '../ratingSuggestions';
+import type { Coordinate } from '../../../types/location';
+
+/** 1 deg lat ≈ 110_540 m; these helpers offset from 51°N 0°E in meters. */
+const north = (m: number) => 51 + m / 110_540;
+const east = (m: number) => m / (111_320 * Math.cos((51 * Math.PI) / 180));
+const at = (x: number, y: number): Coordinate => ({ latitude: north(y), longitude: east(x) });
+
+// Today's ride: 200 m up Ash Street then 150 m along Birch Road, a point every 10 m
+const route: Coordinate[] = [
+  ...Array.from({ length: 21 }, (_, i) => at(0, i * 10)),
+  ...Array.from({ length: 15 }, (_, i) => at(10 + i * 10, 200)),
+];
+const END = route.length - 1;
+
+// Yesterday's ride up Ash Street, points 5 m apart and offset by GPS drift
+const ashRide = Array.from({ length: 41 }, (_, i) => at(4, i * 5));
+const yesterday: PastRouteRating = {
+  route: ashRide,
+  segments: [
+    { startIndex: 0, endIndex: 20, feeling: 'stressed' },
+    { startIndex: 21, endIndex: 40, feeling: 'comfortable' },
+  ],
+  ratedAt: 2_000,
+};
+const lastWeek: PastRouteRating = {
+  route: ashRide,
+  segments: [{ startIndex: 0, endIndex: 40, feeling: 'enjoyable' }],
+  ratedAt: 1_000,
+};
+const birch: SuggestableSection = {
+  section_id: 'birch',
+  geometry: { type: 'LineString', coordinates: [[east(0), north(200)], [east(150), north(200)]] },
+  rating: 4,
+};
+
+describe('suggestSegments', () => {
+  it('repaints the streets the rider rated before, the newest rating winning', () => {
+    expect(suggestSegments(route, [lastWeek, yesterday], [birch])).toEqual([
+      { startIndex: 0, endIndex: 10, feeling: 'stressed' },
+      // The first point round the corner is still within tolerance of Ash Street
+      { startIndex: 11, endIndex: 21, feeling: 'comfortable' },
+      { startIndex: 22, endIndex: END, feeling: 'enjoyable' },
+    ]);
+  });
+
+  it('falls back to rated road sections where no past painting covers the route', () => {
+    // Starting from the last point on Ash Street within tolerance of Birch Road
+    expect(suggestSegments(route, [], [birch])).toEqual([{ startIndex: 19, endIndex: END, feeling: 'enjoyable' }]);
+  });
+
+  it('suggests nothing for streets the route only crossed or never came near', () => {
+    const crossing: PastRouteRating = {
+      route: [at(-100, 100), at(100, 100)],
+      segments: [{ startIndex: 0, endIndex: 1, feeling: 'stressed' }],
+      ratedAt: 3_000,
+    };
+    const faraway: PastRouteRating = {
+      route: [at(2000, 2000), at(2100, 2000)],
+      segments: [{ startIndex: 0, endIndex: 1, feeling: 'stressed' }],
+      ratedAt: 3_000,
+    };
+
+    expect(suggestSegments(route, [crossing, faraway], [])).toEqual([]);
+    expect(suggestSegments([], [yesterday], [birch])).toEqual([]);
+  });
+});
+
+describe('clearSuggestedRange', () => {
+  it('keeps only the parts of suggestions the rider has not painted over', () => {
+    const suggestions = [
+      { startIndex: 0, endIndex: 10, feeling: 'stressed' as const },
+      { startIndex: 11, endIndex: 21, feeling: 'comfortable' as const },
+      { startIndex: 22, endIndex: 35, feeling: 'enjoyable' as const },
+    ];
+
+    expect(clearSuggestedRange(suggestions, { startIndex: 15, endIndex: 5 })).toEqual([
+      { startIndex: 0, endIndex: 4, feeling: 'stressed' },
+      { startIndex: 16, endIndex: 21, feeling: 'comfortable' },
+      { startIndex: 22, endIndex: 35, feeling: 'enjoyable' },
+    ]);
+    expect(clearSuggestedRange(suggestions, { startIndex: 0, endIndex: 35 })).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  matchRoadSections,
+  segmentPolyline,
+  toSubmitRatingsRequest,
+  withRoadSections,
+  type MatchableSection,
+} from '../roadMatching';
+import type { Coordinate } from '../../../types/location';
+
+/** 1 deg lat ≈ 110_540 m; these helpers offset from 51°N 0°E in meters. */
+const north = (m: number) => 51 + m / 110_540;
+const east = (m: number) => m / (111_320 * Math.cos((51 * Math.PI) / 180));
+const at = (x: number, y: number): Coordinate => ({ latitude: north(y), longitude: east(x) });
+
+function section(id: string, ...points: [number, number][]): MatchableSection {
+  return {
+    section_id: id,
+    geometry: { type: 'LineString', coordinates: points.map(([x, y]) => [east(x), north(y)]) },
+  };
+}
+
+// A ride 200 m up Ash Street, 150 m along Birch Road, then 150 m up Cedar Lane,
+// with a point every 10 m
+const route: Coordinate[] = [
+  ...Array.from({ length: 20 }, (_, i) => at(0, i * 10)),
+  ...Array.from({ length: 15 }, (_, i) => at(i * 10, 200)),
+  ...Array.from({ length: 16 }, (_, i) => at(150, 200 + i * 10)),
+];
+const CORNER_1 = 20;
+const CORNER_2 = 35;
+const END = route.length - 1;
+
+const ash = section('ash', [0, -100], [0, 200]);
+const birch = section('birch', [0, 200], [150, 200]);
+const cedar = section('cedar', [150, 200], [150, 400]);
+// Crossed halfway up Ash Street without turning
+const crossed = section('crossed', [-100, 100], [100, 100]);
+// Runs alongside Ash Street one block over
+const parallel = section('parallel', [40, 0], [40, 180]);
+const faraway = section('faraway', [2000, 2000], [2100, 2000]);
+const sections = [faraway, crossed, parallel, cedar, birch, ash];
+
+describe('segmentPolyline', () => {
+  it('keeps every corner of a multi-street segment and drops straight-line points', () => {
+    const polyline = segmentPolyline(route, 0, END);
+
+    expect(polyline).toEqual([route[0], route[CORNER_1], route[CORNER_2], route[END]]);
+  });
+
+  it('accepts the indices in either order and clamps them to the route', () => {
+    expect(segmentPolyline(route, END + 10, CORNER_2)).toEqual([route[CORNER_2], route[END]]);
+  });
+});
+
+describe('matchRoadSections', () => {
+  it('returns every street the segment rode along, in riding order', () => {
+    expect(matchRoadSections(segmentPolyline(route, 0, END), sections)).toEqual(['ash', 'birch', 'cedar']);
+  });
+
+  it('leaves out streets that were only crossed or run alongside', () => {
+    const matched = matchRoadSections(segmentPolyline(route, 0, CORNER_1), sections);
+
+    expect(matched).toEqual(['ash']);
+  });
+
+  it('ignores a street the segment only touches at a corner', () => {
+    // Ends 10 m after turning onto Birch Road
+    expect(matchRoadSections(segmentPolyline(route, 5, CORNER_1 + 1), sections)).toEqual(['ash']);
+  });
+
+  it('matches nothing without known sections nearby', () => {
+    expect(matchRoadSections(segmentPolyline(route, 0, END), [faraway])).toEqual([]);
+    expect(matchRoadSections(segmentPolyline(route, 0, END), [])).toEqual([]);
+  });
+});
+
+describe('toSubmitRatingsRequest', () => {
+  it('sends each painted segment as a polyline, matched to sections at send time', () => {
+    const request = toSubmitRatingsRequest(
+      'trip-1',
+      [
+        { startIndex: 0, endIndex: 27, feeling: 'stressed' },
+        { startIndex: 27, endIndex: END, feeling: 'enjoyable' },
+      ],
+      route,
+      42,
+      Date.UTC(2026, 9, 1)
+    );
+
+    expect(request.trip_id).toBe(42);
+    expect(request.rated_segments.map((seg) => seg.road_section_ids)).toEqual([[], []]);
+    const [first, second] = withRoadSections(request.rated_segments, sections);
+    expect(first.geometry.coordinates).toEqual(
+      [route[0], route[CORNER_1], route[27]].map((p) => [p.longitude, p.latitude])
+    );
+    expect(first.road_section_ids).toEqual(['ash', 'birch']);
+    expect(second.road_section_ids).toEqual(['birch', 'cedar']);
+    expect(second.start_lat).toBe(route[27].latitude);
+    expect(second.end_lng).toBe(route[END].longitude);
+  });
+
+  it('still sends geometry when no sections are known', () => {
+    const request = toSubmitRatingsRequest('trip-1', [{ startIndex: 0, endIndex: END, feeling: 'comfortable' }], route);
+    const [segment] = withRoadSections(request.rated_segments, []);
+
+    expect(segment.geometry.coordinates).toHaveLength(4);
+    expect(segment.road_section_ids).toEqual([]);
+  });
+
+  it('keeps sections already given, as on place ratings', () => {
+    const [junction] = withRoadSections(
+      [{ geometry: { type: 'Point' as const, coordinates: [0, 51] as [number, number] }, road_section_ids: ['ash', 'birch'] }],
+      sections
+    );
+
+    expect(junction.road_section_ids).toEqual(['ash', 'birch']);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  advanceFollow,
+  createGuideTrack,
+  decodeGuideRoute,
+  encodeGuideRoute,
+  INITIAL_FOLLOW_STATE,
+  snapToTrack,
+  type FollowCue,
+  type FollowState,
+} from '../routeFollower';
+import type { Coordinate } from '../../../types/location';
+
+// 0.0045° is about 500 m at the equator
+const LEG = 0.0045;
+const STEPS = 10;
+
+/**
+ * East for ~500 m, then north for ~500 m: one left turn at the corner
+ */
+function lRoute(steps = STEPS): Coordinate[] {
+  const points: Coordinate[] = [];
+  for (let i = 0; i <= steps; i++) points.push({ latitude: 0, longitude: (LEG * i) / steps });
+  for (let i = 1; i <= steps; i++) points.push({ latitude: (LEG * i) / steps, longitude: LEG });
+  return points;
+}
+
+/**
+ * Out along a street and back the same way
+ */
+function outAndBack(): Coordinate[] {
+  const out: Coordinate[] = [];
+  for (let i = 0; i <= STEPS; i++) out.push({ latitude: 0, longitude: (LEG * i) / STEPS });
+  return [...out, ...out.slice(0, -1).reverse()];
+}
+
+function ride(points: Coordinate[], route = lRoute()) {
+  const track = createGuideTrack(route);
+  let state: FollowState = INITIAL_FOLLOW_STATE;
+  const cues: FollowCue[] = [];
+  for (const point of points) {
+    const next = advanceFollow(track, state, point);
+    state = next.state;
+    cues.push(...next.cues);
+  }
+  return { state, cues };
+}
+
+describe('createGuideTrack', () => {
+  it('measures the track and finds the corner', () => {
+    const track = createGuideTrack(lRoute());
+
+    expect(track.length).toBeCloseTo(1000, -1);
+    expect(track.turns).toHaveLength(1);
+    expect(track.turns[0].direction).toBe('left');
+    expect(track.turns[0].distanceAlong).toBeCloseTo(500, -1);
+  });
+
+  it('drops repeated points', () => {
+    const track = createGuideTrack([
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 0.001 },
+    ]);
+
+    expect(track.coordinates).toHaveLength(2);
+  });
+});
+
+describe('snapToTrack', () => {
+  it('snaps a fix beside the track onto it', () => {
+    const track = createGuideTrack(lRoute());
+    const snap = snapToTrack(track, { latitude: 0.0001, longitude: 0.002 })!;
+
+    expect(snap.snapped.latitude).toBeCloseTo(0);
+    expect(snap.distanceFromTrack).toBeCloseTo(11, 0);
+    expect(snap.distanceAlong).toBeCloseTo(222, -1);
+    expect(snap.distanceRemaining).toBeCloseTo(track.length - snap.distanceAlong, 0);
+    expect(snap.bearing).toBeCloseTo(90);
+  });
+
+  it('stays on the outbound leg of an out-and-back route', () => {
+    const track = createGuideTrack(outAndBack());
+    const snap = snapToTrack(track, { latitude: 0.00001, longitude: 0.002 }, 200)!;
+
+    expect(snap.distanceAlong).toBeLessThan(500);
+    expect(snap.bearing).toBeCloseTo(90);
+  });
+
+  it('picks the return leg once progress is past the turnaround', () => {
+    const track = createGuideTrack(outAndBack());
+    const snap = snapToTrack(track, { latitude: 0.00001, longitude: 0.002 }, 700)!;
+
+    expect(snap.distanceAlong).toBeGreaterThan(500);
+    expect(snap.bearing).toBeCloseTo(270);
+  });
+});
+
+describe('advanceFollow', () => {
+  it('announces the turn once and then arrival', () => {
+    // A fix every ~25 m
+    const { state, cues } = ride(lRoute(20));
+
+    expect(cues).toEqual(['turnAhead', 'arrived']);
+    expect(state.arrived).toBe(true);
+  });
+
+  it('warns once when leaving the route and again on rejoining', () => {
+    const { cues } = ride([
+      { latitude: 0, longitude: 0.001 },
+      { latitude: 0.0005, longitude: 0.0015 }, // ~55 m off
+      { latitude: 0.0006, longitude: 0.0016 },
+      { latitude: 0.0001, longitude: 0.002 }, // ~11 m off
+    ]);
+
+    expect(cues).toEqual(['offRoute', 'backOnRoute']);
+  });
+
+  it('does not flap between on and off route near the threshold', () => {
+    const { cues } = ride([
+      { latitude: 0.0004, longitude: 0.001 }, // ~44 m off
+      { latitude: 0.0003, longitude: 0.0012 }, // ~33 m: still off until within 25 m
+      { latitude: 0.0004, longitude: 0.0014 },
+    ]);
+
+    expect(cues).toEqual(['offRoute']);
+  });
+
+  it('reports the distance to the next turn', () => {
+    const { state } = ride([{ latitude: 0, longitude: 0.0027 }]);
+
+    expect(state.nextTurn?.direction).toBe('left');
+    expect(state.distanceToNextTurn).toBeCloseTo(200, -1);
+  });
+});
+
+describe('encodeGuideRoute', () => {
+  it('round-trips a route through a route param', () => {
+    const decoded = decodeGuideRoute(encodeGuideRoute(lRoute()));
+
+    // Straight legs thin down to their ends
+    expect(decoded).toEqual([
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: LEG },
+      { latitude: LEG, longitude: LEG },
+    ]);
+  });
+
+  it('treats malformed params as an empty route', () => {
+    expect(decodeGuideRoute(undefined)).toEqual([]);
+    expect(decodeGuideRoute('not json')).toEqual([]);
+    expect(decodeGuideRoute('{"a":1}')).toEqual([]);
+  });
+});
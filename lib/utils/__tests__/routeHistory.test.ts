@@ -0,0 +1,110 @@
+import {
+  dominantFeeling,
+  filterMyRoutes,
+  myRoutesGeoJSON,
+  routeColor,
+  routeMonths,
+  ROUTE_SPEED_COLORS,
+  SCRUBBER_MONTHS,
+  speedBand,
+  type MyRoute,
+} from '../routeHistory';
+import { FEELINGS, UNPAINTED_COLOR } from '../../../types/rating';
+
+const NOW = new Date(2026, 5, 15, 12).getTime();
+
+function route(tripId: string, overrides: Partial<MyRoute> = {}): MyRoute {
+  return {
+    tripId,
+    backendId: null,
+    type: 'cycle',
+    startTime: NOW,
+    avgSpeed: 20,
+    coordinates: [
+      [-0.12, 51.5],
+      [-0.11, 51.51],
+    ],
+    comfort: null,
+    ...overrides,
+  };
+}
+
+describe('speedBand', () => {
+  it('bands speeds per trip type', () => {
+    expect(speedBand('walk', 5.5)).toBe('brisk');
+    expect(speedBand('cycle', 5.5)).toBe('easy');
+    expect(speedBand('cycle', 30)).toBe('fast');
+  });
+});
+
+describe('routeColor', () => {
+  it('colours by speed band or dominant comfort', () => {
+    const ride = route('a', { avgSpeed: 15, comfort: 'enjoyable' });
+
+    expect(routeColor(ride, 'speed')).toBe(ROUTE_SPEED_COLORS.steady);
+    expect(routeColor(ride, 'comfort')).toBe(FEELINGS.enjoyable.color);
+    expect(routeColor(route('b'), 'comfort')).toBe(UNPAINTED_COLOR);
+  });
+});
+
+describe('dominantFeeling', () => {
+  it('picks the feeling covering the most points', () => {
+    expect(
+      dominantFeeling([
+        { startIndex: 0, endIndex: 9, feeling: 'comfortable' },
+        { startIndex: 10, endIndex: 12, feeling: 'stressed' },
+        { startIndex: 13, endIndex: 15, feeling: 'stressed' },
+      ])
+    ).toBe('comfortable');
+    expect(dominantFeeling([])).toBeNull();
+  });
+});
+
+describe('filterMyRoutes', () => {
+  it('filters by trip type and date window', () => {
+    const routes = [
+      route('ride'),
+      route('walk', { type: 'walk' }),
+      route('old-ride', { startTime: NOW - 90 * 24 * 60 * 60 * 1000 }),
+    ];
+
+    expect(filterMyRoutes(routes, { types: ['cycle'] }).map((r) => r.tripId)).toEqual(['ride', 'old-ride']);
+    expect(
+      filterMyRoutes(routes, { types: ['walk', 'cycle'], startTime: NOW - 1000, endTime: NOW + 1000 }).map(
+        (r) => r.tripId
+      )
+    ).toEqual(['ride', 'walk']);
+  });
+});
+
+describe('myRoutesGeoJSON', () => {
+  it('drops routes too short to draw and tags features with their colour and trip', () => {
+    const geojson = myRoutesGeoJSON([route('a', { backendId: 7 }), route('dot', { coordinates: [[0, 0]] })], 'speed');
+
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0].properties).toEqual({
+      tripId: 'a',
+      backendId: 7,
+      color: ROUTE_SPEED_COLORS.brisk,
+    });
+  });
+});
+
+describe('routeMonths', () => {
+  it('counts trips per month up to the current one', () => {
+    const months = routeMonths(
+      [route('a'), route('b', { startTime: new Date(2026, 3, 2).getTime() })],
+      NOW
+    );
+
+    expect(months).toHaveLength(3);
+    expect(months.map((m) => m.trips)).toEqual([1, 0, 1]);
+    expect(months[0].start).toBe(new Date(2026, 3, 1).getTime());
+  });
+
+  it('spans at most SCRUBBER_MONTHS', () => {
+    const months = routeMonths([route('a', { startTime: new Date(2019, 0, 1).getTime() })], NOW);
+
+    expect(months).toHaveLength(SCRUBBER_MONTHS);
+  });
+});
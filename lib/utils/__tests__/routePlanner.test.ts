@@ -0,0 +1,126 @@
+import {
+  buildRouteGraph,
+  edgeCost,
+  nearestNode,
+  planRoute,
+  scoreToStress,
+  type PlannerSection,
+} from '../routePlanner';
+
+/**
+ * Synthetic network, roughly 1.1 km per 0.01°:
+ *
+ *   A ---- busy (score 1) ---- B
+ *   |                          |
+ *   quiet west            quiet east
+ *   |                          |
+ *   C ---- quiet south ------- D
+ *
+ * Going A -> B directly is short but stressed; A -> C -> D -> B is three
+ * times as long but enjoyable.
+ */
+const A: [number, number] = [0, 0.01];
+const B: [number, number] = [0.01, 0.01];
+const C: [number, number] = [0, 0.009];
+const D: [number, number] = [0.01, 0.009];
+
+const network: PlannerSection[] = [
+  { id: 'busy', coordinates: [A, [0.005, 0.01], B], score: 1 },
+  { id: 'west', coordinates: [A, C], score: 4 },
+  { id: 'south', coordinates: [C, [0.005, 0.009], D], score: 4 },
+  { id: 'east', coordinates: [D, B], score: 4 },
+];
+
+const start = { latitude: A[1], longitude: A[0] };
+const end = { latitude: B[1], longitude: B[0] };
+
+describe('scoreToStress', () => {
+  it('maps 1-4 scores to 1-0 stress and unrated to the middle', () => {
+    expect(scoreToStress(1)).toBe(1);
+    expect(scoreToStress(4)).toBe(0);
+    expect(scoreToStress(2.5)).toBeCloseTo(0.5);
+    expect(scoreToStress(null)).toBe(0.5);
+  });
+});
+
+describe('buildRouteGraph', () => {
+  it('joins sections at shared vertices', () => {
+    const graph = buildRouteGraph(network);
+
+    // A, B, C, D and the two mid-points
+    expect(graph.nodes).toHaveLength(6);
+    const a = nearestNode(graph, start);
+    expect(graph.edges[a].map((e) => e.sectionId).sort()).toEqual(['busy', 'west']);
+  });
+
+  it('snaps vertices a few meters apart into one node', () => {
+    const graph = buildRouteGraph([
+      { id: 'one', coordinates: [[0, 0], [0.001, 0]], score: 3 },
+      { id: 'two', coordinates: [[0.001000001, 0.000000001], [0.002, 0]], score: 3 },
+    ]);
+
+    expect(graph.nodes).toHaveLength(3);
+  });
+
+  it('flags edges near a hazard', () => {
+    const graph = buildRouteGraph(network, [{ latitude: 0.01, longitude: 0.0025 }]);
+    const hazardous = graph.edges.flat().filter((e) => e.hazard);
+
+    expect(new Set(hazardous.map((e) => e.sectionId))).toEqual(new Set(['busy']));
+  });
+});
+
+describe('edgeCost', () => {
+  const edge = { to: 1, distance: 100, stress: 1, score: 1, hazard: false, sectionId: 's' };
+
+  it('is the plain distance when speed is all that matters', () => {
+    expect(edgeCost(edge, 0)).toBe(100);
+  });
+
+  it('grows with stress as quietness increases', () => {
+    expect(edgeCost(edge, 1)).toBeGreaterThan(edgeCost(edge, 0.5));
+    expect(edgeCost({ ...edge, stress: 0 }, 1)).toBe(100);
+  });
+});
+
+describe('planRoute', () => {
+  it('takes the short stressed road when speed matters', () => {
+    const route = planRoute(buildRouteGraph(network), start, end, { quietness: 0 });
+
+    expect(route?.sectionIds).toEqual(['busy']);
+    expect(route?.distance).toBeCloseTo(1113, -1);
+    expect(route?.averageScore).toBe(1);
+  });
+
+  it('detours over quiet roads when quietness matters', () => {
+    const route = planRoute(buildRouteGraph(network), start, end, { quietness: 1 });
+
+    expect(route?.sectionIds).toEqual(['west', 'south', 'east']);
+    expect(route?.averageScore).toBe(4);
+    expect(route?.coordinates[0]).toEqual(start);
+    expect(route?.coordinates[route.coordinates.length - 1]).toEqual(end);
+  });
+
+  it('avoids hazards even when speed matters', () => {
+    const graph = buildRouteGraph(network, [{ latitude: 0.01, longitude: 0.0025 }]);
+    const route = planRoute(graph, start, end, { quietness: 0 });
+
+    expect(route?.sectionIds).toEqual(['west', 'south', 'east']);
+    expect(route?.hazardCount).toBe(0);
+  });
+
+  it('returns null when a point is far from any road', () => {
+    const graph = buildRouteGraph(network);
+
+    expect(planRoute(graph, start, { latitude: 1, longitude: 1 }, { quietness: 0.5 })).toBeNull();
+  });
+
+  it('returns null when the points are not connected', () => {
+    const graph = buildRouteGraph([
+      { id: 'one', coordinates: [A, B], score: 3 },
+      { id: 'two', coordinates: [[0, 0], [0.01, 0]], score: 3 },
+    ]);
+
+    expect(planRoute(graph, start, { latitude: 0, longitude: 0.01 }, { quietness: 0.5 })).toBeNull();
+  });
+});
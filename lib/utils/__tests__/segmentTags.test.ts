@@ -0,0 +1,81 @@
+import { normalizeSegmentNote, rankTagCounts, withSegmentDetails } from '../segmentTags';
+import { toSubmitRatingsRequest } from '../roadMatching';
+import { mergeSegments, SEGMENT_NOTE_MAX_LENGTH, type RouteSegment } from '../../../types/rating';
+
+const stressed: RouteSegment = { startIndex: 0, endIndex: 9, feeling: 'stressed' };
+
+describe('withSegmentDetails', () => {
+  it('keeps tags in display order and a trimmed note', () => {
+    expect(withSegmentDetails(stressed, { tags: ['lighting', 'close_passes'], note: '  lorry overtook  ' })).toEqual({
+      ...stressed,
+      tags: ['close_passes', 'lighting'],
+      note: 'lorry overtook',
+    });
+  });
+
+  it('drops empty details and details on feelings that cannot carry them', () => {
+    expect(withSegmentDetails({ ...stressed, tags: ['junction'] }, { tags: [], note: '   ' })).toEqual(stressed);
+    expect(
+      withSegmentDetails({ startIndex: 0, endIndex: 9, feeling: 'enjoyable' }, { tags: ['junction'], note: 'hi' })
+    ).toEqual({ startIndex: 0, endIndex: 9, feeling: 'enjoyable' });
+  });
+});
+
+describe('normalizeSegmentNote', () => {
+  it('caps the note length', () => {
+    expect(normalizeSegmentNote('x'.repeat(200))).toHaveLength(SEGMENT_NOTE_MAX_LENGTH);
+    expect(normalizeSegmentNote(undefined)).toBeUndefined();
+  });
+});
+
+describe('rankTagCounts', () => {
+  it('orders reasons by how many riders gave them and skips zeros', () => {
+    expect(rankTagCounts({ lighting: 2, fast_traffic: 5, no_lane: 2, parked_cars: 0 })).toEqual([
+      { tag: 'fast_traffic', count: 5 },
+      { tag: 'no_lane', count: 2 },
+      { tag: 'lighting', count: 2 },
+    ]);
+    expect(rankTagCounts(undefined)).toEqual([]);
+  });
+});
+
+describe('mergeSegments with tags', () => {
+  const tagged: RouteSegment = { ...stressed, tags: ['close_passes'], note: 'bus lane ends' };
+
+  it('keeps tags on the parts of a segment left after painting over its middle', () => {
+    const merged = mergeSegments([tagged], { startIndex: 4, endIndex: 5, feeling: 'comfortable' });
+
+    expect(merged).toEqual([
+      { ...tagged, startIndex: 0, endIndex: 3 },
+      { startIndex: 4, endIndex: 5, feeling: 'comfortable' },
+      { ...tagged, startIndex: 6, endIndex: 9 },
+    ]);
+  });
+
+  it('does not join neighbouring segments of one feeling tagged differently', () => {
+    const next: RouteSegment = { startIndex: 10, endIndex: 19, feeling: 'stressed', tags: ['poor_surface'] };
+
+    expect(mergeSegments([tagged], next)).toHaveLength(2);
+    expect(mergeSegments([tagged], { ...next, tags: ['close_passes'], note: 'bus lane ends' })).toEqual([
+      { ...tagged, endIndex: 19 },
+    ]);
+  });
+});
+
+describe('toSubmitRatingsRequest with tags', () => {
+  it('sends tags and notes only where given', () => {
+    const route = Array.from({ length: 20 }, (_, i) => ({ latitude: 51 + i * 0.0001, longitude: 0 }));
+    const request = toSubmitRatingsRequest(
+      'trip-1',
+      [
+        { startIndex: 0, endIndex: 9, feeling: 'stressed', tags: ['fast_traffic'], note: 'A road' },
+        { startIndex: 10, endIndex: 19, feeling: 'comfortable' },
+      ],
+      route
+    );
+
+    expect(request.rated_segments[0]).toMatchObject({ tags: ['fast_traffic'], note: 'A road' });
+    expect(request.rated_segments[1]).not.toHaveProperty('tags');
+    expect(request.rated_segments[1]).not.toHaveProperty('note');
+  });
+});
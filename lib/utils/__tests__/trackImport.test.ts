@@ -0,0 +1,139 @@
+import { detectTrackFormat, parseGpx, parseFit } from '../trackImport';
+
+const T0 = Date.UTC(2026, 4, 5, 8, 0, 0);
+const FIT_EPOCH_S = 631065600;
+
+describe('detectTrackFormat', () => {
+  it('detects by extension, case-insensitively', () => {
+    expect(detectTrackFormat('Morning_Ride.GPX')).toBe('gpx');
+    expect(detectTrackFormat('2026-05-05-08-00-00.fit')).toBe('fit');
+    expect(detectTrackFormat('route.kml')).toBeNull();
+  });
+});
+
+describe('parseGpx', () => {
+  const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Garmin" xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">
+  <metadata><name>Metadata name</name></metadata>
+  <trk>
+    <name>Canal &amp; park loop</name>
+    <type>cycling</type>
+    <trkseg>
+      <trkpt lat="51.0010" lon="-0.1000">
+        <ele>12.4</ele>
+        <time>${new Date(T0 + 60_000).toISOString()}</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>4.2</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="51.0000" lon="-0.1000"><ele>12.0</ele><time>${new Date(T0).toISOString()}</time></trkpt>
+      <trkpt lat="51.0005" lon="-0.1000"><ele>12.2</ele></trkpt>
+      <trkpt lat="51.0020" lon="-0.1000"><time>${new Date(T0 + 120_000).toISOString()}</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+  const track = parseGpx(gpx);
+
+  it('reads the track name and maps the activity type', () => {
+    expect(track.format).toBe('gpx');
+    expect(track.name).toBe('Canal & park loop');
+    expect(track.type).toBe('cycle');
+  });
+
+  it('drops untimed points and sorts by time', () => {
+    expect(track.points.map((p) => p.timestamp)).toEqual([T0, T0 + 60_000, T0 + 120_000]);
+  });
+
+  it('reads elevation and extension speed', () => {
+    expect(track.points[0]).toEqual({ latitude: 51, longitude: -0.1, altitude: 12, speed: null, timestamp: T0 });
+    expect(track.points[1].speed).toBe(4.2);
+    expect(track.points[2].altitude).toBeNull();
+  });
+
+  it('falls back to route points when there is no track', () => {
+    const route = `<gpx version="1.1"><rte>
+      <rtept lat="51" lon="0"><time>${new Date(T0).toISOString()}</time></rtept>
+      <rtept lat="51.001" lon="0"><time>${new Date(T0 + 1000).toISOString()}</time></rtept>
+    </rte></gpx>`;
+    const parsed = parseGpx(route);
+    expect(parsed.points).toHaveLength(2);
+    expect(parsed.type).toBeNull();
+  });
+
+  it('rejects non-GPX content', () => {
+    expect(() => parseGpx('<kml></kml>')).toThrow('Not a GPX file');
+  });
+});
+
+describe('parseFit', () => {
+  /**
+   * Build a minimal little-endian FIT file: one `record` definition
+   * (timestamp, lat, long, altitude, speed), two full records, one
+   * compressed-timestamp record and a `session` with sport = cycling.
+   */
+  function buildFit(): Uint8Array {
+    const bytes: number[] = [];
+    const u8 = (v: number) => bytes.push(v & 0xff);
+    const u16 = (v: number) => { u8(v); u8(v >> 8); };
+    const u32 = (v: number) => { u16(v & 0xffff); u16(v >>> 16); };
+    const semi = (deg: number) => Math.round((deg * 2 ** 31) / 180);
+
+    // Record definition (local 0, global 20)
+    u8(0x40); u8(0); u8(0); u16(20); u8(5);
+    u8(253); u8(4); u8(0x86); // timestamp uint32
+    u8(0); u8(4); u8(0x85); // position_lat sint32
+    u8(1); u8(4); u8(0x85); // position_long sint32
+    u8(2); u8(2); u8(0x84); // altitude uint16
+    u8(6); u8(2); u8(0x84); // speed uint16
+
+    const fitT0 = T0 / 1000 - FIT_EPOCH_S;
+    const record = (t: number, lat: number, alt: number, speed: number) => {
+      u8(0x00); u32(t); u32(semi(lat)); u32(semi(-0.1)); u16((alt + 500) * 5); u16(speed * 1000);
+    };
+    record(fitT0, 51, 12, 4);
+    record(fitT0 + 10, 51.0005, 14, 5);
+
+    // Record definition without timestamp (local 1) for the compressed header
+    u8(0x41); u8(0); u8(0); u16(20); u8(2);
+    u8(0); u8(4); u8(0x85);
+    u8(1); u8(4); u8(0x85);
+    // Compressed header: local 1, +5s offset from the last timestamp
+    u8(0x80 | (1 << 5) | ((fitT0 + 15) & 0x1f)); u32(semi(51.001)); u32(semi(-0.1));
+
+    // Session definition (local 2, global 18) with sport = 2 (cycling)
+    u8(0x42); u8(0); u8(0); u16(18); u8(1);
+    u8(5); u8(1); u8(0x00);
+    u8(0x02); u8(2);
+
+    const header = [14, 0x20, 0, 0, 0, 0, 0, 0, 0x2e, 0x46, 0x49, 0x54, 0, 0];
+    const size = bytes.length;
+    header[4] = size & 0xff;
+    header[5] = (size >> 8) & 0xff;
+    return new Uint8Array([...header, ...bytes, 0, 0]);
+  }
+
+  const track = parseFit(buildFit());
+
+  it('decodes record positions, altitude and speed', () => {
+    expect(track.format).toBe('fit');
+    expect(track.points).toHaveLength(3);
+    expect(track.points[0].latitude).toBeCloseTo(51, 6);
+    expect(track.points[0].longitude).toBeCloseTo(-0.1, 6);
+    expect(track.points[0].altitude).toBeCloseTo(12);
+    expect(track.points[0].speed).toBeCloseTo(4);
+    expect(track.points[0].timestamp).toBe(T0);
+  });
+
+  it('resolves compressed timestamps against the last full timestamp', () => {
+    expect(track.points.map((p) => p.timestamp)).toEqual([T0, T0 + 10_000, T0 + 15_000]);
+    expect(track.points[2].altitude).toBeNull();
+  });
+
+  it('reads the sport from the session message', () => {
+    expect(track.type).toBe('cycle');
+  });
+
+  it('rejects files without the .FIT signature', () => {
+    expect(() => parseFit(new Uint8Array(20))).toThrow('Not a FIT file');
+  });
+});
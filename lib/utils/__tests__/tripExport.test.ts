@@ -0,0 +1,155 @@
+import {
+  splitByActivity,
+  pointsFromRouteData,
+  buildGpx,
+  buildTcx,
+  buildGeoJson,
+  buildTripExport,
+  type ExportPoint,
+  type ExportTripMeta,
+} from '../tripExport';
+
+const T0 = Date.UTC(2026, 4, 5, 8, 0, 0);
+
+const trip: ExportTripMeta = {
+  id: 'trip_1',
+  type: 'cycle',
+  start_time: T0,
+  end_time: T0 + 5 * 60_000,
+  distance: 1200,
+  duration: 300,
+  user_note: 'Commute <via> park & river',
+};
+
+/** One point per minute heading north from (51, 0). 1 deg lat ≈ 111_320 m. */
+const points: ExportPoint[] = Array.from({ length: 6 }, (_, i) => ({
+  latitude: 51 + (i * 200) / 111_320,
+  longitude: 0,
+  altitude: 10 + i,
+  speed: i === 0 ? null : 3.3,
+  timestamp: T0 + i * 60_000,
+}));
+
+const segments = [
+  { t_start: T0, t_end: T0 + 2 * 60_000, activity: 'walking' as const },
+  { t_start: T0 + 2 * 60_000 + 1, t_end: T0 + 5 * 60_000, activity: 'cycling' as const },
+];
+
+describe('splitByActivity', () => {
+  it('returns a single chunk when there are no motion segments', () => {
+    const chunks = splitByActivity(points, []);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].activity).toBeNull();
+    expect(chunks[0].points).toHaveLength(6);
+  });
+
+  it('splits on activity change and repeats the boundary point', () => {
+    const chunks = splitByActivity(points, segments);
+    expect(chunks.map((c) => c.activity)).toEqual(['walking', 'cycling']);
+    expect(chunks[0].points).toHaveLength(3);
+    // boundary point (t=2min) + t=3,4,5min
+    expect(chunks[1].points).toHaveLength(4);
+    expect(chunks[1].points[0]).toBe(chunks[0].points[2]);
+  });
+});
+
+describe('pointsFromRouteData', () => {
+  it('reads {lat, lng, timestamp} route data', () => {
+    const routeData = JSON.stringify([
+      { lat: 51, lng: 0, timestamp: new Date(T0).toISOString() },
+      { lat: 51.001, lng: 0, timestamp: new Date(T0 + 60_000).toISOString() },
+    ]);
+    const pts = pointsFromRouteData(routeData, trip);
+    expect(pts).toEqual([
+      { latitude: 51, longitude: 0, altitude: null, speed: null, timestamp: T0 },
+      { latitude: 51.001, longitude: 0, altitude: null, speed: null, timestamp: T0 + 60_000 },
+    ]);
+  });
+
+  it('spreads missing timestamps between trip start and end', () => {
+    const routeData = JSON.stringify([
+      { latitude: 51, longitude: 0 },
+      { latitude: 51.001, longitude: 0 },
+      { latitude: 51.002, longitude: 0 },
+    ]);
+    const pts = pointsFromRouteData(routeData, trip);
+    expect(pts.map((p) => p.timestamp)).toEqual([T0, T0 + 150_000, T0 + 300_000]);
+  });
+
+  it('returns [] for invalid JSON', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(pointsFromRouteData('not json', trip)).toEqual([]);
+  });
+});
+
+describe('buildGpx', () => {
+  const gpx = buildGpx(trip, points, segments);
+
+  it('produces a GPX 1.1 document with one trkseg per activity', () => {
+    expect(gpx).toContain('<gpx version="1.1"');
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(2);
+    expect(gpx).toContain('<radzi:activity>walking</radzi:activity>');
+    expect(gpx).toContain('<radzi:activity>cycling</radzi:activity>');
+    expect(gpx).toContain('<type>cycling</type>');
+  });
+
+  it('carries timestamps, altitude and speed', () => {
+    expect(gpx).toContain(`<time>${new Date(T0).toISOString()}</time>`);
+    expect(gpx).toContain('<ele>10.0</ele>');
+    expect(gpx).toContain('<gpxtpx:speed>3.30</gpxtpx:speed>');
+  });
+
+  it('puts each segment\'s activity after its track points', () => {
+    for (const trkseg of gpx.match(/<trkseg>[\s\S]*?<\/trkseg>/g)!) {
+      expect(trkseg.indexOf('<radzi:activity>')).toBeGreaterThan(trkseg.lastIndexOf('</trkpt>'));
+    }
+  });
+
+  it('escapes XML in the user note', () => {
+    expect(gpx).toContain('<desc>Commute &lt;via&gt; park &amp; river</desc>');
+  });
+});
+
+describe('buildTcx', () => {
+  const tcx = buildTcx(trip, points, segments);
+
+  it('maps cycle trips to the Biking sport with one lap per activity', () => {
+    expect(tcx).toContain('<Activity Sport="Biking">');
+    expect(tcx.match(/<Lap /g)).toHaveLength(2);
+  });
+
+  it('puts each lap\'s notes after its track', () => {
+    for (const lap of tcx.match(/<Lap [\s\S]*?<\/Lap>/g)!) {
+      expect(lap.indexOf('<Notes>')).toBeGreaterThan(lap.indexOf('</Track>'));
+    }
+  });
+
+  it('does not double-count the repeated boundary point in cumulative distance', () => {
+    const distances = [...tcx.matchAll(/<Trackpoint>[\s\S]*?<DistanceMeters>([\d.]+)<\/DistanceMeters>/g)]
+      .map((m) => Number(m[1]));
+    expect(distances[distances.length - 1]).toBeCloseTo(1000, -1);
+  });
+});
+
+describe('buildGeoJson', () => {
+  it('emits the full track plus one feature per activity chunk', () => {
+    const fc = JSON.parse(buildGeoJson(trip, points, segments));
+    expect(fc.type).toBe('FeatureCollection');
+    expect(fc.features).toHaveLength(3);
+
+    const [track, walk, ride] = fc.features;
+    expect(track.properties.kind).toBe('track');
+    expect(track.geometry.coordinates[0]).toEqual([0, 51, 10]);
+    expect(track.properties.coordTimes).toHaveLength(6);
+    expect(walk.properties.activity).toBe('walking');
+    expect(ride.properties.activity).toBe('cycling');
+  });
+});
+
+describe('buildTripExport', () => {
+  it('names the file by type, date and trip id', () => {
+    const file = buildTripExport('gpx', trip, points);
+    expect(file.filename).toBe('radzi-cycling-2026-05-05-trip_1.gpx');
+    expect(file.mimeType).toBe('application/gpx+xml');
+  });
+});
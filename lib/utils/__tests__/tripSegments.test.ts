@@ -0,0 +1,122 @@
+import {
+  dominantSegmentType,
+  routeBySegment,
+  segmentCo2Saved,
+  segmentRowsFromAnalysis,
+  totalsByMode,
+} from '../tripSegments';
+import type { TripSegment } from '../../services/MLSegmentDetector';
+import type { LocationPoint } from '../../database/db';
+
+function point(timestamp: number): LocationPoint {
+  return {
+    trip_id: 't1',
+    latitude: 51,
+    longitude: 0,
+    altitude: null,
+    accuracy: null,
+    speed: null,
+    heading: null,
+    timestamp,
+    activity_type: null,
+    activity_confidence: null,
+    synced: 0,
+  };
+}
+
+function analysed(type: TripSegment['type'], times: number[], distance: number): TripSegment {
+  return {
+    startIndex: 0,
+    endIndex: times.length - 1,
+    locations: times.map(point),
+    type,
+    distance,
+    duration: times.length > 0 ? (times[times.length - 1] - times[0]) / 1000 : 0,
+    avgSpeed: 5,
+    maxSpeed: 7,
+    confidence: 90,
+  };
+}
+
+describe('segmentRowsFromAnalysis', () => {
+  it('takes the time range from the first and last point and keeps the detected type', () => {
+    const rows = segmentRowsFromAnalysis([analysed('walk', [1_000, 61_000, 121_000], 250)]);
+
+    expect(rows).toEqual([
+      {
+        type: 'walk',
+        detected_type: 'walk',
+        t_start: 1_000,
+        t_end: 121_000,
+        distance: 250,
+        duration: 120,
+        avg_speed: 5,
+        max_speed: 7,
+        confidence: 90,
+      },
+    ]);
+  });
+
+  it('leaves out segments without track points', () => {
+    expect(segmentRowsFromAnalysis([analysed('cycle', [], 1000)])).toEqual([]);
+  });
+});
+
+describe('totalsByMode', () => {
+  const segments = [
+    { type: 'walk' as const, distance: 500, duration: 360 },
+    { type: 'cycle' as const, distance: 4000, duration: 900 },
+    { type: 'walk' as const, distance: 300, duration: 240 },
+    { type: 'drive' as const, distance: 2000, duration: 300 },
+  ];
+
+  it('adds up each mode and orders by distance', () => {
+    const totals = totalsByMode(segments);
+
+    expect(totals.map((m) => [m.type, m.distance, m.duration])).toEqual([
+      ['cycle', 4000, 900],
+      ['drive', 2000, 300],
+      ['walk', 800, 600],
+    ]);
+  });
+
+  it('splits the trip\'s CO2 over the modes by distance, none for driving', () => {
+    const totals = totalsByMode(segments, 0.48);
+
+    expect(totals.find((m) => m.type === 'cycle')!.co2Saved).toBeCloseTo(0.4);
+    expect(totals.find((m) => m.type === 'walk')!.co2Saved).toBeCloseTo(0.08);
+    expect(totals.find((m) => m.type === 'drive')!.co2Saved).toBe(0);
+    expect(segmentCo2Saved(segments, 0.48)).toEqual([0.05, 0.4, 0.03, 0].map((kg) => expect.closeTo(kg)));
+    expect(segmentCo2Saved([{ type: 'drive', distance: 2000 }], 0)).toEqual([0]);
+  });
+
+  it('picks the mode with the most distance as dominant', () => {
+    expect(dominantSegmentType(segments)).toBe('cycle');
+    expect(dominantSegmentType([])).toBeNull();
+  });
+});
+
+describe('routeBySegment', () => {
+  const route = [0, 10, 20, 30, 40, 50].map((s) => ({
+    latitude: 51,
+    longitude: s / 1000,
+    timestamp: new Date(s * 1000).toISOString(),
+  }));
+
+  it('slices the route by each segment time range', () => {
+    const parts = routeBySegment(route, [
+      { type: 'walk', t_start: 0, t_end: 20_000 },
+      { type: 'cycle', t_start: 30_000, t_end: 50_000 },
+    ]);
+
+    expect(parts.map((p) => [p.type, p.points.length])).toEqual([
+      ['walk', 3],
+      ['cycle', 3],
+    ]);
+    expect(parts[1].points[0]).toBe(route[3]);
+  });
+
+  it('drops segments with fewer than two points', () => {
+    expect(routeBySegment(route, [{ type: 'run', t_start: 45_000, t_end: 55_000 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Geometry for map feedback reports
+ *
+ * A report is a point, a path (LineString) or an area (Polygon). Paths and
+ * areas are drawn on the map by tapping their vertices; these helpers turn
+ * the tapped vertices into GeoJSON and back, so an existing report can be
+ * redrawn when it is edited.
+ */
+
+import type { GeoJSONGeometry, MapFeedbackType } from '../api/mapFeedback';
+import type { Coordinate } from '../../types/location';
+
+/** Vertices needed before a drawing can be submitted */
+export const MIN_DRAWING_POINTS: Record<MapFeedbackType, number> = {
+  point: 1,
+  path: 2,
+  area: 3,
+};
+
+// Keeps the payload small; no one draws a pothole with more vertices than this
+export const MAX_DRAWING_POINTS = 50;
+
+function toPosition(point: Coordinate): [number, number] {
+  return [point.longitude, point.latitude];
+}
+
+/**
+ * Whether enough vertices have been tapped for the report type
+ */
+export function isDrawingComplete(type: MapFeedbackType, points: Coordinate[]): boolean {
+  return points.length >= MIN_DRAWING_POINTS[type];
+}
+
+/**
+ * GeoJSON for the tapped vertices, or null while the drawing is incomplete.
+ * Polygon rings are closed by repeating the first vertex.
+ */
+export function buildFeedbackGeometry(type: MapFeedbackType, points: Coordinate[]): GeoJSONGeometry | null {
+  if (!isDrawingComplete(type, points)) return null;
+
+  switch (type) {
+    case 'point':
+      return { type: 'Point', coordinates: toPosition(points[points.length - 1]) };
+    case 'path':
+      return { type: 'LineString', coordinates: points.map(toPosition) };
+    case 'area': {
+      const ring = points.map(toPosition);
+      return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+    }
+  }
+}
+
+/**
+ * Report type matching a geometry
+ */
+export function feedbackTypeOf(geometry: GeoJSONGeometry): MapFeedbackType {
+  switch (geometry.type) {
+    case 'Point':
+      return 'point';
+    case 'LineString':
+      return 'path';
+    case 'Polygon':
+      return 'area';
+  }
+}
+
+/**
+ * Vertices of a geometry as drawn, without the closing vertex of a polygon ring
+ */
+export function geometryPoints(geometry: GeoJSONGeometry): Coordinate[] {
+  const positions =
+    geometry.type === 'Point'
+      ? [geometry.coordinates]
+      : geometry.type === 'LineString'
+        ? geometry.coordinates
+        : geometry.coordinates[0]?.slice(0, -1) ?? [];
+  return positions.map(([longitude, latitude]) => ({ latitude, longitude }));
+}
+
+/**
+ * Centre of a geometry's vertices, for labels and camera moves
+ */
+export function geometryCenter(geometry: GeoJSONGeometry): Coordinate | null {
+  const points = geometryPoints(geometry);
+  if (points.length === 0) return null;
+  return {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+}
@@ -1,4 +1,9 @@
-import type { MapFeedback, MapFeedbackCategory } from '@/lib/api/mapFeedback';
+import type {
+  CreateMapFeedbackRequest,
+  MapFeedback,
+  MapFeedbackCategory,
+  UpdateMapFeedbackRequest,
+} from '@/lib/api/mapFeedback';
 import type { GlobalFeedback, ConfidenceLevel } from '@/lib/api/globalFeedback';
 
 /**
@@ -169,3 +174,31 @@ export function shouldRefetchForBbox(
     return true; // Refetch on error
   }
 }
+
+/**
+ * The user's reports with what is still in the outbox: queued reports come
+ * first and queued edits are applied to the reports they change. Negative ids
+ * mark reports the backend has not numbered yet (the outbox id, negated).
+ */
+export function withQueuedReports(
+  reports: MapFeedback[],
+  created: { id: number; payload: CreateMapFeedbackRequest; createdAt: number }[],
+  updated: { payload: { id: number; data: UpdateMapFeedbackRequest } }[]
+): MapFeedback[] {
+  const queued = created.map(({ id, payload, createdAt }) => ({
+    ...payload,
+    id: -id,
+    user: 0, // not known until the backend accepts the report
+    created_at: new Date(createdAt).toISOString(),
+  }));
+  return [...queued, ...reports].map((report) =>
+    updated.reduce((edited, { payload }) => (payload.id === edited.id ? { ...edited, ...payload.data } : edited), report)
+  );
+}
+
+/**
+ * Outbox id of a report that has not been sent yet, or null for one the backend has
+ */
+export function queuedReportId(report: MapFeedback): number | null {
+  return report.id < 0 ? -report.id : null;
+}
@@ -4,6 +4,12 @@
  * Functions for distance, speed, elevation, and route calculations.
  */
 
+import type { GeoJSONGeometry } from '../api/mapFeedback';
+
+// Flat-earth scale for short distances; a degree of longitude shrinks with cos(latitude)
+export const METERS_PER_DEGREE_LAT = 110_540;
+export const METERS_PER_DEGREE_LNG = 111_320; // at the equator
+
 export interface Coordinate {
   latitude: number;
   longitude: number;
@@ -13,6 +19,13 @@ export interface CoordinateWithAltitude extends Coordinate {
   altitude?: number | null;
 }
 
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
 /**
  * Calculate distance between two coordinates using Haversine formula
  * Returns distance in meters
@@ -313,12 +326,7 @@ function perpendicularDistance(point: Coordinate, lineStart: Coordinate, lineEnd
 /**
  * Calculate bounding box for a set of coordinates
  */
-export function calculateBoundingBox(coordinates: Coordinate[]): {
-  minLat: number;
-  maxLat: number;
-  minLng: number;
-  maxLng: number;
-} | null {
+export function calculateBoundingBox(coordinates: Coordinate[]): BoundingBox | null {
   if (coordinates.length === 0) return null;
 
   let minLat = coordinates[0].latitude;
@@ -336,6 +344,96 @@ export function calculateBoundingBox(coordinates: Coordinate[]): {
   return { minLat, maxLat, minLng, maxLng };
 }
 
+/**
+ * Bounding box of coordinates grown by paddingMeters on every side
+ */
+export function paddedBoundingBox(coordinates: Coordinate[], paddingMeters: number): BoundingBox | null {
+  const box = calculateBoundingBox(coordinates);
+  if (!box) return null;
+
+  const padLat = paddingMeters / METERS_PER_DEGREE_LAT;
+  const midLat = (box.minLat + box.maxLat) / 2;
+  const padLng = paddingMeters / (METERS_PER_DEGREE_LNG * Math.cos((midLat * Math.PI) / 180));
+  return {
+    minLat: box.minLat - padLat,
+    maxLat: box.maxLat + padLat,
+    minLng: box.minLng - padLng,
+    maxLng: box.maxLng + padLng,
+  };
+}
+
+/**
+ * Whether two bounding boxes overlap (touching counts)
+ */
+export function boundingBoxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.maxLat >= b.minLat && a.minLat <= b.maxLat && a.maxLng >= b.minLng && a.minLng <= b.maxLng;
+}
+
+/**
+ * Bounding box as the "min_lon,min_lat,max_lon,max_lat" string the API's bbox filters take
+ */
+export function formatBoundingBox(box: BoundingBox): string {
+  return [box.minLng, box.minLat, box.maxLng, box.maxLat].map((value) => value.toFixed(5)).join(',');
+}
+
+/**
+ * Every vertex of a GeoJSON geometry; lines and areas are approximated by them
+ */
+export function geometryVertices(geometry: GeoJSONGeometry): Coordinate[] {
+  const positions =
+    geometry.type === 'Point'
+      ? [geometry.coordinates]
+      : geometry.type === 'LineString'
+        ? geometry.coordinates
+        : geometry.coordinates.flat();
+  return positions.map(([longitude, latitude]) => ({ latitude, longitude }));
+}
+
+/**
+ * Initial bearing from a to b in degrees clockwise from north
+ */
+export function bearingBetween(a: Coordinate, b: Coordinate): number {
+  const φ1 = (a.latitude * Math.PI) / 180;
+  const φ2 = (b.latitude * Math.PI) / 180;
+  const Δλ = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Project p onto segment a-b with a flat projection around p, which is
+ * accurate over a few kilometres. Returns the position along the segment
+ * (0-1) and the distance to it in meters.
+ */
+export function projectOntoSegment(p: Coordinate, a: Coordinate, b: Coordinate): { t: number; distance: number } {
+  const lngScale = METERS_PER_DEGREE_LNG * Math.cos((p.latitude * Math.PI) / 180);
+  const ax = (a.longitude - p.longitude) * lngScale;
+  const ay = (a.latitude - p.latitude) * METERS_PER_DEGREE_LAT;
+  const bx = (b.longitude - p.longitude) * lngScale;
+  const by = (b.latitude - p.latitude) * METERS_PER_DEGREE_LAT;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  // Position of the point on a-b closest to p (the origin), clamped to the segment
+  const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSq));
+
+  return { t, distance: Math.hypot(ax + t * dx, ay + t * dy) };
+}
+
+/**
+ * Shortest distance in meters from p to a polyline; Infinity for an empty one
+ */
+export function distanceToPolyline(p: Coordinate, polyline: Coordinate[]): number {
+  if (polyline.length === 1) return calculateDistance(p, polyline[0]);
+  let nearest = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    nearest = Math.min(nearest, projectOntoSegment(p, polyline[i], polyline[i + 1]).distance);
+  }
+  return nearest;
+}
+
 /**
  * Calculate center point of coordinates
  */
@@ -0,0 +1,138 @@
+/**
+ * Hazard proximity alerts
+ *
+ * While a trip is being recorded, high-confidence community hazards around
+ * the rider are cached and every stored location is checked against them.
+ * A hazard is announced once per trip, when it is within HAZARD_ALERT_METERS
+ * and roughly in the direction of travel, so hazards already behind the
+ * rider stay quiet.
+ */
+
+import type { GlobalFeedback } from '../api/globalFeedback';
+import type { Coordinate } from '../../types/location';
+import {
+  bearingBetween,
+  calculateDistance,
+  formatBoundingBox,
+  geometryVertices,
+  paddedBoundingBox,
+} from './geoCalculations';
+
+export type HazardAlertCategory = 'road_damage' | 'safety_issue';
+
+export const HAZARD_ALERT_CATEGORIES: HazardAlertCategory[] = ['road_damage', 'safety_issue'];
+
+/** Which categories the rider opted in to */
+export type HazardAlertPreferences = Record<HazardAlertCategory, boolean>;
+
+export const DEFAULT_HAZARD_ALERT_PREFERENCES: HazardAlertPreferences = {
+  road_damage: false,
+  safety_issue: false,
+};
+
+export interface CachedHazard {
+  id: number;
+  category: HazardAlertCategory;
+  /** Vertices of the hazard geometry; lines and areas are approximated by them */
+  points: Coordinate[];
+}
+
+export interface HazardAhead {
+  hazard: CachedHazard;
+  distance: number;
+}
+
+// Announce hazards this far ahead
+export const HAZARD_ALERT_METERS = 150;
+// Hazards are cached this far around the rider and refetched after moving half of it
+export const HAZARD_CACHE_RADIUS_METERS = 3000;
+export const HAZARD_CACHE_REFRESH_METERS = 1500;
+// After a failed fetch the next one waits this long, rather than going out on every fix
+export const HAZARD_RETRY_AFTER_MS = 60 * 1000;
+// A hazard counts as ahead when its bearing is within this of the direction of travel
+const AHEAD_ANGLE_DEG = 60;
+// Closer than this the hazard is announced whatever the direction
+const ALREADY_THERE_METERS = 20;
+// Fixes closer together than this give no usable direction of travel
+const MIN_HEADING_METERS = 3;
+
+function isAlertCategory(category: string): category is HazardAlertCategory {
+  return (HAZARD_ALERT_CATEGORIES as string[]).includes(category);
+}
+
+/**
+ * Keep the active, high-confidence hazards the rider can be alerted about
+ */
+export function toCachedHazards(feedback: GlobalFeedback[]): CachedHazard[] {
+  return feedback.flatMap((item) => {
+    if (!item.is_active || item.confidence_level !== 'high' || !isAlertCategory(item.category)) {
+      return [];
+    }
+    return [{ id: item.id, category: item.category, points: geometryVertices(item.representative_geometry) }];
+  });
+}
+
+/**
+ * Bounding box string ("min_lon,min_lat,max_lon,max_lat") of a square around a point
+ */
+export function hazardCacheBbox(center: Coordinate, radius = HAZARD_CACHE_RADIUS_METERS): string {
+  return formatBoundingBox(paddedBoundingBox([center], radius)!);
+}
+
+/**
+ * Whether the cache around cacheCenter no longer covers the area ahead of
+ * position. Not until HAZARD_RETRY_AFTER_MS after a failed fetch.
+ */
+export function needsHazardRefresh(
+  cacheCenter: Coordinate | null,
+  position: Coordinate,
+  failedAt: number | null = null,
+  now = Date.now()
+): boolean {
+  if (failedAt !== null && now - failedAt < HAZARD_RETRY_AFTER_MS) return false;
+  return !cacheCenter || calculateDistance(cacheCenter, position) > HAZARD_CACHE_REFRESH_METERS;
+}
+
+/**
+ * Hazards to announce for a new fix: enabled categories, not yet alerted,
+ * within HAZARD_ALERT_METERS and ahead of the rider. Without a previous fix
+ * there is no direction of travel and every nearby hazard counts as ahead.
+ * Nearest first.
+ */
+export function findHazardsAhead(
+  hazards: CachedHazard[],
+  position: Coordinate,
+  previous: Coordinate | null,
+  alerted: ReadonlySet<number>,
+  preferences: HazardAlertPreferences
+): HazardAhead[] {
+  const heading =
+    previous && calculateDistance(previous, position) >= MIN_HEADING_METERS
+      ? bearingBetween(previous, position)
+      : null;
+
+  const ahead: HazardAhead[] = [];
+  for (const hazard of hazards) {
+    if (!preferences[hazard.category] || alerted.has(hazard.id) || hazard.points.length === 0) continue;
+
+    let nearest = hazard.points[0];
+    let distance = calculateDistance(position, nearest);
+    for (const point of hazard.points.slice(1)) {
+      const d = calculateDistance(position, point);
+      if (d < distance) {
+        distance = d;
+        nearest = point;
+      }
+    }
+    if (distance > HAZARD_ALERT_METERS) continue;
+
+    if (heading !== null && distance > ALREADY_THERE_METERS) {
+      const offset = Math.abs(((bearingBetween(position, nearest) - heading + 540) % 360) - 180);
+      if (offset > AHEAD_ANGLE_DEG) continue;
+    }
+
+    ahead.push({ hazard, distance });
+  }
+
+  return ahead.sort((a, b) => a.distance - b.distance);
+}
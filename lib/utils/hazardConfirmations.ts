@@ -0,0 +1,93 @@
+/**
+ * Post-trip hazard confirmations
+ *
+ * Community hazards only stay accurate if riders who pass them say whether
+ * they are still there. After a trip, the active hazards the route passed
+ * close to are collected so the rider can be asked about them. Items the
+ * rider voted on recently are skipped, so the same pothole on the daily
+ * commute is not asked about every day.
+ */
+
+import type { FeedbackVote, FeedbackVoteKind } from '../api/feedbackVotes';
+import type { GlobalFeedback } from '../api/globalFeedback';
+import type { Coordinate } from '../../types/location';
+import { distanceToPolyline, formatBoundingBox, geometryVertices, paddedBoundingBox } from './geoCalculations';
+
+// The route counts as passing a hazard within this distance
+export const PASSED_NEAR_METERS = 30;
+// A rider is asked about the same item again after this long
+export const REVOTE_AFTER_DAYS = 7;
+// Most items asked about after one trip
+export const MAX_CONFIRMATIONS_PER_TRIP = 5;
+// Hazards the rider can sensibly confirm from the saddle
+const CONFIRMABLE_CATEGORIES = ['road_damage', 'safety_issue', 'traffic_light'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Latest vote per feedback item
+ */
+export function latestVotes(votes: FeedbackVote[]): Map<number, FeedbackVote> {
+  const latest = new Map<number, FeedbackVote>();
+  for (const vote of votes) {
+    const current = latest.get(vote.feedback);
+    if (!current || new Date(vote.created_at).getTime() > new Date(current.created_at).getTime()) {
+      latest.set(vote.feedback, vote);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Votes still waiting in the outbox, shaped like the backend's history so
+ * they count as answers. Negative ids mark votes the backend has not numbered yet.
+ */
+export function queuedVotes(
+  queued: { payload: { feedbackId: number; vote: FeedbackVoteKind }; createdAt: number }[]
+): FeedbackVote[] {
+  return queued.map(({ payload, createdAt }) => ({
+    id: -createdAt,
+    feedback: payload.feedbackId,
+    vote: payload.vote,
+    created_at: new Date(createdAt).toISOString(),
+  }));
+}
+
+/**
+ * Bounding box string ("min_lon,min_lat,max_lon,max_lat") around a route,
+ * padded so hazards just outside it are included
+ */
+export function routeBbox(route: Coordinate[]): string | null {
+  const box = paddedBoundingBox(route, PASSED_NEAR_METERS);
+  return box && formatBoundingBox(box);
+}
+
+/**
+ * Active hazards the route passed within PASSED_NEAR_METERS of that the
+ * rider has not voted on in the last REVOTE_AFTER_DAYS, closest first
+ */
+export function findPassedHazards(
+  route: Coordinate[],
+  feedback: GlobalFeedback[],
+  votes: FeedbackVote[],
+  now = Date.now()
+): GlobalFeedback[] {
+  if (route.length === 0) return [];
+  const distanceToRoute = (point: Coordinate) => distanceToPolyline(point, route);
+  const voted = latestVotes(votes);
+
+  return feedback
+    .filter((item) => {
+      if (!item.is_active || !CONFIRMABLE_CATEGORIES.includes(item.category)) return false;
+      const vote = voted.get(item.id);
+      return !vote || now - new Date(vote.created_at).getTime() > REVOTE_AFTER_DAYS * DAY_MS;
+    })
+    .map((item) => ({
+      item,
+      distance: Math.min(...geometryVertices(item.representative_geometry).map(distanceToRoute)),
+    }))
+    .filter(({ distance }) => distance <= PASSED_NEAR_METERS)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_CONFIRMATIONS_PER_TRIP)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,164 @@
+/**
+ * Personal heatmap grid
+ *
+ * Track points are binned into a fixed lat/lng grid (about 55 m per cell).
+ * A cell's weight is the number of trips that passed through it, not the
+ * number of fixes, so a slow walk and a fast ride along the same street
+ * count the same. Weights are scaled to 1-10 for the Mapbox heatmap layer.
+ */
+
+import type { Coordinate } from '../../types/location';
+import type {
+  HeatmapConfig,
+  HeatmapGeoJSON,
+  HeatmapLegendEntry,
+  HeatmapPoint,
+} from '../../types/heatmap';
+
+export const HEATMAP_CELL_DEG = 0.0005;
+
+// Fixes less accurate than this would smear a street over its neighbours
+export const HEATMAP_MAX_ACCURACY = 50; // meters
+
+const MIN_WEIGHT = 1;
+const MAX_WEIGHT = 10;
+
+/**
+ * Number of fixes one trip recorded in one grid cell
+ */
+export interface HeatmapCellHits {
+  cellLat: number;
+  cellLng: number;
+  hits: number;
+}
+
+/**
+ * Number of distinct trips that passed through one grid cell
+ */
+export interface HeatmapCellTrips {
+  cellLat: number;
+  cellLng: number;
+  trips: number;
+}
+
+interface BinnablePoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+export function cellIndex(degrees: number): number {
+  return Math.floor(degrees / HEATMAP_CELL_DEG);
+}
+
+export function cellCenter(cellLat: number, cellLng: number): Coordinate {
+  return {
+    latitude: Number(((cellLat + 0.5) * HEATMAP_CELL_DEG).toFixed(6)),
+    longitude: Number(((cellLng + 0.5) * HEATMAP_CELL_DEG).toFixed(6)),
+  };
+}
+
+/**
+ * Bin one trip's track points into grid cells, skipping inaccurate fixes
+ */
+export function binLocations(points: BinnablePoint[]): HeatmapCellHits[] {
+  const cells = new Map<string, HeatmapCellHits>();
+  for (const point of points) {
+    if (point.accuracy != null && point.accuracy > HEATMAP_MAX_ACCURACY) continue;
+    const cellLat = cellIndex(point.latitude);
+    const cellLng = cellIndex(point.longitude);
+    const key = `${cellLat}:${cellLng}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.hits++;
+    } else {
+      cells.set(key, { cellLat, cellLng, hits: 1 });
+    }
+  }
+  return [...cells.values()];
+}
+
+/**
+ * Scale a cell's trip count to the 1-10 heatmap weight
+ */
+export function heatmapWeight(trips: number, maxTrips: number): number {
+  if (maxTrips <= 1) return MIN_WEIGHT;
+  const scaled = MIN_WEIGHT + ((trips - 1) / (maxTrips - 1)) * (MAX_WEIGHT - MIN_WEIGHT);
+  return Math.round(Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, scaled)) * 10) / 10;
+}
+
+/**
+ * Weight trip counts at arbitrary coordinates against the busiest one
+ */
+export function weightByTrips(spots: { coordinate: Coordinate; trips: number }[]): HeatmapPoint[] {
+  const maxTrips = spots.reduce((max, spot) => Math.max(max, spot.trips), 0);
+  return spots.map((spot) => ({
+    coordinate: spot.coordinate,
+    weight: heatmapWeight(spot.trips, maxTrips),
+  }));
+}
+
+export function toHeatmapPoints(cells: HeatmapCellTrips[]): HeatmapPoint[] {
+  return weightByTrips(
+    cells.map((cell) => ({ coordinate: cellCenter(cell.cellLat, cell.cellLng), trips: cell.trips }))
+  );
+}
+
+export function toHeatmapGeoJSON(points: HeatmapPoint[]): HeatmapGeoJSON {
+  return {
+    type: 'FeatureCollection',
+    features: points.map((point) => ({
+      type: 'Feature',
+      properties: { weight: point.weight },
+      geometry: {
+        type: 'Point',
+        coordinates: [point.coordinate.longitude, point.coordinate.latitude],
+      },
+    })),
+  };
+}
+
+// Low to high intensity, shared by the layer's colour ramp and the legend
+export const HEATMAP_COLORS = ['#2C7BB6', '#00A6CA', '#F9D057', '#F29E2E', '#D7191C'] as const;
+
+export const HEATMAP_CONFIG: HeatmapConfig = {
+  radius: ['interpolate', ['linear'], ['zoom'], 8, 4, 12, 10, 16, 24],
+  weight: ['interpolate', ['linear'], ['get', 'weight'], MIN_WEIGHT, 0.1, MAX_WEIGHT, 1],
+  intensity: ['interpolate', ['linear'], ['zoom'], 8, 0.6, 16, 1.5],
+  color: [
+    'interpolate',
+    ['linear'],
+    ['heatmap-density'],
+    0, 'rgba(0,0,0,0)',
+    0.15, HEATMAP_COLORS[0],
+    0.35, HEATMAP_COLORS[1],
+    0.55, HEATMAP_COLORS[2],
+    0.75, HEATMAP_COLORS[3],
+    1, HEATMAP_COLORS[4],
+  ],
+  opacity: ['interpolate', ['linear'], ['zoom'], 8, 0.9, 17, 0.7],
+};
+
+/**
+ * Legend buckets splitting 1..maxTrips into at most one bucket per colour.
+ * Labels are trip-count ranges ("1", "2-3") for the caller to format.
+ */
+export function heatmapLegend(maxTrips: number): HeatmapLegendEntry[] {
+  if (maxTrips < 1) return [];
+  const buckets = Math.min(HEATMAP_COLORS.length, maxTrips);
+  const entries: HeatmapLegendEntry[] = [];
+  let minValue = 1;
+  for (let i = 0; i < buckets; i++) {
+    const maxValue = i === buckets - 1 ? maxTrips : Math.round(((i + 1) * maxTrips) / buckets);
+    // Spread the colours over the full ramp when there are fewer buckets
+    const color = HEATMAP_COLORS[Math.round((i * (HEATMAP_COLORS.length - 1)) / Math.max(1, buckets - 1))];
+    entries.push({
+      label: minValue === maxValue ? `${minValue}` : `${minValue}-${maxValue}`,
+      color,
+      minValue,
+      maxValue,
+    });
+    minValue = maxValue + 1;
+  }
+  return entries;
+}
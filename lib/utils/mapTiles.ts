@@ -0,0 +1,136 @@
+/**
+ * Map tile helpers for viewport-driven data loading
+ *
+ * Community layers are fetched per tile instead of for one huge bbox. The
+ * visible bounds are covered by standard web-mercator (z/x/y) tiles at a
+ * quantised zoom, so small pans and zooms map onto tiles that are already
+ * in the React Query cache.
+ */
+
+export interface MapViewport {
+  bounds: {
+    ne: [number, number]; // [lng, lat]
+    sw: [number, number];
+  };
+  zoom: number;
+}
+
+export interface MapTile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Tile zooms data is fetched at; odd map zooms reuse the level below
+export const TILE_ZOOMS = [6, 8, 10, 12, 14] as const;
+
+// Above this many tiles the viewport is covered at a coarser zoom instead
+export const MAX_VIEWPORT_TILES = 16;
+
+const MAX_LATITUDE = 85.0511;
+
+function clampLat(lat: number): number {
+  return Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+}
+
+function lngToX(lng: number, z: number): number {
+  const n = 2 ** z;
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+function latToY(lat: number, z: number): number {
+  const n = 2 ** z;
+  const rad = (clampLat(lat) * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n;
+  return Math.min(n - 1, Math.max(0, Math.floor(y)));
+}
+
+function yToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+/**
+ * Tile zoom for a map zoom: one level coarser than the map, snapped down to
+ * TILE_ZOOMS so a viewport needs only a handful of tiles
+ */
+export function tileZoomFor(mapZoom: number): number {
+  const target = Math.floor(mapZoom) - 1;
+  let zoom: number = TILE_ZOOMS[0];
+  for (const z of TILE_ZOOMS) {
+    if (z <= target) zoom = z;
+  }
+  return zoom;
+}
+
+function tileRange(bounds: MapViewport['bounds'], z: number) {
+  const { ne, sw } = bounds;
+  return {
+    minX: lngToX(Math.min(sw[0], ne[0]), z),
+    maxX: lngToX(Math.max(sw[0], ne[0]), z),
+    minY: latToY(Math.max(sw[1], ne[1]), z),
+    maxY: latToY(Math.min(sw[1], ne[1]), z),
+  };
+}
+
+/**
+ * Number of tiles covering the bounds at zoom `z`
+ */
+export function countTiles(bounds: MapViewport['bounds'], z: number): number {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+  return (maxX - minX + 1) * (maxY - minY + 1);
+}
+
+function tilesAt(viewport: MapViewport, z: number): MapTile[] {
+  const { minX, maxX, minY, maxY } = tileRange(viewport.bounds, z);
+
+  const tiles: MapTile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Tiles covering the viewport. Falls back to coarser zooms when the
+ * viewport needs more than MAX_VIEWPORT_TILES; returns no tiles when even
+ * the coarsest zoom would (the map is zoomed too far out to load data).
+ */
+export function tilesForViewport(viewport: MapViewport): MapTile[] {
+  const start = TILE_ZOOMS.indexOf(tileZoomFor(viewport.zoom) as (typeof TILE_ZOOMS)[number]);
+  for (let i = start; i >= 0; i--) {
+    const tiles = tilesAt(viewport, TILE_ZOOMS[i]);
+    if (tiles.length <= MAX_VIEWPORT_TILES) return tiles;
+  }
+  return [];
+}
+
+export function tileKey(tile: MapTile): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+/**
+ * Bounding box string "min_lon,min_lat,max_lon,max_lat" as the API expects
+ */
+export function tileBBox(tile: MapTile): string {
+  const n = 2 ** tile.z;
+  const minLon = (tile.x / n) * 360 - 180;
+  const maxLon = ((tile.x + 1) / n) * 360 - 180;
+  const maxLat = yToLat(tile.y, tile.z);
+  const minLat = yToLat(tile.y + 1, tile.z);
+  return [minLon, minLat, maxLon, maxLat].map((v) => Number(v.toFixed(6))).join(',');
+}
+
+/**
+ * Minimum number of ratings a community road section needs to be shown.
+ * Zoomed out, only well-rated sections are worth drawing; at street level
+ * a single rating is shown. Keyed on tile zoom so it stays stable per tile.
+ */
+export function minRatingCountForTileZoom(z: number): number {
+  if (z <= 8) return 5;
+  if (z <= 10) return 3;
+  if (z <= 12) return 2;
+  return 1;
+}
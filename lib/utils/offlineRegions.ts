@@ -0,0 +1,177 @@
+/**
+ * Offline map regions
+ *
+ * An offline region is a bounding box whose Mapbox tiles are downloaded as an
+ * offline pack, so rating and tracking keep a base map without signal.
+ * Regions are suggested by grouping the bounding boxes of the rider's trips:
+ * boxes that overlap are merged as long as the result stays small enough to
+ * download, and groups covered by a single trip are dropped.
+ */
+
+import type { Coordinate } from '../../types/location';
+import type { MapLayer } from '../hooks/useMapLayer';
+import { calculateBoundingBox, calculateDistance } from './geoCalculations';
+import { countTiles, type MapViewport } from './mapTiles';
+
+export interface OfflineRegionBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface OfflineRegionSuggestion {
+  bounds: OfflineRegionBounds;
+  tripCount: number;
+}
+
+// Zoom range downloaded for each pack: town overview down to street level
+export const OFFLINE_MIN_ZOOM = 10;
+export const OFFLINE_MAX_ZOOM = 16;
+
+// Mapbox expires offline tiles after 30 days; packs should be refreshed by then
+export const OFFLINE_PACK_TTL_DAYS = 30;
+
+export const MIN_TRIPS_PER_REGION = 2;
+export const MAX_SUGGESTIONS = 5;
+// Longest side of a suggested region, so a pack stays a reasonable download
+export const MAX_REGION_SPAN_METERS = 60_000;
+// Margin added around trips so the map does not stop at the route's edge
+const REGION_PADDING_DEG = 0.01;
+
+// Rough average tile sizes, used only for the size shown before downloading
+const VECTOR_TILE_BYTES = 30_000;
+const SATELLITE_TILE_BYTES = 90_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(bounds: OfflineRegionBounds, deg: number): OfflineRegionBounds {
+  return {
+    minLat: bounds.minLat - deg,
+    maxLat: bounds.maxLat + deg,
+    minLng: bounds.minLng - deg,
+    maxLng: bounds.maxLng + deg,
+  };
+}
+
+function union(a: OfflineRegionBounds, b: OfflineRegionBounds): OfflineRegionBounds {
+  return {
+    minLat: Math.min(a.minLat, b.minLat),
+    maxLat: Math.max(a.maxLat, b.maxLat),
+    minLng: Math.min(a.minLng, b.minLng),
+    maxLng: Math.max(a.maxLng, b.maxLng),
+  };
+}
+
+function overlaps(a: OfflineRegionBounds, b: OfflineRegionBounds): boolean {
+  return a.minLat <= b.maxLat && b.minLat <= a.maxLat && a.minLng <= b.maxLng && b.minLng <= a.maxLng;
+}
+
+/**
+ * Longest side of the bounds in meters
+ */
+export function regionSpan(bounds: OfflineRegionBounds): number {
+  const width = calculateDistance(
+    { latitude: bounds.minLat, longitude: bounds.minLng },
+    { latitude: bounds.minLat, longitude: bounds.maxLng }
+  );
+  const height = calculateDistance(
+    { latitude: bounds.minLat, longitude: bounds.minLng },
+    { latitude: bounds.maxLat, longitude: bounds.minLng }
+  );
+  return Math.max(width, height);
+}
+
+/**
+ * Suggest offline regions from trip routes, most travelled first.
+ * @param routes - One coordinate list per trip
+ */
+export function suggestOfflineRegions(routes: Coordinate[][]): OfflineRegionSuggestion[] {
+  const clusters: OfflineRegionSuggestion[] = [];
+
+  for (const route of routes) {
+    const box = calculateBoundingBox(route);
+    if (!box || regionSpan(box) > MAX_REGION_SPAN_METERS) continue;
+    const bounds = pad(box, REGION_PADDING_DEG);
+
+    const cluster = clusters.find(
+      (c) => overlaps(c.bounds, bounds) && regionSpan(union(c.bounds, bounds)) <= MAX_REGION_SPAN_METERS
+    );
+    if (cluster) {
+      cluster.bounds = union(cluster.bounds, bounds);
+      cluster.tripCount += 1;
+    } else {
+      clusters.push({ bounds, tripCount: 1 });
+    }
+  }
+
+  return clusters
+    .filter((c) => c.tripCount >= MIN_TRIPS_PER_REGION)
+    .sort((a, b) => b.tripCount - a.tripCount)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Whether `inner` lies entirely within `outer`
+ */
+export function containsRegion(outer: OfflineRegionBounds, inner: OfflineRegionBounds): boolean {
+  return (
+    inner.minLat >= outer.minLat &&
+    inner.maxLat <= outer.maxLat &&
+    inner.minLng >= outer.minLng &&
+    inner.maxLng <= outer.maxLng
+  );
+}
+
+/**
+ * Bounds in the [[neLng, neLat], [swLng, swLat]] order Mapbox offline packs use
+ */
+export function toPackBounds(bounds: OfflineRegionBounds): [[number, number], [number, number]] {
+  return [
+    [bounds.maxLng, bounds.maxLat],
+    [bounds.minLng, bounds.minLat],
+  ];
+}
+
+/**
+ * Number of tiles in a pack over the offline zoom range
+ */
+export function estimateTileCount(bounds: OfflineRegionBounds): number {
+  const tileBounds: MapViewport['bounds'] = {
+    ne: [bounds.maxLng, bounds.maxLat],
+    sw: [bounds.minLng, bounds.minLat],
+  };
+  let count = 0;
+  for (let z = OFFLINE_MIN_ZOOM; z <= OFFLINE_MAX_ZOOM; z++) {
+    count += countTiles(tileBounds, z);
+  }
+  return count;
+}
+
+/**
+ * Approximate download size of a pack in bytes
+ */
+export function estimatePackBytes(bounds: OfflineRegionBounds, layer: MapLayer): number {
+  const tileBytes = layer === 'satellite' ? SATELLITE_TILE_BYTES : VECTOR_TILE_BYTES;
+  return estimateTileCount(bounds) * tileBytes;
+}
+
+/**
+ * When a pack downloaded at `downloadedAt` (ms) should be refreshed
+ */
+export function packExpiresAt(downloadedAt: number): number {
+  return downloadedAt + OFFLINE_PACK_TTL_DAYS * DAY_MS;
+}
+
+/**
+ * Format a byte count for display (e.g. "850 KB", "12.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Ratings given from the map, outside of a recorded trip
+ *
+ * A rated section or junction is stored in route_ratings like a trip rating,
+ * keyed by a synthetic trip id, and sent through the same outbox operation.
+ * Junctions are the points where known road sections meet.
+ */
+
+import type { FeelingType, RatedPlace, RouteSegment } from '../../types/rating';
+
+// Section ends closer than this (in degrees, about 1 m) are the same junction
+const JUNCTION_PRECISION = 5;
+
+export interface Junction {
+  coordinates: [number, number]; // [longitude, latitude]
+  sectionIds: string[];
+}
+
+/**
+ * Whether a route_ratings.trip_id is a place rating key rather than a trip id
+ */
+export function isPlaceRatingKey(tripId: string): boolean {
+  return tripId.startsWith('section:') || tripId.startsWith('junction:');
+}
+
+/**
+ * Key a place rating is stored under in route_ratings.trip_id; never a real trip id
+ */
+export function placeRatingKey(place: RatedPlace): string {
+  if (place.kind === 'section') return `section:${place.sectionId}`;
+  const [lng, lat] = place.coordinates;
+  return `junction:${lng.toFixed(JUNCTION_PRECISION)},${lat.toFixed(JUNCTION_PRECISION)}`;
+}
+
+/**
+ * The rating as stored locally: one segment over the section's points, or the single junction point
+ */
+export function placeRatingSegments(place: RatedPlace, feeling: FeelingType): RouteSegment[] {
+  const endIndex = place.kind === 'section' ? Math.max(0, place.coordinates.length - 1) : 0;
+  return [{ startIndex: 0, endIndex, feeling }];
+}
+
+/**
+ * Points where two or more sections start or end, with the sections meeting there
+ */
+export function findJunctions(sections: { section_id: string; geometry: { coordinates: [number, number][] } }[]): Junction[] {
+  const ends = new Map<string, Junction>();
+
+  for (const { section_id, geometry } of sections) {
+    const { coordinates } = geometry;
+    if (coordinates.length < 2) continue;
+    for (const [lng, lat] of [coordinates[0], coordinates[coordinates.length - 1]]) {
+      const key = `${lng.toFixed(JUNCTION_PRECISION)},${lat.toFixed(JUNCTION_PRECISION)}`;
+      const junction = ends.get(key);
+      if (!junction) {
+        ends.set(key, { coordinates: [lng, lat], sectionIds: [section_id] });
+      } else if (!junction.sectionIds.includes(section_id)) {
+        junction.sectionIds.push(section_id);
+      }
+    }
+  }
+
+  return [...ends.values()].filter((junction) => junction.sectionIds.length >= 2);
+}
@@ -0,0 +1,114 @@
+/**
+ * Privacy zone geometry
+ *
+ * A privacy zone is a circle (centre + radius) around a place the rider does
+ * not want to reveal, such as home or work. Route points inside a zone are
+ * dropped before a route leaves the device, so shared trips start and end at
+ * the edge of the zone rather than at the front door. Rated road segments
+ * that touch a zone are dropped entirely.
+ */
+
+import type { Coordinate } from '../../types/location';
+import { calculateDistance, METERS_PER_DEGREE_LAT, METERS_PER_DEGREE_LNG, projectOntoSegment } from './geoCalculations';
+
+export interface PrivacyZone {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+}
+
+export const MIN_ZONE_RADIUS = 100; // meters
+export const MAX_ZONE_RADIUS = 2000; // meters
+export const DEFAULT_ZONE_RADIUS = 400; // meters
+
+/**
+ * Route point in the {lat, lng} shape used by API payloads
+ */
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Segment in the shape of ApiRatedSegment
+ */
+interface LatLngSegment {
+  start_lat: number;
+  start_lng: number;
+  end_lat: number;
+  end_lng: number;
+  /** Full polyline as [lng, lat] pairs; ratings queued before it existed only have the ends */
+  geometry?: { type: 'LineString'; coordinates: [number, number][] } | { type: 'Point'; coordinates: [number, number] };
+}
+
+/**
+ * Whether a point lies inside (or on the edge of) any of the zones
+ */
+export function isInPrivacyZone(point: Coordinate, zones: readonly PrivacyZone[]): boolean {
+  return zones.some((zone) => calculateDistance(point, zone) <= zone.radius);
+}
+
+/**
+ * Drop every route point that lies inside a privacy zone.
+ * Returns the input array unchanged when nothing was removed.
+ */
+export function trimRouteToPrivacyZones<T extends LatLng>(route: T[], zones: readonly PrivacyZone[]): T[] {
+  if (zones.length === 0) return route;
+
+  const kept = route.filter((p) => !isInPrivacyZone({ latitude: p.lat, longitude: p.lng }, zones));
+  return kept.length === route.length ? route : kept;
+}
+
+/**
+ * Shortest distance in meters from the zone centre to the segment a-b.
+ * Uses a flat projection around the centre, which is accurate well beyond
+ * the largest zone radius.
+ */
+export function distanceFromZoneToSegment(zone: PrivacyZone, a: Coordinate, b: Coordinate): number {
+  return projectOntoSegment(zone, a, b).distance;
+}
+
+/**
+ * Drop segments that start in, end in or pass through a privacy zone.
+ * Segments with a polyline are checked along it, not just between their ends.
+ */
+export function trimSegmentsToPrivacyZones<T extends LatLngSegment>(
+  segments: T[],
+  zones: readonly PrivacyZone[]
+): T[] {
+  if (zones.length === 0) return segments;
+
+  return segments.filter((segment) => {
+    const points =
+      segment.geometry?.type === 'LineString' && segment.geometry.coordinates.length >= 2
+        ? segment.geometry.coordinates.map(([longitude, latitude]) => ({ latitude, longitude }))
+        : [
+            { latitude: segment.start_lat, longitude: segment.start_lng },
+            { latitude: segment.end_lat, longitude: segment.end_lng },
+          ];
+    return zones.every((zone) =>
+      points.slice(1).every((end, i) => distanceFromZoneToSegment(zone, points[i], end) > zone.radius)
+    );
+  });
+}
+
+/**
+ * Closed ring of [lng, lat] positions approximating the zone's circle,
+ * for drawing it as a GeoJSON polygon.
+ */
+export function privacyZoneRing(zone: PrivacyZone, steps = 64): [number, number][] {
+  const lngScale = METERS_PER_DEGREE_LNG * Math.cos((zone.latitude * Math.PI) / 180);
+  const ring: [number, number][] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const angle = (2 * Math.PI * (i % steps)) / steps;
+    ring.push([
+      zone.longitude + (zone.radius * Math.cos(angle)) / lngScale,
+      zone.latitude + (zone.radius * Math.sin(angle)) / METERS_PER_DEGREE_LAT,
+    ]);
+  }
+
+  return ring;
+}
@@ -0,0 +1,43 @@
+/**
+ * Differences between two paintings of the same route
+ */
+
+import type { FeelingType, RouteSegment } from '../../types/rating';
+
+export interface RatingChange {
+  startIndex: number;
+  endIndex: number; // inclusive
+  from: FeelingType | null; // null where the stretch was unpainted
+  to: FeelingType | null;
+}
+
+function feelingsByIndex(segments: RouteSegment[], length: number): (FeelingType | null)[] {
+  const feelings: (FeelingType | null)[] = new Array(length).fill(null);
+  for (const { startIndex, endIndex, feeling } of segments) {
+    for (let i = Math.max(0, startIndex); i <= Math.min(endIndex, length - 1); i++) {
+      feelings[i] = feeling;
+    }
+  }
+  return feelings;
+}
+
+/**
+ * Stretches of the route whose feeling differs between two paintings, in route order
+ */
+export function diffRatings(previous: RouteSegment[], current: RouteSegment[]): RatingChange[] {
+  const length = Math.max(0, ...previous.map((s) => s.endIndex + 1), ...current.map((s) => s.endIndex + 1));
+  const before = feelingsByIndex(previous, length);
+  const after = feelingsByIndex(current, length);
+
+  const changes: RatingChange[] = [];
+  for (let i = 0; i < length; i++) {
+    if (before[i] === after[i]) continue;
+    const last = changes[changes.length - 1];
+    if (last && last.endIndex === i - 1 && last.from === before[i] && last.to === after[i]) {
+      last.endIndex = i;
+    } else {
+      changes.push({ startIndex: i, endIndex: i, from: before[i], to: after[i] });
+    }
+  }
+  return changes;
+}
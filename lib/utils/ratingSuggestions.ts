@@ -0,0 +1,124 @@
+/**
+ * Rating suggestions from the rider's past ratings of the same streets
+ *
+ * Every point of a new route takes the feeling of the nearest past painting
+ * within tolerance, the newest rating winning where several cover it, or
+ * failing that the rider's own rating of a road section it lies on. Runs of
+ * one feeling become suggested segments; runs shorter than MIN_MATCH_METERS
+ * are where the route only crossed a rated street and are dropped.
+ */
+
+import type { Coordinate } from '../../types/location';
+import { FEELING_ORDER, type FeelingType, type RouteSegment } from '../../types/rating';
+import type { RoadSectionPersonal } from '../api/roadSections';
+import {
+  boundingBoxesOverlap,
+  calculateBoundingBox,
+  calculateDistance,
+  distanceToPolyline,
+  geometryVertices,
+  paddedBoundingBox,
+  type BoundingBox,
+} from './geoCalculations';
+import { MATCH_TOLERANCE_METERS, MIN_MATCH_METERS, segmentPolyline } from './roadMatching';
+
+export interface PastRouteRating {
+  route: Coordinate[]; // The rated trip's route
+  segments: RouteSegment[]; // Indices into route
+  ratedAt: number;
+}
+
+export type SuggestableSection = Pick<RoadSectionPersonal, 'section_id' | 'geometry' | 'rating'>;
+
+interface FeelingTrack {
+  feeling: FeelingType;
+  polyline: Coordinate[];
+}
+
+// Whether a polyline can come near the route at all
+function nearBounds(polyline: Coordinate[], bounds: BoundingBox): boolean {
+  const box = calculateBoundingBox(polyline);
+  return polyline.length >= 2 && box !== null && boundingBoxesOverlap(box, bounds);
+}
+
+/**
+ * Feeling of the nearest track within tolerance of a point, if any
+ */
+function nearestFeeling(tracks: FeelingTrack[], point: Coordinate): FeelingType | null {
+  let nearest: { feeling: FeelingType; distance: number } | null = null;
+  for (const { feeling, polyline } of tracks) {
+    const distance = distanceToPolyline(point, polyline);
+    if (distance <= MATCH_TOLERANCE_METERS && (!nearest || distance < nearest.distance)) {
+      nearest = { feeling, distance };
+    }
+  }
+  return nearest?.feeling ?? null;
+}
+
+/**
+ * Segments of a new route suggested from past ratings, in route order
+ */
+export function suggestSegments(
+  route: Coordinate[],
+  pastRatings: PastRouteRating[],
+  sections: SuggestableSection[]
+): RouteSegment[] {
+  if (route.length < 2) return [];
+
+  // Only tracks that come near the route can match
+  const bounds = paddedBoundingBox(route, MATCH_TOLERANCE_METERS)!;
+
+  // Newest rating first, so the latest feeling about a street wins
+  const paintings = [...pastRatings]
+    .sort((a, b) => b.ratedAt - a.ratedAt)
+    .map(({ route: pastRoute, segments }) =>
+      segments
+        .map(({ startIndex, endIndex, feeling }) => ({ feeling, polyline: segmentPolyline(pastRoute, startIndex, endIndex) }))
+        .filter(({ polyline }) => nearBounds(polyline, bounds))
+    )
+    .filter((tracks) => tracks.length > 0);
+  const sectionTracks = sections
+    .map(({ geometry, rating }) => ({
+      feeling: FEELING_ORDER[Math.min(Math.max(Math.round(rating), 1), FEELING_ORDER.length) - 1],
+      polyline: geometryVertices(geometry),
+    }))
+    .filter(({ polyline }) => nearBounds(polyline, bounds));
+
+  const feelings = route.map((point) => {
+    for (const tracks of paintings) {
+      const feeling = nearestFeeling(tracks, point);
+      if (feeling) return feeling;
+    }
+    return nearestFeeling(sectionTracks, point);
+  });
+
+  const suggestions: RouteSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= route.length; i++) {
+    if (i < route.length && feelings[i] === feelings[start]) continue;
+    const feeling = feelings[start];
+    const end = i - 1;
+    let meters = 0;
+    for (let j = start; j < end; j++) meters += calculateDistance(route[j], route[j + 1]);
+    if (feeling && meters >= MIN_MATCH_METERS) {
+      suggestions.push({ startIndex: start, endIndex: end, feeling });
+    }
+    start = i;
+  }
+  return suggestions;
+}
+
+/**
+ * Suggestions left once the rider paints a stretch themselves
+ */
+export function clearSuggestedRange(suggestions: RouteSegment[], painted: { startIndex: number; endIndex: number }): RouteSegment[] {
+  const from = Math.min(painted.startIndex, painted.endIndex);
+  const to = Math.max(painted.startIndex, painted.endIndex);
+  return suggestions.flatMap((suggestion) => {
+    if (suggestion.endIndex < from || suggestion.startIndex > to) return [suggestion];
+    return [
+      ...(suggestion.startIndex < from ? [{ ...suggestion, endIndex: from - 1 }] : []),
+      ...(suggestion.endIndex > to ? [{ ...suggestion, startIndex: to + 1 }] : []),
+    ];
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Report Photos
+ *
+ * Photos picked for a report are written to the document directory before the
+ * report goes into the outbox, so the queued payload holds short file URIs
+ * instead of base64 images. They are read back when the report is sent and
+ * deleted once it has been accepted or dropped.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+
+const PHOTO_DIRECTORY = 'report-photos';
+const DATA_URI = /^data:image\/(\w+);base64,/;
+
+function photoDirectory(): Directory {
+  return new Directory(Paths.document, PHOTO_DIRECTORY);
+}
+
+/**
+ * Whether a photo is a file written by storePhotos (rather than a URL of a
+ * photo already on the backend, or a data URI)
+ */
+export function isStoredPhoto(photo: string): boolean {
+  return photo.startsWith(photoDirectory().uri);
+}
+
+/**
+ * Write newly picked photos (data URIs) to files and return their URIs in place.
+ * Anything else, like URLs of photos already on the report, is kept as is.
+ */
+export function storePhotos(photos: string[]): string[] {
+  const directory = photoDirectory();
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+
+  return photos.map((photo) => {
+    const match = DATA_URI.exec(photo);
+    if (!match) return photo;
+
+    const extension = match[1] === 'png' ? 'png' : 'jpg';
+    const file = new File(directory, `photo_${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`);
+    file.create();
+    file.write(photo.slice(match[0].length), { encoding: 'base64' });
+    return file.uri;
+  });
+}
+
+/**
+ * Photos as the API takes them: stored files are read back into data URIs
+ */
+export async function loadPhotos(photos: string[]): Promise<string[]> {
+  return Promise.all(
+    photos.map(async (photo) => {
+      if (!isStoredPhoto(photo)) return photo;
+      const mimeType = photo.endsWith('.png') ? 'image/png' : 'image/jpeg';
+      return `data:${mimeType};base64,${await new File(photo).base64()}`;
+    })
+  );
+}
+
+/**
+ * Delete the stored files among `photos`; URLs and data URIs are ignored
+ */
+export function deleteStoredPhotos(photos: string[]): void {
+  for (const photo of photos) {
+    if (!isStoredPhoto(photo)) continue;
+    try {
+      const file = new File(photo);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('[ReportPhotos] Could not delete', photo, error);
+    }
+  }
+}
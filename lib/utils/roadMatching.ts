@@ -0,0 +1,167 @@
+/**
+ * Rated segment geometry and on-device map matching
+ *
+ * A painted stretch of a route is sent as its own polyline (simplified, so a
+ * long straight street is two points but every corner survives) rather than
+ * a straight chord between its ends. The polyline is then matched against
+ * the road sections the device already knows about: it is sampled every few
+ * meters, each sample goes to the nearest section within tolerance, and a
+ * section counts as ridden when enough of the polyline ran along it. Streets
+ * that were only crossed collect a sample or two and are left out.
+ *
+ * Matching happens when a rating is sent rather than when it is saved, so a
+ * rating saved offline is matched against the sections fetched around it then.
+ */
+
+import type { Coordinate } from '../../types/location';
+import {
+  FEELING_TO_BACKEND,
+  type ApiRatedSegment,
+  type RouteSegment,
+  type SubmitRatingsRequest,
+} from '../../types/rating';
+import type { RoadSectionPersonal } from '../api/roadSections';
+import {
+  boundingBoxesOverlap,
+  calculateBoundingBox,
+  calculateDistance,
+  calculateRouteDistance,
+  distanceToPolyline,
+  geometryVertices,
+  paddedBoundingBox,
+  simplifyRoute,
+} from './geoCalculations';
+
+// Douglas-Peucker tolerance for painted segments; keeps every street corner
+export const RATED_SEGMENT_SIMPLIFY_METERS = 3;
+// A sample this close to a section can be on it (GPS and map drift)
+export const MATCH_TOLERANCE_METERS = 15;
+// Spacing of the samples taken along the polyline
+export const MATCH_SAMPLE_METERS = 5;
+// A section is ridden once this much of the polyline ran along it, or half
+// the section if shorter, but never on a single sample
+export const MIN_MATCH_METERS = 25;
+
+export type MatchableSection = Pick<RoadSectionPersonal, 'section_id' | 'geometry'>;
+
+/**
+ * The route between a painted segment's indices (either order), simplified
+ */
+export function segmentPolyline(route: Coordinate[], startIndex: number, endIndex: number): Coordinate[] {
+  const from = Math.max(0, Math.min(startIndex, endIndex));
+  const to = Math.min(route.length - 1, Math.max(startIndex, endIndex));
+  if (to < from) return [];
+  return simplifyRoute(route.slice(from, to + 1), RATED_SEGMENT_SIMPLIFY_METERS);
+}
+
+/**
+ * Points every MATCH_SAMPLE_METERS along a polyline, including both ends
+ */
+function samplePolyline(polyline: Coordinate[]): Coordinate[] {
+  if (polyline.length < 2) return polyline;
+  const samples: Coordinate[] = [polyline[0]];
+  for (let i = 1; i < polyline.length; i++) {
+    const a = polyline[i - 1];
+    const b = polyline[i];
+    const steps = Math.max(1, Math.ceil(calculateDistance(a, b) / MATCH_SAMPLE_METERS));
+    for (let step = 1; step <= steps; step++) {
+      samples.push({
+        latitude: a.latitude + ((b.latitude - a.latitude) * step) / steps,
+        longitude: a.longitude + ((b.longitude - a.longitude) * step) / steps,
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Ids of the known road sections a polyline rode along, in riding order
+ */
+export function matchRoadSections(polyline: Coordinate[], sections: MatchableSection[]): string[] {
+  if (polyline.length < 2 || sections.length === 0) return [];
+
+  // Only sections whose bounds overlap the polyline's can match
+  const bounds = paddedBoundingBox(polyline, MATCH_TOLERANCE_METERS)!;
+  const tracks = sections.flatMap((section) => {
+    const points = geometryVertices(section.geometry);
+    const box = calculateBoundingBox(points);
+    return box && boundingBoxesOverlap(box, bounds)
+      ? [{ id: section.section_id, points, length: calculateRouteDistance(points) }]
+      : [];
+  });
+  const matched = new Map<string, { meters: number; firstSample: number; length: number }>();
+
+  samplePolyline(polyline).forEach((sample, index) => {
+    let nearest: { id: string; distance: number; length: number } | null = null;
+    for (const { id, points, length } of tracks) {
+      const distance = distanceToPolyline(sample, points);
+      if (distance <= MATCH_TOLERANCE_METERS && (!nearest || distance < nearest.distance)) {
+        nearest = { id, distance, length };
+      }
+    }
+    if (!nearest) return;
+
+    const entry = matched.get(nearest.id);
+    if (entry) {
+      entry.meters += MATCH_SAMPLE_METERS;
+    } else {
+      matched.set(nearest.id, { meters: MATCH_SAMPLE_METERS, firstSample: index, length: nearest.length });
+    }
+  });
+
+  return [...matched.entries()]
+    .filter(([, { meters, length }]) => meters >= Math.max(2 * MATCH_SAMPLE_METERS, Math.min(MIN_MATCH_METERS, length / 2)))
+    .sort(([, a], [, b]) => a.firstSample - b.firstSample)
+    .map(([id]) => id);
+}
+
+/**
+ * Road section ids for rated segments sent without any, matched from their
+ * LineString geometry. Segments that already carry ids (places) are kept as
+ * is, as are those queued by builds that sent no geometry.
+ */
+export function withRoadSections<T extends Partial<Pick<ApiRatedSegment, 'geometry' | 'road_section_ids'>>>(
+  segments: T[],
+  sections: MatchableSection[]
+): T[] {
+  return segments.map((segment) =>
+    segment.geometry?.type !== 'LineString' || (segment.road_section_ids?.length ?? 0) > 0
+      ? segment
+      : { ...segment, road_section_ids: matchRoadSections(geometryVertices(segment.geometry), sections) }
+  );
+}
+
+/**
+ * Convert local segments to API format for submission
+ * Uses route coordinates to get each segment's ends and polyline; road
+ * sections are left empty for withRoadSections to fill at send time
+ */
+export function toSubmitRatingsRequest(
+  clientTripId: string,
+  segments: RouteSegment[],
+  route: Coordinate[],
+  backendTripId?: number,
+  ratedAt?: number
+): SubmitRatingsRequest {
+  return {
+    ...(backendTripId !== undefined && { trip_id: backendTripId }),
+    client_trip_id: clientTripId,
+    rated_at: ratedAt ? new Date(ratedAt).toISOString() : new Date().toISOString(),
+    rated_segments: segments.map((seg) => ({
+      start_lat: route[seg.startIndex]?.latitude ?? 0,
+      start_lng: route[seg.startIndex]?.longitude ?? 0,
+      end_lat: route[seg.endIndex]?.latitude ?? 0,
+      end_lng: route[seg.endIndex]?.longitude ?? 0,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: segmentPolyline(route, seg.startIndex, seg.endIndex).map(
+          ({ latitude, longitude }): [number, number] => [longitude, latitude]
+        ),
+      },
+      road_section_ids: [],
+      feeling: FEELING_TO_BACKEND[seg.feeling],
+      ...(seg.tags && seg.tags.length > 0 && { tags: seg.tags }),
+      ...(seg.note && { note: seg.note }),
+    })),
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Route following
+ *
+ * A guide track is a past trip or a planned route the rider wants to
+ * re-ride. Each live fix is snapped to the nearest point on the track,
+ * preferring points close to the rider's progress so that a route passing
+ * the same street twice is not skipped ahead. From the snapped
+ * position come the distance remaining, the next turn and whether the rider
+ * has left the track. `advanceFollow` turns consecutive fixes into cues
+ * (off route, back on route, turn ahead, arrived) that the UI plays as
+ * haptics, each fired once per event.
+ */
+
+import type { Coordinate } from '../../types/location';
+import { bearingBetween, calculateDistance, projectOntoSegment, simplifyRoute } from './geoCalculations';
+
+export type TurnDirection = 'left' | 'right';
+
+export interface GuideTurn {
+  /** Distance from the start of the track to the turn, in meters */
+  distanceAlong: number;
+  direction: TurnDirection;
+  /** Change of bearing in degrees, 0-180 */
+  angle: number;
+  coordinate: Coordinate;
+}
+
+export interface GuideTrack {
+  coordinates: Coordinate[];
+  /** Distance from the start to each vertex, in meters */
+  cumulative: number[];
+  length: number;
+  turns: GuideTurn[];
+}
+
+export interface TrackSnap {
+  snapped: Coordinate;
+  /** Index of the segment (coordinates[i] -> coordinates[i + 1]) the fix snapped to */
+  segmentIndex: number;
+  distanceFromTrack: number;
+  distanceAlong: number;
+  distanceRemaining: number;
+  /** Bearing of the snapped segment, degrees clockwise from north */
+  bearing: number;
+}
+
+export type FollowCue = 'offRoute' | 'backOnRoute' | 'turnAhead' | 'arrived';
+
+export interface FollowState {
+  snap: TrackSnap | null;
+  isOffRoute: boolean;
+  arrived: boolean;
+  nextTurn: GuideTurn | null;
+  distanceToNextTurn: number | null;
+  /** distanceAlong of the last turn a cue was given for */
+  announcedTurnAt: number | null;
+}
+
+// Leave the track when further than this; rejoin when back within ON_ROUTE_METERS
+export const OFF_ROUTE_METERS = 40;
+export const ON_ROUTE_METERS = 25;
+// Turn cue is given once the turn is this close
+export const TURN_ALERT_METERS = 50;
+// Arrived when this close to the end of the track
+export const ARRIVAL_METERS = 25;
+// Bearing changes sharper than this count as a turn
+const TURN_ANGLE_DEG = 40;
+// GPS wobble smaller than this is smoothed out before looking for turns
+const TURN_SIMPLIFY_METERS = 10;
+// Window around the last known progress that fixes snap to first
+const BACKTRACK_METERS = 50;
+const LOOKAHEAD_METERS = 250;
+
+export const INITIAL_FOLLOW_STATE: FollowState = {
+  snap: null,
+  isOffRoute: false,
+  arrived: false,
+  nextTurn: null,
+  distanceToNextTurn: null,
+  announcedTurnAt: null,
+};
+
+function findTurns(coordinates: Coordinate[], cumulativeOf: (p: Coordinate) => number): GuideTurn[] {
+  const simplified = simplifyRoute(coordinates, TURN_SIMPLIFY_METERS);
+  const turns: GuideTurn[] = [];
+
+  for (let i = 1; i < simplified.length - 1; i++) {
+    const inBearing = bearingBetween(simplified[i - 1], simplified[i]);
+    const outBearing = bearingBetween(simplified[i], simplified[i + 1]);
+    // Signed change in -180..180; positive turns clockwise (right)
+    const change = ((outBearing - inBearing + 540) % 360) - 180;
+    if (Math.abs(change) >= TURN_ANGLE_DEG) {
+      turns.push({
+        distanceAlong: cumulativeOf(simplified[i]),
+        direction: change > 0 ? 'right' : 'left',
+        angle: Math.abs(change),
+        coordinate: simplified[i],
+      });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Prepare a guide track from route coordinates. Consecutive duplicate points
+ * are dropped.
+ */
+export function createGuideTrack(route: Coordinate[]): GuideTrack {
+  const coordinates: Coordinate[] = [];
+  for (const point of route) {
+    const last = coordinates[coordinates.length - 1];
+    if (!last || last.latitude !== point.latitude || last.longitude !== point.longitude) {
+      coordinates.push({ latitude: point.latitude, longitude: point.longitude });
+    }
+  }
+
+  const cumulative: number[] = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(coordinates[i - 1], coordinates[i]));
+  }
+
+  // simplifyRoute keeps a subset of the original points, so they can be looked up
+  const along = new Map<Coordinate, number>();
+  coordinates.forEach((point, i) => along.set(point, cumulative[i]));
+
+  return {
+    coordinates,
+    cumulative,
+    length: cumulative[cumulative.length - 1] ?? 0,
+    turns: coordinates.length > 2 ? findTurns(coordinates, (p) => along.get(p) ?? 0) : [],
+  };
+}
+
+/**
+ * Snap a position to the track. With `progress` (the last distanceAlong),
+ * segments near the rider's progress win over closer ones elsewhere on the
+ * track, unless none of them is within OFF_ROUTE_METERS.
+ */
+export function snapToTrack(track: GuideTrack, position: Coordinate, progress?: number): TrackSnap | null {
+  const { coordinates, cumulative } = track;
+  if (coordinates.length === 0) return null;
+  if (coordinates.length === 1) {
+    const distance = calculateDistance(position, coordinates[0]);
+    return {
+      snapped: coordinates[0],
+      segmentIndex: 0,
+      distanceFromTrack: distance,
+      distanceAlong: 0,
+      distanceRemaining: 0,
+      bearing: 0,
+    };
+  }
+
+  let best: { index: number; t: number; distance: number } | null = null;
+  let bestNear: { index: number; t: number; distance: number } | null = null;
+  const minAlong = progress === undefined ? -Infinity : progress - BACKTRACK_METERS;
+  const maxAlong = progress === undefined ? Infinity : progress + LOOKAHEAD_METERS;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const projection = projectOntoSegment(position, coordinates[i], coordinates[i + 1]);
+    const candidate = { index: i, ...projection };
+    if (!best || candidate.distance < best.distance) best = candidate;
+    const near = cumulative[i + 1] >= minAlong && cumulative[i] <= maxAlong;
+    if (near && (!bestNear || candidate.distance < bestNear.distance)) {
+      bestNear = candidate;
+    }
+  }
+
+  const chosen = bestNear && bestNear.distance <= OFF_ROUTE_METERS ? bestNear : best!;
+  const a = coordinates[chosen.index];
+  const b = coordinates[chosen.index + 1];
+  const snapped = {
+    latitude: a.latitude + (b.latitude - a.latitude) * chosen.t,
+    longitude: a.longitude + (b.longitude - a.longitude) * chosen.t,
+  };
+  const distanceAlong = cumulative[chosen.index] + (cumulative[chosen.index + 1] - cumulative[chosen.index]) * chosen.t;
+
+  return {
+    snapped,
+    segmentIndex: chosen.index,
+    distanceFromTrack: chosen.distance,
+    distanceAlong,
+    distanceRemaining: Math.max(0, track.length - distanceAlong),
+    bearing: bearingBetween(a, b),
+  };
+}
+
+/**
+ * Fold a new fix into the follow state and return the cues it triggers
+ */
+export function advanceFollow(
+  track: GuideTrack,
+  state: FollowState,
+  position: Coordinate
+): { state: FollowState; cues: FollowCue[] } {
+  const snap = snapToTrack(track, position, state.isOffRoute ? undefined : state.snap?.distanceAlong);
+  if (!snap) return { state, cues: [] };
+
+  const cues: FollowCue[] = [];
+
+  const isOffRoute = state.isOffRoute
+    ? snap.distanceFromTrack > ON_ROUTE_METERS
+    : snap.distanceFromTrack > OFF_ROUTE_METERS;
+  if (isOffRoute && !state.isOffRoute) cues.push('offRoute');
+  if (!isOffRoute && state.isOffRoute) cues.push('backOnRoute');
+
+  const arrived = state.arrived || (!isOffRoute && snap.distanceRemaining <= ARRIVAL_METERS);
+  if (arrived && !state.arrived) cues.push('arrived');
+
+  const nextTurn = track.turns.find((turn) => turn.distanceAlong > snap.distanceAlong) ?? null;
+  const distanceToNextTurn = nextTurn ? nextTurn.distanceAlong - snap.distanceAlong : null;
+
+  let announcedTurnAt = state.announcedTurnAt;
+  if (
+    nextTurn &&
+    !isOffRoute &&
+    !arrived &&
+    distanceToNextTurn !== null &&
+    distanceToNextTurn <= TURN_ALERT_METERS &&
+    announcedTurnAt !== nextTurn.distanceAlong
+  ) {
+    cues.push('turnAhead');
+    announcedTurnAt = nextTurn.distanceAlong;
+  }
+
+  return {
+    state: { snap, isOffRoute, arrived, nextTurn, distanceToNextTurn, announcedTurnAt },
+    cues,
+  };
+}
+
+/**
+ * Compact [lng, lat] JSON for passing a guide track as a route param.
+ * The track is thinned to points that change its shape by more than a couple of meters.
+ */
+export function encodeGuideRoute(route: Coordinate[]): string {
+  const thinned = simplifyRoute(route, 2);
+  return JSON.stringify(
+    thinned.map((p) => [Number(p.longitude.toFixed(5)), Number(p.latitude.toFixed(5))])
+  );
+}
+
+/**
+ * Inverse of encodeGuideRoute; malformed input gives an empty route
+ */
+export function decodeGuideRoute(encoded: string | undefined): Coordinate[] {
+  if (!encoded) return [];
+  try {
+    const parsed = JSON.parse(encoded);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p): p is [number, number] => Array.isArray(p) && typeof p[0] === 'number' && typeof p[1] === 'number')
+      .map(([longitude, latitude]) => ({ latitude, longitude }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * "My routes" map layer
+ *
+ * Every completed trip is drawn at once, so each route is simplified once
+ * (simplified_routes) and drawn from that instead of the full track. Routes
+ * are coloured either by average speed, banded per trip type so a brisk walk
+ * and a brisk ride both read as brisk, or by the comfort rating the rider
+ * painted on the trip.
+ */
+
+import { simplifyRoute } from './geoCalculations';
+import { FEELINGS, UNPAINTED_COLOR, type FeelingType, type RouteSegment } from '../../types/rating';
+import type { Coordinate } from '../../types/location';
+import type { TripType } from '../../types/trip';
+
+// Douglas-Peucker tolerance; well under a street's width at city zoom levels
+export const ROUTE_SIMPLIFY_METERS = 10;
+// Months the date scrubber spans, ending with the current one
+export const SCRUBBER_MONTHS = 24;
+
+export type RouteColorBy = 'speed' | 'comfort';
+
+export type RouteSpeedBand = 'easy' | 'steady' | 'brisk' | 'fast';
+
+export const ROUTE_SPEED_BANDS: readonly RouteSpeedBand[] = ['easy', 'steady', 'brisk', 'fast'];
+
+export const ROUTE_SPEED_COLORS: Record<RouteSpeedBand, string> = {
+  easy: '#42A5F5',
+  steady: '#26A69A',
+  brisk: '#FFA726',
+  fast: '#EF5350',
+};
+
+// Upper bound (km/h) of each band but the last, per trip type
+const SPEED_THRESHOLDS: Record<TripType, [number, number, number]> = {
+  walk: [4, 5, 6],
+  run: [8, 10, 12],
+  cycle: [12, 18, 24],
+  drive: [30, 50, 70],
+};
+
+/**
+ * One trip on the my routes layer
+ */
+export interface MyRoute {
+  tripId: string;
+  backendId: number | null;
+  type: TripType;
+  startTime: number;
+  /** Average speed in km/h */
+  avgSpeed: number;
+  /** Simplified route as [lng, lat] pairs */
+  coordinates: [number, number][];
+  /** Feeling painted over most of the route; null when unrated */
+  comfort: FeelingType | null;
+}
+
+export interface MyRoutesFilters {
+  types: readonly TripType[];
+  /** Inclusive start-time window; every trip when omitted */
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * One month of the date scrubber
+ */
+export interface RouteMonth {
+  start: number;
+  end: number;
+  trips: number;
+}
+
+/**
+ * Simplify a route for the map and round it to ~1 m
+ */
+export function simplifyTripRoute(route: Coordinate[]): [number, number][] {
+  return simplifyRoute(route, ROUTE_SIMPLIFY_METERS).map(({ latitude, longitude }) => [
+    Number(longitude.toFixed(5)),
+    Number(latitude.toFixed(5)),
+  ]);
+}
+
+/**
+ * The feeling covering the most route points
+ */
+export function dominantFeeling(segments: RouteSegment[]): FeelingType | null {
+  const coverage = new Map<FeelingType, number>();
+  for (const segment of segments) {
+    const points = segment.endIndex - segment.startIndex + 1;
+    coverage.set(segment.feeling, (coverage.get(segment.feeling) ?? 0) + points);
+  }
+
+  let dominant: FeelingType | null = null;
+  let most = 0;
+  for (const [feeling, points] of coverage) {
+    if (points > most) {
+      dominant = feeling;
+      most = points;
+    }
+  }
+  return dominant;
+}
+
+export function speedBand(type: TripType, kmh: number): RouteSpeedBand {
+  const index = SPEED_THRESHOLDS[type].findIndex((limit) => kmh < limit);
+  return ROUTE_SPEED_BANDS[index === -1 ? ROUTE_SPEED_BANDS.length - 1 : index];
+}
+
+export function routeColor(route: MyRoute, colorBy: RouteColorBy): string {
+  if (colorBy === 'comfort') {
+    return route.comfort ? FEELINGS[route.comfort].color : UNPAINTED_COLOR;
+  }
+  return ROUTE_SPEED_COLORS[speedBand(route.type, route.avgSpeed)];
+}
+
+export function filterMyRoutes(routes: MyRoute[], filters: MyRoutesFilters): MyRoute[] {
+  const { types, startTime, endTime } = filters;
+  return routes.filter(
+    (route) =>
+      types.includes(route.type) &&
+      (startTime === undefined || route.startTime >= startTime) &&
+      (endTime === undefined || route.startTime <= endTime)
+  );
+}
+
+/**
+ * Routes as one FeatureCollection; each feature carries its line colour and
+ * the ids needed to open the trip
+ */
+export function myRoutesGeoJSON(routes: MyRoute[], colorBy: RouteColorBy): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: routes
+      .filter((route) => route.coordinates.length >= 2)
+      .map((route) => ({
+        type: 'Feature' as const,
+        properties: {
+          tripId: route.tripId,
+          backendId: route.backendId,
+          color: routeColor(route, colorBy),
+        },
+        geometry: { type: 'LineString' as const, coordinates: route.coordinates },
+      })),
+  };
+}
+
+/**
+ * The scrubber's months, oldest first, with how many routes started in each.
+ * Starts at the first route's month, or SCRUBBER_MONTHS back at most.
+ */
+export function routeMonths(routes: MyRoute[], now = Date.now()): RouteMonth[] {
+  const current = new Date(now);
+  const earliest = routes.reduce((min, route) => Math.min(min, route.startTime), now);
+  const first = new Date(earliest);
+  const span = (current.getFullYear() - first.getFullYear()) * 12 + current.getMonth() - first.getMonth() + 1;
+  const count = Math.min(SCRUBBER_MONTHS, Math.max(1, span));
+
+  return Array.from({ length: count }, (_, i) => {
+    const offset = count - 1 - i;
+    const start = new Date(current.getFullYear(), current.getMonth() - offset, 1).getTime();
+    const end = new Date(current.getFullYear(), current.getMonth() - offset + 1, 1).getTime() - 1;
+    return {
+      start,
+      end,
+      trips: routes.filter((route) => route.startTime >= start && route.startTime <= end).length,
+    };
+  });
+}
@@ -0,0 +1,255 @@
+/**
+ * Comfort-aware route planner
+ *
+ * Road sections are turned into a graph: every geometry vertex is a node
+ * (vertices within a few meters of each other are merged, so sections that
+ * meet at a junction connect) and every pair of consecutive vertices is an
+ * edge in both directions. An edge costs its length, scaled up by how
+ * stressful the section is rated and by any hazard reported on it. The
+ * `quietness` preference (0 = fastest, 1 = quietest) sets how much stress
+ * counts, and Dijkstra finds the cheapest path between the nodes nearest to
+ * the start and destination.
+ */
+
+import type { Coordinate } from '../../types/location';
+import { calculateDistance, projectOntoSegment } from './geoCalculations';
+
+/**
+ * Road section geometry with its community score
+ */
+export interface PlannerSection {
+  id: string;
+  coordinates: [number, number][]; // [longitude, latitude]
+  score: number | null; // 1=Stressed .. 4=Enjoyable; null when unrated
+}
+
+export interface RouteEdge {
+  to: number;
+  distance: number; // meters
+  stress: number; // 0 (enjoyable) .. 1 (stressed)
+  score: number | null;
+  hazard: boolean;
+  sectionId: string;
+}
+
+export interface RouteGraph {
+  nodes: Coordinate[];
+  /** Outgoing edges per node index */
+  edges: RouteEdge[][];
+}
+
+export interface PlannedRoute {
+  coordinates: Coordinate[];
+  distance: number; // meters
+  /** Distance-weighted community score over rated edges; null when none are rated */
+  averageScore: number | null;
+  /** Edges on the route that pass a hazard */
+  hazardCount: number;
+  sectionIds: string[];
+}
+
+export interface PlanOptions {
+  /** 0 = shortest path, 1 = avoid stressful roads as much as possible */
+  quietness: number;
+}
+
+// Vertices closer than this snap to the same node (about 5 m)
+const NODE_SNAP_DEG = 0.00005;
+// Start and destination must be this close to a road section
+export const MAX_ENDPOINT_SNAP_METERS = 250;
+// Hazards affect edges that pass within this distance
+export const HAZARD_RADIUS_METERS = 25;
+// Unrated sections count as middling
+const UNRATED_STRESS = 0.5;
+// At full quietness a stressed road costs this many times its length on top of the length itself
+const MAX_STRESS_PENALTY = 3;
+// Hazards are avoided regardless of the preference
+const HAZARD_PENALTY = 4;
+
+/**
+ * Stress of a section from its 1-4 community score
+ */
+export function scoreToStress(score: number | null): number {
+  if (score === null) return UNRATED_STRESS;
+  return (4 - Math.min(4, Math.max(1, score))) / 3;
+}
+
+/**
+ * Cost of travelling an edge at the given quietness preference
+ */
+export function edgeCost(edge: RouteEdge, quietness: number): number {
+  const stressFactor = 1 + Math.min(1, Math.max(0, quietness)) * MAX_STRESS_PENALTY * edge.stress;
+  return edge.distance * stressFactor * (edge.hazard ? 1 + HAZARD_PENALTY : 1);
+}
+
+/**
+ * Build the routing graph from section geometries and hazard locations
+ */
+export function buildRouteGraph(sections: PlannerSection[], hazards: Coordinate[] = []): RouteGraph {
+  const nodes: Coordinate[] = [];
+  const edges: RouteEdge[][] = [];
+  const index = new Map<string, number>();
+
+  const nodeFor = ([longitude, latitude]: [number, number]): number => {
+    const key = `${Math.round(latitude / NODE_SNAP_DEG)}:${Math.round(longitude / NODE_SNAP_DEG)}`;
+    let id = index.get(key);
+    if (id === undefined) {
+      id = nodes.length;
+      index.set(key, id);
+      nodes.push({ latitude, longitude });
+      edges.push([]);
+    }
+    return id;
+  };
+
+  for (const section of sections) {
+    const stress = scoreToStress(section.score);
+    for (let i = 1; i < section.coordinates.length; i++) {
+      const from = nodeFor(section.coordinates[i - 1]);
+      const to = nodeFor(section.coordinates[i]);
+      if (from === to) continue;
+
+      const a = nodes[from];
+      const b = nodes[to];
+      const hazard = hazards.some((h) => projectOntoSegment(h, a, b).distance <= HAZARD_RADIUS_METERS);
+      const edge = { distance: calculateDistance(a, b), stress, score: section.score, hazard, sectionId: section.id };
+      edges[from].push({ ...edge, to });
+      edges[to].push({ ...edge, to: from });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Index of the node nearest to the point, or -1 if none is within
+ * MAX_ENDPOINT_SNAP_METERS
+ */
+export function nearestNode(graph: RouteGraph, point: Coordinate): number {
+  let best = -1;
+  let bestDistance = MAX_ENDPOINT_SNAP_METERS;
+  graph.nodes.forEach((node, i) => {
+    const distance = calculateDistance(point, node);
+    if (distance <= bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Binary min-heap of [cost, node] pairs
+ */
+class MinHeap {
+  private readonly items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Find the cheapest route between two points over the graph.
+ * Returns null when either point is too far from a road section or the two
+ * are not connected.
+ */
+export function planRoute(
+  graph: RouteGraph,
+  from: Coordinate,
+  to: Coordinate,
+  options: PlanOptions
+): PlannedRoute | null {
+  const start = nearestNode(graph, from);
+  const goal = nearestNode(graph, to);
+  if (start === -1 || goal === -1) return null;
+
+  const cost = new Array<number>(graph.nodes.length).fill(Infinity);
+  const via = new Array<RouteEdge | null>(graph.nodes.length).fill(null);
+  const previous = new Array<number>(graph.nodes.length).fill(-1);
+  const queue = new MinHeap();
+
+  cost[start] = 0;
+  queue.push([0, start]);
+
+  while (queue.size > 0) {
+    const [nodeCost, node] = queue.pop()!;
+    if (node === goal) break;
+    if (nodeCost > cost[node]) continue;
+
+    for (const edge of graph.edges[node]) {
+      const next = nodeCost + edgeCost(edge, options.quietness);
+      if (next < cost[edge.to]) {
+        cost[edge.to] = next;
+        via[edge.to] = edge;
+        previous[edge.to] = node;
+        queue.push([next, edge.to]);
+      }
+    }
+  }
+
+  if (cost[goal] === Infinity) return null;
+
+  const path: RouteEdge[] = [];
+  const coordinates: Coordinate[] = [graph.nodes[goal]];
+  for (let node = goal; node !== start; node = previous[node]) {
+    path.unshift(via[node]!);
+    coordinates.unshift(graph.nodes[previous[node]]);
+  }
+
+  let distance = 0;
+  let ratedDistance = 0;
+  let scoreSum = 0;
+  const sectionIds: string[] = [];
+  for (const edge of path) {
+    distance += edge.distance;
+    if (edge.score !== null) {
+      ratedDistance += edge.distance;
+      scoreSum += edge.score * edge.distance;
+    }
+    if (sectionIds[sectionIds.length - 1] !== edge.sectionId) {
+      sectionIds.push(edge.sectionId);
+    }
+  }
+
+  return {
+    coordinates,
+    distance,
+    averageScore: ratedDistance > 0 ? scoreSum / ratedDistance : null,
+    hazardCount: path.filter((edge) => edge.hazard).length,
+    sectionIds,
+  };
+}
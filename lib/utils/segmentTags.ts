@@ -0,0 +1,47 @@
+/**
+ * Tags and notes on stressed or uncomfortable route segments
+ */
+
+import {
+  SEGMENT_NOTE_MAX_LENGTH,
+  SEGMENT_TAG_ORDER,
+  TAGGABLE_FEELINGS,
+  type RouteSegment,
+  type SegmentTag,
+} from '../../types/rating';
+
+/**
+ * Trim a note to what is stored; undefined when nothing is left
+ */
+export function normalizeSegmentNote(note: string | undefined): string | undefined {
+  const trimmed = note?.trim().slice(0, SEGMENT_NOTE_MAX_LENGTH).trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Set a segment's tags and note, dropping both when empty or when its feeling can't carry them
+ */
+export function withSegmentDetails(
+  segment: RouteSegment,
+  details: { tags?: SegmentTag[]; note?: string }
+): RouteSegment {
+  const base: RouteSegment = { startIndex: segment.startIndex, endIndex: segment.endIndex, feeling: segment.feeling };
+  if (!TAGGABLE_FEELINGS.includes(segment.feeling)) return base;
+
+  const tags = SEGMENT_TAG_ORDER.filter((tag) => details.tags?.includes(tag));
+  const note = normalizeSegmentNote(details.note);
+  return {
+    ...base,
+    ...(tags.length > 0 && { tags }),
+    ...(note && { note }),
+  };
+}
+
+/**
+ * Tags with at least one rating, most given first (ties in display order)
+ */
+export function rankTagCounts(counts: Partial<Record<SegmentTag, number>> | undefined): { tag: SegmentTag; count: number }[] {
+  return SEGMENT_TAG_ORDER.map((tag) => ({ tag, count: counts?.[tag] ?? 0 }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,41 @@
+/**
+ * Share File Utility
+ *
+ * Writes generated text (GPX, TCX, GeoJSON, backups) to the cache directory
+ * and opens the system share sheet for it.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface ShareableFile {
+  filename: string;
+  mimeType: string;
+  uti: string;
+  content: string;
+}
+
+/**
+ * Write the file to the cache directory and open the share sheet.
+ * Returns false when sharing is not available on this device.
+ */
+export async function shareTextFile(file: ShareableFile, dialogTitle?: string): Promise<boolean> {
+  if (!(await Sharing.isAvailableAsync())) {
+    console.warn('[ShareFile] Sharing is not available on this device');
+    return false;
+  }
+
+  const target = new File(Paths.cache, file.filename);
+  if (target.exists) {
+    target.delete();
+  }
+  target.create();
+  target.write(file.content);
+
+  await Sharing.shareAsync(target.uri, {
+    mimeType: file.mimeType,
+    UTI: file.uti,
+    dialogTitle,
+  });
+  return true;
+}
@@ -0,0 +1,339 @@
+/**
+ * Track Import Utility
+ *
+ * Parses GPX and FIT files recorded on bike computers and watches into
+ * timestamped track points. Pure functions — the manual entry screen reads
+ * the file and TripManager.createImportedTrip stores the result.
+ */
+
+import type { TripType } from '../../types/trip';
+
+export type TrackFileFormat = 'gpx' | 'fit';
+
+export interface ImportedTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // meters
+  speed: number | null; // m/s
+  timestamp: number; // Unix ms
+}
+
+export interface ImportedTrack {
+  format: TrackFileFormat;
+  name: string | null;
+  type: TripType | null; // activity hint from the file, if it has one
+  points: ImportedTrackPoint[];
+}
+
+/**
+ * Detect the file format from its name. Returns null for unsupported files.
+ */
+export function detectTrackFormat(filename: string): TrackFileFormat | null {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  if (ext === 'gpx') return 'gpx';
+  if (ext === 'fit') return 'fit';
+  return null;
+}
+
+// ===== GPX =====
+
+// GPX <type> is free text: Garmin/Komoot write words, Strava writes numeric codes.
+const GPX_TYPE_MAP: Record<string, TripType> = {
+  cycling: 'cycle',
+  biking: 'cycle',
+  ride: 'cycle',
+  road_biking: 'cycle',
+  mountain_biking: 'cycle',
+  '1': 'cycle',
+  running: 'run',
+  run: 'run',
+  '9': 'run',
+  walking: 'walk',
+  walk: 'walk',
+  hiking: 'walk',
+  '10': 'walk',
+};
+
+/**
+ * Parse a GPX 1.0/1.1 document. Reads <trkpt> (falling back to <rtept>)
+ * with <ele>, <time> and any *:speed extension. Points without a <time>
+ * are dropped — an imported trip needs real timing.
+ */
+export function parseGpx(xml: string): ImportedTrack {
+  if (!/<gpx[\s>]/i.test(xml)) {
+    throw new Error('Not a GPX file');
+  }
+
+  const trk = xml.match(/<trk\b[^>]*>([\s\S]*?)<\/trk>/i)?.[1] ?? '';
+  const name = readTag(trk, 'name') ?? readTag(xml, 'name');
+  const rawType = readTag(trk, 'type')?.toLowerCase().replace(/\s+/g, '_') ?? null;
+
+  let points = readGpxPoints(xml, 'trkpt');
+  if (points.length === 0) {
+    points = readGpxPoints(xml, 'rtept');
+  }
+
+  return {
+    format: 'gpx',
+    name: name ? decodeXml(name) : null,
+    type: rawType ? GPX_TYPE_MAP[rawType] ?? null : null,
+    points: sortAndDedupe(points),
+  };
+}
+
+function readGpxPoints(xml: string, tag: 'trkpt' | 'rtept'): ImportedTrackPoint[] {
+  const points: ImportedTrackPoint[] = [];
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'gi');
+
+  for (const match of xml.matchAll(pattern)) {
+    const attrs = match[1];
+    const body = match[2] ?? '';
+    const lat = Number(readAttr(attrs, 'lat'));
+    const lng = Number(readAttr(attrs, 'lon'));
+    const time = readTag(body, 'time');
+    const timestamp = time ? Date.parse(time) : NaN;
+
+    if (!isValidCoordinate(lat, lng) || isNaN(timestamp)) continue;
+
+    const ele = readTag(body, 'ele');
+    const speed = body.match(/<(?:\w+:)?speed>([^<]+)</i)?.[1];
+
+    points.push({
+      latitude: lat,
+      longitude: lng,
+      altitude: ele != null && !isNaN(Number(ele)) ? Number(ele) : null,
+      speed: speed != null && !isNaN(Number(speed)) ? Number(speed) : null,
+      timestamp,
+    });
+  }
+
+  return points;
+}
+
+function readTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i'));
+  return match ? match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/, '$1').trim() : null;
+}
+
+function readAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match ? match[1] : null;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ===== FIT =====
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_S = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_MESG_SPORT = 12;
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_RECORD = 20;
+const FIT_FIELD_TIMESTAMP = 253;
+
+// FIT sport enum → TripType (1 running, 2 cycling, 11 walking, 17 hiking)
+const FIT_SPORT_MAP: Record<number, TripType> = {
+  1: 'run',
+  2: 'cycle',
+  11: 'walk',
+  17: 'walk',
+};
+
+interface FitFieldDef {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FitFieldDef[];
+  devDataSize: number;
+}
+
+/**
+ * Parse a FIT activity file. Decodes `record` messages (position, altitude,
+ * speed, timestamp — including compressed-timestamp headers) and the sport
+ * from `session` / `sport` messages. Other messages are skipped.
+ */
+export function parseFit(bytes: Uint8Array): ImportedTrack {
+  if (bytes.length < 12) {
+    throw new Error('Not a FIT file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+  if (signature !== '.FIT' || (headerSize !== 12 && headerSize !== 14)) {
+    throw new Error('Not a FIT file');
+  }
+
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, bytes.length);
+  const definitions = new Map<number, FitDefinition>();
+  const points: ImportedTrackPoint[] = [];
+  let sport: TripType | null = null;
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = bytes[offset++];
+
+    // Compressed timestamp header: data message with a 5-bit time offset
+    if (header & 0x80) {
+      const localNum = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+      const def = definitions.get(localNum);
+      if (!def) throw new Error('Corrupt FIT file: missing definition');
+      const values = readFitFields(view, offset, def);
+      offset += fitMessageSize(def);
+      if (def.globalNum === FIT_MESG_RECORD) {
+        const point = fitRecordToPoint(values, lastTimestamp);
+        if (point) points.push(point);
+      }
+      continue;
+    }
+
+    const localNum = header & 0x0f;
+
+    if (header & 0x40) {
+      // Definition message
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+
+      const fields: FitFieldDef[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ num: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+        offset += 3;
+      }
+
+      let devDataSize = 0;
+      if (header & 0x20) {
+        const devFieldCount = bytes[offset++];
+        for (let i = 0; i < devFieldCount; i++) {
+          devDataSize += bytes[offset + 1];
+          offset += 3;
+        }
+      }
+
+      definitions.set(localNum, { globalNum, littleEndian, fields, devDataSize });
+      continue;
+    }
+
+    // Data message
+    const def = definitions.get(localNum);
+    if (!def) throw new Error('Corrupt FIT file: missing definition');
+    const values = readFitFields(view, offset, def);
+    offset += fitMessageSize(def);
+
+    const timestamp = values.get(FIT_FIELD_TIMESTAMP);
+    if (timestamp != null) lastTimestamp = timestamp;
+
+    if (def.globalNum === FIT_MESG_RECORD) {
+      const point = fitRecordToPoint(values, lastTimestamp);
+      if (point) points.push(point);
+    } else if (def.globalNum === FIT_MESG_SESSION && sport === null) {
+      sport = FIT_SPORT_MAP[values.get(5) ?? -1] ?? null;
+    } else if (def.globalNum === FIT_MESG_SPORT && sport === null) {
+      sport = FIT_SPORT_MAP[values.get(0) ?? -1] ?? null;
+    }
+  }
+
+  return {
+    format: 'fit',
+    name: null,
+    type: sport,
+    points: sortAndDedupe(points),
+  };
+}
+
+function fitMessageSize(def: FitDefinition): number {
+  return def.fields.reduce((sum, f) => sum + f.size, 0) + def.devDataSize;
+}
+
+/**
+ * Read the numeric fields of one data message. Invalid (all-ones) values
+ * and non-scalar fields (strings, arrays) are left out of the map.
+ */
+function readFitFields(view: DataView, offset: number, def: FitDefinition): Map<number, number> {
+  const values = new Map<number, number>();
+  let pos = offset;
+
+  for (const field of def.fields) {
+    const value = readFitScalar(view, pos, field, def.littleEndian);
+    if (value != null) values.set(field.num, value);
+    pos += field.size;
+  }
+
+  return values;
+}
+
+function readFitScalar(view: DataView, pos: number, field: FitFieldDef, le: boolean): number | null {
+  const base = field.baseType & 0x1f;
+  // string, float32, float64 and byte arrays are never needed here
+  if (base === 0x07 || base === 0x08 || base === 0x09 || base === 0x0d) return null;
+  const signed = base === 0x01 || base === 0x03 || base === 0x05;
+
+  switch (field.size) {
+    case 1: {
+      const v = signed ? view.getInt8(pos) : view.getUint8(pos);
+      return v === (signed ? 0x7f : 0xff) ? null : v;
+    }
+    case 2: {
+      const v = signed ? view.getInt16(pos, le) : view.getUint16(pos, le);
+      return v === (signed ? 0x7fff : 0xffff) ? null : v;
+    }
+    case 4: {
+      const v = signed ? view.getInt32(pos, le) : view.getUint32(pos, le);
+      return v === (signed ? 0x7fffffff : 0xffffffff) ? null : v;
+    }
+    default:
+      return null;
+  }
+}
+
+function fitRecordToPoint(values: Map<number, number>, fitTimestamp: number): ImportedTrackPoint | null {
+  const latSemi = values.get(0);
+  const lngSemi = values.get(1);
+  if (latSemi == null || lngSemi == null || fitTimestamp === 0) return null;
+
+  const latitude = latSemi * SEMICIRCLES_TO_DEGREES;
+  const longitude = lngSemi * SEMICIRCLES_TO_DEGREES;
+  if (!isValidCoordinate(latitude, longitude)) return null;
+
+  // Prefer the 32-bit "enhanced" fields; both use the same scale/offset
+  const rawAltitude = values.get(78) ?? values.get(2);
+  const rawSpeed = values.get(73) ?? values.get(6);
+
+  return {
+    latitude,
+    longitude,
+    altitude: rawAltitude != null ? rawAltitude / 5 - 500 : null,
+    speed: rawSpeed != null ? rawSpeed / 1000 : null,
+    timestamp: (fitTimestamp + FIT_EPOCH_S) * 1000,
+  };
+}
+
+// ===== Shared =====
+
+function isValidCoordinate(lat: number, lng: number): boolean {
+  return !isNaN(lat) && !isNaN(lng) && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+function sortAndDedupe(points: ImportedTrackPoint[]): ImportedTrackPoint[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  return sorted.filter((p, i) => i === 0 || p.timestamp !== sorted[i - 1].timestamp);
+}
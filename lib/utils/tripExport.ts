@@ -0,0 +1,403 @@
+/**
+ * Trip Export Utility
+ *
+ * Serialises a trip and its recorded points into GPX 1.1, TCX and GeoJSON so
+ * riders can move trips into Strava, Komoot or a GIS tool. Pure functions —
+ * callers (TripManager.exportTrip) load the rows and write the files.
+ */
+
+import type { TripType } from '../../types/trip';
+import type { Coordinate } from '../../types/location';
+import type { MotionSegment } from '../database/db';
+import { calculateDistance } from './geoCalculations';
+
+export type TripExportFormat = 'gpx' | 'tcx' | 'geojson';
+
+/**
+ * Trip fields the exporters need. Satisfied by the SQLite `Trip` row.
+ */
+export interface ExportTripMeta {
+  id: string;
+  type: TripType;
+  start_time: number; // Unix ms
+  end_time: number | null; // Unix ms
+  distance: number; // meters
+  duration: number; // seconds
+  user_note?: string | null;
+}
+
+/**
+ * A single track point. Satisfied by the SQLite `LocationPoint` row.
+ */
+export interface ExportPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  speed?: number | null; // m/s
+  timestamp: number; // Unix ms
+}
+
+/**
+ * A point of a stored or API route, as the trip screens hold it
+ */
+export interface RoutePoint extends Coordinate {
+  timestamp?: string | number; // ISO 8601 or Unix ms
+  altitude?: number | null;
+  speed?: number | null;
+}
+
+/**
+ * Activity span used to split the track. Satisfied by `MotionSegment` rows.
+ */
+export type ExportActivitySpan = Pick<MotionSegment, 't_start' | 't_end' | 'activity'>;
+
+/**
+ * Consecutive points that share one motion activity (null when no
+ * motion segment covers them).
+ */
+export interface ExportChunk {
+  activity: MotionSegment['activity'] | null;
+  points: ExportPoint[];
+}
+
+export interface TripExportFile {
+  format: TripExportFormat;
+  filename: string;
+  mimeType: string;
+  uti: string; // iOS Uniform Type Identifier for the share sheet
+  content: string;
+}
+
+const FILE_TYPES: Record<TripExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', uti: 'com.topografix.gpx' },
+  tcx: { extension: 'tcx', mimeType: 'application/vnd.garmin.tcx+xml', uti: 'public.xml' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', uti: 'public.json' },
+};
+
+// TCX only knows three sports; everything that isn't a ride or a run is "Other".
+const TCX_SPORT: Record<TripType, string> = {
+  walk: 'Other',
+  run: 'Running',
+  cycle: 'Biking',
+  drive: 'Other',
+};
+
+const GPX_TYPE: Record<TripType, string> = {
+  walk: 'walking',
+  run: 'running',
+  cycle: 'cycling',
+  drive: 'driving',
+};
+
+/**
+ * Split points into runs of the same motion activity.
+ * A point belongs to the segment whose [t_start, t_end] covers its timestamp.
+ */
+export function splitByActivity(points: ExportPoint[], segments: ExportActivitySpan[]): ExportChunk[] {
+  const sorted = [...segments].sort((a, b) => a.t_start - b.t_start);
+  const chunks: ExportChunk[] = [];
+
+  for (const point of points) {
+    const seg = sorted.find((s) => point.timestamp >= s.t_start && point.timestamp <= s.t_end);
+    const activity = seg ? seg.activity : null;
+    const last = chunks[chunks.length - 1];
+
+    if (last && last.activity === activity) {
+      last.points.push(point);
+    } else {
+      // Repeat the boundary point so the exported line has no gap
+      const boundary = last ? [last.points[last.points.length - 1]] : [];
+      chunks.push({ activity, points: [...boundary, point] });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Build route points from a `route_data` JSON string.
+ * Used for manual trips that have no `locations` rows.
+ */
+export function pointsFromRouteData(routeData: string | null, trip: ExportTripMeta): ExportPoint[] {
+  if (!routeData) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(routeData);
+    if (!Array.isArray(parsed)) return [];
+    return pointsFromRoute(
+      parsed.map(toRoutePoint).filter((p): p is RoutePoint => p !== null),
+      trip
+    );
+  } catch (error) {
+    console.error('[TripExport] Error parsing route data:', error);
+    return [];
+  }
+}
+
+/**
+ * A stored route point ({lat, lng} or {latitude, longitude}), or null without coordinates
+ */
+function toRoutePoint(p: any): RoutePoint | null {
+  const latitude = p?.lat ?? p?.latitude;
+  const longitude = p?.lng ?? p?.longitude;
+  if (latitude == null || longitude == null) return null;
+  return { latitude, longitude, timestamp: p.timestamp, altitude: p.altitude, speed: p.speed };
+}
+
+/**
+ * Turn route points (ISO or ms timestamps) into export points. Missing
+ * timestamps are spread evenly between the trip start and end.
+ */
+export function pointsFromRoute(route: RoutePoint[], trip: ExportTripMeta): ExportPoint[] {
+  const endTime = trip.end_time ?? trip.start_time + trip.duration * 1000;
+  const step = route.length > 1 ? (endTime - trip.start_time) / (route.length - 1) : 0;
+
+  return route.map((p, i): ExportPoint => {
+    const ts = typeof p.timestamp === 'number' ? p.timestamp : Date.parse(p.timestamp ?? '');
+    return {
+      latitude: p.latitude,
+      longitude: p.longitude,
+      altitude: p.altitude ?? null,
+      speed: p.speed ?? null,
+      timestamp: isNaN(ts) ? Math.round(trip.start_time + i * step) : ts,
+    };
+  });
+}
+
+/**
+ * GPX 1.1. One <trkseg> per activity change; speed via Garmin TrackPointExtension.
+ */
+export function buildGpx(trip: ExportTripMeta, points: ExportPoint[], segments: ExportActivitySpan[] = []): string {
+  const chunks = splitByActivity(points, segments);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Radzi"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"',
+    '  xmlns:radzi="https://www.radzi.com/xmlschemas/gpx/v1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${escapeXml(trackName(trip))}</name>`,
+    `    <time>${isoTime(trip.start_time)}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(trackName(trip))}</name>`,
+  ];
+  if (trip.user_note) {
+    lines.push(`    <desc>${escapeXml(trip.user_note)}</desc>`);
+  }
+  lines.push(`    <type>${GPX_TYPE[trip.type]}</type>`);
+
+  for (const chunk of chunks) {
+    lines.push('    <trkseg>');
+    for (const p of chunk.points) {
+      lines.push(`      <trkpt lat="${formatCoord(p.latitude)}" lon="${formatCoord(p.longitude)}">`);
+      if (p.altitude != null) lines.push(`        <ele>${p.altitude.toFixed(1)}</ele>`);
+      lines.push(`        <time>${isoTime(p.timestamp)}</time>`);
+      if (p.speed != null && p.speed >= 0) {
+        lines.push(
+          `        <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>${p.speed.toFixed(2)}</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>`
+        );
+      }
+      lines.push('      </trkpt>');
+    }
+    // GPX 1.1 puts a segment's extensions after its points
+    if (chunk.activity) {
+      lines.push(`      <extensions><radzi:activity>${chunk.activity}</radzi:activity></extensions>`);
+    }
+    lines.push('    </trkseg>');
+  }
+
+  lines.push('  </trk>', '</gpx>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Garmin TCX v2. One <Lap> per activity change with cumulative distance.
+ */
+export function buildTcx(trip: ExportTripMeta, points: ExportPoint[], segments: ExportActivitySpan[] = []): string {
+  const chunks = splitByActivity(points, segments);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase',
+    '  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    '  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <Activities>',
+    `    <Activity Sport="${TCX_SPORT[trip.type]}">`,
+    `      <Id>${isoTime(trip.start_time)}</Id>`,
+  ];
+
+  let cumulative = 0;
+  let prev: ExportPoint | null = null;
+
+  for (const chunk of chunks) {
+    if (chunk.points.length === 0) continue;
+    const first = chunk.points[0];
+    const last = chunk.points[chunk.points.length - 1];
+
+    let lapDistance = 0;
+    let lapMaxSpeed = 0;
+    for (let i = 1; i < chunk.points.length; i++) {
+      lapDistance += calculateDistance(chunk.points[i - 1], chunk.points[i]);
+    }
+    for (const p of chunk.points) {
+      if (p.speed != null && p.speed > lapMaxSpeed) lapMaxSpeed = p.speed;
+    }
+
+    lines.push(
+      `      <Lap StartTime="${isoTime(first.timestamp)}">`,
+      `        <TotalTimeSeconds>${((last.timestamp - first.timestamp) / 1000).toFixed(1)}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${lapDistance.toFixed(1)}</DistanceMeters>`,
+      `        <MaximumSpeed>${lapMaxSpeed.toFixed(2)}</MaximumSpeed>`,
+      '        <Calories>0</Calories>',
+      '        <Intensity>Active</Intensity>',
+      '        <TriggerMethod>Manual</TriggerMethod>',
+    );
+    lines.push('        <Track>');
+
+    for (const p of chunk.points) {
+      // Boundary points are repeated across laps — don't count them twice
+      if (prev && prev !== p) cumulative += calculateDistance(prev, p);
+      prev = p;
+
+      lines.push(
+        '          <Trackpoint>',
+        `            <Time>${isoTime(p.timestamp)}</Time>`,
+        '            <Position>',
+        `              <LatitudeDegrees>${formatCoord(p.latitude)}</LatitudeDegrees>`,
+        `              <LongitudeDegrees>${formatCoord(p.longitude)}</LongitudeDegrees>`,
+        '            </Position>',
+      );
+      if (p.altitude != null) lines.push(`            <AltitudeMeters>${p.altitude.toFixed(1)}</AltitudeMeters>`);
+      lines.push(`            <DistanceMeters>${cumulative.toFixed(1)}</DistanceMeters>`);
+      if (p.speed != null && p.speed >= 0) {
+        lines.push(
+          `            <Extensions><ns3:TPX><ns3:Speed>${p.speed.toFixed(2)}</ns3:Speed></ns3:TPX></Extensions>`
+        );
+      }
+      lines.push('          </Trackpoint>');
+    }
+
+    lines.push('        </Track>');
+    // TCX puts a lap's notes after its track
+    if (chunk.activity) {
+      lines.push(`        <Notes>${chunk.activity}</Notes>`);
+    }
+    lines.push('      </Lap>');
+  }
+
+  if (trip.user_note) {
+    lines.push(`      <Notes>${escapeXml(trip.user_note)}</Notes>`);
+  }
+  lines.push('    </Activity>', '  </Activities>', '</TrainingCenterDatabase>', '');
+  return lines.join('\n');
+}
+
+/**
+ * GeoJSON FeatureCollection: the full track plus one LineString per activity
+ * change. Coordinates are [lng, lat, alt?]; per-point times and speeds are
+ * carried as parallel `coordTimes` / `speeds` arrays (the togeojson convention).
+ */
+export function buildGeoJson(trip: ExportTripMeta, points: ExportPoint[], segments: ExportActivitySpan[] = []): string {
+  const toFeature = (pts: ExportPoint[], properties: Record<string, unknown>) => ({
+    type: 'Feature' as const,
+    properties: {
+      ...properties,
+      coordTimes: pts.map((p) => isoTime(p.timestamp)),
+      speeds: pts.map((p) => p.speed ?? null),
+    },
+    geometry: {
+      type: 'LineString' as const,
+      coordinates: pts.map((p) =>
+        p.altitude != null
+          ? [formatCoordNum(p.longitude), formatCoordNum(p.latitude), Number(p.altitude.toFixed(1))]
+          : [formatCoordNum(p.longitude), formatCoordNum(p.latitude)]
+      ),
+    },
+  });
+
+  const chunks = splitByActivity(points, segments);
+  const features = [
+    toFeature(points, {
+      kind: 'track',
+      trip_id: trip.id,
+      type: trip.type,
+      start_time: isoTime(trip.start_time),
+      end_time: trip.end_time != null ? isoTime(trip.end_time) : null,
+      distance_m: Math.round(trip.distance),
+      duration_s: Math.round(trip.duration),
+      user_note: trip.user_note ?? null,
+    }),
+    ...chunks
+      .filter((c) => c.points.length >= 2)
+      .map((c, i) =>
+        toFeature(c.points, {
+          kind: 'segment',
+          index: i,
+          activity: c.activity,
+          start_time: isoTime(c.points[0].timestamp),
+          end_time: isoTime(c.points[c.points.length - 1].timestamp),
+        })
+      ),
+  ];
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+/**
+ * Build an export file for the given format, ready to write and share.
+ */
+export function buildTripExport(
+  format: TripExportFormat,
+  trip: ExportTripMeta,
+  points: ExportPoint[],
+  segments: ExportActivitySpan[] = []
+): TripExportFile {
+  const builders: Record<TripExportFormat, typeof buildGpx> = {
+    gpx: buildGpx,
+    tcx: buildTcx,
+    geojson: buildGeoJson,
+  };
+  const fileType = FILE_TYPES[format];
+  const datePart = isoTime(trip.start_time).slice(0, 10);
+
+  return {
+    format,
+    filename: `radzi-${GPX_TYPE[trip.type]}-${datePart}-${sanitizeFilename(trip.id)}.${fileType.extension}`,
+    mimeType: fileType.mimeType,
+    uti: fileType.uti,
+    content: builders[format](trip, points, segments),
+  };
+}
+
+function trackName(trip: ExportTripMeta): string {
+  const label = GPX_TYPE[trip.type];
+  return `Radzi ${label} ${isoTime(trip.start_time).slice(0, 16).replace('T', ' ')}`;
+}
+
+function isoTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function formatCoord(value: number): string {
+  return value.toFixed(7);
+}
+
+function formatCoordNum(value: number): number {
+  return Number(value.toFixed(7));
+}
+
+function sanitizeFilename(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,104 @@
+/**
+ * Trip segment helpers
+ *
+ * Each trip keeps an ordered list of per-mode segments (the trip_segments
+ * table). A multi-modal trip stays one trip and the backend credits CO2 and
+ * distance per segment. These helpers turn segment analysis into rows, total
+ * them per mode and slice a route by segment so each mode can be drawn in its
+ * own colour.
+ */
+
+import type { TripType } from '../../types/trip';
+import type { TripModeSegment } from '../database/db';
+import type { TripSegment } from '../services/MLSegmentDetector';
+
+export type TripSegmentRow = Omit<TripModeSegment, 'id' | 'trip_id' | 'seq'>;
+
+type SegmentTotalsInput = Pick<TripModeSegment, 'type' | 'distance' | 'duration'>;
+type SegmentCo2Input = Pick<TripModeSegment, 'type' | 'distance'>;
+
+export interface ModeTotals {
+  type: TripType;
+  distance: number; // meters
+  duration: number; // seconds
+  co2Saved: number; // kg
+}
+
+/**
+ * Build trip_segments rows from a segment analysis.
+ * Segments without track points have no time range and are left out.
+ */
+export function segmentRowsFromAnalysis(segments: TripSegment[]): TripSegmentRow[] {
+  return segments
+    .filter((seg) => seg.locations.length > 0)
+    .map((seg) => ({
+      type: seg.type,
+      detected_type: seg.type,
+      t_start: seg.locations[0].timestamp,
+      t_end: seg.locations[seg.locations.length - 1].timestamp,
+      distance: seg.distance,
+      duration: seg.duration,
+      avg_speed: seg.avgSpeed,
+      max_speed: seg.maxSpeed,
+      confidence: seg.confidence,
+    }));
+}
+
+/**
+ * The trip's CO2 saving (kg, as credited by the backend) per segment. The
+ * backend uses one factor per km for every mode but driving, so each
+ * non-driving segment's share is its share of that distance.
+ */
+export function segmentCo2Saved(segments: readonly SegmentCo2Input[], tripCo2Saved: number): number[] {
+  const creditedDistance = segments.reduce((sum, seg) => sum + (seg.type === 'drive' ? 0 : seg.distance), 0);
+  return segments.map((seg) =>
+    seg.type === 'drive' || creditedDistance <= 0 ? 0 : (tripCo2Saved * seg.distance) / creditedDistance
+  );
+}
+
+/**
+ * Distance, duration and CO2 per mode, longest distance first
+ */
+export function totalsByMode(segments: readonly SegmentTotalsInput[], tripCo2Saved = 0): ModeTotals[] {
+  const co2 = segmentCo2Saved(segments, tripCo2Saved);
+  const totals = new Map<TripType, ModeTotals>();
+  segments.forEach((seg, i) => {
+    const current = totals.get(seg.type) ?? { type: seg.type, distance: 0, duration: 0, co2Saved: 0 };
+    current.distance += seg.distance;
+    current.duration += seg.duration;
+    current.co2Saved += co2[i];
+    totals.set(seg.type, current);
+  });
+  return [...totals.values()].sort((a, b) => b.distance - a.distance);
+}
+
+/**
+ * The mode covering the most distance, or null without segments
+ */
+export function dominantSegmentType(segments: readonly SegmentTotalsInput[]): TripType | null {
+  return totalsByMode(segments)[0]?.type ?? null;
+}
+
+/**
+ * Route points falling inside each segment's time range, in segment order.
+ * Points without a usable timestamp are skipped; segments that end up with
+ * fewer than two points (nothing to draw) are left out.
+ */
+export function routeBySegment<P extends { timestamp?: string | number }>(
+  route: readonly P[],
+  segments: readonly Pick<TripModeSegment, 'type' | 't_start' | 't_end'>[]
+): { type: TripType; points: P[] }[] {
+  const timed = route
+    .map((point) => ({
+      point,
+      time: typeof point.timestamp === 'number' ? point.timestamp : Date.parse(point.timestamp ?? ''),
+    }))
+    .filter(({ time }) => !isNaN(time));
+
+  return segments
+    .map((seg) => ({
+      type: seg.type,
+      points: timed.filter(({ time }) => time >= seg.t_start && time <= seg.t_end).map(({ point }) => point),
+    }))
+    .filter(({ points }) => points.length >= 2);
+}
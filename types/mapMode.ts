@@ -5,7 +5,7 @@
 /**
  * Main map view mode
  */
-export type MapViewMode = 'heatmap' | 'feedback';
+export type MapViewMode = 'heatmap' | 'feedback' | 'routes';
 
 /**
  * Heatmap sub-mode
@@ -33,6 +33,7 @@ export const MAP_MODE_LABELS = {
   viewMode: {
     heatmap: 'Heatmap',
     feedback: 'Feedback',
+    routes: 'My Routes',
   },
   heatmapMode: {
     global: 'Global',
@@ -5,14 +5,25 @@
  * to paint different feelings on different sections of their routes.
  */
 
-import type { Coordinate } from './location';
-
 /**
  * Feeling states for route segments
  * Represents the user's experience on a section of their route
  */
 export type FeelingType = 'stressed' | 'uncomfortable' | 'comfortable' | 'enjoyable';
 
+/**
+ * Reasons a segment felt bad
+ */
+export type SegmentTag =
+  | 'close_passes'
+  | 'fast_traffic'
+  | 'poor_surface'
+  | 'no_lane'
+  | 'parked_cars'
+  | 'pedestrians'
+  | 'junction'
+  | 'lighting';
+
 /**
  * A painted segment of a route
  * Represents a contiguous section of the route with a specific feeling
@@ -21,6 +32,8 @@ export interface RouteSegment {
   startIndex: number; // Index in route coordinates array
   endIndex: number; // Index in route coordinates array (inclusive)
   feeling: FeelingType;
+  tags?: SegmentTag[]; // Only on stressed/uncomfortable segments
+  note?: string; // Short free text, at most SEGMENT_NOTE_MAX_LENGTH
 }
 
 /**
@@ -33,6 +46,7 @@ export interface TripRating {
   ratedAt: number; // Unix timestamp (ms)
   synced: number; // 0 or 1
   backendId: number | null;
+  version: number; // 1 for the first painting, +1 per edit
   createdAt: number;
   updatedAt: number;
 }
@@ -47,6 +61,7 @@ export interface DBRouteRating {
   rated_at: number;
   synced: number;
   backend_id: number | null;
+  version: number;
   created_at: number;
   updated_at: number;
 }
@@ -74,7 +89,13 @@ export interface ApiRatedSegment {
   start_lng: number;
   end_lat: number;
   end_lng: number;
+  /** The painted stretch of route, simplified, or the junction for point ratings; [lng, lat] */
+  geometry: { type: 'LineString'; coordinates: [number, number][] } | { type: 'Point'; coordinates: [number, number] };
+  /** Known road sections the stretch rode along (or that meet at the junction); empty when none matched on device */
+  road_section_ids: string[];
   feeling: BackendFeelingType;
+  tags?: SegmentTag[];
+  note?: string;
 }
 
 /**
@@ -86,8 +107,16 @@ export interface SubmitRatingsRequest {
   client_trip_id: string;
   rated_at?: string; // ISO 8601 timestamp
   rated_segments: ApiRatedSegment[];
+  version?: number; // Supersedes lower versions for the same client_trip_id
 }
 
+/**
+ * A road section or junction rated from the map rather than a recorded trip
+ */
+export type RatedPlace =
+  | { kind: 'section'; sectionId: string; coordinates: [number, number][] }
+  | { kind: 'junction'; coordinates: [number, number]; sectionIds: string[] };
+
 /**
  * Feeling metadata for UI display
  */
@@ -189,27 +218,59 @@ export function getFeelingInfo(feeling: FeelingType): FeelingInfo {
 export const UNPAINTED_COLOR = '#6B7280';
 
 /**
- * Convert local segments to API format for submission
- * Uses route coordinates to get lat/lng for each segment
+ * Feelings that can carry tags and a note
+ */
+export const TAGGABLE_FEELINGS: readonly FeelingType[] = ['stressed', 'uncomfortable'];
+
+/**
+ * Tags in display order, with their MaterialCommunityIcons names
  */
-export function toSubmitRatingsRequest(
-  clientTripId: string,
-  segments: RouteSegment[],
-  route: Coordinate[],
-  backendTripId?: number,
+export const SEGMENT_TAGS: Record<SegmentTag, { icon: string }> = {
+  close_passes: { icon: 'car-side' },
+  fast_traffic: { icon: 'speedometer' },
+  poor_surface: { icon: 'road-variant' },
+  no_lane: { icon: 'bike' },
+  parked_cars: { icon: 'car-brake-parking' },
+  pedestrians: { icon: 'walk' },
+  junction: { icon: 'call-split' },
+  lighting: { icon: 'lightbulb-outline' },
+};
+
+export const SEGMENT_TAG_ORDER = Object.keys(SEGMENT_TAGS) as SegmentTag[];
+
+export const SEGMENT_NOTE_MAX_LENGTH = 140;
+
+/**
+ * Build the submission for a place rated outside of a trip. It goes to the same
+ * endpoint as trip ratings, with `clientKey` (see placeRatingKey) as the client trip id.
+ */
+export function toPlaceRatingRequest(
+  clientKey: string,
+  place: RatedPlace,
+  feeling: FeelingType,
   ratedAt?: number
 ): SubmitRatingsRequest {
+  const [start, end] =
+    place.kind === 'section'
+      ? [place.coordinates[0], place.coordinates[place.coordinates.length - 1]]
+      : [place.coordinates, place.coordinates];
   return {
-    ...(backendTripId !== undefined && { trip_id: backendTripId }),
-    client_trip_id: clientTripId,
+    client_trip_id: clientKey,
     rated_at: ratedAt ? new Date(ratedAt).toISOString() : new Date().toISOString(),
-    rated_segments: segments.map((seg) => ({
-      start_lat: route[seg.startIndex]?.latitude ?? 0,
-      start_lng: route[seg.startIndex]?.longitude ?? 0,
-      end_lat: route[seg.endIndex]?.latitude ?? 0,
-      end_lng: route[seg.endIndex]?.longitude ?? 0,
-      feeling: FEELING_TO_BACKEND[seg.feeling],
-    })),
+    rated_segments: [
+      {
+        start_lat: start[1],
+        start_lng: start[0],
+        end_lat: end[1],
+        end_lng: end[0],
+        geometry:
+          place.kind === 'section'
+            ? { type: 'LineString', coordinates: place.coordinates }
+            : { type: 'Point', coordinates: place.coordinates },
+        road_section_ids: place.kind === 'section' ? [place.sectionId] : place.sectionIds,
+        feeling: FEELING_TO_BACKEND[feeling],
+      },
+    ],
   };
 }
 
@@ -224,6 +285,7 @@ export function fromDBRating(dbRating: DBRouteRating): TripRating {
     ratedAt: dbRating.rated_at,
     synced: dbRating.synced,
     backendId: dbRating.backend_id,
+    version: dbRating.version,
     createdAt: dbRating.created_at,
     updatedAt: dbRating.updated_at,
   };
@@ -240,12 +302,19 @@ export function toDBRating(rating: Partial<TripRating>): Partial<DBRouteRating>
   if (rating.ratedAt !== undefined) result.rated_at = rating.ratedAt;
   if (rating.synced !== undefined) result.synced = rating.synced;
   if (rating.backendId !== undefined) result.backend_id = rating.backendId;
+  if (rating.version !== undefined) result.version = rating.version;
   if (rating.createdAt !== undefined) result.created_at = rating.createdAt;
   if (rating.updatedAt !== undefined) result.updated_at = rating.updatedAt;
 
   return result;
 }
 
+function sameSegmentDetails(a: RouteSegment, b: RouteSegment): boolean {
+  const tagsA = [...(a.tags ?? [])].sort().join();
+  const tagsB = [...(b.tags ?? [])].sort().join();
+  return tagsA === tagsB && (a.note ?? '') === (b.note ?? '');
+}
+
 /**
  * Merge overlapping segments when painting
  * New segment overwrites existing ones in its range
@@ -275,27 +344,27 @@ export function mergeSegments(
     // Part before new segment
     if (seg.startIndex < newStart) {
       result.push({
+        ...seg,
         startIndex: seg.startIndex,
         endIndex: newStart - 1,
-        feeling: seg.feeling,
       });
     }
 
     // Part after new segment
     if (seg.endIndex > newEnd) {
       result.push({
+        ...seg,
         startIndex: newEnd + 1,
         endIndex: seg.endIndex,
-        feeling: seg.feeling,
       });
     }
   }
 
   // Add the new segment
   result.push({
+    ...newSegment,
     startIndex: newStart,
     endIndex: newEnd,
-    feeling: newSegment.feeling,
   });
 
   // Sort by start index and merge adjacent segments with same feeling
@@ -304,9 +373,10 @@ export function mergeSegments(
   const merged: RouteSegment[] = [];
   for (const seg of result) {
     const last = merged[merged.length - 1];
-    // Merge adjacent segments OR close small gaps (≤3 points) between same feelings
+    // Merge adjacent segments OR close small gaps (≤3 points) between same feelings,
+    // unless they were tagged differently
     const gap = seg.startIndex - (last?.endIndex ?? -999);
-    if (last && last.feeling === seg.feeling && gap >= 1 && gap <= 4) {
+    if (last && last.feeling === seg.feeling && sameSegmentDetails(last, seg) && gap >= 1 && gap <= 4) {
       // Extend last segment to cover the gap and include this segment
       last.endIndex = seg.endIndex;
     } else {
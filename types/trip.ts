@@ -2,7 +2,7 @@
  * Trip and route types for activity tracking
  */
 
-import type { Coordinate } from './location';
+import type { Coordinate, Location } from './location';
 
 /**
  * Type of activity
@@ -120,6 +120,17 @@ export interface ManualTripDto {
   routeData?: Coordinate[];
 }
 
+/**
+ * Imported (GPX / FIT) trip DTO
+ */
+export interface ImportedTripDto {
+  userId: string;
+  type: TripType;
+  points: Location[]; // timestamped track points from the file
+  source: 'gpx' | 'fit';
+  notes?: string;
+}
+
 /**
  * Get display name for trip type
  */